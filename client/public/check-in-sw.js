@@ -0,0 +1,37 @@
+// Keeps an event's check-in page available offline for gate scanning. It is registered with the
+// page's own scope (/events/:id/scan), so it only ever handles that page and the scripts, styles
+// and images it loads. These are fetched from the network first and served from the cache when
+// there is no connection. API responses are never cached; offline scanning works from the
+// manifest in IndexedDB.
+const CACHE_NAME = "check-in-v2";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  event.respondWith(
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+        }
+        return response;
+      })
+      .catch(async () => (await caches.match(event.request)) || Response.error())
+  );
+});
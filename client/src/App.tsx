@@ -16,8 +16,14 @@ import MyEventsPage from "@/pages/MyEventsPage";
 import AdminDashboardPage from "@/pages/AdminDashboardPage";
 import VendorRegistrationPage from "@/pages/VendorRegistrationPage";
 import VolunteerRegistrationPage from "@/pages/VolunteerRegistrationPage";
+import AttendeeRegistrationPage from "@/pages/AttendeeRegistrationPage";
 import CheckoutPage from "@/pages/CheckoutPage";
 import OrderSuccessPage from "@/pages/OrderSuccessPage";
+import PointOfSalePage from "@/pages/PointOfSalePage";
+import TicketScannerPage from "@/pages/TicketScannerPage";
+import TicketTransferPage from "@/pages/TicketTransferPage";
+import WaitlistClaimPage from "@/pages/WaitlistClaimPage";
+import VenuePage from "@/pages/VenuePage";
 
 import PaymentConnectionsPage from "@/pages/PaymentConnectionsPage";
 import UserProfilePage from "@/pages/UserProfilePage";
@@ -34,6 +40,7 @@ function Router() {
       <Route path="/auth" component={AuthPage} />
       <Route path="/events" component={EventsPage} />
       <Route path="/events/:id" component={EventDetailsPage} />
+      <Route path="/venues/:id" component={VenuePage} />
       <Route path="/privacy" component={PrivacyPolicyPage} />
       <Route path="/terms" component={TermsOfServicePage} />
       <Route path="/cookies" component={CookiesPage} />
@@ -42,14 +49,19 @@ function Router() {
       <ProtectedRoute path="/profile" component={UserProfilePage} />
       <ProtectedRoute path="/checkout" component={CheckoutPage} />
       <ProtectedRoute path="/orders/:id" component={OrderSuccessPage} />
+      <ProtectedRoute path="/transfers/:token" component={TicketTransferPage} />
+      <ProtectedRoute path="/waitlist/claim/:token" component={WaitlistClaimPage} />
       <ProtectedRoute path="/registration/vendor/:id" component={VendorRegistrationPage} />
       <ProtectedRoute path="/registration/volunteer/:id" component={VolunteerRegistrationPage} />
+      <ProtectedRoute path="/registration/attendees/:id" component={AttendeeRegistrationPage} />
       
       {/* Event owner features */}
       <ProtectedRoute path="/my-events" component={MyEventsPage} roles={["event_owner"]} />
       <ProtectedRoute path="/payment-connections" component={PaymentConnectionsPage} roles={["event_owner"]} />
       <ProtectedRoute path="/events/:id/edit" component={MyEventsPage} />
       <ProtectedRoute path="/events/:id/tickets" component={MyEventsPage} />
+      <ProtectedRoute path="/events/:id/pos" component={PointOfSalePage} roles={["event_owner"]} />
+      <ProtectedRoute path="/events/:id/scan" component={TicketScannerPage} roles={["event_owner"]} allowOffline />
       
       {/* Admin-only routes */}
       <ProtectedRoute path="/admin" component={AdminDashboardPage} roles={["admin"]} />
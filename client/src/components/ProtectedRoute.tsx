@@ -6,10 +6,13 @@ interface ProtectedRouteProps {
   path: string;
   component: React.ComponentType<any>;
   roles?: string[];
+  // Render even when there's no connection to look up the user, for pages that work from data
+  // they stored while signed in (offline check-in)
+  allowOffline?: boolean;
 }
 
-export function ProtectedRoute({ path, component: Component, roles }: ProtectedRouteProps) {
-  const { user, isLoading } = useAuth();
+export function ProtectedRoute({ path, component: Component, roles, allowOffline }: ProtectedRouteProps) {
+  const { user, isLoading, error } = useAuth();
 
   if (isLoading) {
     return (
@@ -21,6 +24,10 @@ export function ProtectedRoute({ path, component: Component, roles }: ProtectedR
     );
   }
 
+  if (!user && allowOffline && error && !navigator.onLine) {
+    return <Route path={path} component={Component} />;
+  }
+
   if (!user) {
     return (
       <Route path={path}>
@@ -37,6 +37,7 @@ import {
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import { OrderRefundDialog } from './OrderRefundDialog';
 
 // Interface for event transaction details
 interface EventTransactionData {
@@ -67,6 +68,7 @@ interface EventTransactionDetailsProps {
 
 export function EventTransactionDetails({ eventId, onBack }: EventTransactionDetailsProps) {
   const [activeTab, setActiveTab] = useState('overview');
+  const [refundOrderId, setRefundOrderId] = useState<number | null>(null);
   
   const { data, isLoading, error } = useQuery<EventTransactionData>({
     queryKey: [`/api/admin/events/${eventId}/transactions`],
@@ -471,12 +473,13 @@ export function EventTransactionDetails({ eventId, onBack }: EventTransactionDet
                       <TableHead>Total</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {data.orders.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-4 text-neutral-500">
+                        <TableCell colSpan={7} className="text-center py-4 text-neutral-500">
                           No orders found for this event
                         </TableCell>
                       </TableRow>
@@ -495,7 +498,14 @@ export function EventTransactionDetails({ eventId, onBack }: EventTransactionDet
                           <TableCell>
                             {order.itemCount || (order.items ? order.items.length : '1')} items
                           </TableCell>
-                          <TableCell>{formatCurrency(order.totalAmount || order.amount)}</TableCell>
+                          <TableCell>
+                            {formatCurrency(order.totalAmount || order.amount)}
+                            {order.refundedAmount > 0 && (
+                              <div className="text-xs text-red-600">
+                                -{formatCurrency(order.refundedAmount)} refunded
+                              </div>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <Badge variant={
                               order.paymentStatus === 'paid' ? 'default' :
@@ -506,6 +516,15 @@ export function EventTransactionDetails({ eventId, onBack }: EventTransactionDet
                             </Badge>
                           </TableCell>
                           <TableCell>{formatDate(new Date(order.createdAt))}</TableCell>
+                          <TableCell className="text-right">
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => setRefundOrderId(order.id)}
+                            >
+                              Refunds
+                            </Button>
+                          </TableCell>
                         </TableRow>
                       ))
                     )}
@@ -513,6 +532,12 @@ export function EventTransactionDetails({ eventId, onBack }: EventTransactionDet
                 </Table>
               </CardContent>
             </Card>
+            
+            <OrderRefundDialog 
+              orderId={refundOrderId} 
+              onClose={() => setRefundOrderId(null)}
+              invalidateKeys={[`/api/admin/events/${eventId}/transactions`]}
+            />
           </TabsContent>
           
           <TabsContent value="vendors">
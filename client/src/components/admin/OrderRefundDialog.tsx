@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Order, OrderItem, Refund, Ticket } from '@shared/schema';
+
+interface OrderDetails {
+  order: Order;
+  items: OrderItem[];
+  tickets: Ticket[];
+  refunds: Refund[];
+}
+
+interface OrderRefundDialogProps {
+  orderId: number | null;
+  onClose: () => void;
+  // Query keys to refresh once a refund goes through
+  invalidateKeys?: string[];
+}
+
+export function OrderRefundDialog({ orderId, onClose, invalidateKeys = [] }: OrderRefundDialogProps) {
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState('');
+
+  const { data, isLoading } = useQuery<OrderDetails>({
+    queryKey: [`/api/orders/${orderId}`],
+    enabled: orderId !== null,
+  });
+
+  // Reset the form whenever a different order is opened
+  useEffect(() => {
+    setQuantities({});
+    setReason('');
+  }, [orderId]);
+
+  const refundable = data
+    ? data.order.paymentStatus === 'paid' || data.order.paymentStatus === 'partially_refunded'
+    : false;
+
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId: Number(orderItemId), quantity }));
+
+  const selectedAmount = data
+    ? selectedItems.reduce((sum, selected) => {
+        const item = data.items.find(i => i.id === selected.orderItemId);
+        return sum + (item ? (item.totalPrice / item.quantity) * selected.quantity : 0);
+      }, 0)
+    : 0;
+
+  const remainingAmount = data ? data.order.totalAmount - data.order.refundedAmount : 0;
+
+  const refundMutation = useMutation({
+    mutationFn: async (items?: { orderItemId: number; quantity: number }[]) => {
+      const res = await apiRequest('POST', `/api/orders/${orderId}/refunds`, {
+        items,
+        reason: reason || undefined,
+      });
+      return await res.json() as { order: Order; refund: Refund; tickets: Ticket[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+      invalidateKeys.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+      setQuantities({});
+      setReason('');
+
+      toast({
+        title: 'Refund issued',
+        description: `${formatCurrency(result.refund.amount)} refunded on order ${result.order.orderNumber}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Refund failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const setQuantity = (item: OrderItem, value: string) => {
+    const remaining = item.quantity - item.refundedQuantity;
+    const quantity = Math.max(0, Math.min(remaining, parseInt(value) || 0));
+    setQuantities(prev => ({ ...prev, [item.id]: quantity }));
+  };
+
+  return (
+    <Dialog open={orderId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Refunds{data ? ` for ${data.order.orderNumber}` : ''}</DialogTitle>
+          <DialogDescription>
+            Refund the whole order or choose items and quantities. Refunded tickets are voided and their stock is returned.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between text-sm">
+              <span>Paid: <strong>{formatCurrency(data.order.totalAmount)}</strong></span>
+              <span>Refunded: <strong>{formatCurrency(data.order.refundedAmount)}</strong></span>
+              <span>Remaining: <strong>{formatCurrency(remainingAmount)}</strong></span>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Unit Price</TableHead>
+                  <TableHead>Purchased</TableHead>
+                  <TableHead>Refunded</TableHead>
+                  <TableHead className="w-24">Refund Qty</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.items.map((item) => {
+                  const remaining = item.quantity - item.refundedQuantity;
+                  return (
+                    <TableRow key={`refund-item-${item.id}`}>
+                      <TableCell>{item.name}</TableCell>
+                      <TableCell>{formatCurrency(item.unitPrice)}</TableCell>
+                      <TableCell>{item.quantity}</TableCell>
+                      <TableCell>{item.refundedQuantity}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          value={quantities[item.id] ?? 0}
+                          onChange={(e) => setQuantity(item, e.target.value)}
+                          disabled={!refundable || remaining === 0}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea
+                id="refund-reason"
+                placeholder="e.g. Event rescheduled, customer request"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                disabled={!refundable}
+              />
+            </div>
+
+            <Separator />
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Refund History</h4>
+              {data.refunds.length === 0 ? (
+                <p className="text-sm text-neutral-500">No refunds have been issued for this order.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Items</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.refunds.map((refund) => (
+                      <TableRow key={`refund-${refund.id}`}>
+                        <TableCell>{formatDate(new Date(refund.createdAt))}</TableCell>
+                        <TableCell>{formatCurrency(refund.amount)}</TableCell>
+                        <TableCell>
+                          {(refund.items as { orderItemId: number; quantity: number }[]).map(line => {
+                            const item = data.items.find(i => i.id === line.orderItemId);
+                            return (
+                              <div key={`refund-${refund.id}-item-${line.orderItemId}`} className="text-xs">
+                                {line.quantity} × {item?.name || `Item #${line.orderItemId}`}
+                              </div>
+                            );
+                          })}
+                        </TableCell>
+                        <TableCell className="text-xs">{refund.reason || '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refundMutation.mutate(selectedItems)}
+            disabled={!refundable || selectedItems.length === 0 || refundMutation.isPending}
+          >
+            {refundMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Refund Selected ({formatCurrency(Math.min(selectedAmount, remainingAmount))})
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => refundMutation.mutate(undefined)}
+            disabled={!refundable || refundMutation.isPending}
+          >
+            {refundMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Refund Entire Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
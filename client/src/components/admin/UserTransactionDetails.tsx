@@ -37,6 +37,7 @@ import {
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import { OrderRefundDialog } from './OrderRefundDialog';
 
 // Interface for user transaction details
 interface UserTransactionData {
@@ -51,6 +52,7 @@ interface UserTransactionData {
   };
   orders: any[];
   tickets: any[];
+  ticketTransfers: any[];
   vendorProfile: any;
   vendorRegistrations: any[];
   volunteerProfile: any;
@@ -65,6 +67,7 @@ interface UserTransactionDetailsProps {
 
 export function UserTransactionDetails({ userId, onBack }: UserTransactionDetailsProps) {
   const [activeTab, setActiveTab] = useState('overview');
+  const [refundOrderId, setRefundOrderId] = useState<number | null>(null);
   
   const { data, isLoading, error } = useQuery<UserTransactionData>({
     queryKey: [`/api/admin/users/${userId}/transactions`],
@@ -375,7 +378,14 @@ export function UserTransactionDetails({ userId, onBack }: UserTransactionDetail
                               Order
                             </TableCell>
                             <TableCell>{order.eventTitle || `Event #${order.eventId}`}</TableCell>
-                            <TableCell>{formatCurrency(order.totalAmount || order.amount)}</TableCell>
+                            <TableCell>
+                            {formatCurrency(order.totalAmount || order.amount)}
+                            {order.refundedAmount > 0 && (
+                              <div className="text-xs text-red-600">
+                                -{formatCurrency(order.refundedAmount)} refunded
+                              </div>
+                            )}
+                          </TableCell>
                             <TableCell>{formatDate(new Date(order.createdAt))}</TableCell>
                           </TableRow>
                         ))
@@ -408,12 +418,13 @@ export function UserTransactionDetails({ userId, onBack }: UserTransactionDetail
                       <TableHead>Status</TableHead>
                       <TableHead>Payment Status</TableHead>
                       <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {data.orders.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-4 text-neutral-500">
+                        <TableCell colSpan={7} className="text-center py-4 text-neutral-500">
                           No orders found for this user
                         </TableCell>
                       </TableRow>
@@ -438,6 +449,15 @@ export function UserTransactionDetails({ userId, onBack }: UserTransactionDetail
                             </Badge>
                           </TableCell>
                           <TableCell>{formatDate(new Date(order.createdAt))}</TableCell>
+                          <TableCell className="text-right">
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => setRefundOrderId(order.id)}
+                            >
+                              Refunds
+                            </Button>
+                          </TableCell>
                         </TableRow>
                       ))
                     )}
@@ -445,6 +465,12 @@ export function UserTransactionDetails({ userId, onBack }: UserTransactionDetail
                 </Table>
               </CardContent>
             </Card>
+            
+            <OrderRefundDialog 
+              orderId={refundOrderId} 
+              onClose={() => setRefundOrderId(null)}
+              invalidateKeys={[`/api/admin/users/${userId}/transactions`]}
+            />
           </TabsContent>
           
           <TabsContent value="tickets">
@@ -501,6 +527,66 @@ export function UserTransactionDetails({ userId, onBack }: UserTransactionDetail
                 </Table>
               </CardContent>
             </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center">
+                  <Ticket className="mr-2 h-5 w-5" />
+                  Ticket Transfers
+                </CardTitle>
+                <CardDescription>
+                  Tickets this user sent to or received from someone else.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Direction</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Old Ticket #</TableHead>
+                      <TableHead>New Ticket #</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(data.ticketTransfers || []).length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-4 text-neutral-500">
+                          No ticket transfers for this user
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      data.ticketTransfers.map((transfer) => (
+                        <TableRow key={`transfer-${transfer.id}`}>
+                          <TableCell>
+                            <Badge variant="outline">
+                              {transfer.fromUserId === userId ? 'Sent' : 'Received'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{transfer.eventTitle || `Ticket #${transfer.ticketId}`}</TableCell>
+                          <TableCell>{transfer.oldTicketNumber}</TableCell>
+                          <TableCell>{transfer.newTicketNumber || '-'}</TableCell>
+                          <TableCell>{transfer.toEmail}</TableCell>
+                          <TableCell>
+                            <Badge variant={
+                              transfer.status === 'accepted' ? 'default' :
+                              transfer.status === 'pending' ? 'outline' :
+                              'secondary'
+                            }>
+                              {transfer.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{formatDate(new Date(transfer.acceptedAt || transfer.createdAt))}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
           </TabsContent>
           
           <TabsContent value="vendor">
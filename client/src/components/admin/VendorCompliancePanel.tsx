@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RefreshCw } from 'lucide-react';
+import { formatDate } from '@/lib/utils';
+import { VENDOR_DOCUMENT_TYPE_LABELS, VendorDocumentType } from '@shared/schema';
+
+// One row per vendor registration at an upcoming event, as built by the server's compliance report
+type VendorComplianceRow = {
+  registrationId: number;
+  status: string;
+  eventId: number;
+  eventTitle: string;
+  eventStartDate: string;
+  vendorProfileId: number;
+  businessName: string;
+  missing: VendorDocumentType[];
+  expiring: { id: number; documentType: VendorDocumentType; issuer: string; expiresAt: string }[];
+};
+
+export function VendorCompliancePanel() {
+  const [days, setDays] = useState<string>('30');
+
+  const { data: rows, isLoading, refetch, isFetching } = useQuery<VendorComplianceRow[]>({
+    queryKey: [`/api/admin/vendor-compliance?days=${days}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Vendor Compliance</CardTitle>
+          <CardDescription>
+            Vendors at upcoming events who are missing a required document or hold one that expires soon.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Expiring within" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Expiring in 7 days</SelectItem>
+              <SelectItem value="30">Expiring in 30 days</SelectItem>
+              <SelectItem value="60">Expiring in 60 days</SelectItem>
+              <SelectItem value="90">Expiring in 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !rows || rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Every vendor at an upcoming event has their documents in order.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Missing</TableHead>
+                <TableHead>Expiring</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.registrationId}>
+                  <TableCell className="font-medium">{row.businessName || `Vendor #${row.vendorProfileId}`}</TableCell>
+                  <TableCell>
+                    <Link href={`/events/${row.eventId}`} className="hover:underline">
+                      {row.eventTitle}
+                    </Link>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDate(new Date(row.eventStartDate), 'MMM d, yyyy')}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{row.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {row.missing.length === 0 ? '—' : row.missing.map((type) => (
+                        <Badge key={type} variant="destructive">{VENDOR_DOCUMENT_TYPE_LABELS[type] || type}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {row.expiring.length === 0 ? '—' : row.expiring.map((document) => (
+                      <div key={document.id}>
+                        {VENDOR_DOCUMENT_TYPE_LABELS[document.documentType] || document.documentType}
+                        {' '}({document.issuer}), {formatDate(new Date(document.expiresAt), 'MMM d, yyyy')}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import { WebhookEvent } from '@shared/schema';
+
+// Badge colour for each journal status
+function statusVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+  switch (status) {
+    case 'processed':
+      return 'default';
+    case 'failed':
+      return 'destructive';
+    case 'processing':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+}
+
+export function WebhookEventsPanel() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<string>('failed');
+
+  const queryUrl = statusFilter === 'all'
+    ? '/api/admin/webhook-events'
+    : `/api/admin/webhook-events?status=${statusFilter}`;
+
+  const { data: events, isLoading, refetch, isFetching } = useQuery<WebhookEvent[]>({
+    queryKey: [queryUrl],
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/admin/webhook-events/${id}/replay`);
+      return await res.json() as WebhookEvent;
+    },
+    onSuccess: (event) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/webhook-events'),
+      });
+
+      if (event.status === 'processed') {
+        toast({
+          title: 'Event replayed',
+          description: `${event.type} was processed successfully.`,
+        });
+      } else {
+        toast({
+          title: 'Replay failed',
+          description: event.error || 'The event failed again.',
+          variant: 'destructive',
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Replay failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Stripe Webhook Events</CardTitle>
+          <CardDescription>
+            Every delivery from Stripe is journaled here. Failed events can be re-run once the cause is fixed.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="processing">Processing</SelectItem>
+              <SelectItem value="processed">Processed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !events || events.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No webhook events match this filter.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Stripe Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {formatDate(new Date(event.createdAt), 'MMM d, yyyy h:mm a')}
+                  </TableCell>
+                  <TableCell>{event.type}</TableCell>
+                  <TableCell className="font-mono text-xs">{event.stripeEventId}</TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant(event.status)}>{event.status}</Badge>
+                  </TableCell>
+                  <TableCell>{event.attempts}</TableCell>
+                  <TableCell className="max-w-xs truncate text-xs text-muted-foreground" title={event.error || undefined}>
+                    {event.error || '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {event.status !== 'processed' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => replayMutation.mutate(event.id)}
+                        disabled={replayMutation.isPending}
+                      >
+                        {replayMutation.isPending && replayMutation.variables === event.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                        )}
+                        Replay
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
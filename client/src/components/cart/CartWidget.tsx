@@ -94,7 +94,7 @@ export function CartWidget() {
               </div>
               
               {/* Registration Requirements Alert */}
-              {(hasRegistrationType('vendor') || hasRegistrationType('volunteer')) && (
+              {(hasRegistrationType('vendor') || hasRegistrationType('volunteer') || hasRegistrationType('attendee')) && (
                 <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-md">
                   <p className="text-sm text-amber-800">
                     {nextActionInfo.message}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { ApplicationAnswers, ApplicationFormField } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Loader2, Upload } from "lucide-react";
+
+// Same rule the server applies: a conditional field shows once the earlier field has the given answer
+export function isFieldVisible(field: ApplicationFormField, answers: ApplicationAnswers) {
+  if (!field.showIf) {
+    return true;
+  }
+  const answer = answers[field.showIf.fieldId];
+  return answer !== undefined && answer !== "" && String(answer) === field.showIf.equals;
+}
+
+// Required fields left empty, keyed by field id. The server checks everything else.
+export function getApplicationFormErrors(fields: ApplicationFormField[], answers: ApplicationAnswers) {
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    if (!field.required || !isFieldVisible(field, answers)) continue;
+    const answer = answers[field.id];
+    if (field.type === "checkbox" ? answer !== true : !String(answer ?? "").trim()) {
+      errors[field.id] = field.type === "checkbox" ? "This must be checked" : "This field is required";
+    }
+  }
+  return errors;
+}
+
+// Only the answers to fields that are showing are sent
+export function getVisibleAnswers(fields: ApplicationFormField[], answers: ApplicationAnswers) {
+  return Object.fromEntries(
+    fields
+      .filter(field => isFieldVisible(field, answers) && answers[field.id] !== undefined)
+      .map(field => [field.id, answers[field.id]])
+  );
+}
+
+interface ApplicationFormFieldsProps {
+  fields: ApplicationFormField[];
+  answers: ApplicationAnswers;
+  onChange: (answers: ApplicationAnswers) => void;
+  errors?: Record<string, string>;
+}
+
+// The organizer's questions on a vendor or volunteer application, drawn from the form definition
+export default function ApplicationFormFields({ fields, answers, onChange, errors = {} }: ApplicationFormFieldsProps) {
+  const { toast } = useToast();
+  const [uploadingFieldId, setUploadingFieldId] = useState<string | null>(null);
+
+  const setAnswer = (fieldId: string, value: string | boolean) => {
+    onChange({ ...answers, [fieldId]: value });
+  };
+
+  const handleFileUpload = async (field: ApplicationFormField, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > 10 * 1024 * 1024) {
+      toast({
+        title: "Error",
+        description: "File size should be less than 10MB",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUploadingFieldId(field.id);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/upload/document', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload file');
+      }
+
+      const data = await response.json();
+      setAnswer(field.id, data.url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload file",
+        variant: "destructive"
+      });
+    } finally {
+      setUploadingFieldId(null);
+    }
+  };
+
+  const renderInput = (field: ApplicationFormField) => {
+    const value = answers[field.id];
+    const inputId = `application-${field.id}`;
+
+    switch (field.type) {
+      case "textarea":
+        return (
+          <Textarea
+            id={inputId}
+            className="min-h-24"
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
+          />
+        );
+      case "choice":
+        return (
+          <Select value={typeof value === "string" ? value : ""} onValueChange={(option) => setAnswer(field.id, option)}>
+            <SelectTrigger id={inputId}>
+              <SelectValue placeholder="Choose one" />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options || []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "date":
+        return (
+          <Input
+            id={inputId}
+            type="date"
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
+          />
+        );
+      case "file":
+        return (
+          <div className="flex items-center gap-3">
+            <input
+              id={inputId}
+              type="file"
+              accept="image/*,application/pdf"
+              className="hidden"
+              onChange={(e) => handleFileUpload(field, e)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={uploadingFieldId === field.id}
+              onClick={() => document.getElementById(inputId)?.click()}
+            >
+              {uploadingFieldId === field.id
+                ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                : <Upload className="h-4 w-4 mr-1" />}
+              {value ? "Replace File" : "Upload File"}
+            </Button>
+            {typeof value === "string" && value && (
+              <a href={value} target="_blank" rel="noopener noreferrer" className="flex items-center text-sm text-primary hover:underline">
+                <FileText className="h-4 w-4 mr-1" />
+                View upload
+              </a>
+            )}
+          </div>
+        );
+      default:
+        return (
+          <Input
+            id={inputId}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {fields.filter(field => isFieldVisible(field, answers)).map(field => (
+        <div key={field.id} className="space-y-2">
+          {field.type === "checkbox" ? (
+            <div className="flex items-start space-x-3 rounded-md border p-4">
+              <Checkbox
+                id={`application-${field.id}`}
+                checked={answers[field.id] === true}
+                onCheckedChange={(checked) => setAnswer(field.id, checked === true)}
+              />
+              <div className="space-y-1 leading-none">
+                <Label htmlFor={`application-${field.id}`}>{field.label}{field.required && "*"}</Label>
+                {field.helpText && <p className="text-sm text-muted-foreground">{field.helpText}</p>}
+              </div>
+            </div>
+          ) : (
+            <>
+              <Label htmlFor={`application-${field.id}`}>{field.label}{field.required && "*"}</Label>
+              {renderInput(field)}
+              {field.helpText && <p className="text-sm text-muted-foreground">{field.helpText}</p>}
+            </>
+          )}
+          {errors[field.id] && <p className="text-sm font-medium text-destructive">{errors[field.id]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import type { DragEvent, MouseEvent } from "react";
+
+export type BoothPoint = [number, number];
+
+export interface BoothOutline {
+  id: number;
+  boothNumber: string;
+  points: unknown; // [x, y] fractions of the image size, as stored
+}
+
+interface BoothMapProps {
+  imageUrl: string;
+  booths: BoothOutline[];
+  highlightBoothId?: number | null;
+  getBoothClassName?: (booth: BoothOutline) => string; // Fill and stroke classes for each booth
+  getBoothLabel?: (booth: BoothOutline) => string | null; // Second line under the booth number
+  draftPoints?: BoothPoint[]; // Outline being drawn, not closed yet
+  onMapClick?: (point: BoothPoint) => void;
+  onBoothClick?: (booth: BoothOutline) => void;
+  onBoothDrop?: (booth: BoothOutline, e: DragEvent) => void;
+}
+
+// SVG coordinates run 0 to 100 across each side of the image
+function toSvgPoints(points: BoothPoint[]) {
+  return points.map(([x, y]) => `${x * 100},${y * 100}`).join(" ");
+}
+
+// Labels sit at the average of the corners, which is inside any roughly convex booth
+function getCenter(points: BoothPoint[]): BoothPoint {
+  return [
+    points.reduce((sum, [x]) => sum + x, 0) / points.length,
+    points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+  ];
+}
+
+// A site plan image with numbered booth outlines drawn over it
+export default function BoothMap({
+  imageUrl,
+  booths,
+  highlightBoothId,
+  getBoothClassName,
+  getBoothLabel,
+  draftPoints,
+  onMapClick,
+  onBoothClick,
+  onBoothDrop,
+}: BoothMapProps) {
+  const handleMapClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (!onMapClick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onMapClick([
+      Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    ]);
+  };
+
+  const getClassName = (booth: BoothOutline) => {
+    if (getBoothClassName) {
+      return getBoothClassName(booth);
+    }
+    return booth.id === highlightBoothId
+      ? "fill-primary/50 stroke-primary"
+      : "fill-gray-400/10 stroke-gray-500";
+  };
+
+  return (
+    <div className="relative w-full select-none">
+      <img src={imageUrl} alt="Site plan" className="w-full h-auto rounded-md border" draggable={false} />
+      <svg
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        className={`absolute inset-0 w-full h-full ${onMapClick ? "cursor-crosshair" : ""}`}
+        onClick={handleMapClick}
+      >
+        {booths.map(booth => (
+          <polygon
+            key={booth.id}
+            points={toSvgPoints(booth.points as BoothPoint[])}
+            vectorEffect="non-scaling-stroke"
+            strokeWidth={booth.id === highlightBoothId ? 3 : 1.5}
+            className={`${getClassName(booth)} ${onBoothClick ? "cursor-pointer" : ""}`}
+            onClick={(e) => {
+              if (onBoothClick && !onMapClick) {
+                e.stopPropagation();
+                onBoothClick(booth);
+              }
+            }}
+            onDragOver={onBoothDrop ? (e) => e.preventDefault() : undefined}
+            onDrop={onBoothDrop ? (e) => {
+              e.preventDefault();
+              onBoothDrop(booth, e);
+            } : undefined}
+          />
+        ))}
+        {draftPoints && draftPoints.length > 0 && (
+          <>
+            <polyline
+              points={toSvgPoints(draftPoints)}
+              vectorEffect="non-scaling-stroke"
+              strokeWidth={2}
+              strokeDasharray="4 3"
+              className="fill-primary/20 stroke-primary"
+            />
+            {draftPoints.map(([x, y], index) => (
+              <ellipse key={index} cx={x * 100} cy={y * 100} rx={0.6} ry={0.6} className="fill-primary" />
+            ))}
+          </>
+        )}
+      </svg>
+      {booths.map(booth => {
+        const [x, y] = getCenter(booth.points as BoothPoint[]);
+        const label = getBoothLabel?.(booth);
+        return (
+          <div
+            key={booth.id}
+            className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none text-center leading-tight"
+            style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+          >
+            <div className={`text-xs font-bold ${booth.id === highlightBoothId ? "text-primary" : "text-gray-800"}`}>
+              {booth.boothNumber}
+            </div>
+            {label && <div className="text-[10px] text-gray-700 max-w-[96px] truncate">{label}</div>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
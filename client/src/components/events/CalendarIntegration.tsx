@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Event } from "@shared/schema";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, CalendarPlus } from "lucide-react";
+import { Calendar, Clock, CalendarPlus, Repeat } from "lucide-react";
 import { format } from "date-fns";
 import {
   Popover,
@@ -57,11 +57,15 @@ export default function CalendarIntegration({ event }: CalendarIntegrationProps)
     );
   };
 
-  const getCalendarUrl = () => {
+  const getCalendarUrl = (wholeSeries = false) => {
     // Build URL with selected reminders
     const reminderParam = selectedReminders.length > 0 
       ? `?reminders=${selectedReminders.join(',')}`
       : '';
+    // A series file is a single repeating entry covering every date
+    if (wholeSeries && event.seriesId) {
+      return `/api/event-series/${event.seriesId}/calendar${reminderParam}`;
+    }
     return `/api/events/${event.id}/calendar${reminderParam}`;
   };
 
@@ -219,7 +223,22 @@ export default function CalendarIntegration({ event }: CalendarIntegrationProps)
             </div>
           </div>
           
-          <DialogFooter>
+          <DialogFooter className="gap-2">
+            {event.seriesId && (
+              <a 
+                href={getCalendarUrl(true)} 
+                download={`${event.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_series.ics`}
+              >
+                <Button 
+                  type="button" 
+                  variant="outline"
+                  onClick={() => setDialogOpen(false)}
+                >
+                  <Repeat className="h-4 w-4 mr-2" />
+                  All Dates in Series
+                </Button>
+              </a>
+            )}
             <a 
               href={getCalendarUrl()} 
               download={`${event.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.ics`}
@@ -3,7 +3,7 @@ import { Event } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from "lucide-react";
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Repeat } from "lucide-react";
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, isSameDay } from "date-fns";
 import { Link } from "wouter";
 
@@ -195,8 +195,10 @@ export default function EventCalendar({ events, isLoading, isError }: EventCalen
                   <div className="overflow-y-auto max-h-[80px]">
                     {dayEvents.map(event => (
                       <Link key={event.id} to={`/events/${event.id}`}>
-                        <div className="text-xs p-1 mt-1 rounded bg-secondary/10 text-secondary truncate cursor-pointer hover:bg-secondary/20">
-                          {event.title}
+                        <div className="flex items-center gap-1 text-xs p-1 mt-1 rounded bg-secondary/10 text-secondary cursor-pointer hover:bg-secondary/20">
+                          {/* Occurrences of a recurring series */}
+                          {event.seriesId && <Repeat className="h-3 w-3 shrink-0" />}
+                          <span className="truncate">{event.title}</span>
                         </div>
                       </Link>
                     ))}
@@ -0,0 +1,211 @@
+import { useState, type CSSProperties } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Event, EventSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CalendarPlus, Check, Download, Plus } from "lucide-react";
+import { format } from "date-fns";
+import type { ScheduledSession } from "@/components/ui/session-manager";
+
+// Height of one minute in the grid, so a half hour session is 60px tall
+const PIXELS_PER_MINUTE = 2;
+
+interface EventScheduleProps {
+  event: Event;
+}
+
+// Minutes between two times
+function minutesBetween(from: Date, to: Date) {
+  return (to.getTime() - from.getTime()) / 60000;
+}
+
+// Sessions grouped by the day they start on, in time order
+function groupByDay(sessions: ScheduledSession[]) {
+  const days = new Map<string, ScheduledSession[]>();
+  for (const session of sessions) {
+    const day = format(new Date(session.startTime), "yyyy-MM-dd");
+    days.set(day, [...(days.get(day) || []), session]);
+  }
+  return Array.from(days.values());
+}
+
+// The event's sessions as a grid with one column per stage, and the signed-in user's agenda
+export default function EventSchedule({ event }: EventScheduleProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [view, setView] = useState<"all" | "agenda">("all");
+
+  const { data: sessions = [] } = useQuery<ScheduledSession[]>({
+    queryKey: [`/api/events/${event.id}/sessions`],
+  });
+
+  const { data: agenda = [] } = useQuery<EventSession[]>({
+    queryKey: [`/api/events/${event.id}/agenda`],
+    enabled: !!user,
+  });
+
+  const agendaIds = new Set(agenda.map(session => session.id));
+
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}/agenda`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}/sessions`] });
+  };
+
+  const toggleAgendaMutation = useMutation({
+    mutationFn: async (session: ScheduledSession) => {
+      await apiRequest(agendaIds.has(session.id) ? "DELETE" : "POST", `/api/sessions/${session.id}/agenda`);
+    },
+    onSuccess: invalidateSchedule,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update your agenda",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const handleToggle = (session: ScheduledSession) => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+    toggleAgendaMutation.mutate(session);
+  };
+
+  const visibleSessions = view === "agenda" ? sessions.filter(session => agendaIds.has(session.id)) : sessions;
+
+  const renderSession = (session: ScheduledSession, style?: CSSProperties) => {
+    const isOnAgenda = agendaIds.has(session.id);
+    const isFull = session.spotsLeft === 0 && !isOnAgenda;
+    const speakers = (session.speakers as string[]) || [];
+
+    return (
+      <div
+        key={session.id}
+        style={style}
+        className={`rounded-md border p-2 text-sm overflow-hidden ${isOnAgenda ? "border-primary bg-primary/5" : "bg-white"}`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-xs text-gray-500">
+              {format(new Date(session.startTime), "h:mm a")} – {format(new Date(session.endTime), "h:mm a")}
+            </p>
+            <p className="font-medium leading-tight">{session.title}</p>
+            {speakers.length > 0 && <p className="text-xs text-gray-600 truncate">{speakers.join(", ")}</p>}
+          </div>
+          <Button
+            variant={isOnAgenda ? "default" : "outline"}
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            title={isOnAgenda ? "Remove from my agenda" : "Add to my agenda"}
+            disabled={isFull || toggleAgendaMutation.isPending}
+            onClick={() => handleToggle(session)}
+          >
+            {isOnAgenda ? <Check className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+        {session.spotsLeft !== null && (
+          <Badge variant={isFull ? "destructive" : "secondary"} className="mt-1">
+            {isFull ? "Full" : `${session.spotsLeft} spots left`}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200 mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold">Program</h2>
+        {user && (
+          <div className="flex items-center gap-2">
+            <Tabs value={view} onValueChange={(value) => setView(value as "all" | "agenda")}>
+              <TabsList>
+                <TabsTrigger value="all">All sessions</TabsTrigger>
+                <TabsTrigger value="agenda">My agenda ({agenda.length})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {agenda.length > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/events/${event.id}/agenda/calendar`} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  iCal
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {view === "agenda" ? (
+        visibleSessions.length === 0 ? (
+          <div className="text-center py-8 bg-muted/30 rounded-lg border border-dashed">
+            <CalendarPlus className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            <p className="text-gray-600">Add sessions with the + button to build your agenda.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groupByDay(visibleSessions).map(daySessions => (
+              <div key={daySessions[0].id}>
+                <h3 className="font-medium mb-2">{format(new Date(daySessions[0].startTime), "EEEE, MMMM d")}</h3>
+                <div className="space-y-2">
+                  {daySessions.map(session => (
+                    <div key={session.id}>
+                      <p className="text-xs text-gray-500 mb-1">{session.stage}</p>
+                      {renderSession(session)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="space-y-6">
+          {groupByDay(visibleSessions).map(daySessions => {
+            // Each stage is a column, and sessions are placed by their start time within the day
+            const stages = Array.from(new Set(daySessions.map(session => session.stage)));
+            const dayStart = new Date(Math.min(...daySessions.map(session => new Date(session.startTime).getTime())));
+            const dayEnd = new Date(Math.max(...daySessions.map(session => new Date(session.endTime).getTime())));
+            const height = minutesBetween(dayStart, dayEnd) * PIXELS_PER_MINUTE;
+
+            return (
+              <div key={daySessions[0].id}>
+                <h3 className="font-medium mb-2">{format(dayStart, "EEEE, MMMM d")}</h3>
+                <div className="overflow-x-auto">
+                  <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${stages.length}, minmax(180px, 1fr))` }}>
+                    {stages.map(stage => (
+                      <div key={stage}>
+                        <p className="text-sm font-semibold text-gray-700 mb-2 truncate">{stage}</p>
+                        <div className="relative bg-gray-50 rounded-md" style={{ height }}>
+                          {daySessions.filter(session => session.stage === stage).map(session => renderSession(session, {
+                            position: "absolute",
+                            left: 0,
+                            right: 0,
+                            top: minutesBetween(dayStart, new Date(session.startTime)) * PIXELS_PER_MINUTE,
+                            height: minutesBetween(new Date(session.startTime), new Date(session.endTime)) * PIXELS_PER_MINUTE,
+                          }))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
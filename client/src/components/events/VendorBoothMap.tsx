@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { VendorRegistration } from "@shared/schema";
+import BoothMap, { type BoothOutline } from "@/components/events/BoothMap";
+
+// A vendor registration as /api/my-vendor-registrations returns it
+export type MyVendorRegistration = VendorRegistration & {
+  eventTitle: string;
+  eventStartDate: string | null;
+  spotName: string;
+  boothNumber: string | null;
+  paymentStatus: string | null;
+  amountDue: number | null;
+};
+
+type RegistrationBoothMap = {
+  imageUrl: string | null;
+  booths: BoothOutline[];
+  boothId: number | null;
+};
+
+interface VendorBoothMapProps {
+  registrationId: number;
+}
+
+// The event's site plan with the vendor's own booth picked out
+export default function VendorBoothMap({ registrationId }: VendorBoothMapProps) {
+  const { data, isLoading } = useQuery<RegistrationBoothMap>({
+    queryKey: [`/api/vendor-registrations/${registrationId}/booth-map`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading booth map...</p>;
+  }
+
+  if (!data?.imageUrl) {
+    return <p className="text-sm text-muted-foreground">The organizer hasn't published a booth map yet.</p>;
+  }
+
+  return (
+    <BoothMap
+      imageUrl={data.imageUrl}
+      booths={data.booths}
+      highlightBoothId={data.boothId}
+    />
+  );
+}
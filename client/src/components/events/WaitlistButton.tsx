@@ -0,0 +1,131 @@
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { WaitlistCapacity, WaitlistCapacityType, WaitlistEntry } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+
+// A waitlist entry as /api/my-waitlist returns it
+export type MyWaitlistEntry = WaitlistEntry & {
+  itemName: string;
+  eventTitle: string;
+  placeInLine: number | null;
+};
+
+// Where each kind of waitlist is joined
+const JOIN_PATHS: Record<WaitlistCapacityType, (id: number) => string> = {
+  product: (id) => `/api/products/${id}/waitlist`,
+  event: (id) => `/api/events/${id}/tickets/waitlist`,
+  vendor_spot: (id) => `/api/vendor-spots/${id}/waitlist`,
+  volunteer_shift: (id) => `/api/volunteer-shifts/${id}/waitlist`,
+};
+
+interface WaitlistButtonProps {
+  capacity: WaitlistCapacity;
+  name: string; // What's sold out, for the toasts
+  isActive?: boolean;
+  quantity?: number;
+  entry?: MyWaitlistEntry; // The user's active entry for this waitlist, if any
+}
+
+// Find the user's active entry in a waitlist
+export function findWaitlistEntry(entries: MyWaitlistEntry[] | undefined, capacity: WaitlistCapacity) {
+  return entries?.find(entry =>
+    entry.capacityType === capacity.type &&
+    entry.capacityId === capacity.id &&
+    (entry.status === "waiting" || entry.status === "offered")
+  );
+}
+
+// Stands in for "Sold Out" on a product card or the event's tickets: join the waitlist, see your
+// place, or claim an offer
+export default function WaitlistButton({ capacity, name, isActive = true, quantity = 1, entry }: WaitlistButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", JOIN_PATHS[capacity.type](capacity.id), { quantity });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "You're on the waitlist",
+        description: `We'll email you if ${name} becomes available.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-waitlist"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not join waitlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      await apiRequest("DELETE", `/api/waitlist/${entryId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Left the waitlist",
+        description: `You're no longer waiting for ${name}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-waitlist"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not leave waitlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (entry?.status === "offered") {
+    return (
+      <Button className="w-full text-sm" onClick={() => navigate(`/waitlist/claim/${entry.claimToken}`)}>
+        Claim Your Spot
+      </Button>
+    );
+  }
+
+  if (entry) {
+    return (
+      <div className="w-full space-y-1">
+        <Button
+          variant="outline"
+          className="w-full text-sm"
+          disabled={leaveMutation.isPending}
+          onClick={() => leaveMutation.mutate(entry.id)}
+        >
+          Leave Waitlist
+        </Button>
+        {entry.placeInLine && (
+          <p className="text-xs text-center text-gray-500">#{entry.placeInLine} in line</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="secondary"
+      className="w-full text-sm"
+      disabled={!isActive || joinMutation.isPending}
+      onClick={() => {
+        if (!user) {
+          navigate("/auth");
+          return;
+        }
+        joinMutation.mutate();
+      }}
+    >
+      {joinMutation.isPending ? "Joining..." : "Sold Out – Join Waitlist"}
+    </Button>
+  );
+}
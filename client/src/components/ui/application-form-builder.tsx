@@ -0,0 +1,512 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { ApplicationFormField, ApplicationFormType } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Download, Edit as EditIcon, FileQuestion, Plus, Trash2 } from "lucide-react";
+
+const FIELD_TYPES = [
+  { value: "text", label: "Short answer" },
+  { value: "textarea", label: "Long answer" },
+  { value: "choice", label: "Choice list" },
+  { value: "checkbox", label: "Checkbox" },
+  { value: "date", label: "Date" },
+  { value: "file", label: "File upload" },
+];
+
+const FORM_DETAILS: Record<ApplicationFormType, { title: string; description: string; exportUrl: (eventId: number) => string }> = {
+  vendor: {
+    title: "Vendor Application",
+    description: "Extra questions vendors answer when they apply for a spot.",
+    exportUrl: (eventId) => `/api/events/${eventId}/vendor-registrations/export`,
+  },
+  volunteer: {
+    title: "Volunteer Application",
+    description: "Extra questions volunteers answer when they sign up for a shift.",
+    exportUrl: (eventId) => `/api/events/${eventId}/volunteer-assignments/export`,
+  },
+};
+
+const ALWAYS = "always";
+
+// Options are edited as one comma-separated string and split on submit
+const fieldFormSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  type: z.enum(["text", "textarea", "choice", "checkbox", "date", "file"]),
+  options: z.string().optional(),
+  helpText: z.string().optional(),
+  required: z.boolean(),
+  showIfFieldId: z.string(),
+  showIfEquals: z.string().optional(),
+}).refine(
+  (data) => data.type !== "choice" || !!data.options?.trim(),
+  { message: "List at least one option", path: ["options"] }
+).refine(
+  (data) => data.showIfFieldId === ALWAYS || !!data.showIfEquals,
+  { message: "Choose the answer that shows this field", path: ["showIfEquals"] }
+);
+
+type FieldFormValues = z.infer<typeof fieldFormSchema>;
+
+const defaultValues: FieldFormValues = {
+  label: "",
+  type: "text",
+  options: "",
+  helpText: "",
+  required: false,
+  showIfFieldId: ALWAYS,
+  showIfEquals: "",
+};
+
+// Ids come from the first label a field is given and never change, so answers stay attached
+function getFieldId(label: string, fields: ApplicationFormField[]) {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 32) || "field";
+  let id = base;
+  for (let suffix = 2; fields.some(field => field.id === id); suffix++) {
+    id = `${base}_${suffix}`;
+  }
+  return id;
+}
+
+function describeCondition(field: ApplicationFormField, fields: ApplicationFormField[]) {
+  if (!field.showIf) {
+    return "Always";
+  }
+  const parent = fields.find(other => other.id === field.showIf!.fieldId);
+  const answer = parent?.type === "checkbox"
+    ? (field.showIf.equals === "true" ? "checked" : "not checked")
+    : `"${field.showIf.equals}"`;
+  return `When "${parent?.label || field.showIf.fieldId}" is ${answer}`;
+}
+
+interface ApplicationFormBuilderProps {
+  eventId: number;
+  formType: ApplicationFormType;
+}
+
+export default function ApplicationFormBuilder({ eventId, formType }: ApplicationFormBuilderProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const details = FORM_DETAILS[formType];
+
+  const { data, isLoading } = useQuery<{ fields: ApplicationFormField[] }>({
+    queryKey: [`/api/events/${eventId}/application-forms/${formType}`],
+    enabled: !!eventId,
+  });
+  const fields = data?.fields || [];
+
+  const form = useForm<FieldFormValues>({
+    resolver: zodResolver(fieldFormSchema),
+    defaultValues,
+  });
+
+  // The whole form is saved on every change
+  const saveFormMutation = useMutation({
+    mutationFn: async (newFields: ApplicationFormField[]) => {
+      const res = await apiRequest("PUT", `/api/events/${eventId}/application-forms/${formType}`, { fields: newFields });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/application-forms/${formType}`] });
+      handleDialogOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save application form",
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Reset form and editing state when dialog is closed
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setEditingIndex(null);
+      form.reset(defaultValues);
+    }
+  };
+
+  const handleAddField = () => {
+    setEditingIndex(null);
+    form.reset(defaultValues);
+    setIsDialogOpen(true);
+  };
+
+  const handleEditField = (index: number) => {
+    const field = fields[index];
+    setEditingIndex(index);
+    form.reset({
+      label: field.label,
+      type: field.type,
+      options: (field.options || []).join(", "),
+      helpText: field.helpText || "",
+      required: field.required,
+      showIfFieldId: field.showIf?.fieldId || ALWAYS,
+      showIfEquals: field.showIf?.equals || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (values: FieldFormValues) => {
+    const field: ApplicationFormField = {
+      id: editingIndex !== null ? fields[editingIndex].id : getFieldId(values.label, fields),
+      label: values.label,
+      type: values.type,
+      helpText: values.helpText || null,
+      options: values.type === "choice"
+        ? (values.options || "").split(",").map(option => option.trim()).filter(Boolean)
+        : null,
+      required: values.required,
+      showIf: values.showIfFieldId === ALWAYS ? null : { fieldId: values.showIfFieldId, equals: values.showIfEquals || "" },
+    };
+    saveFormMutation.mutate(editingIndex !== null
+      ? fields.map((existing, index) => index === editingIndex ? field : existing)
+      : [...fields, field]);
+  };
+
+  // Fields that depended on a deleted field are shown to everyone instead
+  const handleDeleteField = (field: ApplicationFormField) => {
+    if (window.confirm(`Are you sure you want to delete "${field.label}"? Answers already given are kept but no longer exported.`)) {
+      saveFormMutation.mutate(fields
+        .filter(other => other.id !== field.id)
+        .map(other => other.showIf?.fieldId === field.id ? { ...other, showIf: null } : other));
+    }
+  };
+
+  const handleMoveField = (index: number, offset: number) => {
+    const reordered = [...fields];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    saveFormMutation.mutate(reordered);
+  };
+
+  // A field can only depend on fields above it
+  const conditionFields = fields.slice(0, editingIndex ?? fields.length);
+  const conditionField = conditionFields.find(field => field.id === form.watch("showIfFieldId"));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <FileQuestion className="mr-2 h-5 w-5" />
+            {details.title}
+          </CardTitle>
+          <CardDescription>{details.description}</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={details.exportUrl(eventId)} download>
+              <Download className="h-4 w-4 mr-1" />
+              Export Answers
+            </a>
+          </Button>
+          <Button onClick={handleAddField}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Field
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading form...</p>
+        ) : fields.length === 0 ? (
+          <div className="text-center py-10 bg-muted/30 rounded-lg border border-dashed">
+            <h3 className="text-lg font-medium mb-2">No extra questions</h3>
+            <p className="text-muted-foreground">Applicants only fill in their {formType} profile</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Shown</TableHead>
+                <TableHead>Required</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map((field, index) => (
+                <TableRow key={field.id}>
+                  <TableCell>{field.label}</TableCell>
+                  <TableCell className="text-sm">
+                    {FIELD_TYPES.find(type => type.value === field.type)?.label || field.type}
+                    {field.type === "choice" && (
+                      <div className="text-muted-foreground">{(field.options || []).join(", ")}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{describeCondition(field, fields)}</TableCell>
+                  <TableCell>
+                    {field.required ? <Badge>Required</Badge> : <Badge variant="secondary">Optional</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0 || saveFormMutation.isPending}
+                      onClick={() => handleMoveField(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === fields.length - 1 || saveFormMutation.isPending}
+                      onClick={() => handleMoveField(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleEditField(index)}>
+                      <EditIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleDeleteField(field)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingIndex !== null ? "Edit Field" : "Add Field"}</DialogTitle>
+            <DialogDescription>
+              Every {formType} applying to this event is asked this.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Label</FormLabel>
+                    <FormControl>
+                      <Input placeholder={formType === "vendor" ? "Do you need electricity?" : "T-shirt size"} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Answer Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {FIELD_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("type") === "choice" && (
+                <FormField
+                  control={form.control}
+                  name="options"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Options</FormLabel>
+                      <FormControl>
+                        <Input placeholder="10x10, 10x20, Food truck" {...field} />
+                      </FormControl>
+                      <FormDescription>Separate options with commas</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="helpText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Help Text (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="showIfFieldId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Show</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("showIfEquals", "");
+                        }}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ALWAYS}>Always</SelectItem>
+                          {conditionFields.map(other => (
+                            <SelectItem key={other.id} value={other.id}>When "{other.label}" is...</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {conditionField && (
+                  <FormField
+                    control={form.control}
+                    name="showIfEquals"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Answer</FormLabel>
+                        {conditionField.type === "choice" || conditionField.type === "checkbox" ? (
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {conditionField.type === "checkbox" ? (
+                                <>
+                                  <SelectItem value="true">Checked</SelectItem>
+                                  <SelectItem value="false">Not checked</SelectItem>
+                                </>
+                              ) : (
+                                (conditionField.options || []).map(option => (
+                                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                                ))
+                              )}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="required"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={field.onChange}
+                        className="h-4 w-4 mt-1"
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Required</FormLabel>
+                      <FormDescription>
+                        Applicants can't submit until it's answered, or checked for a checkbox
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveFormMutation.isPending}>
+                  {saveFormMutation.isPending
+                    ? "Saving..."
+                    : editingIndex !== null ? "Update" : "Add"
+                  }
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
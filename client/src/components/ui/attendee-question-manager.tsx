@@ -0,0 +1,430 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { AttendeeQuestion, Product } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit as EditIcon, Trash2, ClipboardList, Download } from "lucide-react";
+
+const FIELD_TYPES = [
+  { value: "name", label: "Attendee name" },
+  { value: "email", label: "Attendee email" },
+  { value: "text", label: "Short answer" },
+  { value: "textarea", label: "Long answer" },
+  { value: "select", label: "Choice list" },
+];
+
+// Options are edited as one comma-separated string and split on submit
+const questionFormSchema = z.object({
+  label: z.string().min(1, "Question is required"),
+  fieldType: z.enum(["name", "email", "text", "textarea", "select"]),
+  options: z.string().optional(),
+  productId: z.string(),
+  isRequired: z.boolean(),
+  sortOrder: z.coerce.number().int(),
+}).refine(
+  (data) => data.fieldType !== "select" || !!data.options?.trim(),
+  { message: "List at least one option", path: ["options"] }
+);
+
+type QuestionFormValues = z.infer<typeof questionFormSchema>;
+
+interface AttendeeQuestionManagerProps {
+  eventId: number;
+}
+
+const ALL_TICKETS = "all";
+
+const defaultValues: QuestionFormValues = {
+  label: "",
+  fieldType: "text",
+  options: "",
+  productId: ALL_TICKETS,
+  isRequired: true,
+  sortOrder: 0,
+};
+
+// Convert form values into the API payload
+function toPayload(data: QuestionFormValues) {
+  return {
+    label: data.label,
+    fieldType: data.fieldType,
+    options: data.fieldType === "select"
+      ? (data.options || "").split(",").map(option => option.trim()).filter(Boolean)
+      : null,
+    productId: data.productId === ALL_TICKETS ? null : parseInt(data.productId),
+    isRequired: data.isRequired,
+    sortOrder: data.sortOrder,
+  };
+}
+
+export default function AttendeeQuestionManager({ eventId }: AttendeeQuestionManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<AttendeeQuestion | null>(null);
+
+  const { data: questions = [], isLoading } = useQuery<AttendeeQuestion[]>({
+    queryKey: [`/api/events/${eventId}/attendee-questions`],
+    enabled: !!eventId,
+  });
+
+  const { data: tickets = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products", eventId, "ticket"],
+    queryFn: async () => {
+      const res = await fetch(`/api/products?eventId=${eventId}&type=ticket`);
+      if (!res.ok) throw new Error("Failed to fetch products");
+      return res.json();
+    },
+    enabled: !!eventId,
+  });
+
+  const form = useForm<QuestionFormValues>({
+    resolver: zodResolver(questionFormSchema),
+    defaultValues,
+  });
+
+  const invalidateQuestions = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/attendee-questions`] });
+  };
+
+  const saveQuestionMutation = useMutation({
+    mutationFn: async (data: QuestionFormValues) => {
+      const res = editingQuestion
+        ? await apiRequest("PUT", `/api/attendee-questions/${editingQuestion.id}`, toPayload(data))
+        : await apiRequest("POST", `/api/events/${eventId}/attendee-questions`, toPayload(data));
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQuestions();
+      toast({ title: "Success", description: `Question ${editingQuestion ? "updated" : "added"} successfully` });
+      handleDialogOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save question",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/attendee-questions/${id}`);
+    },
+    onSuccess: () => {
+      invalidateQuestions();
+      toast({ title: "Success", description: "Question deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete question",
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Reset form and editing state when dialog is closed
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setEditingQuestion(null);
+      form.reset(defaultValues);
+    }
+  };
+
+  const handleAddQuestion = () => {
+    setEditingQuestion(null);
+    form.reset({ ...defaultValues, sortOrder: questions.length });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditQuestion = (question: AttendeeQuestion) => {
+    setEditingQuestion(question);
+    form.reset({
+      label: question.label,
+      fieldType: question.fieldType as QuestionFormValues["fieldType"],
+      options: ((question.options as string[] | null) || []).join(", "),
+      productId: question.productId ? question.productId.toString() : ALL_TICKETS,
+      isRequired: question.isRequired,
+      sortOrder: question.sortOrder,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteQuestion = (question: AttendeeQuestion) => {
+    if (window.confirm(`Are you sure you want to delete "${question.label}"? Answers already given are kept.`)) {
+      deleteQuestionMutation.mutate(question.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <ClipboardList className="mr-2 h-5 w-5" />
+            Attendee Questions
+          </CardTitle>
+          <CardDescription>
+            Asked for every ticket at checkout, so you know who is holding each one.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/events/${eventId}/attendees/export`} download>
+              <Download className="h-4 w-4 mr-1" />
+              Export Attendees
+            </a>
+          </Button>
+          <Button onClick={handleAddQuestion}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Question
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading questions...</p>
+        ) : questions.length === 0 ? (
+          <div className="text-center py-10 bg-muted/30 rounded-lg border border-dashed">
+            <h3 className="text-lg font-medium mb-2">No attendee questions</h3>
+            <p className="text-muted-foreground">Ticket buyers check out without giving details for each ticket</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Question</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Asked For</TableHead>
+                <TableHead>Required</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {questions.map((question) => (
+                <TableRow key={question.id}>
+                  <TableCell>{question.label}</TableCell>
+                  <TableCell className="text-sm">
+                    {FIELD_TYPES.find(type => type.value === question.fieldType)?.label || question.fieldType}
+                    {question.fieldType === "select" && (
+                      <div className="text-muted-foreground">{((question.options as string[] | null) || []).join(", ")}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {question.productId
+                      ? tickets.find(ticket => ticket.id === question.productId)?.name || `Product #${question.productId}`
+                      : "All tickets"}
+                  </TableCell>
+                  <TableCell>
+                    {question.isRequired ? <Badge>Required</Badge> : <Badge variant="secondary">Optional</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEditQuestion(question)}>
+                      <EditIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleDeleteQuestion(question)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingQuestion ? "Edit Question" : "Add Question"}</DialogTitle>
+            <DialogDescription>
+              Buyers answer this once for each ticket they buy.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveQuestionMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Question</FormLabel>
+                    <FormControl>
+                      <Input placeholder="T-shirt size" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="fieldType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Answer Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {FIELD_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="productId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Asked For</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ALL_TICKETS}>All tickets</SelectItem>
+                          {tickets.map(ticket => (
+                            <SelectItem key={ticket.id} value={ticket.id.toString()}>{ticket.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {form.watch("fieldType") === "select" && (
+                <FormField
+                  control={form.control}
+                  name="options"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Options</FormLabel>
+                      <FormControl>
+                        <Input placeholder="S, M, L, XL" {...field} />
+                      </FormControl>
+                      <FormDescription>Separate options with commas</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="sortOrder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Order</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} />
+                    </FormControl>
+                    <FormDescription>Lower numbers are asked first</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isRequired"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={field.onChange}
+                        className="h-4 w-4 mt-1"
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Required</FormLabel>
+                      <FormDescription>
+                        Checkout is blocked until every ticket has an answer
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveQuestionMutation.isPending}>
+                  {saveQuestionMutation.isPending
+                    ? "Saving..."
+                    : editingQuestion ? "Update" : "Add"
+                  }
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,456 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { VENDOR_DOCUMENT_TYPE_LABELS, VendorBooth, VendorDocumentType } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import BoothMap, { type BoothOutline, type BoothPoint } from "@/components/events/BoothMap";
+import { Map as MapIcon, PenLine, Trash2, Upload, X } from "lucide-react";
+
+type BoothMapVendor = {
+  id: number;
+  status: string;
+  businessName: string;
+  productId: number | null;
+  boothId: number | null;
+  missingDocuments: VendorDocumentType[];
+};
+
+type BoothMapData = {
+  imageUrl: string | null;
+  booths: VendorBooth[];
+  vendors: BoothMapVendor[];
+  spotTypes: { id: number; name: string }[];
+};
+
+const ANY_TYPE = "any";
+
+interface BoothMapManagerProps {
+  eventId: number;
+}
+
+export default function BoothMapManager({ eventId }: BoothMapManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [draftPoints, setDraftPoints] = useState<BoothPoint[] | null>(null);
+  const [selectedBoothId, setSelectedBoothId] = useState<number | null>(null);
+  // The booth dialog edits the selected booth, or names the outline just drawn
+  const [isBoothDialogOpen, setIsBoothDialogOpen] = useState(false);
+  const [boothNumber, setBoothNumber] = useState("");
+  const [boothType, setBoothType] = useState(ANY_TYPE);
+
+  const { data, isLoading } = useQuery<BoothMapData>({
+    queryKey: [`/api/events/${eventId}/booth-map`],
+    enabled: !!eventId,
+  });
+
+  const booths = data?.booths || [];
+  const vendors = data?.vendors || [];
+  const selectedBooth = booths.find(booth => booth.id === selectedBoothId) || null;
+
+  const invalidateBoothMap = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/booth-map`] });
+  };
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive"
+    });
+  };
+
+  const setImageMutation = useMutation({
+    mutationFn: async (boothMapUrl: string) => {
+      const res = await apiRequest("PUT", `/api/events/${eventId}`, { boothMapUrl });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateBoothMap();
+      toast({ title: "Success", description: "Site plan uploaded" });
+    },
+    onError: showError("Failed to save site plan"),
+  });
+
+  const saveBoothMutation = useMutation({
+    mutationFn: async (payload: { boothNumber: string; productId: number | null; points?: BoothPoint[] }) => {
+      const res = payload.points
+        ? await apiRequest("POST", `/api/events/${eventId}/booths`, payload)
+        : await apiRequest("PUT", `/api/booths/${selectedBoothId}`, payload);
+      return res.json();
+    },
+    onSuccess: (booth: VendorBooth) => {
+      invalidateBoothMap();
+      setDraftPoints(null);
+      setSelectedBoothId(booth.id);
+      setIsBoothDialogOpen(false);
+    },
+    onError: showError("Failed to save booth"),
+  });
+
+  const deleteBoothMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/booths/${id}`);
+    },
+    onSuccess: () => {
+      invalidateBoothMap();
+      setSelectedBoothId(null);
+    },
+    onError: showError("Failed to delete booth"),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ boothId, vendorRegistrationId }: { boothId: number; vendorRegistrationId: number | null }) => {
+      const res = await apiRequest("PUT", `/api/booths/${boothId}/assignment`, { vendorRegistrationId });
+      return res.json();
+    },
+    onSuccess: invalidateBoothMap,
+    onError: showError("Failed to assign booth"),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (registrationId: number) => {
+      const res = await apiRequest("PUT", `/api/vendor-registrations/${registrationId}/status`, { status: "approved" });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateBoothMap();
+      toast({ title: "Success", description: "Vendor approved" });
+    },
+    onError: showError("Failed to approve vendor"),
+  });
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "Error",
+        description: "Image size should be less than 5MB",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload site plan');
+      }
+
+      const { imageUrl } = await response.json();
+      setImageMutation.mutate(imageUrl);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload site plan",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const openBoothDialog = (booth: VendorBooth | null) => {
+    setBoothNumber(booth ? booth.boothNumber : String(booths.length + 1));
+    setBoothType(booth?.productId ? booth.productId.toString() : ANY_TYPE);
+    setIsBoothDialogOpen(true);
+  };
+
+  const handleSaveBooth = () => {
+    saveBoothMutation.mutate({
+      boothNumber: boothNumber.trim(),
+      productId: boothType === ANY_TYPE ? null : parseInt(boothType),
+      // Only a newly drawn booth sends its outline
+      ...(draftPoints ? { points: draftPoints } : {}),
+    });
+  };
+
+  const handleDeleteBooth = (booth: VendorBooth) => {
+    const warning = booth.vendorRegistrationId ? " The vendor in it will be unassigned." : "";
+    if (window.confirm(`Delete booth ${booth.boothNumber}?${warning}`)) {
+      deleteBoothMutation.mutate(booth.id);
+    }
+  };
+
+  // Vendors are dragged by their registration id, onto a booth or back to the list
+  const handleBoothDrop = (booth: BoothOutline, e: React.DragEvent) => {
+    const registrationId = parseInt(e.dataTransfer.getData("text/plain"));
+    if (registrationId && booth.id) {
+      assignMutation.mutate({ boothId: booth.id, vendorRegistrationId: registrationId });
+    }
+  };
+
+  const handleUnassignDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const vendor = vendors.find(vendor => vendor.id === parseInt(e.dataTransfer.getData("text/plain")));
+    if (vendor?.boothId) {
+      assignMutation.mutate({ boothId: vendor.boothId, vendorRegistrationId: null });
+    }
+  };
+
+  const getVendorInBooth = (booth: BoothOutline) =>
+    vendors.find(vendor => vendor.boothId === booth.id);
+
+  const getSpotTypeName = (productId: number | null) =>
+    data?.spotTypes.find(type => type.id === productId)?.name;
+
+  const approvedVendors = vendors.filter(vendor => vendor.status === "approved");
+  const pendingVendors = vendors.filter(vendor => vendor.status !== "approved");
+
+  const renderVendor = (vendor: BoothMapVendor) => (
+    <div
+      key={vendor.id}
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData("text/plain", vendor.id.toString())}
+      className="rounded-md border bg-white p-2 text-sm cursor-grab active:cursor-grabbing"
+    >
+      <div className="font-medium">{vendor.businessName}</div>
+      <div className="text-xs text-muted-foreground">
+        {getSpotTypeName(vendor.productId) || "Vendor spot"}
+        {vendor.boothId && ` · Booth ${booths.find(booth => booth.id === vendor.boothId)?.boothNumber}`}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <MapIcon className="mr-2 h-5 w-5" />
+            Booth Map
+          </CardTitle>
+          <CardDescription>
+            Draw numbered booths on your site plan, then drag approved vendors onto them.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <input type="file" accept="image/*" ref={fileInputRef} className="hidden" onChange={handleImageUpload} />
+          <Button
+            variant="outline"
+            disabled={isUploading || setImageMutation.isPending}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {isUploading ? "Uploading..." : data?.imageUrl ? "Replace Site Plan" : "Upload Site Plan"}
+          </Button>
+          {data?.imageUrl && (
+            draftPoints ? (
+              <>
+                <Button variant="outline" onClick={() => setDraftPoints(null)}>
+                  Cancel
+                </Button>
+                <Button disabled={draftPoints.length < 3} onClick={() => openBoothDialog(null)}>
+                  Finish Booth
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => { setSelectedBoothId(null); setDraftPoints([]); }}>
+                <PenLine className="h-4 w-4 mr-1" />
+                Draw Booth
+              </Button>
+            )
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading booth map...</p>
+        ) : !data?.imageUrl ? (
+          <div className="text-center py-10 bg-muted/30 rounded-lg border border-dashed">
+            <h3 className="text-lg font-medium mb-2">No site plan yet</h3>
+            <p className="text-muted-foreground">Upload an image of the grounds or floor plan to draw booths on</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_260px] gap-4">
+            <div className="space-y-2">
+              {draftPoints && (
+                <p className="text-sm text-muted-foreground">
+                  Click each corner of the booth, then Finish Booth. {draftPoints.length} corner(s) so far.
+                </p>
+              )}
+              <BoothMap
+                imageUrl={data.imageUrl}
+                booths={booths}
+                highlightBoothId={selectedBoothId}
+                draftPoints={draftPoints || undefined}
+                getBoothClassName={(booth) => getVendorInBooth(booth)
+                  ? "fill-green-500/40 stroke-green-700"
+                  : booth.id === selectedBoothId ? "fill-primary/40 stroke-primary" : "fill-blue-400/20 stroke-blue-600"}
+                getBoothLabel={(booth) => getVendorInBooth(booth)?.businessName || null}
+                onMapClick={draftPoints ? (point) => setDraftPoints([...draftPoints, point]) : undefined}
+                onBoothClick={(booth) => setSelectedBoothId(booth.id)}
+                onBoothDrop={handleBoothDrop}
+              />
+            </div>
+
+            <div className="space-y-4">
+              {selectedBooth && (
+                <div className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Booth {selectedBooth.boothNumber}</h4>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setSelectedBoothId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {getSpotTypeName(selectedBooth.productId) || "Any vendor spot"}
+                  </p>
+                  {getVendorInBooth(selectedBooth) ? (
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{getVendorInBooth(selectedBooth)!.businessName}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => assignMutation.mutate({ boothId: selectedBooth.id, vendorRegistrationId: null })}
+                      >
+                        Unassign
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Empty</p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openBoothDialog(selectedBooth)}>
+                      Edit
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleDeleteBooth(selectedBooth)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div
+                className="space-y-2 rounded-md bg-muted/30 p-3 min-h-[80px]"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handleUnassignDrop}
+              >
+                <h4 className="font-medium text-sm">Approved vendors</h4>
+                {approvedVendors.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No approved vendors yet</p>
+                ) : (
+                  approvedVendors.map(renderVendor)
+                )}
+                <p className="text-xs text-muted-foreground">Drop a vendor here to take them out of their booth</p>
+              </div>
+
+              {pendingVendors.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm">Awaiting approval</h4>
+                  {pendingVendors.map(vendor => (
+                    <div key={vendor.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                      <div>
+                        <div className="font-medium">{vendor.businessName}</div>
+                        <Badge variant="outline">{vendor.status}</Badge>
+                        {vendor.missingDocuments.length > 0 && (
+                          <div className="text-xs text-destructive mt-1">
+                            Missing: {vendor.missingDocuments.map(type => VENDOR_DOCUMENT_TYPE_LABELS[type]).join(", ")}
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={approveMutation.isPending || vendor.missingDocuments.length > 0}
+                        onClick={() => approveMutation.mutate(vendor.id)}
+                      >
+                        Approve
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isBoothDialogOpen} onOpenChange={setIsBoothDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{draftPoints ? "New Booth" : `Edit Booth ${selectedBooth?.boothNumber || ""}`}</DialogTitle>
+            <DialogDescription>
+              Vendors see this number on their registration and in their confirmation email.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (boothNumber.trim()) {
+                handleSaveBooth();
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="booth-number">Booth Number</Label>
+              <Input id="booth-number" value={boothNumber} onChange={(e) => setBoothNumber(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label>Vendor Spot Type</Label>
+              <Select value={boothType} onValueChange={setBoothType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_TYPE}>Any vendor spot</SelectItem>
+                  {data?.spotTypes.map(type => (
+                    <SelectItem key={type.id} value={type.id.toString()}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsBoothDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveBoothMutation.isPending}>
+                {saveBoothMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -2,7 +2,8 @@ import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Event, insertEventSchema } from "@shared/schema";
+import { Event, Venue, insertEventSchema } from "@shared/schema";
+import { DEFAULT_TIME_ZONE, EVENT_TIME_ZONES } from "@shared/time-zones";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -31,23 +32,41 @@ import {
 import { Upload, ImageIcon, Loader2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertCircle, CalendarIcon, Check, ChevronLeft, ChevronRight } from "lucide-react";
+import { AlertCircle, CalendarIcon, Check, ChevronLeft, ChevronRight, Plus } from "lucide-react";
 import { format } from "date-fns";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import ProductManager from "@/components/ui/product-manager";
+import PromoCodeManager from "@/components/ui/promo-code-manager";
+import AttendeeQuestionManager from "@/components/ui/attendee-question-manager";
+import WaitlistManager from "@/components/ui/waitlist-manager";
+import SeriesManager from "@/components/ui/series-manager";
+import SessionManager from "@/components/ui/session-manager";
+import BoothMapManager from "@/components/ui/booth-map-manager";
+import ApplicationFormBuilder from "@/components/ui/application-form-builder";
+import VendorRequirementsManager from "@/components/ui/vendor-requirements-manager";
+import VenueDialog from "@/components/ui/venue-dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
 
 // Create a more detailed event schema for the form
 const eventFormSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
   location: z.string().min(3, "Location must be at least 3 characters"),
+  venueId: z.number().nullable().optional(), // When set, the server fills in the location from the venue
   startDate: z.date(),
   endDate: z.date(),
   imageUrl: z.string().optional(),
   eventType: z.string().min(1, "Event type is required"),
+  timeZone: z.string().min(1, "Time zone is required"),
   isActive: z.boolean().default(true), // Keep this field as it's in the database
+  passProcessingFees: z.boolean().default(false),
+  // Admin-only overrides of the global platform fee; empty means use the global rate
+  platformFeePercent: z.number().min(0).max(100).nullable().optional(),
+  platformFeeFixed: z.number().min(0).nullable().optional(),
 }).refine((data) => {
   return data.endDate >= data.startDate;
 }, {
@@ -57,6 +76,8 @@ const eventFormSchema = z.object({
 
 type EventFormValues = z.infer<typeof eventFormSchema>;
 
+const OTHER_LOCATION = "other";
+
 interface EventFormProps {
   event?: Event;
   onSuccess?: () => void;
@@ -64,6 +85,7 @@ interface EventFormProps {
 
 export default function EventForm({ event, onSuccess }: EventFormProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const [formStartDate, setFormStartDate] = useState<Date | undefined>(
     event ? new Date(event.startDate) : new Date()
@@ -74,7 +96,14 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
   const [currentStep, setCurrentStep] = useState(1);
   const [newEventId, setNewEventId] = useState<number | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  // For an occurrence of a recurring series: edit just this date, or this and every later one
+  const [editScope, setEditScope] = useState<"this" | "future">("this");
+  const [isVenueDialogOpen, setIsVenueDialogOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  const { data: venues = [] } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
 
   // Event types options
   const eventTypes = [
@@ -93,11 +122,16 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
     title: event?.title || "",
     description: event?.description || "",
     location: event?.location || "",
+    venueId: event?.venueId ?? null,
     startDate: event ? new Date(event.startDate) : new Date(),
     endDate: event ? new Date(event.endDate) : new Date(),
     imageUrl: event?.imageUrl || "",
     eventType: event?.eventType || "",
+    timeZone: event?.timeZone || DEFAULT_TIME_ZONE,
     isActive: event?.isActive ?? true,
+    passProcessingFees: event?.passProcessingFees ?? false,
+    platformFeePercent: event?.platformFeePercent ?? null,
+    platformFeeFixed: event?.platformFeeFixed ?? null,
   };
 
   // Create form
@@ -138,7 +172,7 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
   const updateEventMutation = useMutation({
     mutationFn: async (data: EventFormValues & { id: number }) => {
       const { id, ...eventData } = data;
-      const res = await apiRequest("PUT", `/api/events/${id}`, eventData);
+      const res = await apiRequest("PUT", `/api/events/${id}`, { ...eventData, scope: editScope });
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Failed to update event");
@@ -175,6 +209,12 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
     }
   }
 
+  // Picking a venue stands in for typing the location; the server writes out the full address
+  const handleVenueChange = (venue: Venue | null) => {
+    form.setValue("venueId", venue ? venue.id : null);
+    form.setValue("location", venue ? `${venue.name}, ${venue.address}` : "", { shouldValidate: !!venue });
+  };
+  
   // Handle image upload
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || e.target.files.length === 0) {
@@ -324,19 +364,63 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
         />
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <FormField
-            control={form.control}
-            name="location"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Location</FormLabel>
-                <FormControl>
-                  <Input placeholder="Enter event location" {...field} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
+          <div className="space-y-4">
+            <FormField
+              control={form.control}
+              name="venueId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Venue</FormLabel>
+                  <div className="flex gap-2">
+                    <Select
+                      value={field.value ? field.value.toString() : OTHER_LOCATION}
+                      onValueChange={(value) => handleVenueChange(value === OTHER_LOCATION ? null : venues.find(venue => venue.id === parseInt(value)) || null)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a venue" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {venues.map(venue => (
+                          <SelectItem key={venue.id} value={venue.id.toString()}>
+                            {venue.name}{venue.city ? `, ${venue.city}` : ""}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={OTHER_LOCATION}>Somewhere else</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      title="Add a venue"
+                      onClick={() => setIsVenueDialogOpen(true)}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            {!form.watch("venueId") && (
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter event location" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             )}
-          />
+          </div>
           
           <FormField
             control={form.control}
@@ -362,6 +446,32 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="timeZone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Time Zone</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select time zone" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {EVENT_TIME_ZONES.map(zone => (
+                      <SelectItem key={zone.value} value={zone.value}>
+                        {zone.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Daily tickets are good for one entry per calendar day here</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -555,11 +665,97 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
           />
         </div>
         
+        <FormField
+          control={form.control}
+          name="passProcessingFees"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+              <FormControl>
+                <input
+                  type="checkbox"
+                  checked={field.value}
+                  onChange={field.onChange}
+                  className="h-4 w-4 mt-1"
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Pass processing fees to buyers</FormLabel>
+                <FormDescription>
+                  Buyers pay the card processing fee on top of the ticket price. Otherwise it comes out of your payout.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+        
+        {user?.role === "admin" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="platformFeePercent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Platform Fee (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.1"
+                      placeholder="Global rate"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>Leave empty to use the global platform fee</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="platformFeeFixed"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Platform Fee per Order ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="Global rate"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+        
         {/* All checkboxes for vendor options, volunteer options, merchandise and add-ons have been removed.
            All of these will be managed as products in step 2 */}
         
         {/* Removed isActive field as requested - events will be active by default */}
 
+        {event?.seriesId && (
+          <div className="rounded-md border p-4 space-y-2">
+            <p className="text-sm font-medium">This event is one date of a recurring series. Apply changes to:</p>
+            <RadioGroup value={editScope} onValueChange={(value) => setEditScope(value as "this" | "future")}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="this" id="scope-this" />
+                <Label htmlFor="scope-this">This date only</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="future" id="scope-future" />
+                <Label htmlFor="scope-future">This and all future dates</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+
         <div className="flex justify-between space-x-2 pt-4">
           <Button
             type="button"
@@ -597,6 +793,24 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
       
       <ProductManager eventId={event?.id || newEventId!} />
       
+      <PromoCodeManager eventId={event?.id || newEventId!} />
+      
+      <AttendeeQuestionManager eventId={event?.id || newEventId!} />
+      
+      <SessionManager eventId={event?.id || newEventId!} />
+      
+      <BoothMapManager eventId={event?.id || newEventId!} />
+      
+      <ApplicationFormBuilder eventId={event?.id || newEventId!} formType="vendor" />
+      
+      <VendorRequirementsManager eventId={event?.id || newEventId!} />
+      
+      <ApplicationFormBuilder eventId={event?.id || newEventId!} formType="volunteer" />
+      
+      <WaitlistManager eventId={event?.id || newEventId!} />
+      
+      <SeriesManager eventId={event?.id || newEventId!} />
+      
       <div className="flex justify-between pt-6">
         <Button
           type="button"
@@ -625,6 +839,13 @@ export default function EventForm({ event, onSuccess }: EventFormProps) {
       
       {currentStep === 1 && renderStep1()}
       {currentStep === 2 && renderStep2()}
+      
+      {/* Outside the event form, so submitting the venue doesn't submit the event */}
+      <VenueDialog
+        open={isVenueDialogOpen}
+        onOpenChange={setIsVenueDialogOpen}
+        onSaved={handleVenueChange}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
-import { Product, insertProductSchema } from "@shared/schema";
+import { format } from "date-fns";
+import { Product, PriceStep, VENDOR_PAYMENT_MODES, insertProductSchema } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import {
@@ -56,18 +57,65 @@ import {
   Users, 
   Plus, 
   Edit as EditIcon, 
-  Trash2
+  Trash2,
+  X
 } from "lucide-react";
 
-// Extend product schema for form validation
+// Extend product schema for form validation. Sales dates are kept as strings for the
+// datetime inputs and converted on submit.
 const productFormSchema = insertProductSchema.extend({
   price: z.coerce.number().min(0, "Price must be positive"),
   quantity: z.coerce.number().min(0, "Quantity must be positive"),
+  ticketType: z.string().optional(),
+  entryRule: z.string(),
+  paymentMode: z.enum(VENDOR_PAYMENT_MODES),
+  salesStartAt: z.string().optional(),
+  salesEndAt: z.string().optional(),
+  priceSteps: z.array(z.object({
+    afterSold: z.coerce.number().int().positive("Must be at least 1"),
+    price: z.coerce.number().min(0, "Price must be positive"),
+  })),
 });
 
 // Define product form values type
 type ProductFormValues = z.infer<typeof productFormSchema>;
 
+const TIER_TYPES = [
+  { value: "early-bird", label: "Early Bird" },
+  { value: "general", label: "General Admission" },
+  { value: "vip", label: "VIP" },
+  { value: "student", label: "Student" },
+];
+
+const ENTRY_RULES = [
+  { value: "single", label: "Single entry", description: "One scan in, no re-entry" },
+  { value: "reentry", label: "Re-entry allowed", description: "Can be scanned out and back in" },
+  { value: "daily", label: "Once per day", description: "One entry each day, for multi-day events" },
+];
+
+const PAYMENT_MODES = [
+  { value: "upfront", label: "Pay upfront", description: "Vendors pay at checkout and are refunded if rejected" },
+  { value: "on_approval", label: "Pay after approval", description: "Vendors apply for free and get a payment link once approved" },
+];
+
+// Convert form values into the API payload
+function toPayload(data: ProductFormValues) {
+  const isTicket = data.type === "ticket";
+  return {
+    ...data,
+    ticketType: isTicket && data.ticketType ? data.ticketType : null,
+    entryRule: isTicket ? data.entryRule : "single",
+    paymentMode: data.type === "vendor_spot" ? data.paymentMode : "upfront",
+    salesStartAt: isTicket && data.salesStartAt ? new Date(data.salesStartAt).toISOString() : null,
+    salesEndAt: isTicket && data.salesEndAt ? new Date(data.salesEndAt).toISOString() : null,
+    priceSteps: isTicket && data.priceSteps.length > 0 ? data.priceSteps : null,
+  };
+}
+
+function toDateTimeInput(value: Date | string | null) {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
 interface ProductManagerProps {
   eventId: number;
 }
@@ -115,7 +163,7 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
   const createProductMutation = useMutation({
     mutationFn: async (data: ProductFormValues) => {
       console.log("Creating product:", data);
-      const res = await apiRequest("POST", "/api/products", data);
+      const res = await apiRequest("POST", "/api/products", toPayload(data));
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Failed to create product");
@@ -143,7 +191,7 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
   const updateProductMutation = useMutation({
     mutationFn: async (data: ProductFormValues & { id: number }) => {
       const { id, ...product } = data;
-      const res = await apiRequest("PATCH", `/api/products/${id}`, product);
+      const res = await apiRequest("PATCH", `/api/products/${id}`, toPayload(product));
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Failed to update product");
@@ -198,6 +246,12 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
     price: 0,
     quantity: 0,
     isActive: true,
+    ticketType: "",
+    entryRule: "single",
+    paymentMode: "upfront",
+    salesStartAt: "",
+    salesEndAt: "",
+    priceSteps: [],
   };
 
   // Create form
@@ -206,6 +260,11 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
     defaultValues,
   });
 
+  const priceSteps = useFieldArray({
+    control: form.control,
+    name: "priceSteps",
+  });
+
   // Set form values when editing product
   useEffect(() => {
     if (editingProduct) {
@@ -218,6 +277,12 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
         quantity: editingProduct.quantity || 0,
         isActive: editingProduct.isActive,
         imageUrl: editingProduct.imageUrl || "",
+        ticketType: editingProduct.ticketType || "",
+        entryRule: editingProduct.entryRule,
+        paymentMode: editingProduct.paymentMode === "on_approval" ? "on_approval" : "upfront",
+        salesStartAt: toDateTimeInput(editingProduct.salesStartAt),
+        salesEndAt: toDateTimeInput(editingProduct.salesEndAt),
+        priceSteps: (editingProduct.priceSteps as PriceStep[] | null) || [],
       });
       setProductType(editingProduct.type);
     }
@@ -270,6 +335,12 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
       price: 0,
       quantity: type === "ticket" ? 100 : 0,
       isActive: true,
+      ticketType: "",
+      entryRule: "single",
+      paymentMode: "upfront",
+      salesStartAt: "",
+      salesEndAt: "",
+      priceSteps: [],
     });
     
     setIsDialogOpen(true);
@@ -341,7 +412,14 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
             <CardHeader className="pb-3">
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle className="text-base">{product.name}</CardTitle>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {product.name}
+                    {product.ticketType && (
+                      <Badge variant="outline">
+                        {TIER_TYPES.find(tier => tier.value === product.ticketType)?.label || product.ticketType}
+                      </Badge>
+                    )}
+                  </CardTitle>
                   <CardDescription className="mt-1 line-clamp-2">
                     {product.description || "No description"}
                   </CardDescription>
@@ -365,6 +443,46 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
                     {product.quantity === 0 ? "Unlimited" : product.quantity}
                   </p>
                 </div>
+                {type === "ticket" && (
+                  <>
+                    <div>
+                      <span className="text-muted-foreground">On sale:</span>
+                      <p className="font-medium">
+                        {product.salesStartAt ? format(new Date(product.salesStartAt), "MMM d, yyyy") : "Now"}
+                        {" – "}
+                        {product.salesEndAt ? format(new Date(product.salesEndAt), "MMM d, yyyy") : "No end"}
+                      </p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Sold:</span>
+                      <p className="font-medium">{product.soldCount}</p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Entry:</span>
+                      <p className="font-medium">
+                        {ENTRY_RULES.find(rule => rule.value === product.entryRule)?.label || product.entryRule}
+                      </p>
+                    </div>
+                    {((product.priceSteps as PriceStep[] | null) || []).length > 0 && (
+                      <div className="col-span-2">
+                        <span className="text-muted-foreground">Price steps:</span>
+                        <p className="font-medium">
+                          {(product.priceSteps as PriceStep[])
+                            .map(step => `$${step.price.toFixed(2)} after ${step.afterSold} sold`)
+                            .join(", ")}
+                        </p>
+                      </div>
+                    )}
+                  </>
+                )}
+                {type === "vendor_spot" && (
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Payment:</span>
+                    <p className="font-medium">
+                      {PAYMENT_MODES.find(mode => mode.value === product.paymentMode)?.label || product.paymentMode}
+                    </p>
+                  </div>
+                )}
               </div>
             </CardContent>
             <CardFooter className="flex justify-end gap-2 pt-0">
@@ -394,7 +512,7 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
   // Render product form dialog
   const renderProductForm = () => (
     <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {editingProduct ? `Edit ${getTypeLabel(productType)}` : `Add ${getTypeLabel(productType)}`}
@@ -474,6 +592,167 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
               />
             </div>
             
+            {productType === "vendor_spot" && (
+              <FormField
+                control={form.control}
+                name="paymentMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PAYMENT_MODES.map(mode => (
+                          <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {PAYMENT_MODES.find(mode => mode.value === field.value)?.description}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
+            {productType === "ticket" && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="ticketType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tier</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || undefined}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a tier" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TIER_TYPES.map(tier => (
+                            <SelectItem key={tier.value} value={tier.value}>{tier.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Printed on the tickets issued for this tier
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="entryRule"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Entry Rule</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ENTRY_RULES.map(rule => (
+                            <SelectItem key={rule.value} value={rule.value}>{rule.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {ENTRY_RULES.find(rule => rule.value === field.value)?.description}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="salesStartAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sales Start</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="salesEndAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sales End</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <FormLabel>Price Steps</FormLabel>
+                  <FormDescription>
+                    Raise the price automatically once a number of tickets have sold
+                  </FormDescription>
+                  {priceSteps.fields.map((step, index) => (
+                    <div key={step.id} className="flex items-start gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`priceSteps.${index}.afterSold`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input type="number" min="1" placeholder="After sold" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`priceSteps.${index}.price`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input type="number" min="0" step="0.01" placeholder="New price ($)" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => priceSteps.remove(index)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => priceSteps.append({ afterSold: 50, price: form.getValues("price") })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Price Step
+                  </Button>
+                </div>
+              </>
+            )}
+            
             <FormField
               control={form.control}
               name="imageUrl"
@@ -587,7 +866,7 @@ export default function ProductManager({ eventId }: ProductManagerProps) {
           <div className="flex justify-between items-center mb-4">
             <div>
               <h3 className="text-lg font-medium">Tickets</h3>
-              <p className="text-muted-foreground">Create different ticket types for your event</p>
+              <p className="text-muted-foreground">Create ticket tiers with their own prices, capacities and sales windows</p>
             </div>
             <Button onClick={() => handleAddProduct("ticket")}>
               <Plus className="h-4 w-4 mr-1" />
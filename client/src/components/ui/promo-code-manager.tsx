@@ -0,0 +1,544 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Product, PromoCode } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit as EditIcon, Trash2, Tag } from "lucide-react";
+
+const PRODUCT_TYPES = [
+  { value: "ticket", label: "Tickets" },
+  { value: "merchandise", label: "Merchandise" },
+  { value: "addon", label: "Add-ons" },
+  { value: "vendor_spot", label: "Vendor Spots" },
+  { value: "volunteer_shift", label: "Volunteer Shifts" },
+];
+
+// Form values are kept as strings for the date and limit inputs and converted on submit
+const promoCodeFormSchema = z.object({
+  code: z.string().min(2, "Code must be at least 2 characters").max(40).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes or underscores"),
+  description: z.string().optional(),
+  discountType: z.enum(["percentage", "fixed"]),
+  discountValue: z.coerce.number().positive("Discount must be greater than 0"),
+  productIds: z.array(z.number()),
+  productTypes: z.array(z.string()),
+  maxUses: z.string().optional(),
+  perUserLimit: z.string().optional(),
+  startsAt: z.string().optional(),
+  endsAt: z.string().optional(),
+  isActive: z.boolean(),
+}).refine(
+  (data) => data.discountType !== "percentage" || data.discountValue <= 100,
+  { message: "Percentage discounts cannot exceed 100", path: ["discountValue"] }
+);
+
+type PromoCodeFormValues = z.infer<typeof promoCodeFormSchema>;
+
+interface PromoCodeManagerProps {
+  eventId: number;
+}
+
+const defaultValues: PromoCodeFormValues = {
+  code: "",
+  description: "",
+  discountType: "percentage",
+  discountValue: 10,
+  productIds: [],
+  productTypes: [],
+  maxUses: "",
+  perUserLimit: "",
+  startsAt: "",
+  endsAt: "",
+  isActive: true,
+};
+
+// Convert form values into the API payload
+function toPayload(data: PromoCodeFormValues) {
+  return {
+    code: data.code,
+    description: data.description || null,
+    discountType: data.discountType,
+    discountValue: data.discountValue,
+    productIds: data.productIds.length > 0 ? data.productIds : null,
+    productTypes: data.productTypes.length > 0 ? data.productTypes : null,
+    maxUses: data.maxUses ? parseInt(data.maxUses) : null,
+    perUserLimit: data.perUserLimit ? parseInt(data.perUserLimit) : null,
+    startsAt: data.startsAt ? new Date(data.startsAt).toISOString() : null,
+    endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : null,
+    isActive: data.isActive,
+  };
+}
+
+export default function PromoCodeManager({ eventId }: PromoCodeManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPromoCode, setEditingPromoCode] = useState<PromoCode | null>(null);
+
+  const { data: promoCodes = [], isLoading } = useQuery<PromoCode[]>({
+    queryKey: [`/api/events/${eventId}/promo-codes`],
+    enabled: !!eventId,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/products?eventId=${eventId}`);
+      if (!res.ok) throw new Error("Failed to fetch products");
+      return res.json();
+    },
+    enabled: !!eventId,
+  });
+
+  const form = useForm<PromoCodeFormValues>({
+    resolver: zodResolver(promoCodeFormSchema),
+    defaultValues,
+  });
+
+  const invalidatePromoCodes = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/promo-codes`] });
+  };
+
+  const savePromoCodeMutation = useMutation({
+    mutationFn: async (data: PromoCodeFormValues) => {
+      const res = editingPromoCode
+        ? await apiRequest("PUT", `/api/promo-codes/${editingPromoCode.id}`, toPayload(data))
+        : await apiRequest("POST", `/api/events/${eventId}/promo-codes`, toPayload(data));
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidatePromoCodes();
+      toast({ title: "Success", description: `Promo code ${editingPromoCode ? "updated" : "created"} successfully` });
+      handleDialogOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save promo code",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const deletePromoCodeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/promo-codes/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePromoCodes();
+      toast({ title: "Success", description: "Promo code deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete promo code",
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Reset form and editing state when dialog is closed
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setEditingPromoCode(null);
+      form.reset(defaultValues);
+    }
+  };
+
+  const handleAddPromoCode = () => {
+    setEditingPromoCode(null);
+    form.reset(defaultValues);
+    setIsDialogOpen(true);
+  };
+
+  const handleEditPromoCode = (promoCode: PromoCode) => {
+    setEditingPromoCode(promoCode);
+    form.reset({
+      code: promoCode.code,
+      description: promoCode.description || "",
+      discountType: promoCode.discountType as "percentage" | "fixed",
+      discountValue: promoCode.discountValue,
+      productIds: (promoCode.productIds as number[] | null) || [],
+      productTypes: (promoCode.productTypes as string[] | null) || [],
+      maxUses: promoCode.maxUses?.toString() || "",
+      perUserLimit: promoCode.perUserLimit?.toString() || "",
+      startsAt: promoCode.startsAt ? format(new Date(promoCode.startsAt), "yyyy-MM-dd'T'HH:mm") : "",
+      endsAt: promoCode.endsAt ? format(new Date(promoCode.endsAt), "yyyy-MM-dd'T'HH:mm") : "",
+      isActive: promoCode.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeletePromoCode = (promoCode: PromoCode) => {
+    if (window.confirm(`Are you sure you want to delete promo code ${promoCode.code}?`)) {
+      deletePromoCodeMutation.mutate(promoCode.id);
+    }
+  };
+
+  const describeDiscount = (promoCode: PromoCode) =>
+    promoCode.discountType === "percentage"
+      ? `${promoCode.discountValue}% off`
+      : `$${promoCode.discountValue.toFixed(2)} off`;
+
+  const describeScope = (promoCode: PromoCode) => {
+    const productIds = (promoCode.productIds as number[] | null) || [];
+    const productTypes = (promoCode.productTypes as string[] | null) || [];
+    const parts = [
+      ...productTypes.map(type => PRODUCT_TYPES.find(t => t.value === type)?.label || type),
+      ...productIds.map(id => products.find(p => p.id === id)?.name || `Product #${id}`),
+    ];
+    return parts.length > 0 ? parts.join(", ") : "All products";
+  };
+
+  // Toggle a value in one of the array fields
+  const toggleValue = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Tag className="mr-2 h-5 w-5" />
+            Promo Codes
+          </CardTitle>
+          <CardDescription>
+            Discounts buyers can enter at checkout for this event's products.
+          </CardDescription>
+        </div>
+        <Button onClick={handleAddPromoCode}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Promo Code
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading promo codes...</p>
+        ) : promoCodes.length === 0 ? (
+          <div className="text-center py-10 bg-muted/30 rounded-lg border border-dashed">
+            <h3 className="text-lg font-medium mb-2">No promo codes yet</h3>
+            <p className="text-muted-foreground">Create a code to offer discounts on tickets or other products</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promoCodes.map((promoCode) => (
+                <TableRow key={promoCode.id}>
+                  <TableCell className="font-mono">{promoCode.code}</TableCell>
+                  <TableCell>{describeDiscount(promoCode)}</TableCell>
+                  <TableCell className="text-sm">{describeScope(promoCode)}</TableCell>
+                  <TableCell>
+                    {promoCode.usesCount}{promoCode.maxUses !== null ? ` / ${promoCode.maxUses}` : ""}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {promoCode.startsAt ? format(new Date(promoCode.startsAt), "MMM d, yyyy") : "Now"}
+                    {" – "}
+                    {promoCode.endsAt ? format(new Date(promoCode.endsAt), "MMM d, yyyy") : "No end"}
+                  </TableCell>
+                  <TableCell>
+                    {promoCode.isActive ? (
+                      <Badge variant="success">Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEditPromoCode(promoCode)}>
+                      <EditIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleDeletePromoCode(promoCode)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromoCode ? "Edit Promo Code" : "Add Promo Code"}</DialogTitle>
+            <DialogDescription>
+              Leave the product restrictions empty to discount everything sold for this event.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => savePromoCodeMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="EARLYBIRD" {...field} onChange={(e) => field.onChange(e.target.value.toUpperCase())} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Description (optional)" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="discountType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Discount Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="percentage">Percentage</SelectItem>
+                          <SelectItem value="fixed">Fixed amount</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="discountValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{form.watch("discountType") === "percentage" ? "Percent Off" : "Amount Off ($)"}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="productTypes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Product Types</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {PRODUCT_TYPES.map((type) => (
+                        <label key={type.value} className="flex items-center space-x-2 text-sm">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            checked={field.value.includes(type.value)}
+                            onChange={() => field.onChange(toggleValue(field.value, type.value))}
+                          />
+                          <span>{type.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {products.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="productIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Specific Products</FormLabel>
+                      <div className="grid grid-cols-1 gap-2 max-h-40 overflow-y-auto rounded-md border p-2">
+                        {products.map((product) => (
+                          <label key={product.id} className="flex items-center space-x-2 text-sm">
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4"
+                              checked={field.value.includes(product.id)}
+                              onChange={() => field.onChange(toggleValue(field.value, product.id))}
+                            />
+                            <span>{product.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="maxUses"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Total Uses</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="perUserLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Uses Per Buyer</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid From</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid Until</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={field.onChange}
+                        className="h-4 w-4 mt-1"
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Active</FormLabel>
+                      <FormDescription>
+                        Inactive codes are rejected at checkout
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={savePromoCodeMutation.isPending}>
+                  {savePromoCodeMutation.isPending
+                    ? "Saving..."
+                    : editingPromoCode ? "Update" : "Create"
+                  }
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
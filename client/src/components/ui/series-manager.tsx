@@ -0,0 +1,445 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Link } from "wouter";
+import { Event, EventSeries } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Repeat } from "lucide-react";
+import { format } from "date-fns";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_WEEKS = [
+  { value: "1", label: "First" },
+  { value: "2", label: "Second" },
+  { value: "3", label: "Third" },
+  { value: "4", label: "Fourth" },
+  { value: "-1", label: "Last" },
+];
+
+const seriesFormSchema = z.object({
+  frequency: z.enum(["weekly", "monthly"]),
+  interval: z.coerce.number().int().min(1).max(12),
+  weekdays: z.array(z.number()),
+  monthWeek: z.string(),
+  monthWeekday: z.string(),
+  ends: z.enum(["never", "on", "after"]),
+  until: z.string().optional(),
+  count: z.coerce.number().int().min(1).max(500).optional(),
+}).refine(
+  (data) => data.frequency !== "weekly" || data.weekdays.length > 0,
+  { message: "Pick at least one day", path: ["weekdays"] }
+).refine(
+  (data) => data.ends !== "on" || !!data.until,
+  { message: "Pick the last date", path: ["until"] }
+);
+
+type SeriesFormValues = z.infer<typeof seriesFormSchema>;
+
+type SeriesDetails = {
+  series: EventSeries;
+  occurrences: Event[];
+  rrule: string;
+};
+
+interface SeriesManagerProps {
+  eventId: number;
+}
+
+// The week of the month a date falls in, as the monthly rule counts it
+function getMonthWeek(date: Date): string {
+  const week = Math.ceil(date.getDate() / 7);
+  return week > 4 ? "-1" : String(week);
+}
+
+export default function SeriesManager({ eventId }: SeriesManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: event } = useQuery<Event>({
+    queryKey: [`/api/events/${eventId}`],
+    enabled: !!eventId,
+  });
+
+  const { data: details, isLoading } = useQuery<SeriesDetails>({
+    queryKey: [`/api/event-series/${event?.seriesId}`],
+    enabled: !!event?.seriesId,
+  });
+
+  const startDate = event ? new Date(event.startDate) : new Date();
+  const form = useForm<SeriesFormValues>({
+    resolver: zodResolver(seriesFormSchema),
+    defaultValues: {
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [startDate.getDay()],
+      monthWeek: getMonthWeek(startDate),
+      monthWeekday: String(startDate.getDay()),
+      ends: "never",
+    },
+  });
+
+  // Start from the saved rule, or from the event's own weekday for a new series
+  useEffect(() => {
+    const series = details?.series;
+    if (series) {
+      form.reset({
+        frequency: series.frequency as "weekly" | "monthly",
+        interval: series.interval,
+        weekdays: (series.weekdays as number[]) || [],
+        monthWeek: String(series.monthWeek ?? getMonthWeek(startDate)),
+        monthWeekday: String(series.monthWeekday ?? startDate.getDay()),
+        ends: series.count ? "after" : series.until ? "on" : "never",
+        until: series.until || undefined,
+        count: series.count || undefined,
+      });
+    } else if (event) {
+      form.reset({
+        ...form.getValues(),
+        weekdays: [startDate.getDay()],
+        monthWeek: getMonthWeek(startDate),
+        monthWeekday: String(startDate.getDay()),
+      });
+    }
+  }, [details?.series, event?.startDate]);
+
+  const invalidateSeries = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/event-series/${event?.seriesId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/my-events"] });
+  };
+
+  // Occurrences with orders aren't removed when the rule drops them, so say so
+  const reportKept = (kept?: Event[]) => {
+    if (kept && kept.length > 0) {
+      toast({
+        title: "Some dates were kept",
+        description: `${kept.length} occurrence(s) no longer on the schedule have orders or hold the series' details. Cancel them individually if needed.`,
+      });
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SeriesFormValues) => {
+      const rule = {
+        frequency: values.frequency,
+        interval: values.interval,
+        weekdays: values.frequency === "weekly" ? values.weekdays : null,
+        monthWeek: values.frequency === "monthly" ? parseInt(values.monthWeek) : null,
+        monthWeekday: values.frequency === "monthly" ? parseInt(values.monthWeekday) : null,
+        until: values.ends === "on" ? values.until : null,
+        count: values.ends === "after" ? values.count : null,
+      };
+      const res = event?.seriesId
+        ? await apiRequest("PUT", `/api/event-series/${event.seriesId}`, rule)
+        : await apiRequest("POST", `/api/events/${eventId}/series`, rule);
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Success", description: event?.seriesId ? "Repeat schedule updated" : "Event now repeats" });
+      reportKept(data.kept);
+      invalidateSeries();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save repeat schedule",
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Skipping a date adds it to the rule's exceptions
+  const skipMutation = useMutation({
+    mutationFn: async (occurrence: Event) => {
+      const exceptions = (details!.series.exceptions as string[]) || [];
+      const res = await apiRequest("PUT", `/api/event-series/${details!.series.id}`, {
+        exceptions: [...exceptions, occurrence.occurrenceDate],
+      });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Success", description: "Date skipped" });
+      reportKept(data.kept);
+      invalidateSeries();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to skip date",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const frequency = form.watch("frequency");
+  const ends = form.watch("ends");
+  const upcoming = (details?.occurrences || []).filter(occurrence => new Date(occurrence.endDate) >= new Date());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Repeat className="mr-2 h-5 w-5" />
+          Repeat
+        </CardTitle>
+        <CardDescription>
+          Repeat this event on a schedule. Each date becomes its own event with its own capacity and tickets,
+          copied from this one's products when the date is created.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeats</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="interval"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every ({frequency === "weekly" ? "weeks" : "months"})</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={12} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {frequency === "weekly" ? (
+              <FormField
+                control={form.control}
+                name="weekdays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>On</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {WEEKDAYS.map((name, weekday) => (
+                        <label key={weekday} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(weekday)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, weekday] : field.value.filter(day => day !== weekday)
+                            )}
+                          />
+                          {name.slice(0, 3)}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="monthWeek"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>On the</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {MONTH_WEEKS.map(week => (
+                            <SelectItem key={week.value} value={week.value}>{week.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="monthWeekday"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {WEEKDAYS.map((name, weekday) => (
+                            <SelectItem key={weekday} value={String(weekday)}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="ends"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        <SelectItem value="on">On a date</SelectItem>
+                        <SelectItem value="after">After a number of dates</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              {ends === "on" && (
+                <FormField
+                  control={form.control}
+                  name="until"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {ends === "after" && (
+                <FormField
+                  control={form.control}
+                  name="count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Number of dates</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : event?.seriesId ? "Update Schedule" : "Make Recurring"}
+            </Button>
+          </form>
+        </Form>
+
+        {event?.seriesId && (
+          isLoading ? (
+            <p className="text-muted-foreground">Loading dates...</p>
+          ) : (
+            <div>
+              <h4 className="font-medium mb-2">Upcoming dates</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {upcoming.map(occurrence => (
+                    <TableRow key={occurrence.id}>
+                      <TableCell>
+                        <Link to={`/events/${occurrence.id}`} className="hover:underline">
+                          {format(new Date(occurrence.startDate), "EEE, MMM d, yyyy h:mm a")}
+                        </Link>
+                        {occurrence.id === eventId && <Badge variant="outline" className="ml-2">This event</Badge>}
+                      </TableCell>
+                      <TableCell className="capitalize">{occurrence.status}</TableCell>
+                      <TableCell className="text-right">
+                        {occurrence.id !== details?.series.templateEventId && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={skipMutation.isPending}
+                            onClick={() => skipMutation.mutate(occurrence)}
+                          >
+                            Skip
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
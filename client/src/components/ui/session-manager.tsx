@@ -0,0 +1,467 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { EventSession, Product } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit as EditIcon, Trash2, CalendarClock } from "lucide-react";
+import { format } from "date-fns";
+
+export type ScheduledSession = EventSession & { agendaCount: number; spotsLeft: number | null };
+
+// Times are kept as strings for the datetime inputs and speakers as one comma-separated
+// string; both are converted on submit
+const sessionFormSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  stage: z.string().min(1, "Stage or room is required"),
+  startTime: z.string().min(1, "Start time is required"),
+  endTime: z.string().min(1, "End time is required"),
+  speakers: z.string().optional(),
+  description: z.string().optional(),
+  capacity: z.string().optional(),
+  requiredProductId: z.string(),
+}).refine(
+  (data) => !data.startTime || !data.endTime || new Date(data.endTime) > new Date(data.startTime),
+  { message: "A session must end after it starts", path: ["endTime"] }
+).refine(
+  (data) => !data.capacity || parseInt(data.capacity) > 0,
+  { message: "Capacity must be at least 1", path: ["capacity"] }
+);
+
+type SessionFormValues = z.infer<typeof sessionFormSchema>;
+
+interface SessionManagerProps {
+  eventId: number;
+}
+
+const ANY_TICKET = "any";
+
+const defaultValues: SessionFormValues = {
+  title: "",
+  stage: "",
+  startTime: "",
+  endTime: "",
+  speakers: "",
+  description: "",
+  capacity: "",
+  requiredProductId: ANY_TICKET,
+};
+
+// Convert form values into the API payload
+function toPayload(data: SessionFormValues) {
+  return {
+    title: data.title,
+    stage: data.stage,
+    startTime: new Date(data.startTime).toISOString(),
+    endTime: new Date(data.endTime).toISOString(),
+    speakers: (data.speakers || "").split(",").map(speaker => speaker.trim()).filter(Boolean),
+    description: data.description || null,
+    capacity: data.capacity ? parseInt(data.capacity) : null,
+    requiredProductId: data.requiredProductId === ANY_TICKET ? null : parseInt(data.requiredProductId),
+  };
+}
+
+function toDateTimeInput(value: Date | string | null) {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+export default function SessionManager({ eventId }: SessionManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSession, setEditingSession] = useState<ScheduledSession | null>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<ScheduledSession[]>({
+    queryKey: [`/api/events/${eventId}/sessions`],
+    enabled: !!eventId,
+  });
+
+  const { data: tickets = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products", eventId, "ticket"],
+    queryFn: async () => {
+      const res = await fetch(`/api/products?eventId=${eventId}&type=ticket`);
+      if (!res.ok) throw new Error("Failed to fetch products");
+      return res.json();
+    },
+    enabled: !!eventId,
+  });
+
+  // Offer the stages already in use so rooms are spelled the same way every time
+  const stages = Array.from(new Set(sessions.map(session => session.stage)));
+
+  const form = useForm<SessionFormValues>({
+    resolver: zodResolver(sessionFormSchema),
+    defaultValues,
+  });
+
+  const invalidateSessions = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/sessions`] });
+  };
+
+  const saveSessionMutation = useMutation({
+    mutationFn: async (data: SessionFormValues) => {
+      const res = editingSession
+        ? await apiRequest("PUT", `/api/sessions/${editingSession.id}`, toPayload(data))
+        : await apiRequest("POST", `/api/events/${eventId}/sessions`, toPayload(data));
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateSessions();
+      toast({ title: "Success", description: `Session ${editingSession ? "updated" : "added"} successfully` });
+      handleDialogOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save session",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSessions();
+      toast({ title: "Success", description: "Session deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete session",
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Reset form and editing state when dialog is closed
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setEditingSession(null);
+      form.reset(defaultValues);
+    }
+  };
+
+  const handleAddSession = () => {
+    setEditingSession(null);
+    // Start where the last session left off, which is usually the next slot on the same stage
+    const lastSession = sessions[sessions.length - 1];
+    form.reset({
+      ...defaultValues,
+      stage: lastSession?.stage || "",
+      startTime: toDateTimeInput(lastSession?.endTime || null),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditSession = (session: ScheduledSession) => {
+    setEditingSession(session);
+    form.reset({
+      title: session.title,
+      stage: session.stage,
+      startTime: toDateTimeInput(session.startTime),
+      endTime: toDateTimeInput(session.endTime),
+      speakers: ((session.speakers as string[]) || []).join(", "),
+      description: session.description || "",
+      capacity: session.capacity ? session.capacity.toString() : "",
+      requiredProductId: session.requiredProductId ? session.requiredProductId.toString() : ANY_TICKET,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteSession = (session: ScheduledSession) => {
+    const warning = session.agendaCount > 0 ? ` It is on ${session.agendaCount} attendee agenda(s).` : "";
+    if (window.confirm(`Are you sure you want to delete "${session.title}"?${warning}`)) {
+      deleteSessionMutation.mutate(session.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <CalendarClock className="mr-2 h-5 w-5" />
+            Schedule
+          </CardTitle>
+          <CardDescription>
+            Talks, sets and workshops shown on the event page. Attendees add them to a personal agenda.
+          </CardDescription>
+        </div>
+        <Button onClick={handleAddSession}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Session
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading schedule...</p>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-10 bg-muted/30 rounded-lg border border-dashed">
+            <h3 className="text-lg font-medium mb-2">No sessions yet</h3>
+            <p className="text-muted-foreground">Add sessions to publish a schedule for your event</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Session</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Seats</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    <div className="font-medium">{session.title}</div>
+                    {(session.speakers as string[]).length > 0 && (
+                      <div className="text-xs text-muted-foreground">{(session.speakers as string[]).join(", ")}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{session.stage}</TableCell>
+                  <TableCell className="text-sm">
+                    {format(new Date(session.startTime), "MMM d, h:mm a")} – {format(new Date(session.endTime), "h:mm a")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {session.capacity === null ? (
+                      <span className="text-muted-foreground">Open</span>
+                    ) : (
+                      `${session.agendaCount} / ${session.capacity}`
+                    )}
+                    {session.requiredProductId && (
+                      <div>
+                        <Badge variant="secondary">
+                          {tickets.find(ticket => ticket.id === session.requiredProductId)?.name || `Product #${session.requiredProductId}`} only
+                        </Badge>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEditSession(session)}>
+                      <EditIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleDeleteSession(session)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSession ? "Edit Session" : "Add Session"}</DialogTitle>
+            <DialogDescription>
+              Sessions appear in the schedule on your event page.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveSessionMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Opening keynote" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="stage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stage or Room</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Main Stage" list="session-stages" {...field} />
+                    </FormControl>
+                    <datalist id="session-stages">
+                      {stages.map(stage => (
+                        <option key={stage} value={stage} />
+                      ))}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="speakers"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Speakers or Performers</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Jane Doe, The Band" {...field} />
+                    </FormControl>
+                    <FormDescription>Separate names with commas</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="capacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Capacity</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} placeholder="No limit" {...field} />
+                      </FormControl>
+                      <FormDescription>Seats are reserved by adding the session to an agenda</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="requiredProductId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Open To</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY_TICKET}>Everyone</SelectItem>
+                          {tickets.map(ticket => (
+                            <SelectItem key={ticket.id} value={ticket.id.toString()}>{ticket.name} holders</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Sessions with a capacity always need a ticket</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveSessionMutation.isPending}>
+                  {saveSessionMutation.isPending
+                    ? "Saving..."
+                    : editingSession ? "Update" : "Add"
+                  }
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
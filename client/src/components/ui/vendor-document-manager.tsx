@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { format } from "date-fns";
+import { VENDOR_DOCUMENT_TYPES, VENDOR_DOCUMENT_TYPE_LABELS, VendorDocument, VendorDocumentType } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileCheck, FileText, Plus, Trash2 } from "lucide-react";
+
+const EXPIRING_SOON_DAYS = 30;
+
+const documentFormSchema = z.object({
+  documentType: z.enum(VENDOR_DOCUMENT_TYPES),
+  issuer: z.string().min(1, "Issuer is required"),
+  expiresAt: z.string().optional(),
+  file: z.instanceof(File, { message: "Choose a file to upload" }),
+});
+
+type DocumentFormValues = z.infer<typeof documentFormSchema>;
+
+function getExpiryBadge(document: VendorDocument) {
+  if (!document.expiresAt) {
+    return <Badge variant="secondary">Doesn't expire</Badge>;
+  }
+  const expiresAt = new Date(document.expiresAt);
+  const daysLeft = (expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+  if (daysLeft < 0) {
+    return <Badge variant="destructive">Expired {format(expiresAt, "MMM d, yyyy")}</Badge>;
+  }
+  if (daysLeft < EXPIRING_SOON_DAYS) {
+    return <Badge variant="outline" className="border-amber-500 text-amber-700">Expires {format(expiresAt, "MMM d, yyyy")}</Badge>;
+  }
+  return <Badge variant="outline">Expires {format(expiresAt, "MMM d, yyyy")}</Badge>;
+}
+
+// Insurance certificates, permits and other paperwork on the signed-in vendor's profile
+export default function VendorDocumentManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: documents = [], isLoading } = useQuery<VendorDocument[]>({
+    queryKey: ["/api/vendor-profile/documents"],
+  });
+
+  const form = useForm<DocumentFormValues>({
+    resolver: zodResolver(documentFormSchema),
+    defaultValues: { documentType: "insurance_certificate", issuer: "", expiresAt: "" },
+  });
+
+  // Sent as multipart, so this goes through fetch rather than apiRequest
+  const uploadDocumentMutation = useMutation({
+    mutationFn: async (data: DocumentFormValues) => {
+      const formData = new FormData();
+      formData.append('file', data.file);
+      formData.append('documentType', data.documentType);
+      formData.append('issuer', data.issuer);
+      formData.append('expiresAt', data.expiresAt || "");
+
+      const response = await fetch('/api/vendor-profile/documents', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to upload document');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendor-profile/documents"] });
+      toast({ title: "Success", description: "Document uploaded successfully" });
+      handleDialogOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload document",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/vendor-documents/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendor-profile/documents"] });
+      toast({ title: "Success", description: "Document deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete document",
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Reset form when dialog is closed
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      form.reset();
+    }
+  };
+
+  const handleDeleteDocument = (document: VendorDocument) => {
+    const label = VENDOR_DOCUMENT_TYPE_LABELS[document.documentType as VendorDocumentType] || document.documentType;
+    if (window.confirm(`Are you sure you want to delete your ${label.toLowerCase()} from ${document.issuer}?`)) {
+      deleteDocumentMutation.mutate(document.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <FileCheck className="mr-2 h-5 w-5" />
+            Compliance Documents
+          </CardTitle>
+          <CardDescription>
+            Some events require these before they can approve you. We'll email you before any of them expire.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Upload Document
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading documents...</p>
+        ) : documents.length === 0 ? (
+          <div className="text-center py-10 bg-muted/30 rounded-lg border border-dashed">
+            <h3 className="text-lg font-medium mb-2">No documents yet</h3>
+            <p className="text-muted-foreground">Upload your insurance certificate, permits and tax forms</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead>Issuer</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((document) => (
+                <TableRow key={document.id}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {VENDOR_DOCUMENT_TYPE_LABELS[document.documentType as VendorDocumentType] || document.documentType}
+                    </div>
+                    <a
+                      href={document.fileUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-xs text-primary hover:underline"
+                    >
+                      <FileText className="h-3 w-3 mr-1" />
+                      {document.fileName}
+                    </a>
+                  </TableCell>
+                  <TableCell>{document.issuer}</TableCell>
+                  <TableCell>{getExpiryBadge(document)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="destructive" size="sm" onClick={() => handleDeleteDocument(document)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Upload Document</DialogTitle>
+            <DialogDescription>
+              PDFs or photos up to 10MB. Upload a renewed copy as a new document.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => uploadDocumentMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="documentType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Document Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VENDOR_DOCUMENT_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{VENDOR_DOCUMENT_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="issuer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Issuer</FormLabel>
+                    <FormControl>
+                      <Input placeholder="County Health Department" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expiry Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty if the document doesn't expire</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="file"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>File</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="file"
+                        accept="image/*,application/pdf"
+                        onChange={(e) => field.onChange(e.target.files?.[0])}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={uploadDocumentMutation.isPending}>
+                  {uploadDocumentMutation.isPending ? "Uploading..." : "Upload"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Event, VENDOR_DOCUMENT_TYPES, VENDOR_DOCUMENT_TYPE_LABELS, VendorDocumentType } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { FileCheck } from "lucide-react";
+
+interface VendorRequirementsManagerProps {
+  eventId: number;
+}
+
+// The documents a vendor must have on file, valid through the end of the event, to be approved
+export default function VendorRequirementsManager({ eventId }: VendorRequirementsManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [required, setRequired] = useState<VendorDocumentType[]>([]);
+
+  const { data: event } = useQuery<Event>({
+    queryKey: [`/api/events/${eventId}`],
+    enabled: !!eventId,
+  });
+
+  useEffect(() => {
+    if (event) {
+      setRequired((event.requiredVendorDocuments as VendorDocumentType[] | null) || []);
+    }
+  }, [event]);
+
+  const saveRequirementsMutation = useMutation({
+    mutationFn: async (requiredVendorDocuments: VendorDocumentType[]) => {
+      const res = await apiRequest("PUT", `/api/events/${eventId}`, { requiredVendorDocuments });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/booth-map`] });
+      toast({ title: "Success", description: "Vendor requirements saved successfully" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save vendor requirements",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const toggleRequired = (type: VendorDocumentType, checked: boolean) => {
+    setRequired(checked ? [...required, type] : required.filter(t => t !== type));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileCheck className="mr-2 h-5 w-5" />
+          Vendor Requirements
+        </CardTitle>
+        <CardDescription>
+          Vendors can't be approved until they've uploaded these, valid through the end of the event.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {VENDOR_DOCUMENT_TYPES.map(type => (
+            <div key={type} className="flex items-center space-x-3 rounded-md border p-3">
+              <Checkbox
+                id={`required-${type}`}
+                checked={required.includes(type)}
+                onCheckedChange={(checked) => toggleRequired(type, checked === true)}
+              />
+              <Label htmlFor={`required-${type}`}>{VENDOR_DOCUMENT_TYPE_LABELS[type]}</Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            onClick={() => saveRequirementsMutation.mutate(required)}
+            disabled={saveRequirementsMutation.isPending}
+          >
+            {saveRequirementsMutation.isPending ? "Saving..." : "Save Requirements"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
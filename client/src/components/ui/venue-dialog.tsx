@@ -0,0 +1,375 @@
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Venue, VenueSiteMap } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Upload, X } from "lucide-react";
+
+// Numbers are kept as strings so the inputs can be left empty
+const venueFormSchema = z.object({
+  name: z.string().min(2, "Name is required"),
+  address: z.string().min(3, "Address is required"),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  zipCode: z.string().optional(),
+  latitude: z.string().optional(),
+  longitude: z.string().optional(),
+  capacity: z.string().optional(),
+  accessibilityNotes: z.string().optional(),
+  parkingInfo: z.string().optional(),
+}).refine(
+  (data) => !!data.latitude === !!data.longitude,
+  { message: "Enter both coordinates or neither", path: ["longitude"] }
+);
+
+type VenueFormValues = z.infer<typeof venueFormSchema>;
+
+function toFormValues(venue?: Venue | null): VenueFormValues {
+  return {
+    name: venue?.name || "",
+    address: venue?.address || "",
+    city: venue?.city || "",
+    state: venue?.state || "",
+    zipCode: venue?.zipCode || "",
+    latitude: venue?.latitude?.toString() || "",
+    longitude: venue?.longitude?.toString() || "",
+    capacity: venue?.capacity?.toString() || "",
+    accessibilityNotes: venue?.accessibilityNotes || "",
+    parkingInfo: venue?.parkingInfo || "",
+  };
+}
+
+// Convert form values into the API payload
+function toPayload(data: VenueFormValues, siteMaps: VenueSiteMap[]) {
+  return {
+    name: data.name,
+    address: data.address,
+    city: data.city || null,
+    state: data.state || null,
+    zipCode: data.zipCode || null,
+    latitude: data.latitude ? parseFloat(data.latitude) : null,
+    longitude: data.longitude ? parseFloat(data.longitude) : null,
+    capacity: data.capacity ? parseInt(data.capacity) : null,
+    accessibilityNotes: data.accessibilityNotes || null,
+    parkingInfo: data.parkingInfo || null,
+    siteMaps,
+  };
+}
+
+interface VenueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  venue?: Venue | null; // Edit this venue, or add a new one when not set
+  onSaved?: (venue: Venue) => void;
+}
+
+export default function VenueDialog({ open, onOpenChange, venue, onSaved }: VenueDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [siteMaps, setSiteMaps] = useState<VenueSiteMap[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<VenueFormValues>({
+    resolver: zodResolver(venueFormSchema),
+    defaultValues: toFormValues(venue),
+  });
+
+  // Start from the venue being edited each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(venue));
+      setSiteMaps((venue?.siteMaps as VenueSiteMap[]) || []);
+    }
+  }, [open, venue]);
+
+  const saveVenueMutation = useMutation({
+    mutationFn: async (data: VenueFormValues) => {
+      const res = venue
+        ? await apiRequest("PUT", `/api/venues/${venue.id}`, toPayload(data, siteMaps))
+        : await apiRequest("POST", "/api/venues", toPayload(data, siteMaps));
+      return await res.json() as Venue;
+    },
+    onSuccess: (savedVenue) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/venues"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/venues/${savedVenue.id}`] });
+      toast({ title: "Success", description: `Venue ${venue ? "updated" : "added"} successfully` });
+      onOpenChange(false);
+      onSaved?.(savedVenue);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save venue",
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Site maps go through the same image upload as event images
+  const handleSiteMapUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "Error",
+        description: "Image size should be less than 5MB",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload site map');
+      }
+
+      const data = await response.json();
+      setSiteMaps(maps => [...maps, { name: file.name.replace(/\.[^.]+$/, ""), url: data.imageUrl }]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload site map",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{venue ? "Edit Venue" : "Add Venue"}</DialogTitle>
+          <DialogDescription>
+            Venues are shared, so any organizer can hold events at them.
+            {venue && " Changes to the name or address update every event here."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveVenueMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Riverside Park" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Street Address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="100 River Rd" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="city"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>City</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>State</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="zipCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ZIP</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="latitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Latitude</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="longitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Longitude</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="capacity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Capacity</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="accessibilityNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Accessibility</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Step-free entrance on the east side, accessible restrooms" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="parkingInfo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parking</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Free lot on River Rd, fills up by noon" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label>Site Maps</Label>
+              {siteMaps.map((map, index) => (
+                <div key={map.url} className="flex items-center gap-2">
+                  <img src={map.url} alt={map.name} className="h-10 w-10 rounded object-cover border" />
+                  <Input
+                    value={map.name}
+                    onChange={(e) => setSiteMaps(maps => maps.map((item, i) => i === index ? { ...item, name: e.target.value } : item))}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSiteMaps(maps => maps.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <input type="file" accept="image/*" ref={fileInputRef} className="hidden" onChange={handleSiteMapUpload} />
+              <Button type="button" variant="outline" size="sm" disabled={isUploading} onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                {isUploading ? "Uploading..." : "Upload Map"}
+              </Button>
+              <p className="text-sm text-muted-foreground">Floor plans or grounds maps, shown on the venue page</p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveVenueMutation.isPending || isUploading}>
+                {saveVenueMutation.isPending
+                  ? "Saving..."
+                  : venue ? "Update" : "Add"
+                }
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { WaitlistEntry } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowUp, ArrowDown, Trash2, ListOrdered } from "lucide-react";
+import { format } from "date-fns";
+
+type QueueEntry = WaitlistEntry & { itemName: string; userName: string | null; userEmail: string };
+
+interface WaitlistManagerProps {
+  eventId: number;
+}
+
+export default function WaitlistManager({ eventId }: WaitlistManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: entries = [], isLoading } = useQuery<QueueEntry[]>({
+    queryKey: [`/api/events/${eventId}/waitlist`],
+    enabled: !!eventId,
+  });
+
+  // One queue per product, ticket allocation, vendor spot or volunteer shift, already in position order
+  const queues = new Map<string, QueueEntry[]>();
+  for (const entry of entries) {
+    const key = `${entry.capacityType}-${entry.capacityId}`;
+    queues.set(key, [...(queues.get(key) || []), entry]);
+  }
+
+  const invalidateWaitlist = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/waitlist`] });
+  };
+
+  const reorderMutation = useMutation({
+    mutationFn: async ({ queue, entryIds }: { queue: QueueEntry[]; entryIds: number[] }) => {
+      const res = await apiRequest("PUT", `/api/events/${eventId}/waitlist/order`, {
+        capacityType: queue[0].capacityType,
+        capacityId: queue[0].capacityId,
+        entryIds,
+      });
+      return res.json();
+    },
+    onSuccess: invalidateWaitlist,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reorder waitlist",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/waitlist/${id}`);
+    },
+    onSuccess: () => {
+      invalidateWaitlist();
+      toast({ title: "Success", description: "Removed from the waitlist" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove from waitlist",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleMove = (queue: QueueEntry[], index: number, offset: number) => {
+    const entryIds = queue.map(entry => entry.id);
+    [entryIds[index], entryIds[index + offset]] = [entryIds[index + offset], entryIds[index]];
+    reorderMutation.mutate({ queue, entryIds });
+  };
+
+  const handleRemove = (entry: QueueEntry) => {
+    const warning = entry.status === "offered" ? " Their held spot will go to the next person in line." : "";
+    if (window.confirm(`Remove ${entry.userName || entry.userEmail} from the waitlist for ${entry.itemName}?${warning}`)) {
+      removeMutation.mutate(entry.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ListOrdered className="mr-2 h-5 w-5" />
+          Waitlists
+        </CardTitle>
+        <CardDescription>
+          People waiting for sold-out items. When stock frees up, the next in line are emailed a link to claim it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading waitlists...</p>
+        ) : queues.size === 0 ? (
+          <div className="text-center py-10 bg-muted/30 rounded-lg border border-dashed">
+            <h3 className="text-lg font-medium mb-2">No one is waiting</h3>
+            <p className="text-muted-foreground">Buyers can join a waitlist once an item sells out.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {Array.from(queues.values()).map(queue => (
+              <div key={`${queue[0].capacityType}-${queue[0].capacityId}`}>
+                <h4 className="font-medium mb-2">{queue[0].itemName}</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Qty</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {queue.map((entry, index) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.userName || entry.userEmail}</div>
+                          <div className="text-xs text-muted-foreground">{entry.userEmail}</div>
+                        </TableCell>
+                        <TableCell>{entry.quantity}</TableCell>
+                        <TableCell>
+                          {entry.status === "offered" ? (
+                            <Badge>Offered until {format(new Date(entry.offerExpiresAt!), "MMM d, h:mm a")}</Badge>
+                          ) : (
+                            <Badge variant="outline">Waiting</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{format(new Date(entry.createdAt), "MMM d, yyyy")}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={index === 0 || reorderMutation.isPending}
+                            onClick={() => handleMove(queue, index, -1)}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={index === queue.length - 1 || reorderMutation.isPending}
+                            onClick={() => handleMove(queue, index, 1)}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleRemove(entry)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,22 +5,40 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 
+// Products as the event's product list returns them, flagged when tickets need attendee details
+export type CartProduct = Product & { hasAttendeeQuestions?: boolean };
+
 export type CartItem = {
   id: string; // Unique identifier for the cart item
   productId: number;
   quantity: number;
-  product: Product;
-  registrationData?: any; // Data from vendor/volunteer registration forms
+  product: CartProduct;
+  registrationData?: any; // Data from vendor/volunteer registration forms, or { attendees } for tickets
+  waitlistClaim?: string; // Claim token of the waitlist offer holding these units
+};
+
+export type AppliedPromo = {
+  code: string;
+  description: string | null;
+  discountType: string;
+  discountValue: number;
+  discountAmount: number;
+  lineDiscounts: Record<number, number>; // Discount per product id
 };
 
 type CartContextType = {
   items: CartItem[];
-  addItem: (product: Product, quantity?: number) => void;
+  addItem: (product: CartProduct, quantity?: number, waitlistClaim?: string) => void;
   updateItem: (id: string, quantity: number) => void;
   removeItem: (id: string) => void;
   clearCart: () => void;
   itemCount: number;
   total: number;
+  promo: AppliedPromo | null;
+  discount: number;
+  totalAfterDiscount: number;
+  applyPromoCode: (code: string) => Promise<boolean>;
+  removePromoCode: () => void;
   updateRegistrationData: (itemId: string, data: any) => void;
   getRegistrationStatus: (itemId: string) => 'pending' | 'complete' | null;
   setRegistrationStatus: (itemId: string, status: 'pending' | 'complete', data?: any) => void;
@@ -41,6 +59,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const { user } = useAuth();
   const [items, setItems] = useState<CartItem[]>([]);
+  const [promo, setPromo] = useState<AppliedPromo | null>(null);
 
   // Load cart from local storage on initial load
   useEffect(() => {
@@ -61,7 +80,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   }, [items]);
 
   // Add an item to the cart
-  const addItem = (product: Product, quantity = 1) => {
+  const addItem = (product: CartProduct, quantity = 1, waitlistClaim?: string) => {
     setItems(prevItems => {
       // Check if product already exists in cart
       const existingItem = prevItems.find(item => item.productId === product.id);
@@ -70,7 +89,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
         // Update quantity if item exists
         return prevItems.map(item => 
           item.productId === product.id 
-            ? { ...item, quantity: item.quantity + quantity } 
+            ? { ...item, quantity: item.quantity + quantity, waitlistClaim: waitlistClaim || item.waitlistClaim } 
             : item
         );
       } else {
@@ -80,7 +99,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
           productId: product.id,
           quantity,
           product,
-          registrationData: null
+          registrationData: null,
+          waitlistClaim
         };
         
         toast({
@@ -110,9 +130,65 @@ export function CartProvider({ children }: { children: ReactNode }) {
   // Clear the entire cart
   const clearCart = () => {
     setItems([]);
+    setPromo(null);
     localStorage.removeItem('cart');
   };
 
+  // Ask the server what a promo code is worth for the current cart
+  const validatePromoCode = async (code: string): Promise<AppliedPromo> => {
+    const res = await apiRequest("POST", "/api/promo-codes/validate", {
+      code,
+      items: items.map(item => ({ productId: item.productId, quantity: item.quantity }))
+    });
+    return await res.json();
+  };
+
+  // Apply a promo code to the cart
+  const applyPromoCode = async (code: string): Promise<boolean> => {
+    try {
+      const applied = await validatePromoCode(code);
+      setPromo(applied);
+      toast({
+        title: 'Promo code applied',
+        description: `${applied.code} saves you $${applied.discountAmount.toFixed(2)}.`,
+      });
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Promo code not applied',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Remove the applied promo code
+  const removePromoCode = () => {
+    setPromo(null);
+  };
+
+  // Re-check the applied promo code whenever the cart contents change
+  useEffect(() => {
+    if (!promo) return;
+    
+    if (items.length === 0) {
+      setPromo(null);
+      return;
+    }
+    
+    validatePromoCode(promo.code)
+      .then(setPromo)
+      .catch(() => {
+        setPromo(null);
+        toast({
+          title: 'Promo code removed',
+          description: `${promo.code} no longer applies to your cart.`,
+          variant: 'destructive',
+        });
+      });
+  }, [items]);
+
   // Update registration data for an item
   const updateRegistrationData = (itemId: string, data: any) => {
     setItems(prevItems => 
@@ -133,6 +209,11 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return item.registrationData ? 'complete' : 'pending';
     }
     
+    // Tickets with attendee questions need one set of answers per ticket
+    if (item.product.type === 'ticket' && item.product.hasAttendeeQuestions) {
+      return item.registrationData?.attendees?.length === item.quantity ? 'complete' : 'pending';
+    }
+    
     return null; // No registration needed
   };
 
@@ -147,6 +228,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return hasItemOfType('vendor_spot');
     } else if (type === 'volunteer') {
       return hasItemOfType('volunteer_shift');
+    } else if (type === 'attendee') {
+      return items.some(item => item.product.type === 'ticket' && item.product.hasAttendeeQuestions);
     }
     return false;
   };
@@ -196,6 +279,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return `/registration/volunteer/${pendingVolunteerItem.id}`;
     }
     
+    // Find first ticket item that still needs attendee details
+    const pendingTicketItem = items.find(item => 
+      item.product.type === 'ticket' && getRegistrationStatus(item.id) === 'pending'
+    );
+    
+    if (pendingTicketItem) {
+      return `/registration/attendees/${pendingTicketItem.id}`;
+    }
+    
     // If no registrations needed, go to checkout
     return '/checkout';
   };
@@ -224,6 +316,17 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return `/registration/volunteer/${pendingVolunteerItem.id}`;
     }
     
+    // Find first ticket item that still needs attendee details (excluding the specified item)
+    const pendingTicketItem = items.find(item => 
+      item.id !== excludeItemId &&
+      item.product.type === 'ticket' && 
+      getRegistrationStatus(item.id) === 'pending'
+    );
+    
+    if (pendingTicketItem) {
+      return `/registration/attendees/${pendingTicketItem.id}`;
+    }
+    
     // If no registrations needed, go to checkout
     return '/checkout';
   };
@@ -244,6 +347,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const path = getNextRegistrationPath();
       const isVendorRegistration = path.includes('/registration/vendor/');
       const isVolunteerRegistration = path.includes('/registration/volunteer/');
+      const isAttendeeRegistration = path.includes('/registration/attendees/');
       
       let message = "Please complete registration before checkout";
       
@@ -251,6 +355,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
         message = "Please complete vendor registration before proceeding to checkout";
       } else if (isVolunteerRegistration) {
         message = "Please complete volunteer registration before proceeding to checkout";
+      } else if (isAttendeeRegistration) {
+        message = "Please enter attendee details for your tickets before proceeding to checkout";
       }
       
       return {
@@ -274,6 +380,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
   // Calculate total cost
   const total = items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
 
+  // Promo discount, as last confirmed by the server
+  const discount = promo ? Math.min(promo.discountAmount, total) : 0;
+  const totalAfterDiscount = total - discount;
+
   // Checkout mutation
   const checkoutMutation = useMutation({
     mutationFn: async () => {
@@ -282,8 +392,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
         items: items.map(item => ({
           productId: item.productId,
           quantity: item.quantity,
-          registrationData: item.registrationData
-        }))
+          registrationData: item.registrationData,
+          waitlistClaim: item.waitlistClaim
+        })),
+        promoCode: promo?.code
       };
       
       const res = await apiRequest("POST", "/api/checkout", orderData);
@@ -317,6 +429,11 @@ export function CartProvider({ children }: { children: ReactNode }) {
         clearCart,
         itemCount,
         total,
+        promo,
+        discount,
+        totalAfterDiscount,
+        applyPromoCode,
+        removePromoCode,
         updateRegistrationData,
         getRegistrationStatus,
         setRegistrationStatus,
@@ -0,0 +1,223 @@
+// Offline check-in for gate devices: an event's ticket manifest and the check-ins scanned
+// while offline are kept in IndexedDB, and the queue is uploaded once the device is back online.
+
+import { DEFAULT_TIME_ZONE, isSameDayInTimeZone } from "@shared/time-zones";
+
+const DB_NAME = "offline-check-in";
+const DB_VERSION = 1;
+const MANIFESTS = "manifests";
+const QUEUE = "queue";
+const DEVICE_ID_KEY = "check-in-device-id";
+
+export interface ManifestTicket {
+  id: number;
+  ticketNumber: string;
+  ticketType: string;
+  entryRule: string; // "single", "reentry", "daily"
+  status: string;
+  checkInTime: string | null;
+  inside: boolean;
+  lastEntryAt: string | null;
+  holderName: string | null;
+  signature: string;
+}
+
+export interface CheckInManifest {
+  eventId: number;
+  eventTitle: string;
+  timeZone?: string; // Missing from manifests saved before events had a time zone
+  generatedAt: string;
+  tickets: ManifestTicket[];
+}
+
+export interface QueuedCheckIn {
+  id?: number;
+  eventId: number;
+  ticketId: number;
+  code: string;
+  gate: string | null;
+  scannedAt: string;
+}
+
+export interface SyncResult {
+  code: string;
+  ticketId?: number;
+  status: "checked_in" | "already_synced" | "conflict" | "rejected";
+  message?: string;
+  existingDeviceId?: string | null;
+  existingCheckInTime?: string | null;
+}
+
+export type LocalVerification =
+  | { valid: true; ticket: ManifestTicket }
+  | { valid: false; message: string; ticket?: ManifestTicket };
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(MANIFESTS, { keyPath: "eventId" });
+      const queue = db.createObjectStore(QUEUE, { keyPath: "id", autoIncrement: true });
+      queue.createIndex("eventId", "eventId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request against a store and resolve with its result once the transaction commits
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+// A stable id for this browser, so the server can tell which device checked a ticket in
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export async function downloadManifest(eventId: number): Promise<CheckInManifest> {
+  const res = await fetch(`/api/events/${eventId}/check-in/manifest`, { credentials: "include" });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.message || "Failed to download the ticket manifest");
+  }
+
+  const manifest: CheckInManifest = await res.json();
+  await withStore(MANIFESTS, "readwrite", store => store.put(manifest));
+  return manifest;
+}
+
+export function getManifest(eventId: number): Promise<CheckInManifest | undefined> {
+  return withStore(MANIFESTS, "readonly", store => store.get(eventId));
+}
+
+// Check a scanned code against the manifest: it must be this event's code format, name a
+// ticket in the manifest and carry that ticket's signature
+export function verifyCodeLocally(manifest: CheckInManifest, code: string): LocalVerification {
+  const parts = code.trim().split(".");
+  if (parts.length !== 5 || parts[0] !== "TKT1") {
+    return { valid: false, message: "Not a ticket code" };
+  }
+
+  const [, ticketId, eventId, ticketNumber, signature] = parts;
+  if (parseInt(eventId) !== manifest.eventId) {
+    return { valid: false, message: "Ticket is for a different event" };
+  }
+
+  const ticket = manifest.tickets.find(entry => entry.id === parseInt(ticketId));
+  if (!ticket || ticket.ticketNumber !== ticketNumber || ticket.signature !== signature) {
+    return { valid: false, message: "Invalid or forged ticket code" };
+  }
+
+  if (ticket.status !== "active" && ticket.status !== "used") {
+    return { valid: false, message: `Ticket status is ${ticket.status}`, ticket };
+  }
+
+  // The same entry rules the server applies, from what this device knows
+  if (ticket.entryRule === "reentry" || ticket.entryRule === "daily") {
+    if (ticket.inside) {
+      return { valid: false, message: "Ticket is already checked in", ticket };
+    }
+    if (
+      ticket.entryRule === "daily" &&
+      ticket.lastEntryAt &&
+      isSameDayInTimeZone(ticket.lastEntryAt, new Date(), manifest.timeZone ?? DEFAULT_TIME_ZONE)
+    ) {
+      return { valid: false, message: "Ticket already used today", ticket };
+    }
+  } else if (ticket.status === "used") {
+    return { valid: false, message: "Ticket already used", ticket };
+  }
+
+  return { valid: true, ticket };
+}
+
+// Queue a check-in and mark the ticket inside in the local manifest so it can't be let in twice here
+export async function queueCheckIn(
+  manifest: CheckInManifest,
+  ticket: ManifestTicket,
+  code: string,
+  gate: string | null = null
+): Promise<void> {
+  const scannedAt = new Date().toISOString();
+  await withStore(QUEUE, "readwrite", store => store.add({
+    eventId: manifest.eventId,
+    ticketId: ticket.id,
+    code,
+    gate,
+    scannedAt,
+  } satisfies QueuedCheckIn));
+
+  ticket.status = "used";
+  ticket.checkInTime = ticket.checkInTime || scannedAt;
+  ticket.inside = true;
+  ticket.lastEntryAt = scannedAt;
+  await withStore(MANIFESTS, "readwrite", store => store.put(manifest));
+}
+
+export function getQueuedCheckIns(eventId: number): Promise<QueuedCheckIn[]> {
+  return withStore(QUEUE, "readonly", store => store.index("eventId").getAll(eventId));
+}
+
+// Upload the event's queued check-ins. Everything the server answered for leaves the queue,
+// conflicts included, since they are recorded server-side for the organizer.
+export async function syncCheckIns(eventId: number): Promise<SyncResult[]> {
+  const queued = await getQueuedCheckIns(eventId);
+  if (queued.length === 0) {
+    return [];
+  }
+
+  const res = await fetch(`/api/events/${eventId}/check-in/sync`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({
+      deviceId: getDeviceId(),
+      checkIns: queued.map(checkIn => ({ code: checkIn.code, scannedAt: checkIn.scannedAt, gate: checkIn.gate })),
+    }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.message || "Failed to sync check-ins");
+  }
+
+  const { results } = await res.json() as { results: SyncResult[] };
+  for (const checkIn of queued) {
+    await withStore(QUEUE, "readwrite", store => store.delete(checkIn.id!));
+  }
+  return results;
+}
+
+// Cache this event's check-in page so it still opens without a connection. The worker is
+// scoped to the page, so the rest of the app is never served from its cache.
+export async function registerCheckInServiceWorker(eventId: number) {
+  if (!("serviceWorker" in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register("/check-in-sw.js", { scope: `/events/${eventId}/scan` });
+  } catch (error) {
+    console.error("Service worker registration failed:", error);
+  }
+}
@@ -8,6 +8,8 @@ import Footer from "@/components/Footer";
 import StatCard from "@/components/admin/StatCard";
 import { EventTransactionDetails } from "@/components/admin/EventTransactionDetails";
 import { UserTransactionDetails } from "@/components/admin/UserTransactionDetails";
+import { WebhookEventsPanel } from "@/components/admin/WebhookEventsPanel";
+import { VendorCompliancePanel } from "@/components/admin/VendorCompliancePanel";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   User as UserIcon, 
@@ -1072,6 +1074,18 @@ export default function AdminDashboardPage() {
             >
               Analytics & Reports
             </TabsTrigger>
+            <TabsTrigger 
+              value="webhooks" 
+              className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none px-4 py-2 data-[state=active]:text-primary"
+            >
+              Webhooks
+            </TabsTrigger>
+            <TabsTrigger 
+              value="vendor-compliance" 
+              className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none px-4 py-2 data-[state=active]:text-primary"
+            >
+              Vendor Compliance
+            </TabsTrigger>
 
           </TabsList>
           
@@ -2995,6 +3009,14 @@ export default function AdminDashboardPage() {
             </Card>
           </TabsContent>
           
+          {/* Webhooks Tab Content */}
+          <TabsContent value="webhooks" className="m-0">
+            <WebhookEventsPanel />
+          </TabsContent>
+
+          <TabsContent value="vendor-compliance" className="m-0">
+            <VendorCompliancePanel />
+          </TabsContent>
 
         </Tabs>
       </main>
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { AttendeeQuestion } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useCart } from "@/hooks/use-cart";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+// Answers for one ticket, keyed by question id
+type Answers = Record<string, string>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default function AttendeeRegistrationPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { getCartItem, setRegistrationStatus, needsRegistrationExcluding, getNextRegistrationPathExcluding } = useCart();
+  const { toast } = useToast();
+
+  const cartItem = getCartItem(id);
+  const [answers, setAnswers] = useState<Answers[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Redirect if cart item doesn't exist or isn't a ticket
+  useEffect(() => {
+    if (!cartItem) {
+      toast({
+        title: "Item not found",
+        description: "The specified cart item was not found.",
+        variant: "destructive",
+      });
+      navigate("/");
+      return;
+    }
+
+    if (cartItem.product.type !== "ticket") {
+      toast({
+        title: "Invalid item type",
+        description: "This item does not need attendee details.",
+        variant: "destructive",
+      });
+      navigate("/");
+    }
+  }, [cartItem, toast, navigate]);
+
+  const { data: questions, isLoading } = useQuery<AttendeeQuestion[]>({
+    queryKey: [`/api/events/${cartItem?.product.eventId}/attendee-questions?productId=${cartItem?.productId}`],
+    enabled: !!cartItem,
+  });
+
+  // Start from earlier answers, or prefill the first ticket with the buyer's own details
+  useEffect(() => {
+    if (!cartItem || !questions) return;
+
+    const saved: { answers: Answers }[] = cartItem.registrationData?.attendees || [];
+    setAnswers(Array.from({ length: cartItem.quantity }, (_, index) => {
+      if (saved[index]) return { ...saved[index].answers };
+
+      const prefill: Answers = {};
+      if (index === 0) {
+        for (const question of questions) {
+          if (question.fieldType === "name" && user?.name) prefill[question.id] = user.name;
+          if (question.fieldType === "email" && user?.email) prefill[question.id] = user.email;
+        }
+      }
+      return prefill;
+    }));
+  }, [cartItem?.quantity, questions, user]);
+
+  const setAnswer = (ticketIndex: number, questionId: number, value: string) => {
+    setAnswers(current => current.map((ticketAnswers, index) =>
+      index === ticketIndex ? { ...ticketAnswers, [questionId]: value } : ticketAnswers
+    ));
+  };
+
+  // Same checks the server makes at checkout, keyed "<ticket>-<question>" for display
+  const validate = () => {
+    const found: Record<string, string> = {};
+    answers.forEach((ticketAnswers, index) => {
+      for (const question of questions || []) {
+        const value = (ticketAnswers[question.id] || "").trim();
+        const key = `${index}-${question.id}`;
+        if (!value) {
+          if (question.isRequired) found[key] = "Required";
+        } else if (question.fieldType === "email" && !EMAIL_PATTERN.test(value)) {
+          found[key] = "Must be a valid email";
+        }
+      }
+    });
+    setErrors(found);
+    return Object.keys(found).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setRegistrationStatus(id, "complete", { attendees: answers.map(ticketAnswers => ({ answers: ticketAnswers })) });
+    toast({
+      title: "Attendee details saved",
+      description: "Your ticket details have been saved.",
+    });
+
+    navigate(needsRegistrationExcluding(id) ? getNextRegistrationPathExcluding(id) : "/checkout");
+  };
+
+  const renderField = (question: AttendeeQuestion, ticketIndex: number) => {
+    const value = answers[ticketIndex]?.[question.id] || "";
+    const onChange = (newValue: string) => setAnswer(ticketIndex, question.id, newValue);
+
+    switch (question.fieldType) {
+      case "textarea":
+        return <Textarea value={value} maxLength={5000} onChange={(e) => onChange(e.target.value)} />;
+      case "select":
+        return (
+          <Select value={value || undefined} onValueChange={onChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select an option" />
+            </SelectTrigger>
+            <SelectContent>
+              {((question.options as string[] | null) || []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            type={question.fieldType === "email" ? "email" : "text"}
+            value={value}
+            maxLength={question.fieldType === "email" ? 254 : 500}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        );
+    }
+  };
+
+  if (isLoading || !cartItem || !questions) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-3xl mx-auto">
+        <Card>
+          <form onSubmit={handleSubmit}>
+            <CardHeader>
+              <CardTitle>Attendee Details</CardTitle>
+              <CardDescription>
+                The organizer needs a few details for each ticket holder: {cartItem.product.name} × {cartItem.quantity}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {answers.map((_, ticketIndex) => (
+                <div key={ticketIndex} className="space-y-4">
+                  {ticketIndex > 0 && <Separator />}
+                  <h3 className="font-medium">Ticket {ticketIndex + 1}</h3>
+                  {questions.map(question => {
+                    const error = errors[`${ticketIndex}-${question.id}`];
+                    return (
+                      <div key={question.id} className="space-y-2">
+                        <Label>
+                          {question.label}
+                          {!question.isRequired && <span className="text-muted-foreground"> (optional)</span>}
+                        </Label>
+                        {renderField(question, ticketIndex)}
+                        {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </CardContent>
+            <CardFooter className="flex justify-between">
+              <Button type="button" variant="outline" onClick={() => window.history.back()}>
+                Back
+              </Button>
+              <Button type="submit">Save and Continue</Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useLocation } from "wouter";
 import { useCart } from "@/hooks/use-cart";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { ShoppingBag, CreditCard, ArrowRight, ExternalLink, Info } from "lucide-react";
+import { ShoppingBag, CreditCard, ArrowRight, ExternalLink, Info, Tag, X } from "lucide-react";
 
 import {
   Card,
@@ -14,6 +14,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { AlertCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
@@ -25,15 +26,30 @@ import {
 import { Loader2 } from "lucide-react";
 
 export default function CheckoutPage() {
-  const { items, total, itemCount, checkoutMutation, hasRegistrationType, getRegistrationStatus } = useCart();
+  const { 
+    items, 
+    total, 
+    itemCount, 
+    checkoutMutation, 
+    hasRegistrationType, 
+    getRegistrationStatus,
+    promo,
+    discount,
+    totalAfterDiscount,
+    applyPromoCode,
+    removePromoCode
+  } = useCart();
   const { user } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [isRedirectingToStripe, setIsRedirectingToStripe] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
 
   // Check if any items need registration
   const hasVendorRegistrations = hasRegistrationType('vendor');
   const hasVolunteerRegistrations = hasRegistrationType('volunteer');
+  const hasAttendeeRegistrations = hasRegistrationType('attendee');
   
   // Check if we have any incomplete registrations
   const [hasIncompleteRegistrations, setHasIncompleteRegistrations] = useState(false);
@@ -51,8 +67,13 @@ export default function CheckoutPage() {
       item => getRegistrationStatus(item.id) !== 'complete'
     );
     
+    // Tickets only need details when the event asks attendee questions
+    const incompleteAttendeeRegistrations = items.some(
+      item => item.product.type === 'ticket' && getRegistrationStatus(item.id) === 'pending'
+    );
+    
     setHasIncompleteRegistrations(
-      incompleteVendorRegistrations || incompleteVolunteerRegistrations
+      incompleteVendorRegistrations || incompleteVolunteerRegistrations || incompleteAttendeeRegistrations
     );
   }, [items, getRegistrationStatus]);
   
@@ -105,6 +126,19 @@ export default function CheckoutPage() {
     );
   }
 
+  // Handle promo code entry
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) return;
+    
+    setIsApplyingPromo(true);
+    const applied = await applyPromoCode(promoInput.trim());
+    setIsApplyingPromo(false);
+    
+    if (applied) {
+      setPromoInput("");
+    }
+  };
+
   // Handle checkout
   const handleCheckout = () => {
     if (hasIncompleteRegistrations) {
@@ -177,6 +211,11 @@ export default function CheckoutPage() {
                         <div className="text-right">
                           <p className="font-medium">${item.product.price.toFixed(2)}</p>
                           <p className="text-muted-foreground text-sm">Qty: {item.quantity}</p>
+                          {promo?.lineDiscounts[item.productId] ? (
+                            <p className="text-green-700 text-sm">
+                              -${promo.lineDiscounts[item.productId].toFixed(2)}
+                            </p>
+                          ) : null}
                         </div>
                       </div>
                       
@@ -214,13 +253,14 @@ export default function CheckoutPage() {
           )}
           
           {/* Registration reminders */}
-          {(hasVendorRegistrations || hasVolunteerRegistrations) && !hasIncompleteRegistrations && (
+          {(hasVendorRegistrations || hasVolunteerRegistrations || hasAttendeeRegistrations) && !hasIncompleteRegistrations && (
             <Alert className="mt-4">
               <AlertCircle className="h-4 w-4" />
               <AlertTitle>Registration Information</AlertTitle>
               <AlertDescription>
                 {hasVendorRegistrations && "Your vendor registration information has been saved. "}
                 {hasVolunteerRegistrations && "Your volunteer registration information has been saved. "}
+                {hasAttendeeRegistrations && "Attendee details for your tickets have been saved. "}
                 Event organizers will review your registration after checkout.
               </AlertDescription>
             </Alert>
@@ -264,12 +304,48 @@ export default function CheckoutPage() {
                   <span>Subtotal</span>
                   <span>${total.toFixed(2)}</span>
                 </div>
+                {promo && (
+                  <div className="flex justify-between text-green-700">
+                    <span className="flex items-center">
+                      <Tag className="mr-1 h-4 w-4" />
+                      {promo.code}
+                      <button
+                        type="button"
+                        className="ml-1 text-muted-foreground hover:text-foreground"
+                        onClick={removePromoCode}
+                        aria-label="Remove promo code"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                    <span>-${discount.toFixed(2)}</span>
+                  </div>
+                )}
                 {/* Add taxes, fees, etc. here if applicable */}
                 <Separator />
                 <div className="flex justify-between font-bold">
                   <span>Total</span>
-                  <span>${total.toFixed(2)}</span>
+                  <span>${totalAfterDiscount.toFixed(2)}</span>
                 </div>
+                
+                {/* Promo code entry */}
+                {!promo && (
+                  <div className="flex gap-2 pt-2">
+                    <Input
+                      placeholder="Promo code"
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleApplyPromo()}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleApplyPromo}
+                      disabled={!promoInput.trim() || isApplyingPromo}
+                    >
+                      {isApplyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                    </Button>
+                  </div>
+                )}
               </div>
             </CardContent>
             <CardFooter>
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useRoute, useLocation } from "wouter";
+import { Link, useRoute, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Event, Ticket, Product } from "@shared/schema";
 import Navbar from "@/components/Navbar";
@@ -48,6 +48,8 @@ import {
   EmailIcon 
 } from "react-share";
 import CalendarIntegration from "@/components/events/CalendarIntegration";
+import EventSchedule from "@/components/events/EventSchedule";
+import WaitlistButton, { findWaitlistEntry, type MyWaitlistEntry } from "@/components/events/WaitlistButton";
 
 export default function EventDetailsPage() {
   const [match, params] = useRoute("/events/:id");
@@ -91,11 +93,17 @@ export default function EventDetailsPage() {
     enabled: !!user,
   });
 
+  // The user's waitlist places, shown on sold-out products and tickets
+  const { data: myWaitlist } = useQuery<MyWaitlistEntry[]>({
+    queryKey: ["/api/my-waitlist"],
+    enabled: !!user,
+  });
+
   // Check if user has tickets for this event
   const hasTickets = userTickets?.some(ticket => ticket.eventId === eventId);
 
-  // Fetch products for this event
-  const { data: products, isLoading: productsLoading } = useQuery<Product[]>({
+  // Fetch products for this event, priced at each ticket tier's current step
+  const { data: products, isLoading: productsLoading } = useQuery<(Product & { salesStatus: string })[]>({
     queryKey: [`/api/events/${eventId}/products`],
     queryFn: async () => {
       const res = await fetch(`/api/events/${eventId}/products`);
@@ -106,7 +114,10 @@ export default function EventDetailsPage() {
   });
 
   // Organize products by type
-  const ticketProducts = products?.filter(p => p.type === "ticket") || [];
+  // Only show ticket tiers whose sales window is open (sold out tiers stay listed)
+  const ticketProducts = products?.filter(p =>
+    p.type === "ticket" && (p.salesStatus === "on_sale" || p.salesStatus === "sold_out")
+  ) || [];
   const merchandiseProducts = products?.filter(p => p.type === "merchandise") || [];
   const vendorProducts = products?.filter(p => p.type === "vendor_spot") || [];
   const volunteerProducts = products?.filter(p => p.type === "volunteer_shift") || [];
@@ -377,9 +388,16 @@ export default function EventDetailsPage() {
                     <div>
                       <h3 className="font-medium">Location</h3>
                       <p className="text-gray-600">{event.location}</p>
+                      {event.venueId && (
+                        <Link href={`/venues/${event.venueId}`} className="text-sm text-primary hover:underline">
+                          Venue info, parking and maps
+                        </Link>
+                      )}
                     </div>
                   </div>
                 </div>
+                
+                <EventSchedule event={event} />
               </div>
               
               {/* Event Options Card */}
@@ -436,24 +454,37 @@ export default function EventDetailsPage() {
                                       : 'Sold out'}
                                   </p>
                                 )}
+                                {product.salesEndAt && product.salesStatus === "on_sale" && (
+                                  <p className="text-xs text-gray-500">
+                                    Sales end {format(new Date(product.salesEndAt), "MMM d, h:mm a")}
+                                  </p>
+                                )}
                               </CardContent>
                               <CardFooter className="p-3 pt-0">
-                                <Button 
-                                  className="w-full text-sm" 
-                                  disabled={!product.isActive || (product.quantity !== null && product.quantity <= 0)}
-                                  onClick={() => {
-                                    if (!user) {
-                                      navigate("/auth");
-                                      return;
-                                    }
-                                    // Add ticket to cart
-                                    addItem(product, ticketQuantity);
-                                  }}
-                                >
-                                  {product.quantity !== null && product.quantity <= 0
-                                    ? "Sold Out"
-                                    : "Add to Cart"}
-                                </Button>
+                                {product.quantity !== null && product.quantity <= 0 ? (
+                                  <WaitlistButton
+                                    capacity={{ type: "product", id: product.id }}
+                                    name={product.name}
+                                    isActive={product.isActive}
+                                    quantity={ticketQuantity}
+                                    entry={findWaitlistEntry(myWaitlist, { type: "product", id: product.id })}
+                                  />
+                                ) : (
+                                  <Button 
+                                    className="w-full text-sm" 
+                                    disabled={!product.isActive}
+                                    onClick={() => {
+                                      if (!user) {
+                                        navigate("/auth");
+                                        return;
+                                      }
+                                      // Add ticket to cart
+                                      addItem(product, ticketQuantity);
+                                    }}
+                                  >
+                                    Add to Cart
+                                  </Button>
+                                )}
                               </CardFooter>
                             </Card>
                           ))}
@@ -516,13 +547,22 @@ export default function EventDetailsPage() {
                                   </div>
                                   
                                   <div className="relative">
-                                    <Button 
-                                      className="w-full bg-secondary hover:bg-secondary/90"
-                                      onClick={handleBuyTickets}
-                                      disabled={createCheckoutSession.isPending}
-                                    >
-                                      {createCheckoutSession.isPending ? "Processing..." : "Buy Tickets"}
-                                    </Button>
+                                    {event.ticketsAvailable === 0 ? (
+                                      <WaitlistButton
+                                        capacity={{ type: "event", id: event.id }}
+                                        name={`${event.title} tickets`}
+                                        quantity={ticketQuantity}
+                                        entry={findWaitlistEntry(myWaitlist, { type: "event", id: event.id })}
+                                      />
+                                    ) : (
+                                      <Button 
+                                        className="w-full bg-secondary hover:bg-secondary/90"
+                                        onClick={handleBuyTickets}
+                                        disabled={createCheckoutSession.isPending}
+                                      >
+                                        {createCheckoutSession.isPending ? "Processing..." : "Buy Tickets"}
+                                      </Button>
+                                    )}
                                     <div className="absolute right-0 top-0 transform translate-x-1/2 -translate-y-1/2">
                                       <ContextualHelp topic={HELP_TOPICS.CHECKOUT} />
                                     </div>
@@ -605,6 +645,9 @@ export default function EventDetailsPage() {
                               </CardHeader>
                               <CardContent className="p-3 pt-0 sm:pb-2">
                                 <p className="text-lg sm:text-xl font-bold mb-1">${product.price.toFixed(2)}</p>
+                                {product.paymentMode === "on_approval" && (
+                                  <p className="text-xs text-gray-500">Apply now, pay once approved</p>
+                                )}
                                 {product.quantity !== null && (
                                   <p className="text-xs text-gray-500">
                                     {product.quantity > 0 
@@ -614,22 +657,30 @@ export default function EventDetailsPage() {
                                 )}
                               </CardContent>
                               <CardFooter className="p-3 pt-0">
-                                <Button 
-                                  className="w-full text-sm" 
-                                  disabled={!product.isActive || (product.quantity !== null && product.quantity <= 0)}
-                                  onClick={() => {
-                                    if (!user) {
-                                      navigate("/auth");
-                                      return;
-                                    }
-                                    // Add vendor spot to cart
-                                    addItem(product, 1);
-                                  }}
-                                >
-                                  {product.quantity !== null && product.quantity <= 0
-                                    ? "Spots Full"
-                                    : "Add to Cart"}
-                                </Button>
+                                {product.quantity !== null && product.quantity <= 0 ? (
+                                  <WaitlistButton
+                                    capacity={{ type: "product", id: product.id }}
+                                    name={product.name}
+                                    isActive={product.isActive}
+                                    quantity={1}
+                                    entry={findWaitlistEntry(myWaitlist, { type: "product", id: product.id })}
+                                  />
+                                ) : (
+                                  <Button 
+                                    className="w-full text-sm" 
+                                    disabled={!product.isActive}
+                                    onClick={() => {
+                                      if (!user) {
+                                        navigate("/auth");
+                                        return;
+                                      }
+                                      // Add vendor spot to cart
+                                      addItem(product, 1);
+                                    }}
+                                  >
+                                    Add to Cart
+                                  </Button>
+                                )}
                               </CardFooter>
                             </Card>
                           ))}
@@ -660,22 +711,30 @@ export default function EventDetailsPage() {
                                 )}
                               </CardContent>
                               <CardFooter className="p-3 pt-0">
-                                <Button 
-                                  className="w-full text-sm" 
-                                  disabled={!product.isActive || (product.quantity !== null && product.quantity <= 0)}
-                                  onClick={() => {
-                                    if (!user) {
-                                      navigate("/auth");
-                                      return;
-                                    }
-                                    // Add volunteer position to cart
-                                    addItem(product, 1);
-                                  }}
-                                >
-                                  {product.quantity !== null && product.quantity <= 0
-                                    ? "Positions Filled"
-                                    : "Add to Cart"}
-                                </Button>
+                                {product.quantity !== null && product.quantity <= 0 ? (
+                                  <WaitlistButton
+                                    capacity={{ type: "product", id: product.id }}
+                                    name={product.name}
+                                    isActive={product.isActive}
+                                    quantity={1}
+                                    entry={findWaitlistEntry(myWaitlist, { type: "product", id: product.id })}
+                                  />
+                                ) : (
+                                  <Button 
+                                    className="w-full text-sm" 
+                                    disabled={!product.isActive}
+                                    onClick={() => {
+                                      if (!user) {
+                                        navigate("/auth");
+                                        return;
+                                      }
+                                      // Add volunteer position to cart
+                                      addItem(product, 1);
+                                    }}
+                                  >
+                                    Add to Cart
+                                  </Button>
+                                )}
                               </CardFooter>
                             </Card>
                           ))}
@@ -25,7 +25,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Calendar, Clock, MapPin, Edit, Trash2, PlusCircle, Copy, Eye } from "lucide-react";
+import { Calendar, Clock, MapPin, Edit, Trash2, PlusCircle, Copy, Eye, Banknote, ScanLine } from "lucide-react";
 import EventForm from "@/components/ui/event-form";
 import { ContextualHelp } from "@/components/ui/contextual-help";
 import { HELP_TOPICS } from "@/contexts/help-context";
@@ -262,6 +262,42 @@ export default function MyEventsPage() {
                       </Button>
                     </div>
                   </div>
+                  <div className="flex justify-between w-full gap-2">
+                    <div className="relative flex-1">
+                      <ContextualHelp
+                        content="Sell tickets and products at the door with cash, comps or a saved card"
+                        title="Door Sales"
+                        placement="top"
+                        variant="compact"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/events/${event.id}/pos`)}
+                        className="w-full"
+                      >
+                        <Banknote className="h-4 w-4 mr-1" />
+                        Door Sales
+                      </Button>
+                    </div>
+                    <div className="relative flex-1">
+                      <ContextualHelp
+                        content="Scan attendees' ticket QR codes with your camera to check them in"
+                        title="Scan Tickets"
+                        placement="top"
+                        variant="compact"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/events/${event.id}/scan`)}
+                        className="w-full"
+                      >
+                        <ScanLine className="h-4 w-4 mr-1" />
+                        Scan Tickets
+                      </Button>
+                    </div>
+                  </div>
                   <div className="flex justify-between w-full gap-2">
                     <div className="relative flex-1">
                       <ContextualHelp
@@ -15,7 +15,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { CheckCircle2, Calendar, MapPin, Download, ArrowRight } from "lucide-react";
+import { CheckCircle2, Calendar, MapPin, Download, ArrowRight, Ticket as TicketIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Loader2 } from "lucide-react";
 
@@ -40,6 +40,7 @@ interface Order {
   orderNumber: string;
   status: string;
   totalAmount: number;
+  buyerFeeAmount: number;
   paymentMethod: string;
   paymentStatus: string;
   stripePaymentId: string | null;
@@ -51,10 +52,18 @@ interface Order {
   updatedAt: string;
 }
 
+interface CheckoutOrder {
+  order: Order;
+  items: OrderItem[];
+  eventTitle: string | null;
+}
+
 interface OrderResponse {
   order: Order;
   items: OrderItem[];
   tickets: any[];
+  // Every order from the same checkout, one per event
+  checkoutOrders?: CheckoutOrder[];
 }
 
 type QueryData = OrderResponse;
@@ -118,6 +127,12 @@ export default function OrderSuccessPage() {
     );
   }
 
+  const checkoutOrders = data.checkoutOrders?.length
+    ? data.checkoutOrders
+    : [{ order: data.order, items: data.items, eventTitle: null }];
+  const checkoutTotal = checkoutOrders.reduce((sum, checkoutOrder) => sum + (checkoutOrder.order.totalAmount || 0), 0);
+  const checkoutFees = checkoutOrders.reduce((sum, checkoutOrder) => sum + (checkoutOrder.order.buyerFeeAmount || 0), 0);
+
   return (
     <div className="container mx-auto py-8">
       <div className="max-w-3xl mx-auto">
@@ -128,7 +143,9 @@ export default function OrderSuccessPage() {
           </div>
           <h1 className="text-3xl font-bold">Thank You for Your Order!</h1>
           <p className="text-muted-foreground mt-2">
-            Your order #{id} has been confirmed and processed successfully.
+            {checkoutOrders.length > 1
+              ? `Your ${checkoutOrders.length} orders have been confirmed and processed successfully.`
+              : `Your order #${id} has been confirmed and processed successfully.`}
           </p>
         </div>
 
@@ -144,64 +161,81 @@ export default function OrderSuccessPage() {
             <div className="space-y-6">
               {/* Order items */}
               {console.log(data)}
-              <div>
-                <h3 className="font-medium mb-3">Items</h3>
-                <div className="space-y-4">
-                  {data?.items?.map((item: OrderItem) => {
-                    return (
-                      <div key={item.id} className="flex justify-between">
-                        <div>
-                          <p className="font-medium">{item.name || 'Product'}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {item.itemType === 'ticket' && 'Ticket'}
-                            {item.itemType === 'merchandise' && 'Merchandise'}
-                            {item.itemType === 'vendor_spot' && 'Vendor Registration'}
-                            {item.itemType === 'volunteer_shift' && 'Volunteer Shift'}
-                            {item.itemType === 'addon' && 'Add-on'}
-                            {!item.itemType && 'Item'}
-                          </p>
-                          <p className="text-xs text-muted-foreground mt-1">{item.description}</p>
+              {checkoutOrders.map((checkoutOrder) => (
+                <div key={checkoutOrder.order.id}>
+                  <div className="flex justify-between items-baseline mb-3">
+                    <h3 className="font-medium">
+                      {checkoutOrders.length > 1
+                        ? `${checkoutOrder.eventTitle || 'Event'} • Order ${checkoutOrder.order.orderNumber}`
+                        : 'Items'}
+                    </h3>
+                    {checkoutOrders.length > 1 && (
+                      <a
+                        href={`/api/orders/${checkoutOrder.order.id}/receipt`}
+                        className="text-sm text-primary hover:underline"
+                        download
+                      >
+                        Receipt
+                      </a>
+                    )}
+                  </div>
+                  <div className="space-y-4">
+                    {checkoutOrder.items.map((item: OrderItem) => {
+                      return (
+                        <div key={item.id} className="flex justify-between">
+                          <div>
+                            <p className="font-medium">{item.name || 'Product'}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {item.itemType === 'ticket' && 'Ticket'}
+                              {item.itemType === 'merchandise' && 'Merchandise'}
+                              {item.itemType === 'vendor_spot' && 'Vendor Registration'}
+                              {item.itemType === 'volunteer_shift' && 'Volunteer Shift'}
+                              {item.itemType === 'addon' && 'Add-on'}
+                              {!item.itemType && 'Item'}
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-1">{item.description}</p>
                           
-                          {/* Registration status */}
-                          {item.itemType === 'vendor_spot' && item.metadata && (
-                            <div className="mt-2">
-                              <Badge 
-                                variant="outline" 
-                                className={item.metadata.status === 'pending' ? 
-                                  "bg-yellow-50 text-yellow-700 border-yellow-200" : 
-                                  "bg-blue-50 text-blue-700 border-blue-200"}
-                              >
-                                {item.metadata.status === 'pending' ? 'Registration Pending' : 'Registration Complete'}
-                              </Badge>
-                            </div>
-                          )}
+                            {/* Registration status */}
+                            {item.itemType === 'vendor_spot' && item.metadata && (
+                              <div className="mt-2">
+                                <Badge 
+                                  variant="outline" 
+                                  className={item.metadata.status === 'pending' ? 
+                                    "bg-yellow-50 text-yellow-700 border-yellow-200" : 
+                                    "bg-blue-50 text-blue-700 border-blue-200"}
+                                >
+                                  {item.metadata.status === 'pending' ? 'Registration Pending' : 'Registration Complete'}
+                                </Badge>
+                              </div>
+                            )}
 
-                          {/* Show vendor metadata if available */}
-                          {item.metadata && item.metadata.metadata && (
-                            <div className="mt-2 text-sm">
-                              {item.metadata.metadata.preferredLocation && (
-                                <div className="flex items-center text-muted-foreground">
-                                  <MapPin className="h-3 w-3 mr-1" />
-                                  Preferred Location: {item.metadata.metadata.preferredLocation}
-                                </div>
-                              )}
-                              {item.metadata.metadata.productsDescription && (
-                                <div className="text-muted-foreground mt-1">
-                                  Products: {item.metadata.metadata.productsDescription}
-                                </div>
-                              )}
-                            </div>
-                          )}
+                            {/* Show vendor metadata if available */}
+                            {item.metadata && item.metadata.metadata && (
+                              <div className="mt-2 text-sm">
+                                {item.metadata.metadata.preferredLocation && (
+                                  <div className="flex items-center text-muted-foreground">
+                                    <MapPin className="h-3 w-3 mr-1" />
+                                    Preferred Location: {item.metadata.metadata.preferredLocation}
+                                  </div>
+                                )}
+                                {item.metadata.metadata.productsDescription && (
+                                  <div className="text-muted-foreground mt-1">
+                                    Products: {item.metadata.metadata.productsDescription}
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium">${(item.unitPrice || 0).toFixed(2)}</p>
+                            <p className="text-sm text-muted-foreground">Qty: {item.quantity || 1}</p>
+                          </div>
                         </div>
-                        <div className="text-right">
-                          <p className="font-medium">${(item.unitPrice || 0).toFixed(2)}</p>
-                          <p className="text-sm text-muted-foreground">Qty: {item.quantity || 1}</p>
-                        </div>
-                      </div>
-                    );
-                  })}
+                      );
+                    })}
+                  </div>
                 </div>
-              </div>
+              ))}
               
               <Separator />
               
@@ -209,14 +243,26 @@ export default function OrderSuccessPage() {
               <div>
                 <h3 className="font-medium mb-3">Payment Summary</h3>
                 <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span>Subtotal</span>
-                    <span>${data?.order?.totalAmount?.toFixed(2) || '0.00'}</span>
-                  </div>
-                  {/* Add taxes, fees, etc. here if applicable */}
+                  {checkoutOrders.map((checkoutOrder) => (
+                    <div key={checkoutOrder.order.id} className="flex justify-between">
+                      <span>
+                        {checkoutOrders.length > 1
+                          ? `Subtotal (${checkoutOrder.eventTitle || `Order ${checkoutOrder.order.orderNumber}`})`
+                          : 'Subtotal'}
+                      </span>
+                      <span>${((checkoutOrder.order.totalAmount || 0) - (checkoutOrder.order.buyerFeeAmount || 0)).toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {checkoutFees > 0 && (
+                    <div className="flex justify-between">
+                      <span>Processing fee</span>
+                      <span>${checkoutFees.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {/* Add taxes, etc. here if applicable */}
                   <div className="flex justify-between font-bold pt-2">
                     <span>Total</span>
-                    <span>${data?.order?.totalAmount?.toFixed(2) || '0.00'}</span>
+                    <span>${checkoutTotal.toFixed(2)}</span>
                   </div>
                 </div>
               </div>
@@ -243,14 +289,20 @@ export default function OrderSuccessPage() {
             </div>
           </CardContent>
           <CardFooter className="flex flex-col sm:flex-row gap-3 items-stretch sm:items-center">
-            <Button 
-              variant="outline" 
-              className="flex-1"
-              onClick={() => window.print()}
-            >
-              <Download className="mr-2 h-4 w-4" />
-              Print Receipt
+            <Button variant="outline" className="flex-1" asChild>
+              <a href={`/api/orders/${data.order.id}/receipt`} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download Receipt
+              </a>
             </Button>
+            {data.tickets.length > 0 && (
+              <Button variant="outline" className="flex-1" asChild>
+                <a href={`/api/orders/${data.order.id}/tickets/pdf`} download>
+                  <TicketIcon className="mr-2 h-4 w-4" />
+                  Download Tickets
+                </a>
+              </Button>
+            )}
             <Button 
               className="flex-1"
               onClick={() => setLocation("/")}
@@ -0,0 +1,520 @@
+import { useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Event, Product, CashDrawerSession } from "@shared/schema";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Banknote, CreditCard, Gift, Loader2, Minus, Plus } from "lucide-react";
+
+type PaymentMethod = "cash" | "comp" | "card_on_file";
+
+interface DrawerTotals {
+  orderCount: number;
+  cashSales: number;
+  cashRefunds: number;
+}
+
+type OpenDrawer = CashDrawerSession & DrawerTotals;
+
+type DrawerHistoryEntry = CashDrawerSession & DrawerTotals & { variance: number | null };
+
+interface SaleResult {
+  order: { id: number; orderNumber: string; totalAmount: number };
+  tickets: { id: number; ticketType: string; checkedIn: boolean }[];
+  changeDue: number;
+}
+
+const PAYMENT_METHODS: { value: PaymentMethod; label: string; icon: typeof Banknote }[] = [
+  { value: "cash", label: "Cash", icon: Banknote },
+  { value: "comp", label: "Comp", icon: Gift },
+  { value: "card_on_file", label: "Card on file", icon: CreditCard },
+];
+
+function formatMoney(amount: number) {
+  return `$${amount.toFixed(2)}`;
+}
+
+export default function PointOfSalePage() {
+  const { id } = useParams<{ id: string }>();
+  const eventId = parseInt(id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [cart, setCart] = useState<Record<number, number>>({});
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const [buyerEmail, setBuyerEmail] = useState("");
+  const [doorPaymentCode, setDoorPaymentCode] = useState("");
+  const [amountTendered, setAmountTendered] = useState("");
+  const [checkIn, setCheckIn] = useState(true);
+  const [openingAmount, setOpeningAmount] = useState("");
+  const [closingAmount, setClosingAmount] = useState("");
+  const [lastSale, setLastSale] = useState<SaleResult | null>(null);
+
+  const { data: event } = useQuery<Event>({
+    queryKey: [`/api/events/${eventId}`],
+  });
+
+  const { data: allProducts = [], isLoading: isLoadingProducts } = useQuery<(Product & { salesStatus: string })[]>({
+    queryKey: [`/api/events/${eventId}/products`],
+  });
+  // Ticket tiers outside their sales window can't be sold at the door either
+  const products = allProducts.filter(product =>
+    product.isActive && product.salesStatus !== "scheduled" && product.salesStatus !== "ended"
+  );
+
+  const { data: drawer, isLoading: isLoadingDrawer } = useQuery<OpenDrawer | null>({
+    queryKey: [`/api/events/${eventId}/pos/drawer`],
+  });
+
+  const { data: drawerHistory = [] } = useQuery<DrawerHistoryEntry[]>({
+    queryKey: [`/api/events/${eventId}/pos/drawers`],
+  });
+
+  const invalidateDrawers = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/pos/drawer`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/pos/drawers`] });
+  };
+
+  const openDrawerMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/pos/drawer`, {
+        openingAmount: parseFloat(openingAmount) || 0,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateDrawers();
+      setOpeningAmount("");
+      toast({ title: "Drawer opened", description: "You can now take cash sales" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to open cash drawer", variant: "destructive" });
+    },
+  });
+
+  const closeDrawerMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/pos/drawers/${drawer!.id}/close`, {
+        closingAmount: parseFloat(closingAmount) || 0,
+      });
+      return res.json();
+    },
+    onSuccess: (closed: DrawerHistoryEntry) => {
+      invalidateDrawers();
+      setClosingAmount("");
+      toast({
+        title: "Drawer closed",
+        description: `Expected ${formatMoney(closed.expectedAmount || 0)}, variance ${formatMoney(closed.variance || 0)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to close cash drawer", variant: "destructive" });
+    },
+  });
+
+  const saleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/pos/sales`, {
+        items: Object.entries(cart).map(([productId, quantity]) => ({ productId: parseInt(productId), quantity })),
+        paymentMethod,
+        buyerEmail: buyerEmail || undefined,
+        doorPaymentCode: paymentMethod === "card_on_file" ? doorPaymentCode : undefined,
+        amountTendered: paymentMethod === "cash" && amountTendered ? parseFloat(amountTendered) : undefined,
+        checkIn,
+      });
+      return res.json();
+    },
+    onSuccess: (sale: SaleResult) => {
+      setLastSale(sale);
+      setCart({});
+      setBuyerEmail("");
+      setDoorPaymentCode("");
+      setAmountTendered("");
+      invalidateDrawers();
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/products`] });
+      toast({ title: "Sale complete", description: `Order ${sale.order.orderNumber}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sale failed", description: error.message || "Failed to complete sale", variant: "destructive" });
+    },
+  });
+
+  const updateQuantity = (productId: number, change: number) => {
+    setCart(current => {
+      const quantity = (current[productId] || 0) + change;
+      const { [productId]: _, ...rest } = current;
+      return quantity > 0 ? { ...rest, [productId]: quantity } : rest;
+    });
+  };
+
+  const cartLines = products
+    .filter(product => cart[product.id])
+    .map(product => ({ product, quantity: cart[product.id] }));
+  const cartTotal = cartLines.reduce((sum, line) => sum + line.product.price * line.quantity, 0);
+  const amountDue = paymentMethod === "comp" ? 0 : cartTotal;
+  const tendered = parseFloat(amountTendered);
+  const changeDue = paymentMethod === "cash" && !isNaN(tendered) ? tendered - amountDue : null;
+  const canCharge = cartLines.length > 0
+    && !saleMutation.isPending
+    && (paymentMethod !== "cash" || !!drawer)
+    && (paymentMethod !== "card_on_file" || (!!buyerEmail && !!doorPaymentCode))
+    && (changeDue === null || changeDue >= 0);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow container mx-auto px-4 py-6">
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/my-events")}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            My Events
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Door Sales</h1>
+            {event && <p className="text-gray-500">{event.title}</p>}
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Products */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Products</CardTitle>
+                <CardDescription>Tap a product to add it to the sale</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoadingProducts ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : products.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">This event has no products to sell</p>
+                ) : (
+                  <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+                    {products.map(product => {
+                      const soldOut = product.quantity !== null && product.quantity <= 0;
+                      return (
+                        <div
+                          key={product.id}
+                          className={`border rounded-lg p-4 flex flex-col gap-2 ${cart[product.id] ? "border-primary" : ""}`}
+                        >
+                          <button
+                            type="button"
+                            className="text-left disabled:opacity-50"
+                            disabled={soldOut}
+                            onClick={() => updateQuantity(product.id, 1)}
+                          >
+                            <div className="font-medium">{product.name}</div>
+                            <div className="text-sm text-gray-500">{formatMoney(product.price)}</div>
+                            {soldOut ? (
+                              <Badge variant="destructive" className="mt-1">Sold out</Badge>
+                            ) : product.quantity !== null && (
+                              <div className="text-xs text-gray-400">{product.quantity} left</div>
+                            )}
+                          </button>
+                          {!!cart[product.id] && (
+                            <div className="flex items-center gap-2">
+                              <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => updateQuantity(product.id, -1)}>
+                                <Minus className="h-3 w-3" />
+                              </Button>
+                              <span className="w-6 text-center">{cart[product.id]}</span>
+                              <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => updateQuantity(product.id, 1)}>
+                                <Plus className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sale */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Sale</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {cartLines.length === 0 ? (
+                  <p className="text-sm text-gray-500">No items selected</p>
+                ) : (
+                  <div className="space-y-1">
+                    {cartLines.map(line => (
+                      <div key={line.product.id} className="flex justify-between text-sm">
+                        <span>{line.quantity} × {line.product.name}</span>
+                        <span>{formatMoney(line.product.price * line.quantity)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Separator />
+
+                <div className="grid grid-cols-3 gap-2">
+                  {PAYMENT_METHODS.map(method => (
+                    <Button
+                      key={method.value}
+                      type="button"
+                      variant={paymentMethod === method.value ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setPaymentMethod(method.value)}
+                    >
+                      <method.icon className="h-4 w-4 mr-1" />
+                      {method.label}
+                    </Button>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="buyer-email">
+                    Buyer email {paymentMethod !== "card_on_file" && "(optional)"}
+                  </Label>
+                  <Input
+                    id="buyer-email"
+                    type="email"
+                    placeholder="buyer@example.com"
+                    value={buyerEmail}
+                    onChange={e => setBuyerEmail(e.target.value)}
+                  />
+                </div>
+
+                {paymentMethod === "card_on_file" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="door-payment-code">Door payment code</Label>
+                    <Input
+                      id="door-payment-code"
+                      inputMode="numeric"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={doorPaymentCode}
+                      onChange={e => setDoorPaymentCode(e.target.value.replace(/\D/g, ""))}
+                    />
+                    <p className="text-xs text-gray-500">The buyer gets this from their profile to approve the charge</p>
+                  </div>
+                )}
+
+                {paymentMethod === "cash" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="amount-tendered">Cash tendered</Label>
+                    <Input
+                      id="amount-tendered"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder={amountDue.toFixed(2)}
+                      value={amountTendered}
+                      onChange={e => setAmountTendered(e.target.value)}
+                    />
+                    {!drawer && !isLoadingDrawer && (
+                      <p className="text-sm text-red-500">Open a cash drawer before taking cash</p>
+                    )}
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={checkIn}
+                    onChange={e => setCheckIn(e.target.checked)}
+                  />
+                  Check in tickets now
+                </label>
+
+                <Separator />
+
+                <div className="flex justify-between font-medium">
+                  <span>Amount due</span>
+                  <span>{formatMoney(amountDue)}</span>
+                </div>
+                {changeDue !== null && (
+                  <div className={`flex justify-between text-sm ${changeDue < 0 ? "text-red-500" : ""}`}>
+                    <span>Change due</span>
+                    <span>{formatMoney(changeDue)}</span>
+                  </div>
+                )}
+                {paymentMethod === "card_on_file" && (
+                  <p className="text-xs text-gray-500">Card processing fees are added at checkout if the event passes them on</p>
+                )}
+              </CardContent>
+              <CardFooter>
+                <Button className="w-full" disabled={!canCharge} onClick={() => saleMutation.mutate()}>
+                  {saleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Complete sale
+                </Button>
+              </CardFooter>
+            </Card>
+
+            {lastSale && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Order {lastSale.order.orderNumber}</CardTitle>
+                  <CardDescription>
+                    {formatMoney(lastSale.order.totalAmount)} charged
+                    {lastSale.changeDue > 0 && `, give ${formatMoney(lastSale.changeDue)} change`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {lastSale.tickets.map(ticket => (
+                    <div key={ticket.id} className="flex justify-between text-sm">
+                      <span>Ticket #{ticket.id} ({ticket.ticketType})</span>
+                      {ticket.checkedIn && <Badge variant="secondary">Checked in</Badge>}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Cash drawer */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Cash Drawer</CardTitle>
+                <CardDescription>
+                  {drawer
+                    ? `Opened ${format(new Date(drawer.openedAt), "h:mm a")} with ${formatMoney(drawer.openingAmount)}`
+                    : "Count the starting float and open a drawer to take cash"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {drawer ? (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span>Cash sales ({drawer.orderCount} orders)</span>
+                      <span>{formatMoney(drawer.cashSales)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span>Cash refunds</span>
+                      <span>-{formatMoney(drawer.cashRefunds)}</span>
+                    </div>
+                    <div className="flex justify-between font-medium">
+                      <span>Expected in drawer</span>
+                      <span>{formatMoney(drawer.openingAmount + drawer.cashSales - drawer.cashRefunds)}</span>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="closing-amount">Counted cash</Label>
+                      <Input
+                        id="closing-amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={closingAmount}
+                        onChange={e => setClosingAmount(e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={closingAmount === "" || closeDrawerMutation.isPending}
+                      onClick={() => closeDrawerMutation.mutate()}
+                    >
+                      Close drawer
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="opening-amount">Opening float</Label>
+                      <Input
+                        id="opening-amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="0.00"
+                        value={openingAmount}
+                        onChange={e => setOpeningAmount(e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      className="w-full"
+                      disabled={openDrawerMutation.isPending || isLoadingDrawer}
+                      onClick={() => openDrawerMutation.mutate()}
+                    >
+                      Open drawer
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {drawerHistory.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Drawer History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead>Orders</TableHead>
+                    <TableHead>Opening</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Counted</TableHead>
+                    <TableHead>Variance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drawerHistory.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{format(new Date(entry.openedAt), "MMM d, h:mm a")}</TableCell>
+                      <TableCell>
+                        {entry.closedAt
+                          ? format(new Date(entry.closedAt), "MMM d, h:mm a")
+                          : <Badge variant="secondary">Open</Badge>}
+                      </TableCell>
+                      <TableCell>{entry.orderCount}</TableCell>
+                      <TableCell>{formatMoney(entry.openingAmount)}</TableCell>
+                      <TableCell>
+                        {formatMoney(entry.expectedAmount ?? entry.openingAmount + entry.cashSales - entry.cashRefunds)}
+                      </TableCell>
+                      <TableCell>{entry.closingAmount !== null ? formatMoney(entry.closingAmount) : "—"}</TableCell>
+                      <TableCell className={entry.variance && entry.variance < 0 ? "text-red-500" : ""}>
+                        {entry.variance !== null ? formatMoney(entry.variance) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
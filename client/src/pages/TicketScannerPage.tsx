@@ -0,0 +1,576 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Event } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Camera, CameraOff, CheckCircle2, CloudOff, Loader2, LogIn, LogOut, RefreshCw, XCircle } from "lucide-react";
+import {
+  CheckInManifest,
+  SyncResult,
+  downloadManifest,
+  getManifest,
+  getQueuedCheckIns,
+  queueCheckIn,
+  registerCheckInServiceWorker,
+  syncCheckIns,
+  verifyCodeLocally,
+} from "@/lib/offline-checkin";
+
+// The Barcode Detection API isn't in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorInstance;
+  }
+}
+
+interface ScanResult {
+  accepted: boolean;
+  message: string;
+  holderName?: string | null;
+  ticketNumber?: string;
+  ticketType?: string;
+  scannedAt: Date;
+}
+
+interface Occupancy {
+  inside: number;
+  attendees: number;
+  entries: number;
+  exits: number;
+  gates: { gate: string | null; entries: number; exits: number }[];
+}
+
+const GATE_KEY = "check-in-gate";
+
+// Ignore the same code for a moment so one ticket held in front of the camera scans once
+const RESCAN_DELAY_MS = 3000;
+
+// How often queued offline check-ins are retried while the device is online
+const SYNC_INTERVAL_MS = 30000;
+
+async function postJson(url: string, data: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+  const body = await res.json().catch(() => ({}));
+  return { ok: res.ok, body };
+}
+
+export default function TicketScannerPage() {
+  const { id } = useParams<{ id: string }>();
+  const eventId = parseInt(id);
+  const [, navigate] = useLocation();
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const busyRef = useRef(false);
+  const lastCodeRef = useRef<{ code: string; at: number } | null>(null);
+
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [manualCode, setManualCode] = useState("");
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [history, setHistory] = useState<ScanResult[]>([]);
+  const [gate, setGate] = useState(() => localStorage.getItem(GATE_KEY) || "");
+  const [direction, setDirection] = useState<"in" | "out">("in");
+
+  // Offline mode verifies against a downloaded manifest and queues check-ins for later sync
+  const offlineModeKey = `check-in-offline-${eventId}`;
+  const [offlineMode, setOfflineMode] = useState(() => localStorage.getItem(offlineModeKey) === "true");
+  const [manifest, setManifest] = useState<CheckInManifest | null>(null);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncResult[]>([]);
+
+  const isSupported = typeof window !== "undefined" && !!window.BarcodeDetector;
+
+  const { data: event } = useQuery<Event>({
+    queryKey: [`/api/events/${eventId}`],
+  });
+
+  const { data: occupancy } = useQuery<Occupancy>({
+    queryKey: [`/api/events/${eventId}/occupancy`],
+    refetchInterval: 10000,
+    enabled: isOnline,
+  });
+
+  const updateGate = (value: string) => {
+    setGate(value);
+    localStorage.setItem(GATE_KEY, value);
+  };
+
+  const recordResult = (scan: ScanResult) => {
+    setResult(scan);
+    setHistory(current => [scan, ...current].slice(0, 20));
+  };
+
+  const refreshQueuedCount = useCallback(async () => {
+    setQueuedCount((await getQueuedCheckIns(eventId)).length);
+  }, [eventId]);
+
+  const runSync = useCallback(async () => {
+    if (!navigator.onLine) return;
+    setIsSyncing(true);
+    setSyncError(null);
+    try {
+      const results = await syncCheckIns(eventId);
+      const newConflicts = results.filter(result => result.status === "conflict");
+      if (newConflicts.length > 0) {
+        setConflicts(current => [...newConflicts, ...current]);
+      }
+    } catch (error: any) {
+      setSyncError(error.message || "Failed to sync check-ins");
+    } finally {
+      setIsSyncing(false);
+      refreshQueuedCount();
+    }
+  }, [eventId, refreshQueuedCount]);
+
+  const enableOfflineMode = async () => {
+    setSyncError(null);
+    try {
+      registerCheckInServiceWorker(eventId);
+      setManifest(await downloadManifest(eventId));
+      setOfflineMode(true);
+      setDirection("in");
+      localStorage.setItem(offlineModeKey, "true");
+    } catch (error: any) {
+      setSyncError(error.message || "Failed to download the ticket manifest");
+    }
+  };
+
+  const disableOfflineMode = async () => {
+    await runSync();
+    setOfflineMode(false);
+    localStorage.removeItem(offlineModeKey);
+  };
+
+  // Gate devices can install the scanner as an app; only this page offers it
+  useEffect(() => {
+    const link = document.createElement("link");
+    link.rel = "manifest";
+    link.href = `/api/events/${eventId}/check-in.webmanifest`;
+    document.head.appendChild(link);
+    return () => link.remove();
+  }, [eventId]);
+
+  // Pick up the stored manifest and queue when returning to the page in offline mode
+  useEffect(() => {
+    if (!offlineMode) return;
+    getManifest(eventId).then(stored => setManifest(stored || null));
+    refreshQueuedCount();
+  }, [offlineMode, eventId, refreshQueuedCount]);
+
+  // Sync as soon as the connection comes back, and periodically while online
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      if (offlineMode) runSync();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+
+    const interval = offlineMode ? setInterval(runSync, SYNC_INTERVAL_MS) : undefined;
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      clearInterval(interval);
+    };
+  }, [offlineMode, runSync]);
+
+  // Verify against the local manifest and queue the check-in
+  const handleCodeOffline = async (code: string, currentManifest: CheckInManifest) => {
+    const verification = verifyCodeLocally(currentManifest, code);
+    if (!verification.valid) {
+      recordResult({
+        accepted: false,
+        message: verification.message,
+        holderName: verification.ticket?.holderName,
+        ticketNumber: verification.ticket?.ticketNumber,
+        ticketType: verification.ticket?.ticketType,
+        scannedAt: new Date(),
+      });
+      return;
+    }
+
+    await queueCheckIn(currentManifest, verification.ticket, code, gate || null);
+    await refreshQueuedCount();
+    recordResult({
+      accepted: true,
+      message: "Checked in offline, will sync",
+      holderName: verification.ticket.holderName,
+      ticketNumber: verification.ticket.ticketNumber,
+      ticketType: verification.ticket.ticketType,
+      scannedAt: new Date(),
+    });
+  };
+
+  // Verify the code's signature and ticket, then check it in
+  const handleCode = async (code: string) => {
+    const now = Date.now();
+    if (busyRef.current) return;
+    if (lastCodeRef.current?.code === code && now - lastCodeRef.current.at < RESCAN_DELAY_MS) return;
+    lastCodeRef.current = { code, at: now };
+
+    busyRef.current = true;
+    setIsChecking(true);
+    try {
+      if (offlineMode && manifest) {
+        await handleCodeOffline(code, manifest);
+        return;
+      }
+
+      const verification = await postJson("/api/tickets/verify-code", { code, eventId });
+      const ticket = verification.body.ticket;
+
+      // Exits only need a genuine ticket; the server checks it's inside
+      if (direction === "out" && verification.ok && ticket) {
+        const checkOut = await postJson(`/api/tickets/${ticket.id}/check-out`, { code, gate: gate || null });
+        recordResult({
+          accepted: checkOut.ok,
+          message: checkOut.ok ? "Checked out" : checkOut.body.message || "Check-out failed",
+          holderName: verification.body.holderName,
+          ticketNumber: ticket.ticketNumber,
+          ticketType: ticket.ticketType,
+          scannedAt: new Date(),
+        });
+        queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/occupancy`] });
+        return;
+      }
+
+      if (!verification.ok || !verification.body.valid) {
+        recordResult({
+          accepted: false,
+          message: verification.body.message || "Ticket rejected",
+          holderName: verification.body.holderName,
+          ticketNumber: ticket?.ticketNumber,
+          ticketType: ticket?.ticketType,
+          scannedAt: new Date(),
+        });
+        return;
+      }
+
+      const checkIn = await postJson(`/api/tickets/${ticket.id}/check-in`, { code, gate: gate || null });
+      recordResult({
+        accepted: checkIn.ok,
+        message: checkIn.ok ? (ticket.status === "used" ? "Re-entry" : "Checked in") : checkIn.body.message || "Check-in failed",
+        holderName: verification.body.holderName,
+        ticketNumber: ticket.ticketNumber,
+        ticketType: ticket.ticketType,
+        scannedAt: new Date(),
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/occupancy`] });
+    } catch (error: any) {
+      recordResult({ accepted: false, message: error.message || "Could not reach the server", scannedAt: new Date() });
+    } finally {
+      busyRef.current = false;
+      setIsChecking(false);
+    }
+  };
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsCameraOn(false);
+  };
+
+  const startCamera = async () => {
+    setCameraError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setIsCameraOn(true);
+    } catch (error: any) {
+      setCameraError(error.message || "Camera access was denied");
+    }
+  };
+
+  // Look for QR codes in the video while the camera is on
+  useEffect(() => {
+    if (!isCameraOn || !window.BarcodeDetector) return;
+
+    const detector = new window.BarcodeDetector({ formats: ["qr_code"] });
+    const interval = setInterval(async () => {
+      if (!videoRef.current || busyRef.current) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        if (codes.length > 0) {
+          handleCode(codes[0].rawValue);
+        }
+      } catch {
+        // The video may not have a frame yet
+      }
+    }, 300);
+
+    return () => clearInterval(interval);
+  }, [isCameraOn, offlineMode, manifest, direction, gate]);
+
+  // Release the camera when leaving the page
+  useEffect(() => stopCamera, []);
+
+  const submitManualCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualCode.trim()) {
+      lastCodeRef.current = null;
+      handleCode(manualCode.trim());
+      setManualCode("");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow container mx-auto px-4 py-6 max-w-2xl">
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/my-events")}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            My Events
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Scan Tickets</h1>
+            {event && <p className="text-gray-500">{event.title}</p>}
+          </div>
+        </div>
+
+        {result && (
+          <div
+            className={`rounded-lg p-6 mb-6 text-white flex items-center gap-4 ${result.accepted ? "bg-green-600" : "bg-red-600"}`}
+          >
+            {result.accepted ? <CheckCircle2 className="h-12 w-12 shrink-0" /> : <XCircle className="h-12 w-12 shrink-0" />}
+            <div>
+              <div className="text-2xl font-bold">{result.accepted ? "ACCEPTED" : "REJECTED"}</div>
+              <div>{result.message}</div>
+              {result.holderName && <div className="text-sm opacity-90">{result.holderName}</div>}
+              {result.ticketNumber && (
+                <div className="text-sm font-mono opacity-90">
+                  {result.ticketNumber} {result.ticketType && `· ${result.ticketType}`}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Door</CardTitle>
+            <CardDescription>Scans are logged against this gate. Switch to Exit to scan people out.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Gate, e.g. Main Gate"
+                value={gate}
+                onChange={(e) => updateGate(e.target.value)}
+              />
+              <Button
+                variant={direction === "in" ? "default" : "outline"}
+                onClick={() => setDirection("in")}
+              >
+                <LogIn className="h-4 w-4 mr-1" />
+                Entry
+              </Button>
+              <Button
+                variant={direction === "out" ? "default" : "outline"}
+                onClick={() => setDirection("out")}
+                disabled={offlineMode}
+                title={offlineMode ? "Exits can only be scanned online" : undefined}
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Exit
+              </Button>
+            </div>
+            {occupancy && (
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold">{occupancy.inside}</div>
+                  <div className="text-xs text-gray-500">Inside now</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold">{occupancy.entries}</div>
+                  <div className="text-xs text-gray-500">Entries</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold">{occupancy.exits}</div>
+                  <div className="text-xs text-gray-500">Exits</div>
+                </div>
+              </div>
+            )}
+            {occupancy && occupancy.gates.length > 1 && (
+              <div className="text-sm space-y-1">
+                {occupancy.gates.map(entry => (
+                  <div key={entry.gate || "none"} className="flex justify-between">
+                    <span>{entry.gate || "No gate"}</span>
+                    <span className="text-gray-500">{entry.entries} in · {entry.exits} out</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Offline Mode</CardTitle>
+              <Badge variant={isOnline ? "secondary" : "destructive"}>{isOnline ? "Online" : "Offline"}</Badge>
+            </div>
+            <CardDescription>
+              Download the ticket list to keep checking people in without a connection.
+              Check-ins are stored on this device and synced when it's back online.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {offlineMode ? (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span>Ticket list</span>
+                  <span>
+                    {manifest
+                      ? `${manifest.tickets.length} tickets, downloaded ${format(new Date(manifest.generatedAt), "MMM d, h:mm a")}`
+                      : "Not downloaded"}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Waiting to sync</span>
+                  <span>{queuedCount}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="flex-1" onClick={runSync} disabled={!isOnline || isSyncing || queuedCount === 0}>
+                    <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? "animate-spin" : ""}`} />
+                    Sync Now
+                  </Button>
+                  <Button variant="outline" size="sm" className="flex-1" onClick={enableOfflineMode} disabled={!isOnline || queuedCount > 0}>
+                    Refresh Ticket List
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={disableOfflineMode} disabled={!isOnline}>
+                    Go Online
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Button variant="outline" className="w-full" onClick={enableOfflineMode} disabled={!isOnline}>
+                <CloudOff className="h-4 w-4 mr-2" />
+                Enable Offline Mode
+              </Button>
+            )}
+            {syncError && <p className="text-sm text-red-500">{syncError}</p>}
+            {conflicts.length > 0 && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm space-y-1">
+                <div className="font-medium">Double check-ins reported to the organizer</div>
+                {conflicts.map((conflict, index) => (
+                  <div key={index}>
+                    Ticket {manifest?.tickets.find(ticket => ticket.id === conflict.ticketId)?.ticketNumber || conflict.ticketId}
+                    {" was already checked in"}
+                    {conflict.existingCheckInTime && ` at ${format(new Date(conflict.existingCheckInTime), "h:mm a")}`}
+                    {conflict.existingDeviceId ? " on another device" : " online"}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Camera</CardTitle>
+            <CardDescription>
+              {isSupported
+                ? "Point the camera at a ticket's QR code"
+                : "This browser can't read QR codes from the camera. Enter codes below instead."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative bg-black rounded-lg overflow-hidden aspect-square max-h-96 mx-auto">
+              <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+              {isChecking && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+                  <Loader2 className="h-10 w-10 animate-spin text-white" />
+                </div>
+              )}
+            </div>
+            {cameraError && <p className="text-sm text-red-500">{cameraError}</p>}
+            {isCameraOn ? (
+              <Button variant="outline" className="w-full" onClick={stopCamera}>
+                <CameraOff className="h-4 w-4 mr-2" />
+                Stop Camera
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={startCamera} disabled={!isSupported}>
+                <Camera className="h-4 w-4 mr-2" />
+                Start Camera
+              </Button>
+            )}
+
+            <form onSubmit={submitManualCode} className="flex gap-2">
+              <Input
+                placeholder="Paste or type a ticket code"
+                value={manualCode}
+                onChange={e => setManualCode(e.target.value)}
+              />
+              <Button type="submit" disabled={isChecking || !manualCode.trim()}>
+                Check
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {history.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Scans</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {history.map((scan, index) => (
+                <div key={index} className="flex items-center justify-between text-sm border-b pb-2 last:border-0">
+                  <div className="flex items-center gap-2">
+                    {scan.accepted
+                      ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      : <XCircle className="h-4 w-4 text-red-600" />}
+                    <span className="font-mono">{scan.ticketNumber || "Unknown code"}</span>
+                    <span className="text-gray-500">{scan.message}</span>
+                  </div>
+                  <span className="text-gray-400">{format(scan.scannedAt, "h:mm:ss a")}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
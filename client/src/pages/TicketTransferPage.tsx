@@ -0,0 +1,138 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, MapPin, Loader2, Ticket as TicketIcon } from "lucide-react";
+import { format } from "date-fns";
+
+interface TransferOffer {
+  id: number;
+  status: string;
+  toEmail: string;
+  expiresAt: string;
+  isExpired: boolean;
+  ticketType: string | null;
+  eventId: number | null;
+  eventTitle: string | null;
+  eventStartDate: string | null;
+  eventLocation: string | null;
+  fromName: string | null;
+}
+
+export default function TicketTransferPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: transfer, isLoading, error } = useQuery<TransferOffer>({
+    queryKey: [`/api/ticket-transfers/${token}`],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/ticket-transfers/${token}/accept`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Ticket accepted",
+        description: "The ticket is now in My Tickets under a new number.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-tickets"] });
+      navigate("/profile");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not accept ticket",
+        description: error.message || "Failed to accept transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !transfer) {
+    return (
+      <div className="container py-8">
+        <div className="max-w-3xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Transfer Not Found</CardTitle>
+              <CardDescription>This transfer link is invalid. Ask the sender to send the ticket again.</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const isWrongAccount = user?.email.toLowerCase() !== transfer.toEmail;
+  const canAccept = transfer.status === "pending" && !transfer.isExpired && !isWrongAccount;
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-3xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TicketIcon className="h-5 w-5" />
+              {transfer.fromName ? `${transfer.fromName} sent you a ticket` : "You've been sent a ticket"}
+            </CardTitle>
+            <CardDescription>Sent to {transfer.toEmail}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="text-lg font-medium">{transfer.eventTitle}</div>
+            {transfer.ticketType && <Badge variant="outline">{transfer.ticketType}</Badge>}
+            {transfer.eventStartDate && (
+              <div className="flex items-center text-sm text-gray-600">
+                <Calendar className="h-4 w-4 mr-2" />
+                {format(new Date(transfer.eventStartDate), "EEEE, MMMM d, yyyy")}
+              </div>
+            )}
+            {transfer.eventLocation && (
+              <div className="flex items-center text-sm text-gray-600">
+                <MapPin className="h-4 w-4 mr-2" />
+                {transfer.eventLocation}
+              </div>
+            )}
+
+            {transfer.status !== "pending" ? (
+              <p className="text-sm text-muted-foreground">This transfer has already been {transfer.status}.</p>
+            ) : transfer.isExpired ? (
+              <p className="text-sm text-muted-foreground">This transfer has expired. Ask the sender to send it again.</p>
+            ) : isWrongAccount ? (
+              <p className="text-sm text-destructive">
+                You're signed in as {user?.email}. Sign in with {transfer.toEmail} to accept this ticket.
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Accepting moves the ticket to your account with a new ticket number and QR code.
+                Offer expires {format(new Date(transfer.expiresAt), "MMM d, yyyy")}.
+              </p>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button variant="outline" onClick={() => navigate("/profile")}>
+              My Tickets
+            </Button>
+            <Button disabled={!canAccept || acceptMutation.isPending} onClick={() => acceptMutation.mutate()}>
+              {acceptMutation.isPending ? "Accepting..." : "Accept Ticket"}
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { OrderItem } from "@shared/schema";
+import { OrderItem, Ticket, TicketTransfer, VendorProfile } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -41,8 +41,20 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { UserCircle, Eye, EyeOff, Calendar, Tag, Landmark } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { UserCircle, Eye, EyeOff, Calendar, Tag, Landmark, QrCode, Send, FileDown, Wallet, CreditCard, Map as MapIcon } from "lucide-react";
 import { format } from "date-fns";
+import { Link } from "wouter";
+import type { MyWaitlistEntry } from "@/components/events/WaitlistButton";
+import VendorBoothMap, { type MyVendorRegistration } from "@/components/events/VendorBoothMap";
+import VendorDocumentManager from "@/components/ui/vendor-document-manager";
 
 // Profile form schema
 const profileSchema = z.object({
@@ -65,6 +77,9 @@ const passwordSchema = z.object({
   path: ["confirmPassword"],
 });
 
+// A ticket as listed under My Tickets, with any transfer its holder has offered it in
+type MyTicket = Ticket & { pendingTransfer: TicketTransfer | null };
+
 type ProfileFormValues = z.infer<typeof profileSchema>;
 type PasswordFormValues = z.infer<typeof passwordSchema>;
 
@@ -74,9 +89,14 @@ export default function UserProfilePage() {
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [qrTicket, setQrTicket] = useState<{ ticket: Ticket; eventTitle: string } | null>(null);
+  const [transferTicket, setTransferTicket] = useState<{ ticket: Ticket; eventTitle: string } | null>(null);
+  const [transferEmail, setTransferEmail] = useState("");
+  const [mapRegistration, setMapRegistration] = useState<MyVendorRegistration | null>(null);
+  const [doorPaymentCode, setDoorPaymentCode] = useState<{ code: string; expiresAt: string } | null>(null);
 
   // Fetch user tickets
-  const { data: tickets, isLoading: isLoadingTickets } = useQuery<(OrderItem & { orderId: number; orderNumber: string; eventId: number; eventTitle: string; purchaseDate: string; orderStatus: string; paymentStatus: string })[]>({
+  const { data: tickets, isLoading: isLoadingTickets } = useQuery<(OrderItem & { orderId: number; orderNumber: string; eventId: number; eventTitle: string; purchaseDate: string; orderStatus: string; paymentStatus: string; tickets: MyTicket[]; transferred?: boolean })[]>({
     queryKey: ["/api/my-tickets"],
     queryFn: async () => {
       const res = await apiRequest("GET", "/api/my-tickets");
@@ -85,6 +105,23 @@ export default function UserProfilePage() {
     },
   });
 
+  // Sold-out items the user is waiting for or has been offered
+  const { data: waitlist = [] } = useQuery<MyWaitlistEntry[]>({
+    queryKey: ["/api/my-waitlist"],
+  });
+  const activeWaitlist = waitlist.filter(entry => entry.status === "waiting" || entry.status === "offered");
+
+  // Vendor spots the user has applied for, with their booth once assigned
+  const { data: vendorRegistrations = [] } = useQuery<MyVendorRegistration[]>({
+    queryKey: ["/api/my-vendor-registrations"],
+  });
+
+  // Vendors keep their compliance documents here, even before applying anywhere
+  const { data: vendorProfile } = useQuery<VendorProfile | null>({
+    queryKey: ["/api/vendor-profile"],
+  });
+  const isVendor = !!vendorProfile || vendorRegistrations.length > 0;
+
   // Profile form
   const profileForm = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
@@ -154,6 +191,109 @@ export default function UserProfilePage() {
     },
   });
 
+  // Send a ticket to someone else
+  const transferMutation = useMutation({
+    mutationFn: async ({ ticketId, email }: { ticketId: number; email: string }) => {
+      const res = await apiRequest("POST", `/api/tickets/${ticketId}/transfer`, { email });
+      return await res.json();
+    },
+    onSuccess: (_, { email }) => {
+      toast({
+        title: "Transfer sent",
+        description: `We've emailed ${email} a link to accept the ticket.`,
+      });
+      setTransferTicket(null);
+      setTransferEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/my-tickets"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Transfer failed",
+        description: error.message || "Failed to transfer ticket",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Take back a transfer that hasn't been accepted yet
+  const cancelTransferMutation = useMutation({
+    mutationFn: async (transferId: number) => {
+      const res = await apiRequest("POST", `/api/ticket-transfers/${transferId}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Transfer cancelled",
+        description: "The ticket is still yours.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-tickets"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cancel failed",
+        description: error.message || "Failed to cancel transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Approved vendors on pay-on-approval spots pay through a fresh checkout session
+  const vendorPaymentMutation = useMutation({
+    mutationFn: async (registrationId: number) => {
+      const res = await apiRequest("POST", `/api/vendor-registrations/${registrationId}/pay`);
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Payment failed",
+        description: error.message || "Failed to start payment",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-vendor-registrations"] });
+    },
+  });
+
+  // A one-time code to read out at the door so staff can charge the card on file
+  const doorPaymentCodeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/door-payment-code");
+      return await res.json() as { code: string; expiresAt: string };
+    },
+    onSuccess: (data) => {
+      setDoorPaymentCode(data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create door payment code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Google Wallet passes are saved through a signed link from the server
+  const googleWalletMutation = useMutation({
+    mutationFn: async (ticketId: number) => {
+      const res = await apiRequest("GET", `/api/tickets/${ticketId}/wallet/google`);
+      return await res.json() as { saveUrl: string };
+    },
+    onSuccess: ({ saveUrl }) => {
+      window.open(saveUrl, "_blank");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Google Wallet unavailable",
+        description: error.message || "Failed to create Google Wallet pass",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle profile form submission
   function onProfileSubmit(data: ProfileFormValues) {
     updateProfileMutation.mutate(data);
@@ -181,6 +321,9 @@ export default function UserProfilePage() {
           <TabsList className="mb-6">
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="tickets">My Tickets</TabsTrigger>
+            {isVendor && (
+              <TabsTrigger value="vendor">Vendor Spots</TabsTrigger>
+            )}
           </TabsList>
           
           {/* Profile Tab */}
@@ -491,6 +634,37 @@ export default function UserProfilePage() {
                   </div>
                 </CardContent>
               </Card>
+              
+              {user?.stripeCustomerId && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <CreditCard className="h-5 w-5 mr-2" />
+                      Pay at the Door
+                    </CardTitle>
+                    <CardDescription>
+                      Buying at an event's box office? Read this code to the staff to charge your card on file.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {doorPaymentCode && (
+                      <div>
+                        <p className="text-3xl font-mono tracking-widest">{doorPaymentCode.code}</p>
+                        <p className="text-sm text-gray-500">
+                          Works once, until {format(new Date(doorPaymentCode.expiresAt), "h:mm a")}
+                        </p>
+                      </div>
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={() => doorPaymentCodeMutation.mutate()}
+                      disabled={doorPaymentCodeMutation.isPending}
+                    >
+                      {doorPaymentCode ? "Get a New Code" : "Get a Code"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </TabsContent>
           
@@ -529,6 +703,73 @@ export default function UserProfilePage() {
                               {item.description && (
                                 <div className="text-sm text-gray-500">{item.description}</div>
                               )}
+                              {item.tickets?.map((ticket) => (
+                                <div key={ticket.id} className="flex items-center gap-2 text-xs font-mono text-gray-500 mt-1">
+                                  {ticket.ticketNumber}
+                                  {ticket.attendeeName && <span className="font-sans">· {ticket.attendeeName}</span>}
+                                  {ticket.status === "active" && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2"
+                                      onClick={() => setQrTicket({ ticket, eventTitle: item.eventTitle })}
+                                    >
+                                      <QrCode className="h-4 w-4 mr-1" />
+                                      QR
+                                    </Button>
+                                  )}
+                                  <Button variant="ghost" size="sm" className="h-6 px-2" asChild>
+                                    <a href={`/api/tickets/${ticket.id}/pdf`} download>
+                                      <FileDown className="h-4 w-4 mr-1" />
+                                      PDF
+                                    </a>
+                                  </Button>
+                                  {ticket.status === "active" && (
+                                    <>
+                                      <Button variant="ghost" size="sm" className="h-6 px-2" asChild>
+                                        <a href={`/api/tickets/${ticket.id}/wallet/apple`}>
+                                          <Wallet className="h-4 w-4 mr-1" />
+                                          Apple Wallet
+                                        </a>
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2"
+                                        disabled={googleWalletMutation.isPending}
+                                        onClick={() => googleWalletMutation.mutate(ticket.id)}
+                                      >
+                                        <Wallet className="h-4 w-4 mr-1" />
+                                        Google Wallet
+                                      </Button>
+                                    </>
+                                  )}
+                                  {ticket.status === "active" && (ticket.pendingTransfer ? (
+                                    <span className="flex items-center gap-1 font-sans">
+                                      Sent to {ticket.pendingTransfer.toEmail}
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2"
+                                        disabled={cancelTransferMutation.isPending}
+                                        onClick={() => cancelTransferMutation.mutate(ticket.pendingTransfer!.id)}
+                                      >
+                                        Cancel
+                                      </Button>
+                                    </span>
+                                  ) : (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2"
+                                      onClick={() => setTransferTicket({ ticket, eventTitle: item.eventTitle })}
+                                    >
+                                      <Send className="h-4 w-4 mr-1" />
+                                      Transfer
+                                    </Button>
+                                  ))}
+                                </div>
+                              ))}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -538,13 +779,28 @@ export default function UserProfilePage() {
                             </div>
                           </TableCell>
                           <TableCell>{item.quantity}</TableCell>
-                          <TableCell>${item.totalPrice.toFixed(2)}</TableCell>
+                          <TableCell>
+                            {item.transferred ? (
+                              <Badge variant="outline">Transferred to you</Badge>
+                            ) : (
+                              `$${item.totalPrice.toFixed(2)}`
+                            )}
+                          </TableCell>
                           <TableCell>
                             <div className="text-sm">
                               <div className="font-medium">#{item.orderNumber}</div>
                               <Badge variant="default" className="mt-1">
                                 {item.paymentStatus}
                               </Badge>
+                              {!item.transferred && (
+                                <a
+                                  href={`/api/orders/${item.orderId}/receipt`}
+                                  className="block text-xs text-primary hover:underline mt-1"
+                                  download
+                                >
+                                  Receipt
+                                </a>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>{format(new Date(item.purchaseDate), "MMM d, yyyy")}</TableCell>
@@ -564,8 +820,208 @@ export default function UserProfilePage() {
                 )}
               </CardContent>
             </Card>
+
+            {activeWaitlist.length > 0 && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>My Waitlists</CardTitle>
+                  <CardDescription>
+                    Sold-out items you're waiting for. We'll email you when one is held for you.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Quantity</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {activeWaitlist.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="font-medium">{entry.itemName}</TableCell>
+                          <TableCell>
+                            <Link href={`/events/${entry.eventId}`} className="hover:underline">
+                              {entry.eventTitle}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{entry.quantity}</TableCell>
+                          <TableCell>
+                            {entry.status === "offered" ? (
+                              <Button size="sm" asChild>
+                                <Link href={`/waitlist/claim/${entry.claimToken}`}>Claim by {format(new Date(entry.offerExpiresAt!), "MMM d, h:mm a")}</Link>
+                              </Button>
+                            ) : (
+                              <Badge variant="outline">#{entry.placeInLine} in line</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Vendor Spots Tab */}
+          <TabsContent value="vendor" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>My Vendor Spots</CardTitle>
+                <CardDescription>
+                  Your vendor applications and where your booth is on the day
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {vendorRegistrations.length === 0 ? (
+                  <p className="text-sm text-gray-500">You haven't applied for any vendor spots yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Spot</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Booth</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {vendorRegistrations.map((registration) => (
+                        <TableRow key={registration.id}>
+                          <TableCell>
+                            <Link href={`/events/${registration.eventId}`} className="font-medium hover:underline">
+                              {registration.eventTitle}
+                            </Link>
+                            {registration.eventStartDate && (
+                              <div className="text-xs text-gray-500">
+                                {format(new Date(registration.eventStartDate), "MMM d, yyyy")}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>{registration.spotName}</TableCell>
+                          <TableCell>
+                            <Badge variant={registration.status === "approved" ? "default" : "outline"}>
+                              {registration.status}
+                            </Badge>
+                            {registration.status === "approved" && registration.paymentDueAt && registration.paymentStatus === "pending" && (
+                              <div className="mt-2 space-y-1">
+                                <Button
+                                  size="sm"
+                                  disabled={vendorPaymentMutation.isPending}
+                                  onClick={() => vendorPaymentMutation.mutate(registration.id)}
+                                >
+                                  <Wallet className="h-4 w-4 mr-1" />
+                                  Pay ${registration.amountDue?.toFixed(2)}
+                                </Button>
+                                <div className="text-xs text-gray-500">
+                                  Due by {format(new Date(registration.paymentDueAt), "MMM d, yyyy h:mm a")}
+                                </div>
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {registration.boothNumber ? (
+                              <Button variant="outline" size="sm" onClick={() => setMapRegistration(registration)}>
+                                <MapIcon className="h-4 w-4 mr-1" />
+                                Booth {registration.boothNumber}
+                              </Button>
+                            ) : (
+                              <span className="text-sm text-gray-500">
+                                {registration.status === "approved" ? "To be assigned" : "-"}
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {vendorProfile && <VendorDocumentManager />}
           </TabsContent>
         </Tabs>
+
+        <Dialog open={!!mapRegistration} onOpenChange={(open) => !open && setMapRegistration(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Booth {mapRegistration?.boothNumber}</DialogTitle>
+              <DialogDescription>{mapRegistration?.eventTitle}</DialogDescription>
+            </DialogHeader>
+            {mapRegistration && <VendorBoothMap registrationId={mapRegistration.id} />}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!qrTicket} onOpenChange={(open) => !open && setQrTicket(null)}>
+          <DialogContent className="max-w-sm">
+            <DialogHeader>
+              <DialogTitle>{qrTicket?.eventTitle}</DialogTitle>
+              <DialogDescription>Show this code at the entrance to check in</DialogDescription>
+            </DialogHeader>
+            {qrTicket && (
+              <div className="flex flex-col items-center gap-2">
+                <img
+                  src={`/api/tickets/${qrTicket.ticket.id}/qr?n=${qrTicket.ticket.ticketNumber}`}
+                  alt={`QR code for ticket ${qrTicket.ticket.ticketNumber}`}
+                  className="w-64 h-64"
+                />
+                <div className="font-mono text-sm">{qrTicket.ticket.ticketNumber}</div>
+                <Badge variant="outline">{qrTicket.ticket.ticketType}</Badge>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog
+          open={!!transferTicket}
+          onOpenChange={(open) => {
+            if (!open) {
+              setTransferTicket(null);
+              setTransferEmail("");
+            }
+          }}
+        >
+          <DialogContent className="max-w-md">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (transferTicket && transferEmail.trim()) {
+                  transferMutation.mutate({ ticketId: transferTicket.ticket.id, email: transferEmail.trim() });
+                }
+              }}
+            >
+              <DialogHeader>
+                <DialogTitle>Transfer Ticket</DialogTitle>
+                <DialogDescription>
+                  Send {transferTicket?.ticket.ticketNumber} for {transferTicket?.eventTitle} to someone else.
+                  Once they accept, the ticket gets a new number and your QR code stops working.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="py-4">
+                <Input
+                  type="email"
+                  placeholder="Recipient's email"
+                  value={transferEmail}
+                  onChange={(e) => setTransferEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setTransferTicket(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={transferMutation.isPending}>
+                  {transferMutation.isPending ? "Sending..." : "Send Ticket"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
       </main>
       
       <Footer />
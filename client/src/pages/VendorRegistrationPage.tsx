@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -26,6 +26,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { ApplicationAnswers, ApplicationFormField } from "@shared/schema";
+import ApplicationFormFields, { getApplicationFormErrors, getVisibleAnswers } from "@/components/events/ApplicationFormFields";
 
 // Define the vendor registration form schema
 const vendorFormSchema = z.object({
@@ -68,7 +70,7 @@ export default function VendorRegistrationPage() {
   const { id } = useParams<{ id: string }>();
   const [, navigate] = useLocation();
   const { user } = useAuth();
-  const { setRegistrationStatus, getCartItem, items } = useCart();
+  const { setRegistrationStatus, getCartItem, items, removeItem } = useCart();
   const { toast } = useToast();
   const [isExistingProfile, setIsExistingProfile] = useState(false);
   const [autoFilledData, setAutoFilledData] = useState({
@@ -78,10 +80,27 @@ export default function VendorRegistrationPage() {
   
   // Get the cart item
   const cartItem = getCartItem(id);
+  const eventId = cartItem?.product.eventId;
+  
+  // Pay-on-approval spots are applied for here and leave the cart; the vendor pays once approved
+  const paysOnApproval = cartItem?.product.paymentMode === "on_approval";
+  const applicationSent = useRef(false);
+  
+  // The organizer's own questions for this event, answered alongside the fixed fields
+  const { data: applicationForm } = useQuery<{ fields: ApplicationFormField[] }>({
+    queryKey: [`/api/events/${eventId}/application-forms/vendor`],
+    enabled: !!eventId,
+  });
+  const applicationFields = applicationForm?.fields || [];
+  const [formAnswers, setFormAnswers] = useState<ApplicationAnswers>({});
+  const [formAnswerErrors, setFormAnswerErrors] = useState<Record<string, string>>({});
   
   // Redirect if cart item doesn't exist or isn't a vendor spot
   useEffect(() => {
     if (!cartItem) {
+      if (applicationSent.current) {
+        return;
+      }
       toast({
         title: "Item not found",
         description: "The specified cart item was not found.",
@@ -251,6 +270,7 @@ export default function VendorRegistrationPage() {
         instagramUrl: formData.instagramUrl,
         tiktokUrl: formData.tiktokUrl,
         otherPromoUrl: formData.otherPromoUrl,
+        formAnswers: getVisibleAnswers(applicationFields, formAnswers),
       };
       
       const registrationResponse = await apiRequest(
@@ -262,6 +282,22 @@ export default function VendorRegistrationPage() {
       return registrationResponse.json();
     },
     onSuccess: (data) => {
+      if (paysOnApproval) {
+        applicationSent.current = true;
+        removeItem(id);
+        toast({
+          title: "Application submitted",
+          description: "You'll get a link to pay for your spot once the organizer approves you.",
+        });
+        
+        if (needsRegistrationExcluding(id)) {
+          navigate(getNextRegistrationPathExcluding(id));
+        } else {
+          navigate(items.some(item => item.id !== id) ? "/checkout" : "/profile");
+        }
+        return;
+      }
+      
       // Mark this cart item as having completed registration
       setRegistrationStatus(id, 'complete', data);
       
@@ -296,6 +332,11 @@ export default function VendorRegistrationPage() {
   });
   
   const onSubmit = (values: VendorFormValues) => {
+    const answerErrors = getApplicationFormErrors(applicationFields, formAnswers);
+    setFormAnswerErrors(answerErrors);
+    if (Object.keys(answerErrors).length > 0) {
+      return;
+    }
     submitMutation.mutate(values);
   };
   
@@ -662,6 +703,18 @@ export default function VendorRegistrationPage() {
 
                 </div>
                 
+                {applicationFields.length > 0 && (
+                  <div className="space-y-4 pt-4 border-t border-border">
+                    <h3 className="text-lg font-medium">Event Questions</h3>
+                    <ApplicationFormFields
+                      fields={applicationFields}
+                      answers={formAnswers}
+                      onChange={setFormAnswers}
+                      errors={formAnswerErrors}
+                    />
+                  </div>
+                )}
+                
                 {/* Terms and Conditions */}
                 <div className="pt-4 border-t border-border">
                   <FormField
@@ -700,7 +753,7 @@ export default function VendorRegistrationPage() {
                         Saving Registration...
                       </>
                     ) : (
-                      'Complete Registration'
+                      paysOnApproval ? 'Submit Application' : 'Complete Registration'
                     )}
                   </Button>
                 </div>
@@ -708,7 +761,9 @@ export default function VendorRegistrationPage() {
             </Form>
           </CardContent>
           <CardFooter className="flex justify-center text-xs text-muted-foreground">
-            Your vendor information will be reviewed by event organizers.
+            {paysOnApproval
+              ? "Your application will be reviewed by event organizers. You'll pay for your spot once you're approved."
+              : "Your vendor information will be reviewed by event organizers."}
           </CardFooter>
         </Card>
       </div>
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Event, Venue, VenueSiteMap } from "@shared/schema";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import EventCard from "@/components/events/EventCard";
+import VenueDialog from "@/components/ui/venue-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Accessibility, Car, Edit as EditIcon, Loader2, Map as MapIcon, MapPin, Users } from "lucide-react";
+
+// Google Maps link to the venue, by coordinates when we have them
+function getMapsUrl(venue: Venue) {
+  const query = venue.latitude !== null && venue.longitude !== null
+    ? `${venue.latitude},${venue.longitude}`
+    : [venue.name, venue.address, venue.city, venue.state, venue.zipCode].filter(Boolean).join(", ");
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+}
+
+export default function VenuePage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: venue, isLoading, error } = useQuery<Venue>({
+    queryKey: [`/api/venues/${id}`],
+  });
+
+  const { data: upcomingEvents = [] } = useQuery<Event[]>({
+    queryKey: [`/api/venues/${id}/events`],
+    enabled: !!venue,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !venue) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow container py-16 text-center">
+          <h1 className="text-2xl font-bold mb-2">Venue Not Found</h1>
+          <p className="text-gray-600">This venue doesn't exist or has been removed.</p>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const canEdit = user && (user.role === "admin" || user.id === venue.ownerId);
+  const siteMaps = (venue.siteMaps as VenueSiteMap[]) || [];
+  const region = [venue.city, [venue.state, venue.zipCode].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      <main className="flex-grow bg-gray-50">
+        <div className="container py-8 space-y-6">
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold mb-2">{venue.name}</h1>
+                <a
+                  href={getMapsUrl(venue)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-start text-gray-600 hover:text-primary"
+                >
+                  <MapPin className="h-5 w-5 mr-2 mt-0.5 shrink-0" />
+                  <span>
+                    {venue.address}
+                    {region && <><br />{region}</>}
+                  </span>
+                </a>
+              </div>
+              {canEdit && (
+                <Button variant="outline" onClick={() => setIsEditing(true)}>
+                  <EditIcon className="h-4 w-4 mr-1" />
+                  Edit Venue
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+              {venue.capacity && (
+                <div className="flex items-start">
+                  <Users className="h-5 w-5 mr-3 text-gray-500 mt-0.5" />
+                  <div>
+                    <h3 className="font-medium">Capacity</h3>
+                    <p className="text-gray-600">{venue.capacity.toLocaleString()} people</p>
+                  </div>
+                </div>
+              )}
+              {venue.accessibilityNotes && (
+                <div className="flex items-start">
+                  <Accessibility className="h-5 w-5 mr-3 text-gray-500 mt-0.5" />
+                  <div>
+                    <h3 className="font-medium">Accessibility</h3>
+                    <p className="text-gray-600 whitespace-pre-line">{venue.accessibilityNotes}</p>
+                  </div>
+                </div>
+              )}
+              {venue.parkingInfo && (
+                <div className="flex items-start">
+                  <Car className="h-5 w-5 mr-3 text-gray-500 mt-0.5" />
+                  <div>
+                    <h3 className="font-medium">Parking</h3>
+                    <p className="text-gray-600 whitespace-pre-line">{venue.parkingInfo}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {siteMaps.length > 0 && (
+            <div className="bg-white p-6 rounded-lg border border-gray-200">
+              <h2 className="text-xl font-semibold mb-4 flex items-center">
+                <MapIcon className="h-5 w-5 mr-2" />
+                Site Maps
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {siteMaps.map(map => (
+                  <a key={map.url} href={map.url} target="_blank" rel="noopener noreferrer" className="block">
+                    <img src={map.url} alt={map.name} className="w-full rounded-md border object-contain max-h-96 bg-gray-50" />
+                    <p className="text-sm text-gray-600 mt-1">{map.name}</p>
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h2 className="text-xl font-semibold mb-4">Upcoming Events</h2>
+            {upcomingEvents.length === 0 ? (
+              <div className="text-center py-10 bg-white rounded-lg border border-dashed">
+                <p className="text-gray-600">Nothing is scheduled here yet.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {upcomingEvents.map(event => (
+                  <EventCard key={event.id} event={event} />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+      <Footer />
+
+      <VenueDialog open={isEditing} onOpenChange={setIsEditing} venue={venue} />
+    </div>
+  );
+}
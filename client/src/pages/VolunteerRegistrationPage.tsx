@@ -26,6 +26,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { ApplicationAnswers, ApplicationFormField } from "@shared/schema";
+import ApplicationFormFields, { getApplicationFormErrors, getVisibleAnswers } from "@/components/events/ApplicationFormFields";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { 
   Select,
@@ -67,6 +69,16 @@ export default function VolunteerRegistrationPage() {
   
   // Get the cart item
   const cartItem = getCartItem(id);
+  const eventId = cartItem?.product.eventId;
+  
+  // The organizer's own questions for this event, answered alongside the fixed fields
+  const { data: applicationForm } = useQuery<{ fields: ApplicationFormField[] }>({
+    queryKey: [`/api/events/${eventId}/application-forms/volunteer`],
+    enabled: !!eventId,
+  });
+  const applicationFields = applicationForm?.fields || [];
+  const [formAnswers, setFormAnswers] = useState<ApplicationAnswers>({});
+  const [formAnswerErrors, setFormAnswerErrors] = useState<Record<string, string>>({});
   
   // Redirect if cart item doesn't exist or isn't a volunteer shift
   useEffect(() => {
@@ -147,6 +159,7 @@ export default function VolunteerRegistrationPage() {
         status: "pending",
         notes: formData.specialAccommodations,
         availability: formData.availability,
+        formAnswers: getVisibleAnswers(applicationFields, formAnswers),
       };
       
       const assignmentResponse = await apiRequest(
@@ -185,6 +198,11 @@ export default function VolunteerRegistrationPage() {
   });
   
   const onSubmit = (values: VolunteerFormValues) => {
+    const answerErrors = getApplicationFormErrors(applicationFields, formAnswers);
+    setFormAnswerErrors(answerErrors);
+    if (Object.keys(answerErrors).length > 0) {
+      return;
+    }
     submitMutation.mutate(values);
   };
   
@@ -459,6 +477,18 @@ export default function VolunteerRegistrationPage() {
                   )}
                 />
                 
+                {applicationFields.length > 0 && (
+                  <div className="space-y-4 pt-4 border-t border-border">
+                    <h3 className="text-lg font-medium">Event Questions</h3>
+                    <ApplicationFormFields
+                      fields={applicationFields}
+                      answers={formAnswers}
+                      onChange={setFormAnswers}
+                      errors={formAnswerErrors}
+                    />
+                  </div>
+                )}
+                
                 <FormField
                   control={form.control}
                   name="agreeToTerms"
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { WaitlistCapacityType, WaitlistEntry } from "@shared/schema";
+import { useCart, type CartProduct } from "@/hooks/use-cart";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface WaitlistOffer {
+  entry: WaitlistEntry;
+  isExpired: boolean;
+  eventTitle: string;
+  itemName: string;
+  capacityType: WaitlistCapacityType;
+  product: CartProduct | null; // Only for product waitlists, which are claimed through the cart
+}
+
+export default function WaitlistClaimPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { items, addItem, getSmartCartNextAction } = useCart();
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const { data: offer, isLoading, error } = useQuery<WaitlistOffer>({
+    queryKey: [`/api/waitlist/claim/${token}`],
+  });
+
+  // Event tickets go straight to a checkout for them; vendor spots and volunteer shifts are
+  // signed up for directly, taking the held place
+  const claimMutation = useMutation({
+    mutationFn: async ({ entry }: WaitlistOffer) => {
+      switch (entry.capacityType) {
+        case "event": {
+          const res = await apiRequest("POST", "/api/create-checkout-session", {
+            eventId: entry.eventId,
+            quantity: entry.quantity,
+            waitlistClaim: token,
+          });
+          return await res.json();
+        }
+        case "vendor_spot": {
+          const res = await apiRequest("POST", "/api/vendor-registrations", {
+            userId: user?.id,
+            eventId: entry.eventId,
+            vendorSpotId: entry.capacityId,
+            waitlistClaim: token,
+          });
+          return await res.json();
+        }
+        default: {
+          const res = await apiRequest("POST", "/api/volunteer-assignments", {
+            eventId: entry.eventId,
+            shiftId: entry.capacityId,
+            waitlistClaim: token,
+          });
+          return await res.json();
+        }
+      }
+    },
+    onSuccess: (data) => {
+      if (data.url) {
+        window.location.href = data.url;
+        return;
+      }
+      toast({
+        title: "You're signed up",
+        description: "The organizer will review your application.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-waitlist"] });
+      navigate("/profile");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not claim your spot",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Once the claimed item is in the cart, continue to its registration step or checkout
+  useEffect(() => {
+    if (isClaiming && items.some(item => item.waitlistClaim === token)) {
+      navigate(getSmartCartNextAction().path);
+    }
+  }, [isClaiming, items, token]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !offer) {
+    return (
+      <div className="container py-8">
+        <div className="max-w-3xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Offer Not Found</CardTitle>
+              <CardDescription>This claim link is invalid, or belongs to a different account.</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { entry, product } = offer;
+  const canClaim = entry.status === "offered" && !offer.isExpired;
+
+  // The cart carries the claim token to checkout, where the held units become the order
+  const handleClaim = () => {
+    if (!product) {
+      claimMutation.mutate(offer);
+      return;
+    }
+    addItem(product, entry.quantity, token);
+    setIsClaiming(true);
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-3xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Spot Is Ready</CardTitle>
+            <CardDescription>{offer.eventTitle}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="font-medium">{offer.itemName} × {entry.quantity}</span>
+              {product && <span>${(product.price * entry.quantity).toFixed(2)}</span>}
+            </div>
+
+            {entry.status === "claimed" ? (
+              <p className="text-sm text-muted-foreground">You've already claimed this offer.</p>
+            ) : entry.status !== "offered" || offer.isExpired ? (
+              <p className="text-sm text-muted-foreground">
+                This offer has {entry.status === "cancelled" ? "been cancelled" : "expired"} and passed to the next person in line.
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                We're holding this for you until {format(new Date(entry.offerExpiresAt!), "MMM d, h:mm a")}.
+                {offer.capacityType === "product" || offer.capacityType === "event"
+                  ? "Check out before then to keep it."
+                  : "Sign up before then to keep it."}
+              </p>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button variant="outline" onClick={() => navigate(`/events/${entry.eventId}`)}>
+              View Event
+            </Button>
+            <Button disabled={!canClaim || isClaiming || claimMutation.isPending} onClick={handleClaim}>
+              {offer.capacityType === "product" || offer.capacityType === "event" ? "Claim and Check Out" : "Claim and Sign Up"}
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
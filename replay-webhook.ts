@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import Stripe from 'stripe';
+
+// Replays a Stripe webhook payload against a running server for debugging.
+//
+// Usage:
+//   npm run webhook:replay -- ./payload.json
+//   npm run webhook:replay -- --event evt_123 [--fresh-id] [--url http://localhost:5000/api/stripe/webhook]
+//
+// The payload is signed with STRIPE_WEBHOOK_SECRET so it passes signature verification.
+// --fresh-id gives the event a new id so the server journal treats it as a new delivery.
+
+function parseArgs(argv: string[]) {
+  const args: { file?: string; event?: string; url: string; freshId: boolean } = {
+    url: 'http://localhost:5000/api/stripe/webhook',
+    freshId: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--event') {
+      args.event = argv[++i];
+    } else if (arg === '--url') {
+      args.url = argv[++i];
+    } else if (arg === '--fresh-id') {
+      args.freshId = true;
+    } else {
+      args.file = arg;
+    }
+  }
+
+  return args;
+}
+
+async function loadJournaledPayload(stripeEventId: string): Promise<any> {
+  // Imported lazily so replaying a file does not require DATABASE_URL
+  const { db, pool } = await import('./server/db');
+  const { webhookEvents } = await import('./shared/schema');
+  const { eq } = await import('drizzle-orm');
+
+  try {
+    const [record] = await db
+      .select()
+      .from(webhookEvents)
+      .where(eq(webhookEvents.stripeEventId, stripeEventId));
+
+    if (!record) {
+      throw new Error(`Webhook event not found in journal: ${stripeEventId}`);
+    }
+
+    return record.payload;
+  } finally {
+    await pool.end();
+  }
+}
+
+async function replayWebhook() {
+  const args = parseArgs(process.argv.slice(2));
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!secret) {
+    throw new Error('STRIPE_WEBHOOK_SECRET must be set to sign the replayed payload');
+  }
+
+  let event: any;
+  if (args.event) {
+    event = await loadJournaledPayload(args.event);
+  } else if (args.file) {
+    event = JSON.parse(readFileSync(args.file, 'utf8'));
+  } else {
+    throw new Error('Provide a payload file or --event <stripe event id>');
+  }
+
+  if (args.freshId) {
+    event.id = `${event.id}_replay_${Date.now()}`;
+  }
+
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+  console.log(`Replaying ${event.type} (${event.id}) to ${args.url}`);
+
+  const response = await fetch(args.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'stripe-signature': signature,
+    },
+    body: payload,
+  });
+
+  console.log(`Response ${response.status}: ${await response.text()}`);
+
+  if (!response.ok) {
+    process.exitCode = 1;
+  }
+}
+
+replayWebhook().catch((error) => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import type { ApplicationAnswers, ApplicationFormField } from "@shared/schema";
+
+// Dates come from <input type="date">, so only the day is kept
+const dateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date")
+  .refine(value => !isNaN(new Date(value).getTime()), "must be a date");
+
+// Files are uploaded first and answered with the URL they were stored at
+const fileSchema = z.string().refine(
+  value => value.startsWith("/") || /^https?:\/\//.test(value),
+  "must be an uploaded file"
+);
+
+function getAnswerSchema(field: ApplicationFormField): z.ZodTypeAny {
+  switch (field.type) {
+    case "choice":
+      return z.string().refine(value => (field.options || []).includes(value), "must be one of the listed options");
+    case "checkbox":
+      return field.required
+        ? z.literal(true, { errorMap: () => ({ message: "must be checked" }) })
+        : z.boolean({ invalid_type_error: "must be checked or unchecked" });
+    case "date":
+      return dateSchema;
+    case "file":
+      return fileSchema;
+    case "textarea":
+      return z.string().max(5000, "is too long");
+    default:
+      return z.string().max(500, "is too long");
+  }
+}
+
+// A field with a condition is asked only once the field it depends on has the given answer.
+// Conditions only point back up the form, so the answers checked so far are enough.
+export function isFieldVisible(field: ApplicationFormField, answers: ApplicationAnswers): boolean {
+  if (!field.showIf) {
+    return true;
+  }
+  const answer = answers[field.showIf.fieldId];
+  return answer !== undefined && String(answer) === field.showIf.equals;
+}
+
+// Check an application's answers against the event's form. Returns the cleaned answers or a
+// message naming the first problem. Answers to unknown or hidden fields are dropped.
+export function validateApplicationAnswers(
+  fields: ApplicationFormField[],
+  given: unknown
+): { answers: ApplicationAnswers } | { error: string } {
+  const raw = given && typeof given === "object" && !Array.isArray(given) ? given as Record<string, unknown> : {};
+  const answers: ApplicationAnswers = {};
+
+  for (const field of fields) {
+    if (!isFieldVisible(field, answers)) {
+      continue;
+    }
+
+    let value = raw[field.id];
+    if (typeof value === "string") {
+      value = value.trim();
+    }
+    if (value === "" || value === null || value === undefined) {
+      if (field.type === "checkbox") {
+        value = false;
+      } else if (field.required) {
+        return { error: `${field.label} is required` };
+      } else {
+        continue;
+      }
+    }
+
+    const result = getAnswerSchema(field).safeParse(value);
+    if (!result.success) {
+      return { error: `${field.label} ${result.error.issues[0].message}` };
+    }
+    answers[field.id] = result.data;
+  }
+
+  return { answers };
+}
+
+// One CSV column per form field, for the vendor and volunteer exports
+export function getAnswerColumns(fields: ApplicationFormField[]) {
+  return fields.map(field => ({ id: `answer_${field.id}`, title: field.label }));
+}
+
+export function getAnswerValues(fields: ApplicationFormField[], answers: unknown): Record<string, string> {
+  const given = (answers as ApplicationAnswers | null) || {};
+  return Object.fromEntries(fields.map(field => {
+    const value = given[field.id];
+    return [`answer_${field.id}`, typeof value === "boolean" ? (value ? "Yes" : "No") : value ?? ""];
+  }));
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import type { AttendeeQuestion } from "@shared/schema";
+
+// One ticket holder's details as stored in order item metadata and copied onto the ticket
+export type AttendeeDetails = {
+  name: string | null;
+  email: string | null;
+  answers: Record<string, string>; // Keyed by question id
+};
+
+// Each ticket's answers, keyed by question id
+const attendeeSchema = z.object({
+  answers: z.record(z.string(), z.unknown()).default({}),
+});
+
+const textSchema = z.string({ invalid_type_error: "must be text" });
+
+function getAnswerSchema(question: AttendeeQuestion): z.ZodTypeAny {
+  switch (question.fieldType) {
+    case "email":
+      return textSchema.max(254, "is too long").email("must be a valid email");
+    case "select":
+      return textSchema.refine(
+        value => ((question.options as string[] | null) || []).includes(value),
+        "must be one of the listed options"
+      );
+    case "textarea":
+      return textSchema.max(5000, "is too long");
+    default:
+      return textSchema.max(500, "is too long");
+  }
+}
+
+// The questions asked for a ticket tier: event-wide ones plus the tier's own, in order
+export function getQuestionsForProduct(questions: AttendeeQuestion[], productId: number): AttendeeQuestion[] {
+  return questions
+    .filter(question => question.productId === null || question.productId === productId)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+}
+
+// Check the answers given for each ticket of an order line. Returns the cleaned details, one per
+// ticket, or a message naming the first problem. Answers to unknown questions are dropped.
+export function validateAttendees(
+  questions: AttendeeQuestion[],
+  attendees: unknown,
+  quantity: number
+): { attendees: AttendeeDetails[] } | { error: string } {
+  const parsed = z.array(attendeeSchema).length(quantity).safeParse(attendees);
+  if (!parsed.success) {
+    return { error: `Attendee details are needed for each of the ${quantity} tickets` };
+  }
+
+  const details: AttendeeDetails[] = [];
+  for (let index = 0; index < parsed.data.length; index++) {
+    const attendee = parsed.data[index];
+    const entry: AttendeeDetails = { name: null, email: null, answers: {} };
+
+    for (const question of questions) {
+      let raw = attendee.answers[question.id];
+      if (typeof raw === "string") {
+        raw = raw.trim();
+      }
+      const label = `${question.label} (ticket ${index + 1})`;
+
+      if (raw === "" || raw === null || raw === undefined) {
+        if (question.isRequired) {
+          return { error: `${label} is required` };
+        }
+        continue;
+      }
+
+      const result = getAnswerSchema(question).safeParse(raw);
+      if (!result.success) {
+        return { error: `${label} ${result.error.issues[0].message}` };
+      }
+      const value: string = result.data;
+
+      entry.answers[question.id] = value;
+      if (question.fieldType === "name" && !entry.name) {
+        entry.name = value;
+      }
+      if (question.fieldType === "email" && !entry.email) {
+        entry.email = value;
+      }
+    }
+
+    details.push(entry);
+  }
+
+  return { attendees: details };
+}
@@ -7,6 +7,7 @@ import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
 import { log } from "./vite";
+import { getPaymentProvider } from "./payments";
 
 declare global {
   namespace Express {
@@ -216,11 +217,7 @@ export function setupAuth(app: Express) {
               log(`Found Stripe account ID in cookie: ${stripeCookie}`, "auth");
               
               // Verify with Stripe
-              const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY, {
-                apiVersion: "2023-10-16",
-              });
-              
-              await stripe.accounts.retrieve(stripeCookie);
+              await getPaymentProvider().getAccountStatus(stripeCookie);
               
               // Valid account ID, save it to the user
               await storage.updateUserStripeAccount(user.id, stripeCookie);
@@ -280,11 +277,8 @@ export function setupAuth(app: Express) {
                 
                 // Verify the account with Stripe
                 try {
-                  const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY, {
-                    apiVersion: "2023-10-16",
-                  });
-                  const account = await stripe.accounts.retrieve(savedAccountId);
-                  log(`Successfully verified account with Stripe: ${account.id}`, "auth");
+                  const account = await getPaymentProvider().getAccountStatus(savedAccountId);
+                  log(`Successfully verified account with Stripe: ${account.accountId}`, "auth");
                   
                   // Update the user's account with this ID
                   await storage.updateUserStripeAccount(user.id, savedAccountId);
@@ -342,11 +336,7 @@ export function setupAuth(app: Express) {
           log(`Found Stripe account ID in cookie during /api/user call: ${stripeCookie}`, "auth");
           
           // Verify with Stripe
-          const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY, {
-            apiVersion: "2023-10-16",
-          });
-          
-          await stripe.accounts.retrieve(stripeCookie);
+          await getPaymentProvider().getAccountStatus(stripeCookie);
           
           // Valid account ID, save it to the user
           await storage.updateUserStripeAccount(req.user.id, stripeCookie);
@@ -406,11 +396,8 @@ export function setupAuth(app: Express) {
             
             // Verify the account with Stripe
             try {
-              const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY, {
-                apiVersion: "2023-10-16",
-              });
-              const account = await stripe.accounts.retrieve(savedAccountId);
-              log(`Successfully verified account with Stripe: ${account.id}`, "auth");
+              const account = await getPaymentProvider().getAccountStatus(savedAccountId);
+              log(`Successfully verified account with Stripe: ${account.accountId}`, "auth");
               
               // Update the user's account with this ID
               await storage.updateUserStripeAccount(req.user.id, savedAccountId);
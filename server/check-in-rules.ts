@@ -0,0 +1,37 @@
+import type { CheckInLog, Ticket } from "@shared/schema";
+import { isSameDayInTimeZone } from "@shared/time-zones";
+
+export type EntryRule = "single" | "reentry" | "daily";
+
+export const ENTRY_RULES: EntryRule[] = ["single", "reentry", "daily"];
+
+// A ticket is inside while its latest scan is an entry. Logs come latest first.
+export function isInside(logs: CheckInLog[]): boolean {
+  return logs[0]?.direction === "in";
+}
+
+// Why a ticket can't enter at the given time, or null if it can. Days are counted in the event's time zone.
+export function getEntryRefusal(ticket: Ticket, logs: CheckInLog[], timeZone: string, at: Date = new Date()): string | null {
+  if (ticket.status !== "active" && ticket.status !== "used") {
+    return `Ticket status is ${ticket.status}`;
+  }
+
+  switch (ticket.entryRule as EntryRule) {
+    case "reentry":
+      return isInside(logs) ? "Ticket is already checked in" : null;
+    case "daily":
+      if (isInside(logs)) {
+        return "Ticket is already checked in";
+      }
+      return logs.some(entry => entry.direction === "in" && isSameDayInTimeZone(entry.scannedAt, at, timeZone))
+        ? "Ticket already used today"
+        : null;
+    default:
+      return ticket.status === "used" ? "Ticket already used" : null;
+  }
+}
+
+// Why a ticket can't leave, or null if it can
+export function getExitRefusal(logs: CheckInLog[]): string | null {
+  return isInside(logs) ? null : "Ticket is not checked in";
+}
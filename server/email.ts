@@ -2,6 +2,9 @@ import type { Express, Request, Response } from "express";
 import nodemailer from "nodemailer";
 import { storage } from "./storage";
 import { log } from "./vite";
+import { renderTicketQrPng } from "./ticket-codes";
+import { renderEventTickets, renderOrderReceipt } from "./pdf";
+import { VENDOR_DOCUMENT_TYPE_LABELS, type VendorDocumentType, type WaitlistCapacityType } from "@shared/schema";
 import dns from 'dns';
 import { promisify } from 'util';
 
@@ -98,6 +101,9 @@ function replaceTemplatePlaceholders(template: string, replacements: Record<stri
   });
 }
 
+// A recipient, with any placeholders that differ per person (such as a vendor's booth number)
+type EmailRecipient = { userId: number; email: string; name: string; replacements?: Record<string, string> };
+
 // Function to get recipients based on audience type and filters
 async function getRecipients(
   audience: string,
@@ -107,9 +113,9 @@ async function getRecipients(
     status?: string;
     registrationType?: string;
   }
-): Promise<Array<{ userId: number; email: string; name: string }>> {
+): Promise<EmailRecipient[]> {
   try {
-    const recipients: Array<{ userId: number; email: string; name: string }> = [];
+    const recipients: EmailRecipient[] = [];
     
     // Get all users
     if (audience === 'all' && eventId) {
@@ -135,7 +141,7 @@ async function getRecipients(
       
       // Collect unique users from vendor registrations
       for (const reg of vendorRegs) {
-        const vendorProfile = await storage.getVendorProfile(reg.vendorProfileId);
+        const vendorProfile = await storage.getVendorProfileById(reg.vendorProfileId);
         if (vendorProfile) {
           const user = await storage.getUser(vendorProfile.userId);
           if (user && user.email) {
@@ -195,16 +201,18 @@ async function getRecipients(
       });
       
       for (const reg of vendorRegs) {
-        const vendorProfile = await storage.getVendorProfile(reg.vendorProfileId);
+        const vendorProfile = await storage.getVendorProfileById(reg.vendorProfileId);
         if (vendorProfile) {
           const user = await storage.getUser(vendorProfile.userId);
           if (user && user.email) {
             const existing = recipients.find(r => r.userId === user.id);
             if (!existing) {
+              const booth = await storage.getVendorBoothByRegistration(reg.id);
               recipients.push({
                 userId: user.id,
                 email: user.email,
-                name: user.name || user.username
+                name: user.name || user.username,
+                replacements: { boothNumber: booth?.boothNumber || "To be assigned" }
               });
             }
           }
@@ -261,11 +269,31 @@ async function getRecipients(
   }
 }
 
+// Set up transport with proper settings for your SMTP server
+function createMailTransport() {
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '465'),
+    secure: true, // true for 465, false for other ports
+    auth: {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASSWORD
+    },
+    // Setting slightly longer timeouts for reliability
+    connectionTimeout: 15000,
+    greetingTimeout: 10000,
+    socketTimeout: 15000,
+    // Debug level for troubleshooting
+    logger: true,
+    debug: true
+  });
+}
+
 // Real implementation for email sending to real recipients
 async function sendBulkEmail(
   subject: string,
   htmlContent: string,
-  recipients: Array<{ email: string; name: string }>,
+  recipients: Array<{ email: string; name: string; replacements?: Record<string, string> }>,
   testMode: boolean = false
 ): Promise<{ 
   success: boolean; 
@@ -295,36 +323,18 @@ async function sendBulkEmail(
     // Set a timeout to avoid hanging indefinitely
     const timeout = 5000;
     
-    // Set up transport with proper settings for your SMTP server
-    const transport = {
-      host: process.env.SMTP_HOST,
-      port: parseInt(process.env.SMTP_PORT || '465'),
-      secure: true, // true for 465, false for other ports
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASSWORD
-      },
-      // Setting slightly longer timeouts for reliability
-      connectionTimeout: 15000,
-      greetingTimeout: 10000,
-      socketTimeout: 15000,
-      // Debug level for troubleshooting
-      logger: true,
-      debug: true
-    };
-    
     // Use a transporter with timeout protection
-    const transporter = nodemailer.createTransport(transport);
+    const transporter = createMailTransport();
     
     // Process each recipient with timeout protection
     for (const recipient of targetRecipients) {
       try {
-        // Define mail options
+        // Define mail options, filling in this recipient's own placeholders
         const mailOptions = {
           from: process.env.SMTP_FROM_EMAIL,
           to: recipient.email,
           subject: subject,
-          html: htmlContent
+          html: replaceTemplatePlaceholders(htmlContent, { recipientName: recipient.name, ...recipient.replacements })
         };
         
         // Wrap sending in a promise with timeout
@@ -385,7 +395,268 @@ async function sendBulkEmail(
   }
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Email the buyer their order with a scannable QR code per ticket, embedded as inline
+// attachments so mail clients that block data URLs still show them. Never throws; failures
+// are logged and the order stays marked as not emailed.
+async function sendOrderConfirmationEmail(orderId: number, recipientEmail?: string): Promise<boolean> {
+  try {
+    if (!process.env.SMTP_HOST) {
+      log(`SMTP is not configured, skipping confirmation email for order ${orderId}`, 'email');
+      return false;
+    }
+    
+    const order = await storage.getOrder(orderId);
+    if (!order) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+    
+    const [items, tickets, event, user] = await Promise.all([
+      storage.getOrderItems(orderId),
+      storage.getTicketsByOrder(orderId),
+      storage.getEvent(order.eventId),
+      storage.getUser(order.userId),
+    ]);
+    
+    const to = recipientEmail || order.buyerEmail || user?.email;
+    if (!to) {
+      log(`No email address for order ${order.orderNumber}, skipping confirmation`, 'email');
+      return false;
+    }
+    
+    const itemRows = items.map(item => `
+      <tr><td>${item.quantity} × ${escapeHtml(item.name)}</td><td style="text-align: right;">$${item.totalPrice.toFixed(2)}</td></tr>`
+    ).join('');
+    const ticketBlocks = tickets.map(ticket => `
+      <div style="border: 1px solid #ddd; border-radius: 8px; padding: 16px; margin: 16px 0; text-align: center;">
+        <img src="cid:ticket-${ticket.id}" alt="Ticket ${ticket.ticketNumber}" width="200" height="200" />
+        <p style="margin: 8px 0 0; font-family: monospace;">${ticket.ticketNumber}</p>
+        <p style="margin: 4px 0 0; color: #666;">${escapeHtml(ticket.ticketType)}</p>
+      </div>`
+    ).join('');
+    
+    const html = `
+<h2>Your order is confirmed</h2>
+<p>Hi ${escapeHtml(user?.name || user?.username || 'there')},</p>
+<p>Thanks for your order <strong>${order.orderNumber}</strong>${event ? ` for <strong>${escapeHtml(event.title)}</strong>` : ''}.</p>
+${event ? `<p>${new Date(event.startDate).toLocaleString()}<br/>${escapeHtml(event.location)}</p>` : ''}
+<table style="width: 100%; max-width: 480px;">${itemRows}
+  <tr><th style="text-align: left;">Total</th><th style="text-align: right;">$${order.totalAmount.toFixed(2)}</th></tr>
+</table>
+${tickets.length > 0 ? `<h3>Your tickets</h3><p>Show these QR codes at the entrance.</p>${ticketBlocks}` : ''}
+`;
+    
+    const attachments: { filename: string; content: Buffer; cid?: string }[] = await Promise.all(tickets.map(async ticket => ({
+      filename: `${ticket.ticketNumber}.png`,
+      content: await renderTicketQrPng(ticket),
+      cid: `ticket-${ticket.id}`,
+    })));
+    
+    // Printable copies of the tickets and the receipt
+    if (event && tickets.length > 0) {
+      attachments.push({ filename: `tickets-${order.orderNumber}.pdf`, content: await renderEventTickets(event, tickets, order) });
+    }
+    attachments.push({ filename: `receipt-${order.orderNumber}.pdf`, content: await renderOrderReceipt(order) });
+    
+    await createMailTransport().sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to,
+      subject: `Your tickets for ${event?.title || `order ${order.orderNumber}`}`,
+      html,
+      attachments,
+    });
+    
+    await storage.markOrderEmailSent(orderId);
+    log(`Confirmation email for order ${order.orderNumber} sent to ${to}`, 'email');
+    return true;
+  } catch (error: any) {
+    log(`Failed to send confirmation email for order ${orderId}: ${error.message}`, 'email');
+    return false;
+  }
+}
+
+// Email the recipient of a ticket transfer the link to accept it. Like the confirmation
+// email, this never throws; the sender can still share the link themselves.
+async function sendTicketTransferEmail(transferId: number, acceptUrl: string): Promise<boolean> {
+  try {
+    if (!process.env.SMTP_HOST) {
+      log(`SMTP is not configured, skipping email for ticket transfer ${transferId}`, 'email');
+      return false;
+    }
+    
+    const transfer = await storage.getTicketTransfer(transferId);
+    if (!transfer) {
+      throw new Error(`Ticket transfer not found: ${transferId}`);
+    }
+    
+    const ticket = await storage.getTicket(transfer.ticketId);
+    const [event, sender] = await Promise.all([
+      ticket ? storage.getEvent(ticket.eventId) : undefined,
+      storage.getUser(transfer.fromUserId),
+    ]);
+    const senderName = sender?.name || sender?.username || 'Someone';
+    
+    const html = `
+<h2>You've been sent a ticket</h2>
+<p>${escapeHtml(senderName)} has sent you a ${escapeHtml(ticket?.ticketType || '')} ticket${event ? ` for <strong>${escapeHtml(event.title)}</strong>` : ''}.</p>
+${event ? `<p>${new Date(event.startDate).toLocaleString()}<br/>${escapeHtml(event.location)}</p>` : ''}
+<p><a href="${acceptUrl}">Accept the ticket</a> by ${transfer.expiresAt.toLocaleDateString()}. You'll need to sign in or create an account with this email address.</p>
+`;
+    
+    await createMailTransport().sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: transfer.toEmail,
+      subject: `${senderName} sent you a ticket${event ? ` for ${event.title}` : ''}`,
+      html,
+    });
+    
+    log(`Ticket transfer ${transferId} sent to ${transfer.toEmail}`, 'email');
+    return true;
+  } catch (error: any) {
+    log(`Failed to send email for ticket transfer ${transferId}: ${error.message}`, 'email');
+    return false;
+  }
+}
 
+// Email a waitlisted user that their units are being held for them, with the link to claim them
+async function sendWaitlistOfferEmail(entryId: number, claimUrl: string): Promise<boolean> {
+  try {
+    if (!process.env.SMTP_HOST) {
+      log(`SMTP is not configured, skipping email for waitlist entry ${entryId}`, 'email');
+      return false;
+    }
+    
+    const entry = await storage.getWaitlistEntry(entryId);
+    if (!entry || !entry.offerExpiresAt) {
+      throw new Error(`Waitlist offer not found: ${entryId}`);
+    }
+    
+    const [user, capacity, event] = await Promise.all([
+      storage.getUser(entry.userId),
+      storage.getWaitlistCapacity({ type: entry.capacityType as WaitlistCapacityType, id: entry.capacityId }),
+      storage.getEvent(entry.eventId),
+    ]);
+    if (!user) {
+      throw new Error(`User not found: ${entry.userId}`);
+    }
+    
+    const html = `
+<h2>Your spot is ready</h2>
+<p>Hi ${escapeHtml(user.name || user.username)},</p>
+<p>${entry.quantity} × <strong>${escapeHtml(capacity?.name || 'your item')}</strong>${event ? ` for <strong>${escapeHtml(event.title)}</strong>` : ''} just became available and is being held for you.</p>
+<p><a href="${claimUrl}">Claim it now</a>. The hold ends ${entry.offerExpiresAt.toLocaleString()}, after which it goes to the next person in line.</p>
+`;
+    
+    await createMailTransport().sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: user.email,
+      subject: `${capacity?.name || 'A spot'} is available${event ? ` for ${event.title}` : ''}`,
+      html,
+    });
+    
+    log(`Waitlist offer ${entryId} sent to ${user.email}`, 'email');
+    return true;
+  } catch (error: any) {
+    log(`Failed to send email for waitlist entry ${entryId}: ${error.message}`, 'email');
+    return false;
+  }
+}
+
+// Warn a vendor that one of their compliance documents is about to expire, or already has
+async function sendVendorDocumentReminderEmail(documentId: number, profileUrl: string): Promise<boolean> {
+  try {
+    if (!process.env.SMTP_HOST) {
+      log(`SMTP is not configured, skipping reminder for vendor document ${documentId}`, 'email');
+      return false;
+    }
+    
+    const document = await storage.getVendorDocument(documentId);
+    if (!document || !document.expiresAt) {
+      throw new Error(`Vendor document not found: ${documentId}`);
+    }
+    
+    const profile = await storage.getVendorProfileById(document.vendorProfileId);
+    const user = profile ? await storage.getUser(profile.userId) : undefined;
+    if (!profile || !user) {
+      throw new Error(`Vendor profile not found: ${document.vendorProfileId}`);
+    }
+    
+    const documentName = VENDOR_DOCUMENT_TYPE_LABELS[document.documentType as VendorDocumentType] || 'document';
+    const hasExpired = document.expiresAt <= new Date();
+    const html = `
+<h2>Your ${escapeHtml(documentName.toLowerCase())} ${hasExpired ? 'has expired' : 'expires soon'}</h2>
+<p>Hi ${escapeHtml(user.name || user.username)},</p>
+<p>The ${escapeHtml(documentName.toLowerCase())} from ${escapeHtml(document.issuer)} on file for <strong>${escapeHtml(profile.businessName)}</strong> ${hasExpired ? 'expired' : 'expires'} on ${document.expiresAt.toLocaleDateString()}.</p>
+<p>Events that require it can't approve your vendor applications without a current copy. <a href="${profileUrl}">Upload the renewed document</a> to keep your spots.</p>
+`;
+    
+    await createMailTransport().sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: user.email,
+      subject: `Your ${documentName.toLowerCase()} ${hasExpired ? 'has expired' : `expires ${document.expiresAt.toLocaleDateString()}`}`,
+      html,
+    });
+    
+    log(`Expiry reminder for vendor document ${documentId} sent to ${user.email}`, 'email');
+    return true;
+  } catch (error: any) {
+    log(`Failed to send reminder for vendor document ${documentId}: ${error.message}`, 'email');
+    return false;
+  }
+}
+
+// Tell an approved vendor what they owe for their spot and when the approval lapses if unpaid
+async function sendVendorPaymentRequestEmail(registrationId: number, paymentUrl: string): Promise<boolean> {
+  try {
+    if (!process.env.SMTP_HOST) {
+      log(`SMTP is not configured, skipping payment request for vendor registration ${registrationId}`, 'email');
+      return false;
+    }
+    
+    const registration = await storage.getVendorRegistration(registrationId);
+    if (!registration || !registration.orderId || !registration.paymentDueAt) {
+      throw new Error(`Vendor registration has no payment due: ${registrationId}`);
+    }
+    
+    const [profile, event, order] = await Promise.all([
+      storage.getVendorProfileById(registration.vendorProfileId),
+      storage.getEvent(registration.eventId),
+      storage.getOrder(registration.orderId),
+    ]);
+    const user = profile ? await storage.getUser(profile.userId) : undefined;
+    if (!profile || !user || !event || !order) {
+      throw new Error(`Vendor registration details not found: ${registrationId}`);
+    }
+    
+    const html = `
+<h2>You're approved for ${escapeHtml(event.title)}</h2>
+<p>Hi ${escapeHtml(user.name || user.username)},</p>
+<p><strong>${escapeHtml(profile.businessName)}</strong> has been approved as a vendor. Your spot is held until ${registration.paymentDueAt.toLocaleString()}.</p>
+<p>Amount due: <strong>$${order.totalAmount.toFixed(2)}</strong></p>
+<p><a href="${paymentUrl}">Pay for your spot</a>. If it isn't paid by then, the approval lapses and the spot goes to another vendor.</p>
+`;
+    
+    await createMailTransport().sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: user.email,
+      subject: `Approved for ${event.title}: payment due ${registration.paymentDueAt.toLocaleDateString()}`,
+      html,
+    });
+    
+    log(`Payment request for vendor registration ${registrationId} sent to ${user.email}`, 'email');
+    return true;
+  } catch (error: any) {
+    log(`Failed to send payment request for vendor registration ${registrationId}: ${error.message}`, 'email');
+    return false;
+  }
+}
 
 // Set up email notification routes for the API
 export function setupEmailRoutes(app: Express) {
@@ -549,7 +820,7 @@ export function setupEmailRoutes(app: Express) {
       }
       
       // Get recipients
-      let recipients: Array<{ userId: number; email: string; name: string }> = [];
+      let recipients: EmailRecipient[] = [];
       
       // If custom recipients are provided, use them
       if (customRecipients && Array.isArray(customRecipients) && customRecipients.length > 0) {
@@ -613,7 +884,7 @@ export function setupEmailRoutes(app: Express) {
       const result = await sendBulkEmail(
         processedSubject,
         replaceTemplatePlaceholders(finalBody, standardReplacements),
-        recipients.map(r => ({ email: r.email, name: r.name }))
+        recipients.map(r => ({ email: r.email, name: r.name, replacements: r.replacements }))
       );
       
       // Return the result
@@ -730,5 +1001,10 @@ export const emailService = {
   getTemplate: (id: string) => emailTemplates.find(t => t.id === id),
   getRecipients,
   sendBulkEmail,
+  sendOrderConfirmationEmail,
+  sendTicketTransferEmail,
+  sendWaitlistOfferEmail,
+  sendVendorDocumentReminderEmail,
+  sendVendorPaymentRequestEmail,
   replaceTemplatePlaceholders
 };
\ No newline at end of file
@@ -0,0 +1,418 @@
+import type { Event, EventSeries, InsertAttendeeQuestion, InsertEvent, InsertEventSeries, InsertEventSession, InsertProduct, InsertVendorSpot, InsertVolunteerShift } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Recurring event series. Occurrences are real events, created ahead of time from the series'
+// template event so each has its own capacity, products and tickets.
+
+const MAX_OCCURRENCES_PER_RUN = 200;
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export type SeriesRule = Pick<EventSeries, "frequency" | "interval" | "weekdays" | "monthWeek" | "monthWeekday" | "startsOn" | "until" | "count" | "exceptions">;
+
+// How far ahead occurrences are created (SERIES_HORIZON_DAYS, default 90). The sweep adds the
+// later ones as the window moves forward.
+export function getSeriesHorizonDays(): number {
+  const days = parseInt(process.env.SERIES_HORIZON_DAYS || "90");
+  return Number.isFinite(days) && days > 0 ? days : 90;
+}
+
+// Series dates are local calendar days, "YYYY-MM-DD"
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// The nth weekday of a month (week -1 for the last), or null when the month doesn't have a fifth one
+function getNthWeekday(year: number, month: number, week: number, weekday: number): Date | null {
+  if (week === -1) {
+    const last = new Date(year, month + 1, 0);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+
+  const first = new Date(year, month, 1);
+  const day = addDays(first, (weekday - first.getDay() + 7) % 7 + (week - 1) * 7);
+  return day.getMonth() === month ? day : null;
+}
+
+// Checks across fields that the insert schema can't express, or null when the rule is usable
+export function getSeriesRuleError(rule: SeriesRule): string | null {
+  if (rule.frequency === "weekly" && (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0)) {
+    return "Pick at least one day of the week";
+  }
+  if (rule.frequency === "monthly" && (rule.monthWeek == null || rule.monthWeekday == null)) {
+    return "Pick which weekday of the month the event repeats on";
+  }
+  if (rule.until && rule.until < rule.startsOn) {
+    return "The series can't end before it starts";
+  }
+  // The first occurrence has to be one the rule produces, or calendars would disagree about it
+  if (getOccurrenceDates({ ...rule, count: null, exceptions: [] }, parseDateKey(rule.startsOn))[0] !== rule.startsOn) {
+    return "The event's date doesn't fall on the repeat rule";
+  }
+  return null;
+}
+
+// Every date the rule produces from startsOn through `through`, minus its exceptions. As in
+// RFC 5545, a count limit includes the excepted dates.
+export function getOccurrenceDates(rule: SeriesRule, through: Date): string[] {
+  const start = parseDateKey(rule.startsOn);
+  const until = rule.until ? parseDateKey(rule.until) : null;
+  const last = until && until < through ? until : through;
+  const exceptions = new Set((rule.exceptions as string[]) || []);
+  const dates: string[] = [];
+  let generated = 0;
+
+  const take = (day: Date): boolean => {
+    if (day < start || day > last) {
+      return true;
+    }
+    generated++;
+    if (rule.count && generated > rule.count) {
+      return false;
+    }
+    const key = toDateKey(day);
+    if (!exceptions.has(key)) {
+      dates.push(key);
+    }
+    return true;
+  };
+
+  if (rule.frequency === "weekly") {
+    const weekdays = Array.from(new Set((rule.weekdays as number[]) || [])).sort((a, b) => a - b);
+    for (let week = addDays(start, -start.getDay()); week <= last; week = addDays(week, 7 * rule.interval)) {
+      for (const weekday of weekdays) {
+        if (!take(addDays(week, weekday))) {
+          return dates;
+        }
+      }
+    }
+  } else if (rule.frequency === "monthly" && rule.monthWeek != null && rule.monthWeekday != null) {
+    for (let month = new Date(start.getFullYear(), start.getMonth(), 1); month <= last; month = new Date(month.getFullYear(), month.getMonth() + rule.interval, 1)) {
+      const day = getNthWeekday(month.getFullYear(), month.getMonth(), rule.monthWeek, rule.monthWeekday);
+      if (day && !take(day)) {
+        return dates;
+      }
+    }
+  }
+
+  return dates;
+}
+
+// The rule as an iCalendar RRULE value
+export function toRRule(rule: SeriesRule): string {
+  const parts = [`FREQ=${rule.frequency === "weekly" ? "WEEKLY" : "MONTHLY"}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.frequency === "weekly") {
+    parts.push(`BYDAY=${((rule.weekdays as number[]) || []).slice().sort((a, b) => a - b).map(weekday => RRULE_WEEKDAYS[weekday]).join(",")}`, "WKST=SU");
+  } else if (rule.monthWeek != null && rule.monthWeekday != null) {
+    parts.push(`BYDAY=${rule.monthWeek}${RRULE_WEEKDAYS[rule.monthWeekday]}`);
+  }
+
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    // UNTIL is inclusive and in UTC, so use the end of the last local day
+    const end = addDays(parseDateKey(rule.until), 1).getTime() - 1000;
+    parts.push(`UNTIL=${new Date(end).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  }
+
+  return parts.join(";");
+}
+
+// When the rule puts an occurrence: its date at the template's time of day
+export function getRuleStart(template: Pick<Event, "startDate">, dateKey: string): Date {
+  const day = parseDateKey(dateKey);
+  const time = new Date(template.startDate);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.getHours(), time.getMinutes(), time.getSeconds());
+}
+
+function shiftDate(date: Date | null, offsetMs: number): Date | null {
+  return date ? new Date(new Date(date).getTime() + offsetMs) : null;
+}
+
+// Create one occurrence from the template, with copies of its products, vendor spots, volunteer
+// shifts and attendee questions. Sales windows and shift times move with the date; stock starts
+// back at what the template was set up with, not what it has left. Returns undefined if the
+// date's occurrence already exists.
+async function createOccurrence(series: EventSeries, template: Event, dateKey: string): Promise<Event | undefined> {
+  const startDate = getRuleStart(template, dateKey);
+  const offsetMs = startDate.getTime() - new Date(template.startDate).getTime();
+  const { id, createdAt, updatedAt, ...eventData } = template;
+
+  const occurrence = await storage.createSeriesOccurrence({
+    ...eventData,
+    startDate,
+    endDate: shiftDate(template.endDate, offsetMs)!,
+    ticketsAvailable: template.capacity ?? template.ticketsAvailable,
+    seriesId: series.id,
+    occurrenceDate: dateKey,
+  } as InsertEvent);
+  if (!occurrence) {
+    return undefined;
+  }
+
+  const productIds = new Map<number, number>();
+  for (const product of await storage.getProducts(template.id)) {
+    const { id: productId, createdAt, updatedAt, eventId, soldCount, ...productData } = product;
+    const copy = await storage.createProduct({
+      ...productData,
+      eventId: occurrence.id,
+      quantity: product.quantity === null ? null : product.quantity + soldCount,
+      salesStartAt: shiftDate(product.salesStartAt, offsetMs),
+      salesEndAt: shiftDate(product.salesEndAt, offsetMs),
+    } as InsertProduct);
+    productIds.set(productId, copy.id);
+  }
+
+  for (const spot of await storage.getVendorSpots(template.id)) {
+    const { id: spotId, createdAt, updatedAt, eventId, ...spotData } = spot;
+    await storage.createVendorSpot({ ...spotData, eventId: occurrence.id, availableSpots: spot.capacity } as InsertVendorSpot);
+  }
+
+  for (const shift of await storage.getVolunteerShifts(template.id)) {
+    const { id: shiftId, createdAt, updatedAt, eventId, ...shiftData } = shift;
+    await storage.createVolunteerShift({
+      ...shiftData,
+      eventId: occurrence.id,
+      startTime: shiftDate(shift.startTime, offsetMs)!,
+      endTime: shiftDate(shift.endTime, offsetMs)!,
+      availableSpots: shift.capacity,
+    } as InsertVolunteerShift);
+  }
+
+  for (const question of await storage.getAttendeeQuestionsByEvent(template.id)) {
+    const { id: questionId, createdAt, updatedAt, eventId, productId, ...questionData } = question;
+    // A question for a single tier follows that tier's copy
+    if (productId !== null && !productIds.has(productId)) {
+      continue;
+    }
+    await storage.createAttendeeQuestion({
+      ...questionData,
+      eventId: occurrence.id,
+      productId: productId === null ? null : productIds.get(productId)!,
+    } as InsertAttendeeQuestion);
+  }
+
+  for (const session of await storage.getSessionsByEvent(template.id)) {
+    const { id: sessionId, createdAt, updatedAt, eventId, agendaCount, requiredProductId, ...sessionData } = session;
+    if (requiredProductId !== null && !productIds.has(requiredProductId)) {
+      continue;
+    }
+    await storage.createSession({
+      ...sessionData,
+      eventId: occurrence.id,
+      startTime: shiftDate(session.startTime, offsetMs)!,
+      endTime: shiftDate(session.endTime, offsetMs)!,
+      requiredProductId: requiredProductId === null ? null : productIds.get(requiredProductId)!,
+    } as InsertEventSession);
+  }
+
+  return occurrence;
+}
+
+// Create the occurrences the rule calls for up to the horizon that don't exist yet. Past dates
+// are never backfilled, and dates whose occurrence was deleted are exceptions by then.
+export async function generateSeriesOccurrences(seriesId: number): Promise<Event[]> {
+  const series = await storage.getEventSeries(seriesId);
+  if (!series) {
+    throw new Error(`Event series not found: ${seriesId}`);
+  }
+
+  const template = await storage.getEvent(series.templateEventId);
+  if (!template) {
+    log(`Event series ${seriesId} has no template event, skipping`, "series");
+    return [];
+  }
+
+  const today = new Date();
+  const todayKey = toDateKey(today);
+  const existing = new Set((await storage.getSeriesOccurrences(seriesId)).map(event => event.occurrenceDate));
+  const created: Event[] = [];
+
+  for (const dateKey of getOccurrenceDates(series, addDays(today, getSeriesHorizonDays()))) {
+    if (dateKey < todayKey || existing.has(dateKey)) {
+      continue;
+    }
+    if (created.length >= MAX_OCCURRENCES_PER_RUN) {
+      break;
+    }
+    const occurrence = await createOccurrence(series, template, dateKey);
+    if (occurrence) {
+      created.push(occurrence);
+    }
+  }
+
+  if (created.length > 0) {
+    log(`Created ${created.length} occurrence(s) of event series ${seriesId}`, "series");
+  }
+  return created;
+}
+
+// Turn an event into the first occurrence of a new series and create the ones after it
+export async function createSeriesFromEvent(event: Event, rule: Omit<InsertEventSeries, "ownerId" | "templateEventId" | "startsOn">): Promise<{ series: EventSeries; occurrences: Event[] }> {
+  const occurrenceDate = toDateKey(new Date(event.startDate));
+  const series = await storage.createEventSeries({
+    ...rule,
+    ownerId: event.ownerId,
+    templateEventId: event.id,
+    startsOn: occurrenceDate,
+  });
+
+  await storage.updateEvent(event.id, { seriesId: series.id, occurrenceDate });
+  await generateSeriesOccurrences(series.id);
+
+  return { series, occurrences: await storage.getSeriesOccurrences(series.id) };
+}
+
+// After the rule changes, remove upcoming occurrences it no longer produces and create the new
+// ones. Occurrences that already have orders, and the template itself, are kept for the
+// organizer to cancel by hand.
+export async function applySeriesRule(series: EventSeries): Promise<{ created: Event[]; removed: Event[]; kept: Event[] }> {
+  const todayKey = toDateKey(new Date());
+  const occurrences = await storage.getSeriesOccurrences(series.id);
+  const lastOccurrence = occurrences.reduce((latest, event) => event.occurrenceDate && event.occurrenceDate > latest ? event.occurrenceDate : latest, todayKey);
+  const wanted = new Set(getOccurrenceDates(series, addDays(parseDateKey(lastOccurrence), 1)));
+  const removed: Event[] = [];
+  const kept: Event[] = [];
+
+  for (const event of occurrences) {
+    if (!event.occurrenceDate || event.occurrenceDate < todayKey || wanted.has(event.occurrenceDate)) {
+      continue;
+    }
+    const orders = await storage.getOrdersByEvent(event.id);
+    if (orders.length > 0 || event.id === series.templateEventId) {
+      kept.push(event);
+    } else {
+      await storage.deleteEvent(event.id);
+      removed.push(event);
+    }
+  }
+
+  const created = await generateSeriesOccurrences(series.id);
+  return { created, removed, kept };
+}
+
+// Before an occurrence is deleted: make its date an exception so it isn't created again, and if
+// it was the template, hand that role to the next occurrence
+export async function detachOccurrence(event: Event): Promise<void> {
+  if (!event.seriesId) {
+    return;
+  }
+
+  const series = await storage.getEventSeries(event.seriesId);
+  if (!series) {
+    return;
+  }
+
+  const exceptions = (series.exceptions as string[]) || [];
+  const changes: { exceptions?: string[]; templateEventId?: number } = {};
+  if (event.occurrenceDate && !exceptions.includes(event.occurrenceDate)) {
+    changes.exceptions = [...exceptions, event.occurrenceDate];
+  }
+
+  if (series.templateEventId === event.id) {
+    changes.templateEventId = await getReplacementTemplateId(series, event);
+  }
+
+  if (changes.exceptions || changes.templateEventId) {
+    await storage.updateEventSeries(series.id, changes);
+  }
+}
+
+// The occurrence to take over as template from this one: the next, or the latest if it was last
+async function getReplacementTemplateId(series: EventSeries, event: Event): Promise<number | undefined> {
+  const others = (await storage.getSeriesOccurrences(series.id)).filter(occurrence => occurrence.id !== event.id);
+  const next = others.find(occurrence => new Date(occurrence.startDate) > new Date(event.startDate)) || others[others.length - 1];
+  return next?.id;
+}
+
+// A "this occurrence" edit of the template: hand the template role to another occurrence so the
+// ones created later don't pick up a change meant for one date
+export async function detachEditedTemplate(event: Event): Promise<void> {
+  if (!event.seriesId) {
+    return;
+  }
+
+  const series = await storage.getEventSeries(event.seriesId);
+  if (!series || series.templateEventId !== event.id) {
+    return;
+  }
+
+  const templateEventId = await getReplacementTemplateId(series, event);
+  if (templateEventId) {
+    await storage.updateEventSeries(series.id, { templateEventId });
+  }
+}
+
+// An "all future occurrences" edit: apply the same changes to every later occurrence, moving
+// their times by as much as this one moved, and make this event the template for new ones
+export async function applyToFutureOccurrences(before: Event, after: Event, changes: Partial<InsertEvent>): Promise<Event[]> {
+  if (!after.seriesId || !after.occurrenceDate) {
+    return [];
+  }
+
+  const { startDate, endDate, seriesId, occurrenceDate, ...fields } = changes;
+  const startOffset = new Date(after.startDate).getTime() - new Date(before.startDate).getTime();
+  const endOffset = new Date(after.endDate).getTime() - new Date(before.endDate).getTime();
+  const updated: Event[] = [];
+
+  for (const occurrence of await storage.getSeriesOccurrences(after.seriesId)) {
+    if (occurrence.id === after.id || !occurrence.occurrenceDate || occurrence.occurrenceDate < after.occurrenceDate) {
+      continue;
+    }
+    updated.push(await storage.updateEvent(occurrence.id, {
+      ...fields,
+      startDate: shiftDate(occurrence.startDate, startOffset)!,
+      endDate: shiftDate(occurrence.endDate, endOffset)!,
+    }));
+  }
+
+  await storage.updateEventSeries(after.seriesId, { templateEventId: after.id });
+  return updated;
+}
+
+// Top up every open series to the horizon
+export async function extendEventSeries(): Promise<number> {
+  let created = 0;
+  for (const series of await storage.getOpenEventSeries(toDateKey(new Date()))) {
+    try {
+      created += (await generateSeriesOccurrences(series.id)).length;
+    } catch (error: any) {
+      log(`Failed to extend event series ${series.id}: ${error.message}`, "series");
+    }
+  }
+  return created;
+}
+
+// Run the series sweep on an interval (SERIES_SWEEP_INTERVAL_HOURS, default 24)
+export function startSeriesScheduler(): NodeJS.Timeout {
+  const intervalHours = parseInt(process.env.SERIES_SWEEP_INTERVAL_HOURS || "24");
+  const intervalMs = (Number.isFinite(intervalHours) && intervalHours > 0 ? intervalHours : 24) * 60 * 60 * 1000;
+
+  log(`Event series sweep running every ${intervalMs / 3600000}h, ${getSeriesHorizonDays()} days ahead`, "series");
+
+  const sweep = () => {
+    extendEventSeries().catch((error) => {
+      log(`Event series sweep failed: ${error.message}`, "series");
+    });
+  };
+
+  // Catch up right away rather than a whole interval after a restart
+  sweep();
+  const timer = setInterval(sweep, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,64 @@
+import type { Event, Order } from "@shared/schema";
+
+export type OrderFees = {
+  // What the buyer is charged, including any fees passed on to them
+  totalAmount: number;
+  platformFeeAmount: number;
+  processingFeeAmount: number;
+  buyerFeeAmount: number;
+};
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function readRate(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Platform fee for an event: its own override, otherwise PLATFORM_FEE_PERCENT / PLATFORM_FEE_FIXED
+export function getPlatformFeeRate(event: Event): { percent: number; fixed: number } {
+  return {
+    percent: event.platformFeePercent ?? readRate("PLATFORM_FEE_PERCENT", 0),
+    fixed: event.platformFeeFixed ?? readRate("PLATFORM_FEE_FIXED", 0),
+  };
+}
+
+// Card processing rate, Stripe's standard 2.9% + $0.30 unless configured
+export function getProcessingFeeRate(): { percent: number; fixed: number } {
+  return {
+    percent: readRate("PROCESSING_FEE_PERCENT", 2.9),
+    fixed: readRate("PROCESSING_FEE_FIXED", 0.3),
+  };
+}
+
+// Work out the fees on an order's subtotal (after discounts). When the event passes processing
+// fees on, the charge is grossed up so the processing fee on the total is covered by the buyer.
+export function calculateOrderFees(event: Event, subtotal: number): OrderFees {
+  if (subtotal <= 0) {
+    return { totalAmount: 0, platformFeeAmount: 0, processingFeeAmount: 0, buyerFeeAmount: 0 };
+  }
+
+  const platform = getPlatformFeeRate(event);
+  const processing = getProcessingFeeRate();
+  const platformFeeAmount = roundCents(Math.min(subtotal * platform.percent / 100 + platform.fixed, subtotal));
+
+  if (event.passProcessingFees) {
+    const totalAmount = roundCents((subtotal + processing.fixed) / (1 - processing.percent / 100));
+    const buyerFeeAmount = roundCents(totalAmount - subtotal);
+    return { totalAmount, platformFeeAmount, processingFeeAmount: buyerFeeAmount, buyerFeeAmount };
+  }
+
+  return {
+    totalAmount: roundCents(subtotal),
+    platformFeeAmount,
+    processingFeeAmount: roundCents(subtotal * processing.percent / 100 + processing.fixed),
+    buyerFeeAmount: 0,
+  };
+}
+
+// What the organizer keeps from an order once platform and processing fees are taken out
+export function getOrderNetAmount(order: Pick<Order, "totalAmount" | "platformFeeAmount" | "processingFeeAmount">): number {
+  return roundCents(Math.max(order.totalAmount - order.platformFeeAmount - order.processingFeeAmount, 0));
+}
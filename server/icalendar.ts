@@ -1,8 +1,49 @@
 import { createEvents, EventAttributes } from 'ics';
-import { Event } from '@shared/schema';
-import { promisify } from 'util';
+import { Event, EventSeries, EventSession } from '@shared/schema';
+import { getRuleStart, toRRule } from './event-series';
+import { getAppUrl } from './waitlist';
 
-const createEventsAsync = promisify(createEvents);
+type DateArray = [number, number, number, number, number];
+
+// [year, month, day, hour, minute], the format ics takes dates in
+function toDateArray(date: Date): DateArray {
+  return [
+    date.getFullYear(),
+    date.getMonth() + 1, // Months are 1-indexed in ics
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes()
+  ];
+}
+
+// ics only accepts absolute URLs
+function getEventUrl(eventId: number): string {
+  return `${getAppUrl()}/events/${eventId}`;
+}
+
+function buildAlarms(title: string, reminderMinutes: number[]) {
+  return reminderMinutes.map(minutes => ({
+    action: 'display' as const,
+    trigger: { minutes, before: true },
+    description: `Reminder: ${title}`
+  }));
+}
+
+async function renderEvents(events: EventAttributes[]): Promise<string> {
+  try {
+    const { error, value } = createEvents(events);
+    
+    if (error) {
+      console.error('Error creating iCalendar event:', error);
+      throw new Error(`Failed to generate calendar file: ${error}`);
+    }
+    
+    return value || '';
+  } catch (error) {
+    console.error('Error generating iCalendar:', error);
+    throw new Error('Failed to generate calendar file');
+  }
+}
 
 /**
  * Generate an iCalendar file for an event
@@ -12,60 +53,120 @@ const createEventsAsync = promisify(createEvents);
  * @returns iCalendar string
  */
 export async function generateICalendar(event: Event, reminderMinutes: number[] = [15, 60, 1440]): Promise<string> {
-  // Convert event start date to array format required by ics
-  // [year, month, day, hour, minute]
-  const startDate = new Date(event.startDate);
-  const endDate = new Date(event.endDate);
-  
-  const startArray = [
-    startDate.getFullYear(),
-    startDate.getMonth() + 1, // Months are 1-indexed in ics
-    startDate.getDate(),
-    startDate.getHours(),
-    startDate.getMinutes()
-  ];
-  
-  const endArray = [
-    endDate.getFullYear(),
-    endDate.getMonth() + 1,
-    endDate.getDate(),
-    endDate.getHours(),
-    endDate.getMinutes()
-  ];
-  
-  // Format alarms based on provided reminder minutes
-  const alarms = reminderMinutes.map(minutes => ({
-    action: 'display',
-    trigger: { minutes, before: true },
-    description: `Reminder: ${event.title}`
-  }));
-  
-  // Construct event data for ics
-  const eventData: EventAttributes = {
-    start: startArray as [number, number, number, number, number],
-    end: endArray as [number, number, number, number, number],
+  return renderEvents([{
+    start: toDateArray(new Date(event.startDate)),
+    end: toDateArray(new Date(event.endDate)),
     title: event.title,
     description: event.description,
     location: event.location,
-    url: `${process.env.REPLIT_DOMAINS ? 'https://' + process.env.REPLIT_DOMAINS.split(',')[0] : ''}/events/${event.id}`,
+    url: getEventUrl(event.id),
     status: 'CONFIRMED',
     busyStatus: 'BUSY',
     organizer: { name: 'Moss Point Main Street', email: 'events@mosspointmainstreet.org' },
-    alarms: alarms
+    alarms: buildAlarms(event.title, reminderMinutes)
+  }]);
+}
+
+/**
+ * Generate an iCalendar file for a recurring series
+ * 
+ * The series becomes one repeating entry (RRULE) timed like its template event. Occurrences
+ * that no longer match it - moved, retitled or cancelled - are excluded from the rule (EXDATE)
+ * and, unless cancelled, listed as entries of their own.
+ * 
+ * @param series The series to create calendar entries for
+ * @param template The series' template event
+ * @param occurrences The series' existing occurrences
+ * @param reminderMinutes Optional reminder time in minutes before each occurrence
+ * @returns iCalendar string
+ */
+export async function generateSeriesICalendar(
+  series: EventSeries,
+  template: Event,
+  occurrences: Event[],
+  reminderMinutes: number[] = [15, 60, 1440]
+): Promise<string> {
+  const duration = new Date(template.endDate).getTime() - new Date(template.startDate).getTime();
+  const firstStart = getRuleStart(template, series.startsOn);
+  
+  const differs = (occurrence: Event) => {
+    const ruleStart = getRuleStart(template, occurrence.occurrenceDate!);
+    return occurrence.status === 'cancelled'
+      || occurrence.title !== template.title
+      || occurrence.location !== template.location
+      || new Date(occurrence.startDate).getTime() !== ruleStart.getTime()
+      || new Date(occurrence.endDate).getTime() - new Date(occurrence.startDate).getTime() !== duration;
   };
+  const separate = occurrences.filter(occurrence => occurrence.occurrenceDate && differs(occurrence));
   
-  try {
-    // Create iCalendar event
-    const { error, value } = await createEventsAsync({ events: [eventData] });
-    
-    if (error) {
-      console.error('Error creating iCalendar event:', error);
-      throw new Error(`Failed to generate calendar file: ${error}`);
-    }
-    
-    return value || '';
-  } catch (error) {
-    console.error('Error generating iCalendar:', error);
-    throw new Error('Failed to generate calendar file');
+  const exclusionDates = [
+    ...((series.exceptions as string[]) || []).map(dateKey => getRuleStart(template, dateKey).getTime()),
+    ...separate.map(occurrence => getRuleStart(template, occurrence.occurrenceDate!).getTime()),
+  ];
+  
+  const entries: EventAttributes[] = [{
+    uid: `series-${series.id}@events`,
+    start: toDateArray(firstStart),
+    end: toDateArray(new Date(firstStart.getTime() + duration)),
+    recurrenceRule: toRRule(series),
+    exclusionDates: exclusionDates.length > 0 ? exclusionDates : undefined,
+    title: template.title,
+    description: template.description,
+    location: template.location,
+    url: getEventUrl(template.id),
+    status: 'CONFIRMED',
+    busyStatus: 'BUSY',
+    organizer: { name: 'Moss Point Main Street', email: 'events@mosspointmainstreet.org' },
+    alarms: buildAlarms(template.title, reminderMinutes)
+  }];
+  
+  for (const occurrence of separate.filter(occurrence => occurrence.status !== 'cancelled')) {
+    entries.push({
+      uid: `event-${occurrence.id}@events`,
+      start: toDateArray(new Date(occurrence.startDate)),
+      end: toDateArray(new Date(occurrence.endDate)),
+      title: occurrence.title,
+      description: occurrence.description,
+      location: occurrence.location,
+      url: getEventUrl(occurrence.id),
+      status: 'CONFIRMED',
+      busyStatus: 'BUSY',
+      organizer: { name: 'Moss Point Main Street', email: 'events@mosspointmainstreet.org' },
+      alarms: buildAlarms(occurrence.title, reminderMinutes)
+    });
   }
-}
\ No newline at end of file
+  
+  return renderEvents(entries);
+}
+
+/**
+ * Generate an iCalendar file for an attendee's personal agenda
+ * 
+ * @param event The event the sessions belong to
+ * @param sessions The sessions on the agenda
+ * @param reminderMinutes Optional reminder time in minutes before each session
+ * @returns iCalendar string
+ */
+export async function generateAgendaICalendar(event: Event, sessions: EventSession[], reminderMinutes: number[] = [10]): Promise<string> {
+  return renderEvents(sessions.map(session => {
+    const speakers = (session.speakers as string[]) || [];
+    const description = [
+      speakers.length > 0 ? `With ${speakers.join(', ')}` : '',
+      session.description || '',
+      `Part of ${event.title}`,
+    ].filter(Boolean).join('\n\n');
+    
+    return {
+      uid: `session-${session.id}@events`,
+      start: toDateArray(new Date(session.startTime)),
+      end: toDateArray(new Date(session.endTime)),
+      title: session.title,
+      description,
+      location: `${session.stage}, ${event.location}`,
+      url: getEventUrl(event.id),
+      status: 'CONFIRMED',
+      busyStatus: 'BUSY',
+      alarms: buildAlarms(session.title, reminderMinutes)
+    };
+  }));
+}
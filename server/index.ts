@@ -4,6 +4,10 @@ import { setupVite, serveStatic, log } from "./vite";
 import cors from "cors";
 import path from "path";
 import { setupUploads } from "./uploads";
+import { startOrderExpirySweeper } from "./order-expiry";
+import { startWaitlistSweeper } from "./waitlist";
+import { startSeriesScheduler } from "./event-series";
+import { startVendorDocumentReminders } from "./vendor-documents";
 
 const app = express();
 
@@ -20,7 +24,12 @@ const corsOptions = {
 };
 app.use(cors(corsOptions));
 
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so Stripe webhook signatures can be verified
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -63,6 +72,18 @@ app.use((req, res, next) => {
   // Setup uploads and prepare for production use
   
   const server = await registerRoutes(app);
+  
+  // Release stock held by checkouts that were never paid
+  startOrderExpirySweeper();
+  
+  // Pass unclaimed waitlist offers on to the next in line
+  startWaitlistSweeper();
+  
+  // Keep recurring series' occurrences created ahead of time
+  startSeriesScheduler();
+  
+  // Warn vendors before their insurance, permits and other documents expire
+  startVendorDocumentReminders();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { offerFreedCapacityForOrder } from "./waitlist";
+import { getPaymentProvider } from "./payments";
+
+// How long a pending order holds its stock before it expires (ORDER_HOLD_MINUTES, default 15)
+export function getOrderHoldMinutes(): number {
+  const minutes = parseInt(process.env.ORDER_HOLD_MINUTES || "15");
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 15;
+}
+
+export function getOrderHoldExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + getOrderHoldMinutes() * 60 * 1000);
+}
+
+// Expire every pending order past its hold and give the stock back. Its checkout session is
+// closed first, since Stripe keeps sessions open for at least 30 minutes, longer than the hold.
+export async function expirePendingOrders(): Promise<number> {
+  const expiredOrders = await storage.getExpiredPendingOrders(new Date());
+  let released = 0;
+
+  for (const order of expiredOrders) {
+    try {
+      // Paid just as the hold ran out; completing the session fulfills it
+      if (order.stripeSessionId && !(await getPaymentProvider().expireCheckoutSession(order.stripeSessionId))) {
+        log(`Order ${order.orderNumber} was paid as its hold ran out, leaving it to be fulfilled`, "orders");
+        continue;
+      }
+
+      if (await storage.releaseOrderHold(order.id, "expired")) {
+        released++;
+        // An approved vendor who didn't pay by the deadline loses the spot and their booth
+        const lapsed = await storage.lapseVendorRegistrationsForOrder(order.id);
+        if (lapsed.length > 0) {
+          log(`Vendor approval for order ${order.orderNumber} lapsed unpaid`, "orders");
+        }
+        await offerFreedCapacityForOrder(order.id);
+      }
+    } catch (error: any) {
+      log(`Failed to expire order ${order.orderNumber}: ${error.message}`, "orders");
+    }
+  }
+
+  if (released > 0) {
+    log(`Expired ${released} pending order(s) and released their stock`, "orders");
+  }
+
+  return released;
+}
+
+// Run the expiry sweep on an interval (ORDER_SWEEP_INTERVAL_SECONDS, default 60)
+export function startOrderExpirySweeper(): NodeJS.Timeout {
+  const intervalSeconds = parseInt(process.env.ORDER_SWEEP_INTERVAL_SECONDS || "60");
+  const intervalMs = (Number.isFinite(intervalSeconds) && intervalSeconds > 0 ? intervalSeconds : 60) * 1000;
+
+  log(`Order expiry sweeper running every ${intervalMs / 1000}s, holds last ${getOrderHoldMinutes()} minutes`, "orders");
+
+  const timer = setInterval(() => {
+    expirePendingOrders().catch((error) => {
+      log(`Order expiry sweep failed: ${error.message}`, "orders");
+    });
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
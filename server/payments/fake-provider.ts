@@ -0,0 +1,368 @@
+import type { Express } from "express";
+import type Stripe from "stripe";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { log } from "../vite";
+import type {
+  AccountStatus,
+  CheckoutSession,
+  ChargeSavedCardParams,
+  CheckoutSessionStatus,
+  CreateCheckoutSessionParams,
+  CreateRefundParams,
+  CreateTransferParams,
+  PaymentProvider,
+} from "./provider";
+import { PaymentDeclinedError } from "./provider";
+
+// Signed like Stripe's header: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.payload">
+export const FAKE_SIGNATURE_HEADER = "fake-signature";
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+type FakeSession = {
+  id: string;
+  params: CreateCheckoutSessionParams;
+  status: "open" | "complete" | "expired";
+  paymentIntentId: string | null;
+  amountTotal: number;
+};
+
+type FakePaymentIntent = {
+  id: string;
+  amount: number;
+  refunded: number;
+  transferGroup: string | null;
+};
+
+function fakeId(prefix: string): string {
+  return `${prefix}_fake_${randomBytes(12).toString("hex")}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatCents(amount: number): string {
+  return `$${(amount / 100).toFixed(2)}`;
+}
+
+// Simulates a hosted checkout in memory so the whole purchase flow runs without Stripe keys.
+// Buyers are sent to /fake-checkout/:id, and paying or abandoning there sends signed
+// Stripe-shaped webhook events to /api/payments/fake/webhook.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake" as const;
+  private sessions = new Map<string, FakeSession>();
+  private paymentIntents = new Map<string, FakePaymentIntent>();
+  private transfers = new Map<string, { id: string; amount: number; reversed: number }>();
+  private transfersByIdempotencyKey = new Map<string, string>();
+  private refundsByIdempotencyKey = new Map<string, string>();
+  private reversalsByIdempotencyKey = new Map<string, string>();
+
+  constructor(private webhookSecret: string) {}
+
+  async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+    const id = fakeId("cs");
+    const subtotal = params.lineItems.reduce((sum, item) => sum + item.unitAmount * item.quantity, 0);
+    const amountTotal = Math.max(subtotal - (params.discount?.amount || 0), 0);
+
+    this.sessions.set(id, { id, params, status: "open", paymentIntentId: null, amountTotal });
+
+    return {
+      id,
+      url: `${new URL(params.successUrl).origin}/fake-checkout/${id}`,
+      clientSecret: null,
+    };
+  }
+
+  async retrieveCheckoutSession(sessionId: string): Promise<CheckoutSessionStatus> {
+    return this.toStatus(this.getSession(sessionId));
+  }
+
+  async expireCheckoutSession(sessionId: string): Promise<boolean> {
+    // Sessions are lost on restart, and a lost session can't be paid either
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return true;
+    }
+    if (session.status === "open") {
+      session.status = "expired";
+    }
+    return session.status === "expired";
+  }
+
+  async chargeSavedCard(params: ChargeSavedCardParams): Promise<{ paymentIntentId: string }> {
+    // Any customer id counts as having a card on file
+    const paymentIntentId = fakeId("pi");
+    this.paymentIntents.set(paymentIntentId, {
+      id: paymentIntentId,
+      amount: params.amount,
+      refunded: 0,
+      transferGroup: params.transferGroup || null,
+    });
+    log(`Fake card on file charge of ${formatCents(params.amount)} to ${params.customerId}`, "payments");
+    return { paymentIntentId };
+  }
+
+  async createRefund(params: CreateRefundParams): Promise<{ id: string }> {
+    const existing = this.refundsByIdempotencyKey.get(params.idempotencyKey);
+    if (existing) {
+      return { id: existing };
+    }
+
+    const paymentIntent = this.paymentIntents.get(params.paymentIntentId);
+    if (!paymentIntent) {
+      throw new PaymentDeclinedError(`Payment not found: ${params.paymentIntentId}`);
+    }
+
+    if (paymentIntent.refunded + params.amount > paymentIntent.amount) {
+      throw new PaymentDeclinedError(`Refund of ${formatCents(params.amount)} exceeds the unrefunded amount of ${params.paymentIntentId}`);
+    }
+
+    paymentIntent.refunded += params.amount;
+    const id = fakeId("re");
+    this.refundsByIdempotencyKey.set(params.idempotencyKey, id);
+    return { id };
+  }
+
+  async createTransfer(params: CreateTransferParams): Promise<{ id: string }> {
+    const existing = this.transfersByIdempotencyKey.get(params.idempotencyKey);
+    if (existing) {
+      return { id: existing };
+    }
+
+    if (!this.paymentIntents.has(params.paymentIntentId)) {
+      throw new Error(`Payment not found: ${params.paymentIntentId}`);
+    }
+
+    const id = fakeId("tr");
+    this.transfers.set(id, { id, amount: params.amount, reversed: 0 });
+    this.transfersByIdempotencyKey.set(params.idempotencyKey, id);
+    log(`Fake transfer ${id} of ${formatCents(params.amount)} to ${params.destination}`, "payments");
+    return { id };
+  }
+
+  async reverseTransfer(transferId: string, amount: number, _metadata: Record<string, string>, idempotencyKey: string): Promise<{ id: string }> {
+    const existing = this.reversalsByIdempotencyKey.get(idempotencyKey);
+    if (existing) {
+      return { id: existing };
+    }
+
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) {
+      throw new PaymentDeclinedError(`Transfer not found: ${transferId}`);
+    }
+
+    if (transfer.reversed + amount > transfer.amount) {
+      throw new PaymentDeclinedError(`Reversal of ${formatCents(amount)} exceeds the remaining amount of ${transferId}`);
+    }
+
+    transfer.reversed += amount;
+    const id = fakeId("trr");
+    this.reversalsByIdempotencyKey.set(idempotencyKey, id);
+    return { id };
+  }
+
+  constructWebhookEvent(rawBody: Buffer | string, signature: string): Stripe.Event {
+    const payload = rawBody.toString();
+    const parts = Object.fromEntries(
+      (signature || "").split(",").map(part => part.split("=", 2) as [string, string])
+    );
+    const timestamp = parseInt(parts.t);
+
+    if (!timestamp || !parts.v1) {
+      throw new Error("Malformed fake payment signature");
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error("Fake payment signature timestamp is outside the tolerance window");
+    }
+
+    const expected = Buffer.from(this.sign(timestamp, payload));
+    const received = Buffer.from(parts.v1);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new Error("Fake payment signature does not match the payload");
+    }
+
+    return JSON.parse(payload) as Stripe.Event;
+  }
+
+  async getAccountStatus(accountId: string): Promise<AccountStatus> {
+    // Every connected account is fully onboarded offline
+    return { accountId, detailsSubmitted: true, chargesEnabled: true, payoutsEnabled: true };
+  }
+
+  async listRecentAccounts(): Promise<{ accountId: string; createdAt: Date }[]> {
+    // Connected accounts are never created offline, so there are none to list
+    return [];
+  }
+
+  // Settle the session as if the buyer paid, notify the webhook and return where to send the buyer
+  async pay(sessionId: string): Promise<string> {
+    const session = this.getSession(sessionId);
+    if (session.status !== "open") {
+      throw new Error(`Checkout session is ${session.status}: ${sessionId}`);
+    }
+
+    const paymentIntentId = fakeId("pi");
+    this.paymentIntents.set(paymentIntentId, {
+      id: paymentIntentId,
+      amount: session.amountTotal,
+      refunded: 0,
+      transferGroup: session.params.transferGroup || null,
+    });
+    session.paymentIntentId = paymentIntentId;
+    session.status = "complete";
+
+    await this.emit(session, "checkout.session.completed");
+    return session.params.successUrl.replace("{CHECKOUT_SESSION_ID}", session.id);
+  }
+
+  // The buyer backed out; the order hold is released through the cancel page
+  cancel(sessionId: string): string {
+    return this.getSession(sessionId).params.cancelUrl;
+  }
+
+  // Let the session lapse, as Stripe does once expires_at passes
+  async expire(sessionId: string): Promise<string> {
+    const session = this.getSession(sessionId);
+    if (session.status !== "open") {
+      throw new Error(`Checkout session is ${session.status}: ${sessionId}`);
+    }
+
+    session.status = "expired";
+    await this.emit(session, "checkout.session.expired");
+    return session.params.cancelUrl;
+  }
+
+  renderCheckoutPage(sessionId: string): string {
+    const session = this.getSession(sessionId);
+    const rows = session.params.lineItems.map(item => `
+        <tr><td>${escapeHtml(item.name)}</td><td>${item.quantity}</td><td>${formatCents(item.unitAmount * item.quantity)}</td></tr>`
+    ).join("");
+    const discount = session.params.discount
+      ? `<tr><td>${escapeHtml(session.params.discount.name)}</td><td></td><td>-${formatCents(session.params.discount.amount)}</td></tr>`
+      : "";
+    const actions = session.status === "open"
+      ? `
+    <form method="post" action="/fake-checkout/${session.id}/pay"><button>Pay ${formatCents(session.amountTotal)}</button></form>
+    <form method="post" action="/fake-checkout/${session.id}/cancel"><button>Cancel</button></form>
+    <form method="post" action="/fake-checkout/${session.id}/expire"><button>Let session expire</button></form>`
+      : `<p>This checkout session is ${session.status}.</p>`;
+
+    return `<!DOCTYPE html>
+<html>
+  <head><title>Fake Checkout</title></head>
+  <body style="font-family: sans-serif; max-width: 600px; margin: 40px auto;">
+    <h1>Fake Checkout</h1>
+    <p>Offline payment provider. No real payment will be taken.</p>
+    <table style="width: 100%; text-align: left;">
+      <tr><th>Item</th><th>Qty</th><th>Amount</th></tr>${rows}
+      ${discount}
+      <tr><th>Total</th><th></th><th>${formatCents(session.amountTotal)}</th></tr>
+    </table>
+    ${actions}
+  </body>
+</html>`;
+  }
+
+  private getSession(sessionId: string): FakeSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Checkout session not found: ${sessionId}`);
+    }
+    return session;
+  }
+
+  private toStatus(session: FakeSession): CheckoutSessionStatus {
+    return {
+      id: session.id,
+      paymentStatus: session.status === "complete" ? "paid" : "unpaid",
+      paymentIntentId: session.paymentIntentId,
+      metadata: session.params.metadata,
+    };
+  }
+
+  private sign(timestamp: number, payload: string): string {
+    return createHmac("sha256", this.webhookSecret).update(`${timestamp}.${payload}`).digest("hex");
+  }
+
+  // Deliver a Stripe-shaped event to this server's fake webhook endpoint
+  private async emit(session: FakeSession, type: "checkout.session.completed" | "checkout.session.expired") {
+    const payload = JSON.stringify({
+      id: fakeId("evt"),
+      object: "event",
+      type,
+      created: Math.floor(Date.now() / 1000),
+      livemode: false,
+      data: {
+        object: {
+          id: session.id,
+          object: "checkout.session",
+          status: session.status,
+          payment_status: session.status === "complete" ? "paid" : "unpaid",
+          payment_intent: session.paymentIntentId,
+          amount_total: session.amountTotal,
+          metadata: session.params.metadata,
+        },
+      },
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const url = process.env.FAKE_PAYMENTS_WEBHOOK_URL
+      || `${new URL(session.params.successUrl).origin}/api/payments/fake/webhook`;
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, payload)}`,
+        },
+        body: payload,
+      });
+      log(`Fake ${type} for ${session.id} delivered to ${url}: ${response.status}`, "payments");
+    } catch (error: any) {
+      // The success page completes the order too, so a missed delivery isn't fatal
+      log(`Fake ${type} for ${session.id} could not be delivered to ${url}: ${error.message}`, "payments");
+    }
+  }
+}
+
+// Hosted checkout pages for the fake provider
+export function setupFakePaymentRoutes(app: Express, provider: FakePaymentProvider) {
+  log("Fake payment provider enabled, checkout is simulated at /fake-checkout", "payments");
+
+  app.get("/fake-checkout/:sessionId", (req, res) => {
+    try {
+      res.type("html").send(provider.renderCheckoutPage(req.params.sessionId));
+    } catch (error: any) {
+      res.status(404).send(error.message);
+    }
+  });
+
+  app.post("/fake-checkout/:sessionId/pay", async (req, res) => {
+    try {
+      res.redirect(await provider.pay(req.params.sessionId));
+    } catch (error: any) {
+      res.status(400).send(error.message);
+    }
+  });
+
+  app.post("/fake-checkout/:sessionId/cancel", (req, res) => {
+    try {
+      res.redirect(provider.cancel(req.params.sessionId));
+    } catch (error: any) {
+      res.status(404).send(error.message);
+    }
+  });
+
+  app.post("/fake-checkout/:sessionId/expire", async (req, res) => {
+    try {
+      res.redirect(await provider.expire(req.params.sessionId));
+    } catch (error: any) {
+      res.status(400).send(error.message);
+    }
+  });
+}
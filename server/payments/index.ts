@@ -0,0 +1,19 @@
+import type { PaymentProvider } from "./provider";
+import { StripePaymentProvider } from "./stripe-provider";
+import { FakePaymentProvider } from "./fake-provider";
+
+export * from "./provider";
+export { toCheckoutSessionStatus } from "./stripe-provider";
+export { FakePaymentProvider, FAKE_SIGNATURE_HEADER, setupFakePaymentRoutes } from "./fake-provider";
+
+let provider: PaymentProvider | null = null;
+
+// The configured payment provider: Stripe by default, or the offline fake with PAYMENT_PROVIDER=fake
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    provider = process.env.PAYMENT_PROVIDER === "fake"
+      ? new FakePaymentProvider(process.env.FAKE_PAYMENTS_WEBHOOK_SECRET || "whsec_fake_local")
+      : new StripePaymentProvider(process.env.STRIPE_SECRET_KEY || "sk_test_example");
+  }
+  return provider;
+}
@@ -0,0 +1,102 @@
+import type Stripe from "stripe";
+
+// All amounts are in cents
+
+export type CheckoutLineItem = {
+  name: string;
+  description?: string;
+  unitAmount: number;
+  quantity: number;
+};
+
+export type CreateCheckoutSessionParams = {
+  lineItems: CheckoutLineItem[];
+  // Taken off the whole session, e.g. a promo code
+  discount?: { name: string; amount: number };
+  successUrl: string; // may contain {CHECKOUT_SESSION_ID}
+  cancelUrl: string;
+  expiresAt?: Date;
+  metadata: Record<string, string>;
+  // Separate charges and transfers: funds stay on the platform until transferred per order
+  transferGroup?: string;
+  // Destination charge: funds go straight to the connected account, less the application fee
+  destination?: { accountId: string; applicationFeeAmount: number };
+};
+
+export type CheckoutSession = {
+  id: string;
+  url: string | null;
+  clientSecret: string | null;
+};
+
+export type CheckoutSessionStatus = {
+  id: string;
+  paymentStatus: "paid" | "unpaid" | "no_payment_required";
+  paymentIntentId: string | null;
+  metadata: Record<string, string>;
+};
+
+export type CreateRefundParams = {
+  paymentIntentId: string;
+  amount: number;
+  metadata: Record<string, string>;
+  // Retrying with the same key returns the original refund instead of refunding twice
+  idempotencyKey: string;
+};
+
+export type ChargeSavedCardParams = {
+  customerId: string;
+  amount: number;
+  metadata: Record<string, string>;
+  transferGroup?: string;
+};
+
+export type CreateTransferParams = {
+  amount: number;
+  destination: string;
+  transferGroup: string;
+  // The payment the transfer is funded from
+  paymentIntentId: string;
+  metadata: Record<string, string>;
+  idempotencyKey: string;
+};
+
+// Thrown when the processor refused a request outright, so no money moved. Any other error,
+// e.g. a timeout, leaves it unknown whether the request went through.
+export class PaymentDeclinedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+export type AccountStatus = {
+  accountId: string;
+  detailsSubmitted: boolean;
+  chargesEnabled: boolean;
+  payoutsEnabled: boolean;
+};
+
+// Everything checkout, refunds and payouts need from a payment processor. Webhook events use
+// Stripe's event shape so every provider feeds the same journal and dispatcher.
+export interface PaymentProvider {
+  readonly name: "stripe" | "fake";
+
+  createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession>;
+  retrieveCheckoutSession(sessionId: string): Promise<CheckoutSessionStatus>;
+  // Close a checkout session so it can no longer be paid. Returns false if it was already paid.
+  expireCheckoutSession(sessionId: string): Promise<boolean>;
+  // Charge a customer's saved card while they aren't at a checkout page, e.g. at the door
+  chargeSavedCard(params: ChargeSavedCardParams): Promise<{ paymentIntentId: string }>;
+
+  createRefund(params: CreateRefundParams): Promise<{ id: string }>;
+  createTransfer(params: CreateTransferParams): Promise<{ id: string }>;
+  reverseTransfer(transferId: string, amount: number, metadata: Record<string, string>, idempotencyKey: string): Promise<{ id: string }>;
+
+  // Throws if the signature doesn't match the payload
+  constructWebhookEvent(rawBody: Buffer | string, signature: string, secret?: string): Stripe.Event;
+
+  getAccountStatus(accountId: string): Promise<AccountStatus>;
+  // Connected accounts, most recently created first
+  listRecentAccounts(limit: number): Promise<{ accountId: string; createdAt: Date }[]>;
+}
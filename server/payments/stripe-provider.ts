@@ -0,0 +1,204 @@
+import Stripe from "stripe";
+import type {
+  AccountStatus,
+  CheckoutSession,
+  ChargeSavedCardParams,
+  CheckoutSessionStatus,
+  CreateCheckoutSessionParams,
+  CreateRefundParams,
+  CreateTransferParams,
+  PaymentProvider,
+} from "./provider";
+import { PaymentDeclinedError } from "./provider";
+
+// Stripe rejected the request itself (bad parameters, insufficient balance, a declined card), as
+// opposed to a connection or server error where it may still have been carried out
+function toDeclinedError(error: unknown): unknown {
+  if (
+    error instanceof Stripe.errors.StripeInvalidRequestError ||
+    error instanceof Stripe.errors.StripeCardError ||
+    error instanceof Stripe.errors.StripePermissionError
+  ) {
+    return new PaymentDeclinedError(error.message);
+  }
+  return error;
+}
+
+// Normalize a Stripe Checkout Session, e.g. from a webhook payload
+export function toCheckoutSessionStatus(session: Stripe.Checkout.Session): CheckoutSessionStatus {
+  return {
+    id: session.id,
+    paymentStatus: session.payment_status,
+    paymentIntentId: typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id || null,
+    metadata: (session.metadata || {}) as Record<string, string>,
+  };
+}
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = "stripe" as const;
+  private stripe: Stripe;
+
+  constructor(secretKey: string) {
+    this.stripe = new Stripe(secretKey, {
+      apiVersion: "2023-10-16" as any, // Force type to avoid version mismatch with Stripe types
+    });
+  }
+
+  async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+    // Stripe applies discounts as a single-use coupon so receipts show it
+    const discounts: { coupon: string }[] = [];
+    if (params.discount && params.discount.amount > 0) {
+      const coupon = await this.stripe.coupons.create({
+        amount_off: params.discount.amount,
+        currency: "usd",
+        duration: "once",
+        max_redemptions: 1,
+        name: params.discount.name,
+      });
+      discounts.push({ coupon: coupon.id });
+    }
+
+    const paymentIntentData: Stripe.Checkout.SessionCreateParams.PaymentIntentData = {
+      metadata: params.metadata,
+    };
+    if (params.transferGroup) {
+      paymentIntentData.transfer_group = params.transferGroup;
+    }
+    if (params.destination) {
+      paymentIntentData.application_fee_amount = params.destination.applicationFeeAmount;
+      paymentIntentData.transfer_data = { destination: params.destination.accountId };
+    }
+
+    const session = await this.stripe.checkout.sessions.create({
+      payment_method_types: ["card"],
+      line_items: params.lineItems.map(item => ({
+        price_data: {
+          currency: "usd",
+          product_data: {
+            name: item.name,
+            description: item.description || undefined,
+          },
+          unit_amount: item.unitAmount,
+        },
+        quantity: item.quantity,
+      })),
+      discounts,
+      mode: "payment",
+      expires_at: params.expiresAt ? Math.floor(params.expiresAt.getTime() / 1000) : undefined,
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      payment_intent_data: paymentIntentData,
+      metadata: params.metadata,
+    });
+
+    return { id: session.id, url: session.url, clientSecret: session.client_secret };
+  }
+
+  async retrieveCheckoutSession(sessionId: string): Promise<CheckoutSessionStatus> {
+    return toCheckoutSessionStatus(await this.stripe.checkout.sessions.retrieve(sessionId));
+  }
+
+  async expireCheckoutSession(sessionId: string): Promise<boolean> {
+    const session = await this.stripe.checkout.sessions.retrieve(sessionId);
+    if (session.status !== "open") {
+      return session.status === "expired";
+    }
+    // Fails if the buyer completes the session at this very moment, so the caller tries again
+    const expired = await this.stripe.checkout.sessions.expire(sessionId);
+    return expired.status === "expired";
+  }
+
+  async chargeSavedCard(params: ChargeSavedCardParams): Promise<{ paymentIntentId: string }> {
+    const paymentMethods = await this.stripe.paymentMethods.list({
+      customer: params.customerId,
+      type: "card",
+      limit: 1,
+    });
+    if (paymentMethods.data.length === 0) {
+      throw new Error("No card on file for this customer");
+    }
+
+    const paymentIntent = await this.stripe.paymentIntents.create({
+      amount: params.amount,
+      currency: "usd",
+      customer: params.customerId,
+      payment_method: paymentMethods.data[0].id,
+      off_session: true,
+      confirm: true,
+      transfer_group: params.transferGroup,
+      metadata: params.metadata,
+    });
+    if (paymentIntent.status !== "succeeded") {
+      throw new Error(`Card on file payment ${paymentIntent.status}`);
+    }
+
+    return { paymentIntentId: paymentIntent.id };
+  }
+
+  async createRefund(params: CreateRefundParams): Promise<{ id: string }> {
+    // Destination charges pull the refunded amount back from the organizer's account
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(params.paymentIntentId);
+      const refund = await this.stripe.refunds.create({
+        payment_intent: paymentIntent.id,
+        amount: params.amount,
+        reverse_transfer: !!paymentIntent.transfer_data,
+        metadata: params.metadata,
+      }, {
+        idempotencyKey: params.idempotencyKey,
+      });
+      return { id: refund.id };
+    } catch (error) {
+      throw toDeclinedError(error);
+    }
+  }
+
+  async createTransfer(params: CreateTransferParams): Promise<{ id: string }> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(params.paymentIntentId);
+    const transfer = await this.stripe.transfers.create({
+      amount: params.amount,
+      currency: "usd",
+      destination: params.destination,
+      transfer_group: params.transferGroup,
+      // Tie the transfer to the charge so it can go out before the funds settle
+      source_transaction: paymentIntent.latest_charge as string,
+      metadata: params.metadata,
+    }, {
+      idempotencyKey: params.idempotencyKey,
+    });
+    return { id: transfer.id };
+  }
+
+  async reverseTransfer(transferId: string, amount: number, metadata: Record<string, string>, idempotencyKey: string): Promise<{ id: string }> {
+    try {
+      const reversal = await this.stripe.transfers.createReversal(transferId, { amount, metadata }, { idempotencyKey });
+      return { id: reversal.id };
+    } catch (error) {
+      throw toDeclinedError(error);
+    }
+  }
+
+  constructWebhookEvent(rawBody: Buffer | string, signature: string, secret?: string): Stripe.Event {
+    if (!secret) {
+      throw new Error("A webhook secret is required to verify Stripe events");
+    }
+    return this.stripe.webhooks.constructEvent(rawBody, signature, secret);
+  }
+
+  async getAccountStatus(accountId: string): Promise<AccountStatus> {
+    const account = await this.stripe.accounts.retrieve(accountId);
+    return {
+      accountId: account.id,
+      detailsSubmitted: account.details_submitted,
+      chargesEnabled: account.charges_enabled,
+      payoutsEnabled: account.payouts_enabled,
+    };
+  }
+
+  async listRecentAccounts(limit: number): Promise<{ accountId: string; createdAt: Date }[]> {
+    const accounts = await this.stripe.accounts.list({ limit });
+    return accounts.data.map(account => ({ accountId: account.id, createdAt: new Date((account.created || 0) * 1000) }));
+  }
+}
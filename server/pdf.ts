@@ -0,0 +1,240 @@
+import PDFDocument from "pdfkit";
+import type { Event, Order, OrderItem, Refund, Ticket, User } from "@shared/schema";
+import { storage } from "./storage";
+import { renderTicketQrPng } from "./ticket-codes";
+
+// Ticket and receipt PDFs. They only use pdfkit's built-in fonts and data already in the
+// database, so they render without network access.
+
+const PAGE_MARGIN = 50;
+const MUTED = "#666666";
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatDateTime(date: Date): string {
+  return new Date(date).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function getAddressLines(user: User): string[] {
+  const cityLine = [user.city, user.state].filter(Boolean).join(", ");
+  return [user.address, [cityLine, user.zipCode].filter(Boolean).join(" ")].filter((line): line is string => !!line);
+}
+
+// Collect the document's output once everything has been drawn
+function toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+function drawRule(doc: PDFKit.PDFDocument) {
+  const y = doc.y + 6;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).strokeColor("#dddddd").stroke();
+  doc.y = y + 12;
+}
+
+function drawField(doc: PDFKit.PDFDocument, label: string, value: string, x: number, width: number) {
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(label.toUpperCase(), x, doc.y, { width });
+  doc.font("Helvetica-Bold").fontSize(13).fillColor("black").text(value, x, doc.y + 2, { width });
+  doc.moveDown(0.8);
+}
+
+// One page per ticket with the event, the holder and the scannable QR code
+export async function renderTicketsPdf(event: Event, tickets: Ticket[], holders: Map<number, User>, order?: Order): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN, info: { Title: `Tickets for ${event.title}` } });
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const qrSize = 190;
+  const fieldWidth = contentWidth - qrSize - 20;
+
+  for (let index = 0; index < tickets.length; index++) {
+    const ticket = tickets[index];
+    if (index > 0) {
+      doc.addPage();
+    }
+
+    doc.font("Helvetica-Bold").fontSize(22).fillColor("black").text(event.title, { width: contentWidth });
+    doc.font("Helvetica").fontSize(11).fillColor(MUTED)
+      .text(`${formatDateTime(event.startDate)} – ${formatDateTime(event.endDate)}`)
+      .text(event.location);
+    drawRule(doc);
+
+    const top = doc.y;
+    const holder = holders.get(ticket.userId);
+    drawField(doc, "Ticket", ticket.ticketType, PAGE_MARGIN, fieldWidth);
+    drawField(doc, "Attendee", ticket.attendeeName || holder?.name || holder?.username || "-", PAGE_MARGIN, fieldWidth);
+    if (ticket.attendeeEmail || holder?.email) {
+      drawField(doc, "Email", ticket.attendeeEmail || holder!.email, PAGE_MARGIN, fieldWidth);
+    }
+    drawField(doc, "Ticket number", ticket.ticketNumber, PAGE_MARGIN, fieldWidth);
+    if (order) {
+      drawField(doc, "Order", order.orderNumber, PAGE_MARGIN, fieldWidth);
+    }
+    if (ticket.status !== "active") {
+      drawField(doc, "Status", ticket.status.toUpperCase(), PAGE_MARGIN, fieldWidth);
+    }
+    const fieldsBottom = doc.y;
+
+    doc.image(await renderTicketQrPng(ticket), PAGE_MARGIN + contentWidth - qrSize, top, { width: qrSize });
+    doc.y = Math.max(fieldsBottom, top + qrSize) + 10;
+
+    drawRule(doc);
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(
+      "Show this QR code at the entrance, on screen or printed. It is unique to this ticket and stops working if the ticket is transferred or refunded.",
+      PAGE_MARGIN,
+      doc.y,
+      { width: contentWidth }
+    );
+  }
+
+  return toBuffer(doc);
+}
+
+export type ReceiptData = {
+  order: Order;
+  items: OrderItem[];
+  refunds: Refund[];
+  event: Event | undefined;
+  buyer: User | undefined;
+  organizer: User | undefined;
+};
+
+// A receipt once the order is paid, otherwise an invoice for what is owed
+export async function renderOrderReceiptPdf({ order, items, refunds, event, buyer, organizer }: ReceiptData): Promise<Buffer> {
+  const isPaid = ["paid", "partially_refunded", "refunded"].includes(order.paymentStatus);
+  const title = isPaid ? "Receipt" : "Invoice";
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN, info: { Title: `${title} ${order.orderNumber}` } });
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const halfWidth = contentWidth / 2 - 10;
+
+  doc.font("Helvetica-Bold").fontSize(24).fillColor("black").text(title);
+  doc.font("Helvetica").fontSize(10).fillColor(MUTED)
+    .text(`Order ${order.orderNumber}`)
+    .text(`Issued ${formatDateTime(order.createdAt)}`)
+    .text(`Payment: ${order.paymentMethod.replace(/_/g, " ")}, ${order.paymentStatus.replace(/_/g, " ")}`);
+  drawRule(doc);
+
+  // Organizer on the left, buyer on the right
+  const top = doc.y;
+  const fromLines = [
+    ...(organizer ? [organizer.name || organizer.username, organizer.email, organizer.phoneNumber, ...getAddressLines(organizer)] : []),
+    ...(event ? [`Event: ${event.title}`, formatDateTime(event.startDate), event.location] : []),
+  ].filter((line): line is string => !!line);
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED).text("FROM", PAGE_MARGIN, top);
+  doc.font("Helvetica").fontSize(10).fillColor("black").text(fromLines.join("\n"), PAGE_MARGIN, doc.y + 2, { width: halfWidth });
+  const fromBottom = doc.y;
+
+  const toLines = [
+    buyer?.name || buyer?.username,
+    order.buyerEmail || buyer?.email,
+    buyer?.phoneNumber,
+    ...(buyer ? getAddressLines(buyer) : []),
+  ].filter((line): line is string => !!line);
+  const rightX = PAGE_MARGIN + contentWidth / 2 + 10;
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED).text("BILLED TO", rightX, top);
+  doc.font("Helvetica").fontSize(10).fillColor("black").text(toLines.join("\n") || "Walk-up customer", rightX, doc.y + 2, { width: halfWidth });
+  doc.y = Math.max(fromBottom, doc.y) + 10;
+  drawRule(doc);
+
+  // Line items
+  const columns = [
+    { label: "Item", x: PAGE_MARGIN, width: contentWidth - 290, align: "left" as const },
+    { label: "Qty", x: PAGE_MARGIN + contentWidth - 290, width: 50, align: "right" as const },
+    { label: "Unit price", x: PAGE_MARGIN + contentWidth - 240, width: 80, align: "right" as const },
+    { label: "Discount", x: PAGE_MARGIN + contentWidth - 160, width: 80, align: "right" as const },
+    { label: "Amount", x: PAGE_MARGIN + contentWidth - 80, width: 80, align: "right" as const },
+  ];
+  const drawRow = (values: string[], font: string) => {
+    const y = doc.y;
+    let bottom = y;
+    values.forEach((value, index) => {
+      const column = columns[index];
+      doc.font(font).fontSize(10).fillColor("black").text(value, column.x, y, { width: column.width, align: column.align });
+      bottom = Math.max(bottom, doc.y);
+    });
+    doc.y = bottom + 6;
+  };
+
+  drawRow(columns.map(column => column.label), "Helvetica-Bold");
+  for (const item of items) {
+    const refunded = item.refundedQuantity > 0 ? ` (${item.refundedQuantity} refunded)` : "";
+    drawRow([
+      `${item.name}${refunded}`,
+      String(item.quantity),
+      formatMoney(item.unitPrice),
+      item.discountAmount > 0 ? `-${formatMoney(item.discountAmount)}` : "",
+      formatMoney(item.totalPrice),
+    ], "Helvetica");
+  }
+  drawRule(doc);
+
+  // Totals, right-aligned under the amount column
+  const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+  const totals: [string, string][] = [
+    ["Subtotal", formatMoney(subtotal)],
+    ...(order.discountAmount > 0 ? [["Discount", `-${formatMoney(order.discountAmount)}`] as [string, string]] : []),
+    ...(order.buyerFeeAmount > 0 ? [["Fees", formatMoney(order.buyerFeeAmount)] as [string, string]] : []),
+    // No sales tax is collected at checkout yet, so this always reads zero
+    ["Tax", formatMoney(0)],
+    [isPaid ? "Total paid" : "Total due", formatMoney(order.totalAmount)],
+    ...(order.refundedAmount > 0
+      ? [["Refunded", `-${formatMoney(order.refundedAmount)}`], ["Net", formatMoney(order.totalAmount - order.refundedAmount)]] as [string, string][]
+      : []),
+  ];
+  for (const [label, value] of totals) {
+    const y = doc.y;
+    const isTotal = label.startsWith("Total");
+    doc.font(isTotal ? "Helvetica-Bold" : "Helvetica").fontSize(isTotal ? 12 : 10).fillColor("black")
+      .text(label, PAGE_MARGIN + contentWidth - 240, y, { width: 140, align: "right" })
+      .text(value, PAGE_MARGIN + contentWidth - 80, y, { width: 80, align: "right" });
+    doc.y += 4;
+  }
+
+  if (refunds.length > 0) {
+    drawRule(doc);
+    doc.font("Helvetica-Bold").fontSize(11).text("Refunds", PAGE_MARGIN, doc.y);
+    for (const refund of refunds) {
+      doc.font("Helvetica").fontSize(10)
+        .text(`${formatDateTime(refund.createdAt)}  ${formatMoney(refund.amount)}${refund.reason ? `, ${refund.reason}` : ""}`);
+    }
+  }
+
+  doc.moveDown(2);
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(
+    "Fees are the booking and processing fees charged to the buyer. Keep this document for your records.",
+    PAGE_MARGIN,
+    doc.y,
+    { width: contentWidth }
+  );
+
+  return toBuffer(doc);
+}
+
+// Load everything a receipt shows and render it
+export async function renderOrderReceipt(order: Order): Promise<Buffer> {
+  const [items, refunds, event, buyer] = await Promise.all([
+    storage.getOrderItems(order.id),
+    storage.getRefundsByOrder(order.id),
+    storage.getEvent(order.eventId),
+    storage.getUser(order.userId),
+  ]);
+  const organizer = event ? await storage.getUser(event.ownerId) : undefined;
+  return renderOrderReceiptPdf({ order, items, refunds, event, buyer, organizer });
+}
+
+// Render the given tickets of one event, looking up their holders
+export async function renderEventTickets(event: Event, tickets: Ticket[], order?: Order): Promise<Buffer> {
+  const holders = new Map<number, User>();
+  for (const userId of Array.from(new Set(tickets.map(ticket => ticket.userId)))) {
+    const user = await storage.getUser(userId);
+    if (user) {
+      holders.set(userId, user);
+    }
+  }
+  return renderTicketsPdf(event, tickets, holders, order);
+}
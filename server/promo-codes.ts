@@ -0,0 +1,104 @@
+import { storage } from "./storage";
+import type { Product, PromoCode } from "@shared/schema";
+
+export type PromoLine = {
+  product: Product;
+  quantity: number;
+};
+
+export type PromoResult = {
+  promoCode: PromoCode;
+  discountAmount: number;
+  // Discount per product id, summing to discountAmount
+  lineDiscounts: Record<number, number>;
+};
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Whether a promo code covers a product, based on its product id and type restrictions
+function appliesToProduct(promoCode: PromoCode, product: Product): boolean {
+  if (product.eventId !== promoCode.eventId) {
+    return false;
+  }
+
+  const productIds = promoCode.productIds as number[] | null;
+  if (productIds && productIds.length > 0 && !productIds.includes(product.id)) {
+    return false;
+  }
+
+  const productTypes = promoCode.productTypes as string[] | null;
+  if (productTypes && productTypes.length > 0 && !productTypes.includes(product.type)) {
+    return false;
+  }
+
+  return true;
+}
+
+// Work out the discount for the eligible lines. Percentage codes discount each line;
+// fixed codes take a dollar amount off the eligible subtotal, split across lines by value.
+export function calculatePromoDiscount(promoCode: PromoCode, lines: PromoLine[]): Omit<PromoResult, "promoCode"> {
+  const eligible = lines.filter(line => appliesToProduct(promoCode, line.product));
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.product.price * line.quantity, 0);
+
+  const lineDiscounts: Record<number, number> = {};
+  if (eligibleSubtotal <= 0) {
+    return { discountAmount: 0, lineDiscounts };
+  }
+
+  const discountAmount = promoCode.discountType === "percentage"
+    ? roundCents(eligibleSubtotal * Math.min(promoCode.discountValue, 100) / 100)
+    : roundCents(Math.min(promoCode.discountValue, eligibleSubtotal));
+
+  // Spread the discount proportionally, giving any rounding remainder to the last line
+  let allocated = 0;
+  eligible.forEach((line, index) => {
+    const lineTotal = line.product.price * line.quantity;
+    const share = index === eligible.length - 1
+      ? roundCents(discountAmount - allocated)
+      : roundCents(discountAmount * lineTotal / eligibleSubtotal);
+    lineDiscounts[line.product.id] = (lineDiscounts[line.product.id] || 0) + share;
+    allocated = roundCents(allocated + share);
+  });
+
+  return { discountAmount, lineDiscounts };
+}
+
+// Look up a code for the events in the cart and check that this user may use it now.
+// Throws with a message suitable for showing to the buyer.
+export async function resolvePromoCode(code: string, userId: number, lines: PromoLine[]): Promise<PromoResult> {
+  const eventIds = Array.from(new Set(lines.map(line => line.product.eventId)));
+  const promoCode = await storage.getPromoCodeByCode(code, eventIds);
+
+  if (!promoCode || !promoCode.isActive) {
+    throw new Error(`Promo code "${code}" is not valid`);
+  }
+
+  const now = new Date();
+  if (promoCode.startsAt && promoCode.startsAt > now) {
+    throw new Error(`Promo code "${promoCode.code}" is not active yet`);
+  }
+
+  if (promoCode.endsAt && promoCode.endsAt < now) {
+    throw new Error(`Promo code "${promoCode.code}" has expired`);
+  }
+
+  if (promoCode.maxUses !== null && promoCode.usesCount >= promoCode.maxUses) {
+    throw new Error(`Promo code "${promoCode.code}" has reached its usage limit`);
+  }
+
+  if (promoCode.perUserLimit !== null) {
+    const userUses = await storage.countPromoCodeUsesByUser(promoCode.id, userId);
+    if (userUses >= promoCode.perUserLimit) {
+      throw new Error(`You have already used promo code "${promoCode.code}"`);
+    }
+  }
+
+  const { discountAmount, lineDiscounts } = calculatePromoDiscount(promoCode, lines);
+  if (discountAmount <= 0) {
+    throw new Error(`Promo code "${promoCode.code}" does not apply to any items in your cart`);
+  }
+
+  return { promoCode, discountAmount, lineDiscounts };
+}
@@ -2,19 +2,37 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import { setupStripeRoutes } from "./stripe";
-import { setupEmailRoutes } from "./email";
-import { upload } from "./uploads";
+import { setupStripeRoutes, completeCheckoutSession, transferOrderFunds } from "./stripe";
+import { setupEmailRoutes, emailService } from "./email";
+import { upload, documentUpload } from "./uploads";
 import { log } from "./vite";
-import { getObject } from "./objectStorage";
+import { getObject, uploadFile, deleteFile } from "./objectStorage";
 import { z } from "zod";
-import Stripe from "stripe";
 import fs from "fs";
-import { createObjectCsvWriter } from "csv-writer";
+import { randomBytes, randomInt } from "crypto";
+import { createObjectCsvStringifier, createObjectCsvWriter } from "csv-writer";
 import { and, eq, gte, lte, like, or, sql, desc } from "drizzle-orm";
 import { db } from "./db";
 import * as schema from "@shared/schema";
-import { generateICalendar } from "./icalendar";
+import { generateICalendar, generateSeriesICalendar, generateAgendaICalendar } from "./icalendar";
+import { applySeriesRule, applyToFutureOccurrences, createSeriesFromEvent, detachEditedTemplate, detachOccurrence, getSeriesRuleError, toDateKey, toRRule } from "./event-series";
+import { resolvePromoCode } from "./promo-codes";
+import { getOrderHoldExpiry } from "./order-expiry";
+import { calculateOrderFees, getOrderNetAmount } from "./fees";
+import { getCurrentTierPrice, getTierUnavailableReason, withCurrentPrice } from "./ticket-tiers";
+import { verifyTicketCode, renderTicketQrPng, getTicketSignature, getWalletAuthToken } from "./ticket-codes";
+import { getEntryRefusal, isInside } from "./check-in-rules";
+import { DEFAULT_TIME_ZONE } from "@shared/time-zones";
+import { getQuestionsForProduct, validateAttendees, type AttendeeDetails } from "./attendee-questions";
+import { getAnswerColumns, getAnswerValues, validateApplicationAnswers } from "./application-forms";
+import { findWaitlistClaim, offerFreedCapacity, offerFreedCapacityForOrder } from "./waitlist";
+import { formatVenueLocation, syncVenueEvents } from "./venues";
+import { formatVendorDocumentTypes, getMissingVendorDocuments, getVendorComplianceReport } from "./vendor-documents";
+import { getRegistrationSpotProduct, MIN_VENDOR_PAYMENT_WINDOW_MS, requestVendorPayment, VendorPaymentWindowError } from "./vendor-payments";
+import { renderEventTickets, renderOrderReceipt } from "./pdf";
+import { renderApplePass, getGoogleWalletPass, getApplePassConfig, parsePassSerialNumber, isEventRescheduled, updateWalletPassesForEvent } from "./wallet";
+import { getPaymentProvider, FakePaymentProvider, setupFakePaymentRoutes, type CheckoutLineItem } from "./payments";
+import { CapacityFullError, InsufficientStockError, InvalidRefundError, RefundInProgressError, SessionFullError, type RefundIssuer } from "./storage";
 
 // Helper function to determine fiscal quarter from date
 function getFiscalQuarter(date: Date): string {
@@ -58,6 +76,8 @@ import {
   insertVolunteerShiftSchema,
   insertVolunteerAssignmentSchema,
   insertAnalyticsSchema,
+  insertPromoCodeSchema,
+  insertCashDrawerSessionSchema,
   // Table imports for delete operations
   tickets,
   orderItems,
@@ -226,6 +246,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up Stripe routes
   setupStripeRoutes(app);
   
+  // Set up hosted checkout pages when running with the offline fake payment provider
+  const paymentProvider = getPaymentProvider();
+  if (paymentProvider instanceof FakePaymentProvider) {
+    setupFakePaymentRoutes(app, paymentProvider);
+  }
+  
   // Set up Email notification routes
   setupEmailRoutes(app);
   
@@ -247,6 +273,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Handle document uploads (images or PDFs), kept in object storage
+  app.post("/api/upload/document", requireAuth, documentUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+      
+      const url = await uploadFile(req.file.buffer, req.file.originalname, req.file.mimetype);
+      res.status(201).json({ url, fileName: req.file.originalname });
+    } catch (error: any) {
+      console.error("Error uploading document:", error);
+      res.status(500).json({ message: error.message || "Failed to upload document" });
+    }
+  });
+
   // === USER PROFILE API ===
   
   // Update user profile (protected)
@@ -324,7 +365,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all events (public)
   app.get("/api/events", async (req, res) => {
     try {
-      const { type, location, search, sortBy, isUpcoming, status, includeAllStatuses } = req.query;
+      const { type, location, venueId, search, sortBy, isUpcoming, status, includeAllStatuses } = req.query;
       
       // Check if request is coming from admin dashboard
       const isAdminRequest = req.headers.referer && req.headers.referer.includes('/admin');
@@ -332,6 +373,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const events = await storage.getEvents({
         type: type as string,
         location: location as string,
+        venueId: venueId ? parseInt(venueId as string) : undefined,
         search: search as string,
         sortBy: sortBy as string,
         isUpcoming: isUpcoming === "true",
@@ -420,6 +462,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       console.log("Creating event with data:", req.body);
       
+      // Only admins set an event's platform fee; everyone else gets the global rate
+      if (req.user!.role !== "admin") {
+        delete req.body.platformFeePercent;
+        delete req.body.platformFeeFixed;
+      }
+      
+      // Series membership is only set through the event series API
+      delete req.body.seriesId;
+      delete req.body.occurrenceDate;
+      
+      // An event at a venue takes its location from the venue
+      if (req.body.venueId) {
+        const venue = await storage.getVenue(parseInt(req.body.venueId));
+        if (!venue) {
+          return res.status(400).json({ message: "Venue not found" });
+        }
+        req.body.venueId = venue.id;
+        req.body.location = formatVenueLocation(venue);
+      }
+      
       // Create a modified schema for initial validation that accepts string dates
       const temporarySchema = insertEventSchema.extend({
         startDate: z.string().or(z.date()),
@@ -477,6 +539,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized to update this event" });
       }
       
+      // Only admins set an event's platform fee
+      if (req.user!.role !== "admin") {
+        delete req.body.platformFeePercent;
+        delete req.body.platformFeeFixed;
+      }
+      
+      // Series membership is only set through the event series API
+      delete req.body.seriesId;
+      delete req.body.occurrenceDate;
+      
+      // An event at a venue takes its location from the venue
+      if (req.body.venueId) {
+        const venue = await storage.getVenue(parseInt(req.body.venueId));
+        if (!venue) {
+          return res.status(400).json({ message: "Venue not found" });
+        }
+        req.body.venueId = venue.id;
+        req.body.location = formatVenueLocation(venue);
+      }
+      
+      // For an occurrence of a series: "this" (default) edits just this event, "future" also
+      // edits every later occurrence
+      const scope = req.body.scope === "future" && event.seriesId ? "future" : "this";
+      
       // Create a modified schema for initial validation that accepts string dates
       const temporarySchema = insertEventSchema.partial().extend({
         startDate: z.string().or(z.date()).optional(),
@@ -500,7 +586,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate with the original schema to ensure the dates are properly formatted
       const validatedData = insertEventSchema.partial().parse(processedData);
       const updatedEvent = await storage.updateEvent(eventId, validatedData);
-      res.json(updatedEvent);
+      const changedEvents = [{ before: event, after: updatedEvent }];
+      
+      if (scope === "future") {
+        const occurrences = await storage.getSeriesOccurrences(event.seriesId!);
+        for (const after of await applyToFutureOccurrences(event, updatedEvent, validatedData)) {
+          changedEvents.push({ before: occurrences.find(occurrence => occurrence.id === after.id)!, after });
+        }
+      } else {
+        await detachEditedTemplate(updatedEvent);
+      }
+      
+      // Saved wallet passes show the date and place, so have them refresh
+      for (const { before, after } of changedEvents) {
+        if (isEventRescheduled(before, after)) {
+          updateWalletPassesForEvent(after);
+        }
+      }
+      
+      // Added tickets go to the waitlist first
+      if (validatedData.ticketsAvailable !== undefined) {
+        for (const { after } of changedEvents) {
+          await offerFreedCapacity({ type: "event", id: after.id });
+        }
+      }
+      
+      res.json(await storage.getEvent(eventId) || updatedEvent);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         console.error("Validation error:", JSON.stringify(error.errors, null, 2));
@@ -576,6 +687,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized to delete this event" });
       }
       
+      // A deleted occurrence stays deleted: its date becomes an exception to the series rule
+      await detachOccurrence(event);
       await storage.deleteEvent(eventId);
       res.status(204).send();
     } catch (error: any) {
@@ -604,13 +717,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Modify the title to indicate it's a copy
       const newTitle = req.body.title || `${sourceEvent.title} (Copy)`;
       
-      // Create the new event with default draft status
+      // Create the new event with default draft status; a copied occurrence stands on its own
       const newEvent = await storage.createEvent({
         ...eventData,
         title: newTitle,
         status: "draft",
         isActive: false,
         ownerId: req.user.id,
+        seriesId: null,
+        occurrenceDate: null,
       });
       
       // Get products (tickets, merchandise, etc.) associated with the source event
@@ -675,16 +790,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // === VENUES API ===
+  
+  const venueBodySchema = schema.insertVenueSchema.omit({ ownerId: true });
+  
+  // Search the venue registry (public)
+  app.get("/api/venues", async (req, res) => {
+    try {
+      const venues = await storage.getVenues(req.query.search as string | undefined);
+      res.json(venues);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch venues" });
+    }
+  });
+  
+  // Get a venue (public)
+  app.get("/api/venues/:id", async (req, res) => {
+    try {
+      const venue = await storage.getVenue(parseInt(req.params.id));
+      if (!venue) {
+        return res.status(404).json({ message: "Venue not found" });
+      }
+      res.json(venue);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch venue" });
+    }
+  });
+  
+  // Upcoming published events at a venue, soonest first (public)
+  app.get("/api/venues/:id/events", async (req, res) => {
+    try {
+      const events = await storage.getEvents({
+        venueId: parseInt(req.params.id),
+        isUpcoming: true,
+        sortBy: "dateAsc",
+      });
+      res.json(events.filter(event => event.isPublic));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch venue events" });
+    }
+  });
+  
+  // Add a venue (protected, event owner/admin only)
+  app.post("/api/venues", requireOwnerOrAdmin, async (req, res) => {
+    try {
+      const validatedData = schema.insertVenueSchema.parse({
+        ...req.body,
+        ownerId: req.user!.id,
+      });
+      
+      const venue = await storage.createVenue(validatedData);
+      res.status(201).json(venue);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid venue data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to create venue" });
+    }
+  });
+  
+  // Update a venue and the location of its events (protected, whoever added it/admin only)
+  app.put("/api/venues/:id", requireAuth, async (req, res) => {
+    try {
+      const venue = await storage.getVenue(parseInt(req.params.id));
+      
+      if (!venue) {
+        return res.status(404).json({ message: "Venue not found" });
+      }
+      
+      if (req.user!.role !== "admin" && venue.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to update this venue" });
+      }
+      
+      const validatedData = venueBodySchema.partial().parse(req.body);
+      const updatedVenue = await storage.updateVenue(venue.id, validatedData);
+      await syncVenueEvents(updatedVenue);
+      
+      res.json(updatedVenue);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid venue data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to update venue" });
+    }
+  });
+  
+  // Delete a venue no event uses (protected, whoever added it/admin only)
+  app.delete("/api/venues/:id", requireAuth, async (req, res) => {
+    try {
+      const venue = await storage.getVenue(parseInt(req.params.id));
+      
+      if (!venue) {
+        return res.status(404).json({ message: "Venue not found" });
+      }
+      
+      if (req.user!.role !== "admin" && venue.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to delete this venue" });
+      }
+      
+      const venueEvents = await storage.getEvents({ venueId: venue.id, includeAllStatuses: true });
+      if (venueEvents.length > 0) {
+        return res.status(409).json({ message: `This venue is used by ${venueEvents.length} event(s) and can't be deleted` });
+      }
+      
+      await storage.deleteVenue(venue.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete venue" });
+    }
+  });
+
   // === PRODUCTS API (Merchandise & Addons) ===
   
-  // Get products for an event (via event ID param)
+  // Get products for an event (via event ID param), priced for buyers with each
+  // ticket tier's current price step and sales status
   app.get("/api/events/:eventId/products", async (req, res) => {
     try {
       const eventId = parseInt(req.params.eventId);
       const type = req.query.type as string;
       
       const products = await storage.getProducts(eventId, type);
-      res.json(products);
+      const questions = await storage.getAttendeeQuestionsByEvent(eventId);
+      const now = new Date();
+      res.json(products.map(product => ({
+        ...withCurrentPrice(product, now),
+        // The cart sends ticket buyers through the attendee details step when set
+        hasAttendeeQuestions: product.type === "ticket" && getQuestionsForProduct(questions, product.id).length > 0,
+      })));
     } catch (error: any) {
       res.status(500).json({ message: error.message || "Failed to fetch products" });
     }
@@ -780,7 +1012,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const validatedData = insertProductSchema.partial().parse(req.body);
       const updatedProduct = await storage.updateProduct(productId, validatedData);
-      res.json(updatedProduct);
+      
+      // Added stock goes to the waitlist first
+      if (validatedData.quantity !== undefined) {
+        await offerFreedCapacity({ type: "product", id: productId });
+      }
+      
+      res.json(await storage.getProduct(productId) || updatedProduct);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid product data", errors: error.errors });
@@ -808,7 +1046,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const validatedData = insertProductSchema.partial().parse(req.body);
       const updatedProduct = await storage.updateProduct(productId, validatedData);
-      res.json(updatedProduct);
+      
+      // Added stock goes to the waitlist first
+      if (validatedData.quantity !== undefined) {
+        await offerFreedCapacity({ type: "product", id: productId });
+      }
+      
+      res.json(await storage.getProduct(productId) || updatedProduct);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid product data", errors: error.errors });
@@ -882,85 +1126,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // === VENDOR API ===
+  // === EVENT SERIES API ===
   
-  // Get vendor profile (protected)
-  app.get("/api/vendor-profile", requireAuth, async (req, res) => {
-    try {
-      const vendorProfile = await storage.getVendorProfile(req.user.id);
-      res.json(vendorProfile || null);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch vendor profile" });
-    }
+  const seriesRuleSchema = schema.insertEventSeriesSchema.pick({
+    frequency: true,
+    interval: true,
+    weekdays: true,
+    monthWeek: true,
+    monthWeekday: true,
+    until: true,
+    count: true,
+    exceptions: true,
   });
   
-  // Create/update vendor profile (protected)
-  app.post("/api/vendor-profile", requireAuth, async (req, res) => {
+  // Make an event repeat (protected, event owner/admin only). The event becomes the first
+  // occurrence and the template for the rest. Body: the series rule
+  app.post("/api/events/:id/series", requireAuth, async (req, res) => {
     try {
-      const existingProfile = await storage.getVendorProfile(req.user.id);
+      const event = await storage.getEvent(parseInt(req.params.id));
       
-      if (existingProfile) {
-        // Update existing profile
-        const updatedProfile = await storage.updateVendorProfile(existingProfile.id, req.body);
-        return res.json(updatedProfile);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
       
-      // Create new profile
-      const validatedData = insertVendorProfileSchema.parse({
-        ...req.body,
-        userId: req.user.id,
-      });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to manage this event" });
+      }
       
-      const newProfile = await storage.createVendorProfile(validatedData);
-      res.status(201).json(newProfile);
+      if (event.seriesId) {
+        return res.status(400).json({ message: "This event is already part of a series" });
+      }
+      
+      const parsed = seriesRuleSchema.parse(req.body);
+      const rule = {
+        frequency: parsed.frequency,
+        interval: parsed.interval ?? 1,
+        weekdays: parsed.weekdays ?? null,
+        monthWeek: parsed.monthWeek ?? null,
+        monthWeekday: parsed.monthWeekday ?? null,
+        until: parsed.until ?? null,
+        count: parsed.count ?? null,
+        exceptions: parsed.exceptions ?? [],
+      };
+      const ruleError = getSeriesRuleError({ ...rule, startsOn: toDateKey(new Date(event.startDate)) });
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+      
+      const result = await createSeriesFromEvent(event, rule);
+      res.status(201).json({ ...result, rrule: toRRule(result.series) });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid series data", errors: error.errors });
       }
-      res.status(500).json({ message: error.message || "Failed to save vendor profile" });
+      res.status(500).json({ message: error.message || "Failed to create event series" });
     }
   });
   
-  // Update vendor profile by ID (protected)
-  app.put("/api/vendor-profile/:id", requireAuth, async (req, res) => {
+  // A series with its occurrences (public)
+  app.get("/api/event-series/:id", async (req, res) => {
     try {
-      const profileId = parseInt(req.params.id);
+      const series = await storage.getEventSeries(parseInt(req.params.id));
       
-      // Get the profile to check ownership
-      const profile = await storage.getVendorProfileById(profileId);
+      if (!series) {
+        return res.status(404).json({ message: "Event series not found" });
+      }
       
-      if (!profile) {
-        return res.status(404).json({ message: "Vendor profile not found" });
+      const occurrences = await storage.getSeriesOccurrences(series.id);
+      res.json({ series, occurrences, rrule: toRRule(series) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch event series" });
+    }
+  });
+  
+  // Change a series' rule or exceptions (protected, owner/admin only). Upcoming occurrences the
+  // new rule drops are deleted unless they have orders; those are returned as kept.
+  app.put("/api/event-series/:id", requireAuth, async (req, res) => {
+    try {
+      const series = await storage.getEventSeries(parseInt(req.params.id));
+      
+      if (!series) {
+        return res.status(404).json({ message: "Event series not found" });
       }
       
-      // Check if the user owns this profile or is an admin
-      if (profile.userId !== req.user.id && req.user.role !== "admin" && req.user.role !== "super_admin") {
-        return res.status(403).json({ message: "Not authorized to update this profile" });
+      if (req.user!.role !== "admin" && series.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to manage this series" });
       }
       
-      const updatedProfile = await storage.updateVendorProfile(profileId, req.body);
-      res.json(updatedProfile);
+      const changes = seriesRuleSchema.partial().parse(req.body);
+      const ruleError = getSeriesRuleError({ ...series, ...changes });
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+      
+      const updatedSeries = await storage.updateEventSeries(series.id, changes);
+      const result = await applySeriesRule(updatedSeries);
+      const occurrences = await storage.getSeriesOccurrences(series.id);
+      
+      res.json({ series: updatedSeries, occurrences, rrule: toRRule(updatedSeries), ...result });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid series data", errors: error.errors });
       }
-      res.status(500).json({ message: error.message || "Failed to update vendor profile" });
+      res.status(500).json({ message: error.message || "Failed to update event series" });
     }
   });
   
-  // Get vendor spots for an event
-  app.get("/api/events/:eventId/vendor-spots", async (req, res) => {
+  // iCalendar file for a whole series: one repeating entry, plus separate entries for
+  // occurrences that were moved or edited (public)
+  app.get("/api/event-series/:id/calendar", async (req, res) => {
+    try {
+      const series = await storage.getEventSeries(parseInt(req.params.id));
+      
+      if (!series) {
+        return res.status(404).json({ message: "Event series not found" });
+      }
+      
+      const template = await storage.getEvent(series.templateEventId);
+      if (!template) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const reminderMinutes = req.query.reminders ?
+        (req.query.reminders as string).split(',').map(r => parseInt(r.trim())) :
+        [15, 60, 1440];
+      const occurrences = await storage.getSeriesOccurrences(series.id);
+      const icsContent = await generateSeriesICalendar(series, template, occurrences, reminderMinutes);
+      
+      res.setHeader('Content-Type', 'text/calendar');
+      res.setHeader('Content-Disposition', `attachment; filename="${template.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_series.ics"`);
+      res.send(icsContent);
+    } catch (error: any) {
+      console.error("Error generating series calendar file:", error);
+      res.status(500).json({ message: error.message || "Failed to generate calendar file" });
+    }
+  });
+
+  // === PROMO CODES API ===
+
+  // Get promo codes for an event (protected, event owner/admin only)
+  app.get("/api/events/:eventId/promo-codes", requireAuth, async (req, res) => {
     try {
       const eventId = parseInt(req.params.eventId);
-      const vendorSpots = await storage.getVendorSpots(eventId);
-      res.json(vendorSpots);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view promo codes for this event" });
+      }
+      
+      const promoCodes = await storage.getPromoCodesByEvent(eventId);
+      res.json(promoCodes);
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch vendor spots" });
+      res.status(500).json({ message: error.message || "Failed to fetch promo codes" });
     }
   });
   
-  // Create vendor spot (protected, event owner/admin only)
-  app.post("/api/events/:eventId/vendor-spots", requireAuth, async (req, res) => {
+  // Create a promo code for an event (protected, event owner/admin only)
+  app.post("/api/events/:eventId/promo-codes", requireAuth, async (req, res) => {
     try {
       const eventId = parseInt(req.params.eventId);
       const event = await storage.getEvent(eventId);
@@ -969,115 +1295,2628 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" });
       }
       
-      // Check permissions
-      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to create vendor spots for this event" });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to add promo codes to this event" });
       }
       
-      const validatedData = insertVendorSpotSchema.parse({
+      const validatedData = insertPromoCodeSchema.parse({
         ...req.body,
         eventId,
-        availableSpots: req.body.capacity || 1,
       });
       
-      const vendorSpot = await storage.createVendorSpot(validatedData);
+      if (validatedData.discountType === "percentage" && validatedData.discountValue > 100) {
+        return res.status(400).json({ message: "Percentage discounts cannot exceed 100" });
+      }
       
-      // Update event to indicate it has vendor options
-      if (!event.vendorOptions) {
-        await storage.updateEvent(eventId, { vendorOptions: true });
+      const existing = await storage.getPromoCodeByCode(validatedData.code, [eventId]);
+      if (existing) {
+        return res.status(400).json({ message: `Promo code ${existing.code} already exists for this event` });
       }
       
-      res.status(201).json(vendorSpot);
+      const promoCode = await storage.createPromoCode(validatedData);
+      res.status(201).json(promoCode);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid vendor spot data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid promo code data", errors: error.errors });
       }
-      res.status(500).json({ message: error.message || "Failed to create vendor spot" });
+      res.status(500).json({ message: error.message || "Failed to create promo code" });
     }
   });
   
-  // Get my vendor registrations (protected)
-  app.get("/api/my-vendor-registrations", requireAuth, async (req, res) => {
+  // Update a promo code (protected, event owner/admin only)
+  app.put("/api/promo-codes/:id", requireAuth, async (req, res) => {
     try {
-      const vendorRegistrations = await storage.getVendorRegistrations({
-        userId: req.user.id
-      });
-      res.json(vendorRegistrations);
+      const promoCodeId = parseInt(req.params.id);
+      const promoCode = await storage.getPromoCode(promoCodeId);
+      
+      if (!promoCode) {
+        return res.status(404).json({ message: "Promo code not found" });
+      }
+      
+      const event = await storage.getEvent(promoCode.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to update this promo code" });
+      }
+      
+      const validatedData = insertPromoCodeSchema.partial().omit({ eventId: true }).parse(req.body);
+      const discountType = validatedData.discountType || promoCode.discountType;
+      const discountValue = validatedData.discountValue ?? promoCode.discountValue;
+      
+      if (discountType === "percentage" && discountValue > 100) {
+        return res.status(400).json({ message: "Percentage discounts cannot exceed 100" });
+      }
+      
+      const updatedPromoCode = await storage.updatePromoCode(promoCodeId, validatedData);
+      res.json(updatedPromoCode);
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch vendor registrations" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promo code data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to update promo code" });
     }
   });
   
-  // Create vendor registration (protected)
-  app.post("/api/vendor-registrations", requireAuth, async (req, res) => {
+  // Delete a promo code (protected, event owner/admin only)
+  app.delete("/api/promo-codes/:id", requireAuth, async (req, res) => {
     try {
-      // Validate the request data
-      const { 
-        userId, 
-        eventId, 
-        vendorSpotId, 
-        profileId, 
-        status,
-        preferredLocation,
-        productsDescription 
-      } = req.body;
+      const promoCodeId = parseInt(req.params.id);
+      const promoCode = await storage.getPromoCode(promoCodeId);
       
-      // Ensure user can only create registrations for themselves
-      if (userId !== req.user.id) {
-        return res.status(403).json({ message: "You can only create registrations for yourself" });
+      if (!promoCode) {
+        return res.status(404).json({ message: "Promo code not found" });
       }
       
-      // Check if the vendor spot exists
-      // instead of checking vendorSpot make sure to pull it from products table
-      // where type = vendor_spot
-      let vendorSpot = await storage.getProducts(eventId, "vendor_spot", vendorSpotId);
-      if (!vendorSpot) {
-        return res.status(404).json({ message: "Vendor spot not found" });
+      const event = await storage.getEvent(promoCode.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to delete this promo code" });
       }
-
-        console.log('vendorSpot', vendorSpot);
-
-      let vendorSpotRegistration = null;
-      if(vendorSpot){
-        vendorSpotRegistration = await storage.createVendorSpot({
-          eventId,
-          name: vendorSpot?.[0].name,
-          availableSpots: vendorSpot?.[0].quantity,
-          price: vendorSpot?.[0].price,
-          metadata: vendorSpot?.[0].metadata,
-          description: vendorSpot?.[0].description,
-          requirements: vendorSpot?.[0].requirements,
-        });
+      
+      await storage.deletePromoCode(promoCodeId);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete promo code" });
+    }
+  });
+  
+  // === ATTENDEE QUESTIONS API ===
+  
+  // Get the questions asked of ticket holders for an event (public, buyers answer them at checkout)
+  app.get("/api/events/:eventId/attendee-questions", async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const questions = await storage.getAttendeeQuestionsByEvent(eventId);
+      const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
+      res.json(productId ? getQuestionsForProduct(questions, productId) : questions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch attendee questions" });
+    }
+  });
+  
+  // Add an attendee question to an event (protected, event owner/admin only)
+  app.post("/api/events/:eventId/attendee-questions", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to add attendee questions to this event" });
+      }
+      
+      const validatedData = schema.insertAttendeeQuestionSchema.parse({
+        ...req.body,
+        eventId,
+      });
+      
+      if (validatedData.fieldType === "select" && !validatedData.options?.length) {
+        return res.status(400).json({ message: "Select questions need at least one option" });
+      }
+      
+      if (validatedData.productId) {
+        const product = await storage.getProduct(validatedData.productId);
+        if (!product || product.eventId !== eventId || product.type !== "ticket") {
+          return res.status(400).json({ message: "Questions can only be limited to one of this event's ticket tiers" });
+        }
+      }
+      
+      const question = await storage.createAttendeeQuestion(validatedData);
+      res.status(201).json(question);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid attendee question data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to create attendee question" });
+    }
+  });
+  
+  // Update an attendee question (protected, event owner/admin only)
+  app.put("/api/attendee-questions/:id", requireAuth, async (req, res) => {
+    try {
+      const questionId = parseInt(req.params.id);
+      const question = await storage.getAttendeeQuestion(questionId);
+      
+      if (!question) {
+        return res.status(404).json({ message: "Attendee question not found" });
+      }
+      
+      const event = await storage.getEvent(question.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to update this attendee question" });
+      }
+      
+      const validatedData = schema.insertAttendeeQuestionSchema.partial().omit({ eventId: true }).parse(req.body);
+      const fieldType = validatedData.fieldType || question.fieldType;
+      const options = validatedData.options !== undefined ? validatedData.options : question.options as string[] | null;
+      
+      if (fieldType === "select" && !options?.length) {
+        return res.status(400).json({ message: "Select questions need at least one option" });
+      }
+      
+      if (validatedData.productId) {
+        const product = await storage.getProduct(validatedData.productId);
+        if (!product || product.eventId !== question.eventId || product.type !== "ticket") {
+          return res.status(400).json({ message: "Questions can only be limited to one of this event's ticket tiers" });
+        }
+      }
+      
+      const updatedQuestion = await storage.updateAttendeeQuestion(questionId, validatedData);
+      res.json(updatedQuestion);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid attendee question data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to update attendee question" });
+    }
+  });
+  
+  // Delete an attendee question (protected, event owner/admin only). Answers already given stay on the tickets.
+  app.delete("/api/attendee-questions/:id", requireAuth, async (req, res) => {
+    try {
+      const questionId = parseInt(req.params.id);
+      const question = await storage.getAttendeeQuestion(questionId);
+      
+      if (!question) {
+        return res.status(404).json({ message: "Attendee question not found" });
+      }
+      
+      const event = await storage.getEvent(question.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to delete this attendee question" });
+      }
+      
+      await storage.deleteAttendeeQuestion(questionId);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete attendee question" });
+    }
+  });
+  
+  // Export every ticket holder with their answers as CSV (protected, event owner/admin only)
+  app.get("/api/events/:eventId/attendees/export", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to export attendees for this event" });
+      }
+      
+      const attendees = await storage.getAttendeesByEvent(eventId);
+      const questions = await storage.getAttendeeQuestionsByEvent(eventId);
+      
+      const csvStringifier = createObjectCsvStringifier({
+        header: [
+          { id: "ticketNumber", title: "Ticket Number" },
+          { id: "ticketType", title: "Ticket Type" },
+          { id: "status", title: "Status" },
+          { id: "attendeeName", title: "Attendee Name" },
+          { id: "attendeeEmail", title: "Attendee Email" },
+          { id: "buyerName", title: "Buyer Name" },
+          { id: "buyerEmail", title: "Buyer Email" },
+          ...questions
+            .filter(question => question.fieldType !== "name" && question.fieldType !== "email")
+            .map(question => ({ id: `question_${question.id}`, title: question.label })),
+          { id: "checkInTime", title: "Checked In" },
+        ]
+      });
+      
+      const records = attendees.map(attendee => {
+        const answers = (attendee.attendeeAnswers as Record<string, string> | null) || {};
+        return {
+          ticketNumber: attendee.ticketNumber,
+          ticketType: attendee.ticketType,
+          status: attendee.status,
+          attendeeName: attendee.attendeeName || "",
+          attendeeEmail: attendee.attendeeEmail || "",
+          buyerName: attendee.buyerName || "",
+          buyerEmail: attendee.buyerEmail,
+          ...Object.fromEntries(questions.map(question => [`question_${question.id}`, answers[question.id] || ""])),
+          checkInTime: attendee.checkInTime ? attendee.checkInTime.toISOString() : "",
+        };
+      });
+      
+      const csvString = csvStringifier.getHeaderString() + csvStringifier.stringifyRecords(records);
+      
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=attendees-${eventId}-${new Date().toISOString().slice(0, 10)}.csv`);
+      res.send(csvString);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to export attendees" });
+    }
+  });
+  
+  // Check a promo code against cart items and return the discount (protected)
+  // Body: { code, items: [{ productId, quantity }] }
+  app.post("/api/promo-codes/validate", requireAuth, async (req, res) => {
+    try {
+      const { code, items } = req.body;
+      
+      if (!code || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ message: "A code and cart items are required" });
+      }
+      
+      const lines = [];
+      for (const item of items) {
+        const product = await storage.getProduct(item.productId);
+        if (product) {
+          lines.push({ product: { ...product, price: getCurrentTierPrice(product) }, quantity: item.quantity });
+        }
+      }
+      
+      try {
+        const result = await resolvePromoCode(code, req.user!.id, lines);
+        res.json({
+          code: result.promoCode.code,
+          description: result.promoCode.description,
+          discountType: result.promoCode.discountType,
+          discountValue: result.promoCode.discountValue,
+          discountAmount: result.discountAmount,
+          lineDiscounts: result.lineDiscounts,
+        });
+      } catch (error: any) {
+        res.status(400).json({ message: error.message });
+      }
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to validate promo code" });
+    }
+  });
+
+  // === SESSIONS API ===
+  
+  // Checks across fields for a session's times and ticket tier, or null when they're fine
+  const getSessionDataError = async (eventId: number, data: { startTime: Date; endTime: Date; requiredProductId?: number | null }) => {
+    if (data.endTime <= data.startTime) {
+      return "A session must end after it starts";
+    }
+    if (data.requiredProductId) {
+      const product = await storage.getProduct(data.requiredProductId);
+      if (!product || product.eventId !== eventId || product.type !== "ticket") {
+        return "Sessions can only require one of this event's ticket tiers";
+      }
+    }
+    return null;
+  };
+  
+  // Sessions with seats or a required tier are for ticket holders: any live ticket to the event,
+  // or one bought from the required tier
+  const holdsSessionTicket = async (userId: number, session: schema.EventSession) => {
+    const heldTickets = (await storage.getTicketsByUser(userId))
+      .filter(ticket => ticket.eventId === session.eventId && ticket.status !== "cancelled" && ticket.status !== "refunded");
+    
+    if (!session.requiredProductId) {
+      return heldTickets.length > 0;
+    }
+    
+    for (const ticket of heldTickets) {
+      const items = await storage.getOrderItems(ticket.orderId);
+      if (items.some(item => item.id === ticket.orderItemId && item.itemId === session.requiredProductId)) {
+        return true;
+      }
+    }
+    return false;
+  };
+  
+  // Get an event's schedule (public). Sessions with a capacity include the seats left.
+  app.get("/api/events/:eventId/sessions", async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsByEvent(parseInt(req.params.eventId));
+      res.json(sessions.map(session => ({
+        ...session,
+        spotsLeft: session.capacity === null ? null : Math.max(session.capacity - session.agendaCount, 0),
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch sessions" });
+    }
+  });
+  
+  // Add a session to an event's schedule (protected, event owner/admin only)
+  app.post("/api/events/:eventId/sessions", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to add sessions to this event" });
+      }
+      
+      const validatedData = schema.insertEventSessionSchema.parse({
+        ...req.body,
+        eventId,
+      });
+      
+      const dataError = await getSessionDataError(eventId, validatedData);
+      if (dataError) {
+        return res.status(400).json({ message: dataError });
+      }
+      
+      const session = await storage.createSession(validatedData);
+      res.status(201).json(session);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid session data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to create session" });
+    }
+  });
+  
+  // Update a session (protected, event owner/admin only)
+  app.put("/api/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getSession(parseInt(req.params.id));
+      
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      const event = await storage.getEvent(session.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to update this session" });
+      }
+      
+      const validatedData = schema.insertEventSessionSchema.partial().omit({ eventId: true }).parse(req.body);
+      const dataError = await getSessionDataError(session.eventId, {
+        startTime: validatedData.startTime || session.startTime,
+        endTime: validatedData.endTime || session.endTime,
+        requiredProductId: validatedData.requiredProductId,
+      });
+      if (dataError) {
+        return res.status(400).json({ message: dataError });
+      }
+      
+      const updatedSession = await storage.updateSession(session.id, validatedData);
+      res.json(updatedSession);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid session data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to update session" });
+    }
+  });
+  
+  // Delete a session, taking it off everyone's agenda (protected, event owner/admin only)
+  app.delete("/api/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getSession(parseInt(req.params.id));
+      
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      const event = await storage.getEvent(session.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to delete this session" });
+      }
+      
+      await storage.deleteSession(session.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete session" });
+    }
+  });
+  
+  // The current user's agenda for an event (protected)
+  app.get("/api/events/:eventId/agenda", requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getAgendaSessions(req.user!.id, parseInt(req.params.eventId));
+      res.json(sessions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch agenda" });
+    }
+  });
+  
+  // Add a session to the current user's agenda, taking a seat if it has a capacity (protected)
+  app.post("/api/sessions/:id/agenda", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getSession(parseInt(req.params.id));
+      
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if ((session.capacity !== null || session.requiredProductId) && !(await holdsSessionTicket(req.user!.id, session))) {
+        return res.status(403).json({
+          message: session.requiredProductId
+            ? "This session is only open to holders of a specific ticket"
+            : "You need a ticket to this event to reserve a seat"
+        });
+      }
+      
+      const entry = await storage.addToAgenda(session.id, req.user!.id);
+      res.status(201).json(entry);
+    } catch (error: any) {
+      if (error instanceof SessionFullError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message || "Failed to add session to agenda" });
+    }
+  });
+  
+  // Take a session off the current user's agenda, freeing their seat (protected)
+  app.delete("/api/sessions/:id/agenda", requireAuth, async (req, res) => {
+    try {
+      await storage.removeFromAgenda(parseInt(req.params.id), req.user!.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to remove session from agenda" });
+    }
+  });
+  
+  // iCalendar file of the current user's agenda for an event (protected)
+  app.get("/api/events/:eventId/agenda/calendar", requireAuth, async (req, res) => {
+    try {
+      const event = await storage.getEvent(parseInt(req.params.eventId));
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const sessions = await storage.getAgendaSessions(req.user!.id, event.id);
+      const icsContent = await generateAgendaICalendar(event, sessions);
+      
+      res.setHeader('Content-Type', 'text/calendar');
+      res.setHeader('Content-Disposition', `attachment; filename="${event.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_agenda.ics"`);
+      res.send(icsContent);
+    } catch (error: any) {
+      console.error("Error generating agenda calendar file:", error);
+      res.status(500).json({ message: error.message || "Failed to generate calendar file" });
+    }
+  });
+
+  // === APPLICATION FORMS API ===
+  
+  const isApplicationFormType = (formType: string): formType is schema.ApplicationFormType =>
+    (schema.APPLICATION_FORM_TYPES as readonly string[]).includes(formType);
+  
+  // Get the questions an event asks vendors or volunteers. Events without a form ask nothing extra.
+  app.get("/api/events/:eventId/application-forms/:formType", async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const { formType } = req.params;
+      
+      if (!isApplicationFormType(formType)) {
+        return res.status(400).json({ message: "Form type must be vendor or volunteer" });
+      }
+      
+      const form = await storage.getApplicationForm(eventId, formType);
+      res.json(form || { eventId, formType, fields: [] });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch application form" });
+    }
+  });
+  
+  // Replace an event's vendor or volunteer form (protected, event owner/admin only)
+  // Body: { fields: ApplicationFormField[] }
+  app.put("/api/events/:eventId/application-forms/:formType", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const { formType } = req.params;
+      
+      if (!isApplicationFormType(formType)) {
+        return res.status(400).json({ message: "Form type must be vendor or volunteer" });
+      }
+      
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit application forms for this event" });
+      }
+      
+      const fields = schema.applicationFormFieldsSchema.parse(req.body.fields);
+      const form = await storage.saveApplicationForm(eventId, formType, fields);
+      res.json(form);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid application form data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to save application form" });
+    }
+  });
+  
+  // Export vendor applications with one column per form question (protected, event owner/admin only)
+  app.get("/api/events/:eventId/vendor-registrations/export", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to export vendors for this event" });
+      }
+      
+      const [registrations, form] = await Promise.all([
+        storage.getVendorRegistrations({ eventId }),
+        storage.getApplicationForm(eventId, "vendor"),
+      ]);
+      const fields = (form?.fields as schema.ApplicationFormField[]) || [];
+      
+      const csvStringifier = createObjectCsvStringifier({
+        header: [
+          { id: "businessName", title: "Business Name" },
+          { id: "phoneNumber", title: "Phone" },
+          { id: "spot", title: "Vendor Spot" },
+          { id: "status", title: "Status" },
+          { id: "appliedAt", title: "Applied" },
+          ...getAnswerColumns(fields),
+        ]
+      });
+      
+      const records = await Promise.all(registrations.map(async registration => {
+        const [profile, spot] = await Promise.all([
+          storage.getVendorProfileById(registration.vendorProfileId),
+          storage.getVendorSpot(registration.vendorSpotId),
+        ]);
+        return {
+          businessName: profile?.businessName || "",
+          phoneNumber: profile?.phoneNumber || "",
+          spot: spot?.name || "",
+          status: registration.status,
+          appliedAt: registration.createdAt.toISOString(),
+          ...getAnswerValues(fields, registration.formAnswers),
+        };
+      }));
+      
+      const csvString = csvStringifier.getHeaderString() + csvStringifier.stringifyRecords(records);
+      
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=vendors-${eventId}-${new Date().toISOString().slice(0, 10)}.csv`);
+      res.send(csvString);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to export vendors" });
+    }
+  });
+  
+  // Export volunteer sign-ups with one column per form question (protected, event owner/admin only)
+  app.get("/api/events/:eventId/volunteer-assignments/export", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to export volunteers for this event" });
+      }
+      
+      const [assignments, form] = await Promise.all([
+        storage.getVolunteerAssignments({ eventId }),
+        storage.getApplicationForm(eventId, "volunteer"),
+      ]);
+      const fields = (form?.fields as schema.ApplicationFormField[]) || [];
+      
+      const csvStringifier = createObjectCsvStringifier({
+        header: [
+          { id: "name", title: "Name" },
+          { id: "email", title: "Email" },
+          { id: "shift", title: "Shift" },
+          { id: "status", title: "Status" },
+          { id: "appliedAt", title: "Applied" },
+          ...getAnswerColumns(fields),
+        ]
+      });
+      
+      const records = await Promise.all(assignments.map(async assignment => {
+        const [profile, shift] = await Promise.all([
+          storage.getVolunteerProfileById(assignment.volunteerProfileId),
+          storage.getVolunteerShift(assignment.shiftId),
+        ]);
+        const user = profile ? await storage.getUser(profile.userId) : undefined;
+        return {
+          name: user?.name || "",
+          email: user?.email || "",
+          shift: shift?.name || "",
+          status: assignment.status,
+          appliedAt: assignment.createdAt.toISOString(),
+          ...getAnswerValues(fields, assignment.formAnswers),
+        };
+      }));
+      
+      const csvString = csvStringifier.getHeaderString() + csvStringifier.stringifyRecords(records);
+      
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=volunteers-${eventId}-${new Date().toISOString().slice(0, 10)}.csv`);
+      res.send(csvString);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to export volunteers" });
+    }
+  });
+
+  // === VENDOR API ===
+  
+  // Get vendor profile (protected)
+  app.get("/api/vendor-profile", requireAuth, async (req, res) => {
+    try {
+      const vendorProfile = await storage.getVendorProfile(req.user.id);
+      res.json(vendorProfile || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch vendor profile" });
+    }
+  });
+  
+  // Create/update vendor profile (protected)
+  app.post("/api/vendor-profile", requireAuth, async (req, res) => {
+    try {
+      const existingProfile = await storage.getVendorProfile(req.user.id);
+      
+      if (existingProfile) {
+        // Update existing profile
+        const updatedProfile = await storage.updateVendorProfile(existingProfile.id, req.body);
+        return res.json(updatedProfile);
+      }
+      
+      // Create new profile
+      const validatedData = insertVendorProfileSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+      
+      const newProfile = await storage.createVendorProfile(validatedData);
+      res.status(201).json(newProfile);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to save vendor profile" });
+    }
+  });
+  
+  // Update vendor profile by ID (protected)
+  app.put("/api/vendor-profile/:id", requireAuth, async (req, res) => {
+    try {
+      const profileId = parseInt(req.params.id);
+      
+      // Get the profile to check ownership
+      const profile = await storage.getVendorProfileById(profileId);
+      
+      if (!profile) {
+        return res.status(404).json({ message: "Vendor profile not found" });
+      }
+      
+      // Check if the user owns this profile or is an admin
+      if (profile.userId !== req.user.id && req.user.role !== "admin" && req.user.role !== "super_admin") {
+        return res.status(403).json({ message: "Not authorized to update this profile" });
+      }
+      
+      const updatedProfile = await storage.updateVendorProfile(profileId, req.body);
+      res.json(updatedProfile);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to update vendor profile" });
+    }
+  });
+  
+  // Get the compliance documents on my vendor profile (protected)
+  app.get("/api/vendor-profile/documents", requireAuth, async (req, res) => {
+    try {
+      const profile = await storage.getVendorProfile(req.user!.id);
+      res.json(profile ? await storage.getVendorDocuments(profile.id) : []);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch vendor documents" });
+    }
+  });
+  
+  // Upload a compliance document to my vendor profile (protected)
+  // Multipart body: file, documentType, issuer, expiresAt (YYYY-MM-DD, empty if it doesn't expire)
+  app.post("/api/vendor-profile/documents", requireAuth, documentUpload.single('file'), async (req, res) => {
+    try {
+      const profile = await storage.getVendorProfile(req.user!.id);
+      if (!profile) {
+        return res.status(400).json({ message: "Create your vendor profile before uploading documents" });
+      }
+      
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+      
+      // Check the details before the file goes to storage
+      const details = schema.insertVendorDocumentSchema.omit({ vendorProfileId: true, fileUrl: true, fileName: true }).parse({
+        documentType: req.body.documentType,
+        issuer: req.body.issuer,
+        expiresAt: req.body.expiresAt || null,
+      });
+      
+      const fileUrl = await uploadFile(req.file.buffer, req.file.originalname, req.file.mimetype);
+      const document = await storage.createVendorDocument({
+        ...details,
+        vendorProfileId: profile.id,
+        fileUrl,
+        fileName: req.file.originalname,
+      });
+      res.status(201).json(document);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid document data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to upload vendor document" });
+    }
+  });
+  
+  // Delete a compliance document (protected, the vendor or an admin)
+  app.delete("/api/vendor-documents/:id", requireAuth, async (req, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const document = await storage.getVendorDocument(documentId);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const profile = await storage.getVendorProfileById(document.vendorProfileId);
+      if (req.user!.role !== "admin" && profile?.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to delete this document" });
+      }
+      
+      await storage.deleteVendorDocument(documentId);
+      // The record is what counts; a file left behind in storage does no harm
+      deleteFile(document.fileUrl).catch(() => {});
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete vendor document" });
+    }
+  });
+  
+  // Get vendor spots for an event
+  app.get("/api/events/:eventId/vendor-spots", async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const vendorSpots = await storage.getVendorSpots(eventId);
+      res.json(vendorSpots);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch vendor spots" });
+    }
+  });
+  
+  // Create vendor spot (protected, event owner/admin only)
+  app.post("/api/events/:eventId/vendor-spots", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Check permissions
+      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to create vendor spots for this event" });
+      }
+      
+      const validatedData = insertVendorSpotSchema.parse({
+        ...req.body,
+        eventId,
+        availableSpots: req.body.capacity || 1,
+      });
+      
+      const vendorSpot = await storage.createVendorSpot(validatedData);
+      
+      // Update event to indicate it has vendor options
+      if (!event.vendorOptions) {
+        await storage.updateEvent(eventId, { vendorOptions: true });
+      }
+      
+      res.status(201).json(vendorSpot);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vendor spot data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to create vendor spot" });
+    }
+  });
+  
+  // Get my vendor registrations (protected)
+  app.get("/api/my-vendor-registrations", requireAuth, async (req, res) => {
+    try {
+      const vendorRegistrations = await storage.getVendorRegistrations({
+        userId: req.user.id
+      });
+      
+      // Include what the vendor registered for and the booth they've been given
+      const detailedRegistrations = await Promise.all(vendorRegistrations.map(async registration => {
+        const [event, spot, booth, order] = await Promise.all([
+          storage.getEvent(registration.eventId),
+          storage.getVendorSpot(registration.vendorSpotId),
+          storage.getVendorBoothByRegistration(registration.id),
+          registration.orderId ? storage.getOrder(registration.orderId) : undefined,
+        ]);
+        return {
+          ...registration,
+          eventTitle: event?.title || "",
+          eventStartDate: event?.startDate || null,
+          spotName: spot?.name || "",
+          boothNumber: booth?.boothNumber || null,
+          // Lets an approved pay-on-approval vendor see what they owe
+          paymentStatus: order?.paymentStatus || null,
+          amountDue: order?.totalAmount ?? null,
+        };
+      }));
+      res.json(detailedRegistrations);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch vendor registrations" });
+    }
+  });
+  
+  // Create vendor registration (protected)
+  app.post("/api/vendor-registrations", requireAuth, async (req, res) => {
+    try {
+      // Validate the request data
+      const { 
+        userId, 
+        eventId, 
+        vendorSpotId, 
+        profileId, 
+        status,
+        preferredLocation,
+        productsDescription 
+      } = req.body;
+      
+      // Ensure user can only create registrations for themselves
+      if (userId !== req.user.id) {
+        return res.status(403).json({ message: "You can only create registrations for yourself" });
+      }
+      
+      // Answers to the organizer's own questions are checked before anything is saved
+      const vendorForm = await storage.getApplicationForm(eventId, "vendor");
+      const answersResult = validateApplicationAnswers(
+        (vendorForm?.fields as schema.ApplicationFormField[]) || [],
+        req.body.formAnswers
+      );
+      if ("error" in answersResult) {
+        return res.status(400).json({ message: answersResult.error });
+      }
+      
+      // Check if the vendor spot exists
+      // instead of checking vendorSpot make sure to pull it from products table
+      // where type = vendor_spot
+      let vendorSpot = await storage.getProducts(eventId, "vendor_spot", vendorSpotId);
+      
+      // Spots the organizer set up directly rather than selling as products hold their own places,
+      // and are what a vendor spot waitlist offer is claimed against
+      const claimEntry = req.body.waitlistClaim ? await storage.getWaitlistEntryByToken(req.body.waitlistClaim) : undefined;
+      if (claimEntry?.capacityType === "vendor_spot" ||
+          !vendorSpot.some(product => product.type === "vendor_spot" && product.eventId === parseInt(eventId))) {
+        const spot = await storage.getVendorSpot(parseInt(vendorSpotId));
+        if (!spot || spot.eventId !== parseInt(eventId)) {
+          return res.status(404).json({ message: "Vendor spot not found" });
+        }
+        
+        const capacity: schema.WaitlistCapacity = { type: "vendor_spot", id: spot.id };
+        const waitlistEntry = req.body.waitlistClaim
+          ? await findWaitlistClaim(req.body.waitlistClaim, req.user!.id, capacity)
+          : undefined;
+        if (req.body.waitlistClaim && !waitlistEntry) {
+          return res.status(400).json({ message: `Your waitlist offer for ${spot.name} has expired or was already used` });
+        }
+        
+        const vendorProfileId = profileId || (await storage.getVendorProfile(req.user!.id))?.id;
+        if (!vendorProfileId) {
+          return res.status(400).json({ message: "Vendor profile not found. Please create a vendor profile first." });
+        }
+        
+        const registration = await storage.createSpotRegistration({
+          vendorProfileId,
+          vendorSpotId: spot.id,
+          eventId: spot.eventId,
+          status: "pending",
+          formAnswers: answersResult.answers,
+          metadata: { preferredLocation, productsDescription },
+        }, req.user!.id, waitlistEntry?.id);
+        return res.status(201).json(registration);
+      }
+
+        console.log('vendorSpot', vendorSpot);
+
+      let vendorSpotRegistration = null;
+      if(vendorSpot){
+        vendorSpotRegistration = await storage.createVendorSpot({
+          eventId,
+          name: vendorSpot?.[0].name,
+          availableSpots: vendorSpot?.[0].quantity,
+          price: vendorSpot?.[0].price,
+          metadata: vendorSpot?.[0].metadata,
+          description: vendorSpot?.[0].description,
+          requirements: vendorSpot?.[0].requirements,
+        });
+      }
+      
+      // Check if the event exists
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Create registration
+      const registration = await db.insert(vendorRegistrations).values({
+        vendorProfileId: profileId,
+        vendorSpotId: vendorSpotRegistration?.id,
+        eventId: eventId,
+        // Pay-on-approval spots skip checkout, so the application goes straight to review
+        status: vendorSpot[0]?.paymentMode === "on_approval" ? "pending" : "success",
+        formAnswers: answersResult.answers,
+        metadata: {
+          preferredLocation,
+          productsDescription,
+          productId: vendorSpotId // The vendor spot type, which booths on the map are drawn for
+        }
+      }).returning();
+      
+      // Return the created registration
+      res.status(201).json(registration[0]);
+    } catch (error: any) {
+      if (error instanceof CapacityFullError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating vendor registration:", error);
+      res.status(500).json({ message: error.message || "Failed to create vendor registration" });
+    }
+  });
+  
+  // Get vendor registrations for an event (protected, event owner/admin only)
+  app.get("/api/events/:eventId/vendor-registrations", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Check permissions
+      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to view registrations for this event" });
+      }
+      
+      const vendorRegistrations = await storage.getVendorRegistrations({
+        eventId
+      });
+      res.json(vendorRegistrations);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch vendor registrations" });
+    }
+  });
+  
+  // Update vendor registration status (protected, event owner/admin only)
+  app.put("/api/vendor-registrations/:id/status", requireAuth, async (req, res) => {
+    try {
+      const registrationId = parseInt(req.params.id);
+      const { status } = req.body;
+      
+      if (!["pending", "approved", "rejected", "cancelled"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      
+      // Get the registration
+      const registration = await storage.getVendorRegistration(registrationId);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      const event = await storage.getEvent(registration.eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Check permissions
+      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to update this registration" });
+      }
+      
+      // Vendors need every document the event requires, valid until it ends
+      if (status === "approved") {
+        const documents = await storage.getVendorDocuments(registration.vendorProfileId);
+        const missing = getMissingVendorDocuments(event.requiredVendorDocuments, documents, event.endDate);
+        if (missing.length > 0) {
+          return res.status(400).json({
+            message: `This vendor is missing documents the event requires: ${formatVendorDocumentTypes(missing)}`,
+            missingDocuments: missing,
+          });
+        }
+      }
+      
+      const spotProduct = await getRegistrationSpotProduct(registration);
+      const order = registration.orderId ? await storage.getOrder(registration.orderId) : undefined;
+      
+      // Pay-on-approval spots are held for the vendor on an order they pay from the emailed link.
+      // Re-approving a lapsed vendor holds the spot again.
+      if (status === "approved" && spotProduct?.paymentMode === "on_approval" &&
+          (!order || ["cancelled", "expired"].includes(order.status))) {
+        try {
+          await requestVendorPayment(registration, event, spotProduct);
+        } catch (error: any) {
+          if (error instanceof InsufficientStockError) {
+            return res.status(400).json({ message: `There are no ${spotProduct.name} spots left to approve this vendor for` });
+          }
+          if (error instanceof VendorPaymentWindowError) {
+            return res.status(400).json({ message: "It's too close to the event for this vendor to pay for their spot online" });
+          }
+          throw error;
+        }
+      }
+      
+      // Only approved vendors keep a spot held for payment
+      if (status !== "approved" && order && order.status === "pending") {
+        if (await storage.releaseOrderHold(order.id, "cancelled")) {
+          offerFreedCapacityForOrder(order.id);
+        }
+      }
+      
+      // Vendors who paid upfront get their spot refunded when they're rejected
+      if (status === "rejected" && order && ["paid", "partially_refunded"].includes(order.paymentStatus)) {
+        const items = await storage.getOrderItems(order.id);
+        const spotItem = items.find(item =>
+          item.itemType === "vendor_spot" &&
+          item.refundedQuantity < item.quantity &&
+          (!spotProduct || item.itemId === spotProduct.id)
+        );
+        
+        if (spotItem) {
+          if (order.paymentMethod === "stripe" && !order.stripePaymentId) {
+            return res.status(400).json({ message: "This vendor's order has no Stripe payment to refund" });
+          }
+          
+          const reason = "Vendor application rejected";
+          await storage.refundOrder(
+            order.id,
+            { items: [{ orderItemId: spotItem.id, quantity: 1 }], reason, createdBy: req.user!.id },
+            issueOrderRefund(order, reason)
+          );
+          offerFreedCapacityForOrder(order.id);
+        }
+      }
+      
+      const updatedRegistration = await storage.updateVendorRegistrationStatus(
+        registrationId, 
+        status,
+        req.user.id
+      );
+      
+      // Only approved vendors hold a booth
+      if (status !== "approved") {
+        await storage.releaseVendorBooth(registrationId);
+      }
+      
+      // A spot's own place given back by rejecting or cancelling goes to its waitlist
+      if (((registration.metadata as Record<string, any>) || {}).holdsPlace &&
+          ["rejected", "cancelled"].includes(status) && !["rejected", "cancelled"].includes(registration.status)) {
+        await offerFreedCapacity({ type: "vendor_spot", id: registration.vendorSpotId });
+      }
+      
+      res.json(updatedRegistration);
+    } catch (error: any) {
+      if (error instanceof InvalidRefundError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof RefundInProgressError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message || "Failed to update registration status" });
+    }
+  });
+
+  // Start paying for an approved pay-on-approval vendor spot (protected, the vendor only).
+  // Each call opens a fresh checkout session; the spot stays held until the payment deadline.
+  app.post("/api/vendor-registrations/:id/pay", requireAuth, async (req, res) => {
+    try {
+      const registration = await storage.getVendorRegistration(parseInt(req.params.id));
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      const profile = await storage.getVendorProfileById(registration.vendorProfileId);
+      if (!profile || profile.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to pay for this registration" });
+      }
+      
+      const order = registration.orderId ? await storage.getOrder(registration.orderId) : undefined;
+      if (registration.status !== "approved" || !registration.paymentDueAt || !order) {
+        return res.status(400).json({ message: "This registration has no payment due" });
+      }
+      
+      if (order.paymentStatus === "paid") {
+        return res.status(400).json({ message: "This spot has already been paid for" });
+      }
+      
+      if (order.status !== "pending" || !order.expiresAt || order.expiresAt < new Date()) {
+        return res.status(400).json({ message: "The payment deadline for this spot has passed" });
+      }
+      
+      // Stripe sessions last at least 30 minutes, and one must not outlive the deadline or the
+      // vendor could pay after the sweeper has lapsed the approval and released the spot
+      if (order.expiresAt.getTime() < Date.now() + MIN_VENDOR_PAYMENT_WINDOW_MS) {
+        return res.status(400).json({ message: "The payment deadline for this spot is too close to start a payment. Please contact the organizer." });
+      }
+      
+      const items = await storage.getOrderItems(order.id);
+      const lineItems: CheckoutLineItem[] = items.map(item => ({
+        name: item.name,
+        description: item.description || undefined,
+        unitAmount: Math.round(item.unitPrice * 100), // convert to cents
+        quantity: item.quantity,
+      }));
+      
+      // Processing fees the organizer passes on to the vendor
+      if (order.buyerFeeAmount > 0) {
+        lineItems.push({
+          name: "Processing fee",
+          unitAmount: Math.round(order.buyerFeeAmount * 100), // convert to cents
+          quantity: 1,
+        });
+      }
+      
+      const domain = process.env.DOMAIN || `${process.env.NODE_ENV === 'production' ? 'https' : req.protocol}://${req.get('host')}`;
+      
+      const session = await paymentProvider.createCheckoutSession({
+        lineItems,
+        // Ends by the deadline; sessions last at most a day, so a longer deadline needs another session
+        expiresAt: new Date(Math.min(order.expiresAt.getTime(), Date.now() + 23 * 60 * 60 * 1000)),
+        successUrl: `${domain}/checkout/success?order_id=${order.id}&session_id={CHECKOUT_SESSION_ID}`,
+        // Backing out leaves the spot held, unlike a cart checkout
+        cancelUrl: `${domain}/profile`,
+        transferGroup: order.checkoutGroup || undefined,
+        metadata: {
+          orderId: order.id.toString(),
+          orderIds: order.id.toString(),
+          checkoutGroup: order.checkoutGroup || "",
+          userId: req.user!.id.toString(),
+          eventId: order.eventId.toString(),
+          vendorRegistrationId: registration.id.toString(),
+        },
+      });
+      
+      await storage.setOrdersStripeSession([order.id], session.id);
+      
+      res.json({ orderId: order.id, checkoutUrl: session.url });
+    } catch (error: any) {
+      console.error("Vendor payment error:", error);
+      res.status(500).json({ message: error.message || "Failed to start vendor payment" });
+    }
+  });
+
+  // === BOOTH MAP API ===
+  
+  // The vendor spot type (a vendor_spot product) a registration is for. Registrations record it
+  // when they're made; older ones are matched to a product by their spot's name.
+  const getRegistrationSpotType = async (registration: schema.VendorRegistration, spotProducts: schema.Product[]) => {
+    const metadata = registration.metadata as { productId?: number } | null;
+    if (metadata?.productId) {
+      return metadata.productId;
+    }
+    const spot = await storage.getVendorSpot(registration.vendorSpotId);
+    return spotProducts.find(product => product.name === spot?.name)?.id ?? null;
+  };
+  
+  // A booth must be for one of the event's vendor spot types, if it names one
+  const getBoothDataError = async (eventId: number, data: { productId?: number | null }) => {
+    if (data.productId) {
+      const product = await storage.getProduct(data.productId);
+      if (!product || product.eventId !== eventId || product.type !== "vendor_spot") {
+        return "Booths can only be for one of this event's vendor spot types";
+      }
+    }
+    return null;
+  };
+  
+  // Everything the booth map editor needs: the site plan, the booths, and the vendors to place
+  // (protected, event owner/admin only)
+  app.get("/api/events/:eventId/booth-map", requireAuth, async (req, res) => {
+    try {
+      const event = await storage.getEvent(parseInt(req.params.eventId));
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view this event's booth map" });
+      }
+      
+      const [booths, registrations, spotProducts] = await Promise.all([
+        storage.getVendorBooths(event.id),
+        storage.getVendorRegistrations({ eventId: event.id }),
+        storage.getProducts(event.id, "vendor_spot"),
+      ]);
+      
+      const vendors = await Promise.all(registrations
+        .filter(registration => registration.status !== "rejected" && registration.status !== "cancelled")
+        .map(async registration => {
+          const [profile, documents] = await Promise.all([
+            storage.getVendorProfileById(registration.vendorProfileId),
+            storage.getVendorDocuments(registration.vendorProfileId),
+          ]);
+          return {
+            id: registration.id,
+            status: registration.status,
+            businessName: profile?.businessName || `Vendor #${registration.id}`,
+            productId: await getRegistrationSpotType(registration, spotProducts),
+            boothId: booths.find(booth => booth.vendorRegistrationId === registration.id)?.id ?? null,
+            missingDocuments: getMissingVendorDocuments(event.requiredVendorDocuments, documents, event.endDate),
+          };
+        }));
+      
+      res.json({ imageUrl: event.boothMapUrl, booths, vendors, spotTypes: spotProducts.map(({ id, name }) => ({ id, name })) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch booth map" });
+    }
+  });
+  
+  // Draw a booth on the site plan (protected, event owner/admin only)
+  app.post("/api/events/:eventId/booths", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to add booths to this event" });
+      }
+      
+      const validatedData = schema.insertVendorBoothSchema.parse({
+        ...req.body,
+        eventId,
+      });
+      
+      const dataError = await getBoothDataError(eventId, validatedData);
+      if (dataError) {
+        return res.status(400).json({ message: dataError });
+      }
+      
+      if ((await storage.getVendorBooths(eventId)).some(booth => booth.boothNumber === validatedData.boothNumber)) {
+        return res.status(409).json({ message: `There is already a booth ${validatedData.boothNumber}` });
+      }
+      
+      const booth = await storage.createVendorBooth(validatedData);
+      res.status(201).json(booth);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booth data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to create booth" });
+    }
+  });
+  
+  // Renumber, retype or redraw a booth (protected, event owner/admin only)
+  app.put("/api/booths/:id", requireAuth, async (req, res) => {
+    try {
+      const booth = await storage.getVendorBooth(parseInt(req.params.id));
+      
+      if (!booth) {
+        return res.status(404).json({ message: "Booth not found" });
+      }
+      
+      const event = await storage.getEvent(booth.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to update this booth" });
+      }
+      
+      const validatedData = schema.insertVendorBoothSchema.partial().omit({ eventId: true }).parse(req.body);
+      
+      const dataError = await getBoothDataError(booth.eventId, validatedData);
+      if (dataError) {
+        return res.status(400).json({ message: dataError });
+      }
+      
+      if (validatedData.boothNumber && (await storage.getVendorBooths(booth.eventId))
+        .some(other => other.id !== booth.id && other.boothNumber === validatedData.boothNumber)) {
+        return res.status(409).json({ message: `There is already a booth ${validatedData.boothNumber}` });
+      }
+      
+      const updatedBooth = await storage.updateVendorBooth(booth.id, validatedData);
+      res.json(updatedBooth);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booth data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to update booth" });
+    }
+  });
+  
+  // Remove a booth from the map (protected, event owner/admin only)
+  app.delete("/api/booths/:id", requireAuth, async (req, res) => {
+    try {
+      const booth = await storage.getVendorBooth(parseInt(req.params.id));
+      
+      if (!booth) {
+        return res.status(404).json({ message: "Booth not found" });
+      }
+      
+      const event = await storage.getEvent(booth.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to delete this booth" });
+      }
+      
+      await storage.deleteVendorBooth(booth.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete booth" });
+    }
+  });
+  
+  // Assign an approved vendor to a booth, or empty it with a null registration
+  // (protected, event owner/admin only)
+  app.put("/api/booths/:id/assignment", requireAuth, async (req, res) => {
+    try {
+      const booth = await storage.getVendorBooth(parseInt(req.params.id));
+      
+      if (!booth) {
+        return res.status(404).json({ message: "Booth not found" });
+      }
+      
+      const event = await storage.getEvent(booth.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to assign this booth" });
+      }
+      
+      const registrationId = req.body.vendorRegistrationId ? parseInt(req.body.vendorRegistrationId) : null;
+      if (registrationId !== null) {
+        const registration = await storage.getVendorRegistration(registrationId);
+        if (!registration || registration.eventId !== booth.eventId) {
+          return res.status(404).json({ message: "Registration not found" });
+        }
+        if (registration.status !== "approved") {
+          return res.status(400).json({ message: "Only approved vendors can be given a booth" });
+        }
+        
+        const spotType = await getRegistrationSpotType(registration, await storage.getProducts(booth.eventId, "vendor_spot"));
+        if (booth.productId && spotType && booth.productId !== spotType) {
+          return res.status(400).json({ message: `Booth ${booth.boothNumber} is for a different vendor spot type` });
+        }
+      }
+      
+      const updatedBooth = await storage.assignVendorBooth(booth.id, registrationId);
+      res.json(updatedBooth);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to assign booth" });
+    }
+  });
+  
+  // The site plan with a registration's booth, for the vendor (protected, the vendor or event
+  // owner/admin only)
+  app.get("/api/vendor-registrations/:id/booth-map", requireAuth, async (req, res) => {
+    try {
+      const registration = await storage.getVendorRegistration(parseInt(req.params.id));
+      
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      const [profile, event] = await Promise.all([
+        storage.getVendorProfileById(registration.vendorProfileId),
+        storage.getEvent(registration.eventId),
+      ]);
+      if (req.user!.role !== "admin" && profile?.userId !== req.user!.id && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view this registration" });
+      }
+      
+      // Other booths are shown as outlines only, without who is in them
+      const booths = await storage.getVendorBooths(registration.eventId);
+      res.json({
+        imageUrl: event?.boothMapUrl || null,
+        booths: booths.map(({ id, boothNumber, points }) => ({ id, boothNumber, points })),
+        boothId: booths.find(booth => booth.vendorRegistrationId === registration.id)?.id ?? null,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch booth map" });
+    }
+  });
+
+  // === VOLUNTEER API ===
+  
+  // Get volunteer profile (protected)
+  app.get("/api/volunteer-profile", requireAuth, async (req, res) => {
+    try {
+      const volunteerProfile = await storage.getVolunteerProfile(req.user.id);
+      res.json(volunteerProfile || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch volunteer profile" });
+    }
+  });
+  
+  // Create/update volunteer profile (protected)
+  app.post("/api/volunteer-profile", requireAuth, async (req, res) => {
+    try {
+      const existingProfile = await storage.getVolunteerProfile(req.user.id);
+      
+      if (existingProfile) {
+        // Update existing profile
+        const updatedProfile = await storage.updateVolunteerProfile(existingProfile.id, req.body);
+        return res.json(updatedProfile);
+      }
+      
+      // Create new profile
+      const validatedData = insertVolunteerProfileSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+      
+      const newProfile = await storage.createVolunteerProfile(validatedData);
+      res.status(201).json(newProfile);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to save volunteer profile" });
+    }
+  });
+  
+  // Update volunteer profile by ID (protected)
+  app.put("/api/volunteer-profile/:id", requireAuth, async (req, res) => {
+    try {
+      const profileId = parseInt(req.params.id);
+      
+      // Get the profile to check ownership
+      const existingProfile = await storage.getVolunteerProfile(req.user.id);
+      
+      if (!existingProfile) {
+        return res.status(404).json({ message: "Volunteer profile not found" });
+      }
+      
+      if (existingProfile.id !== profileId) {
+        return res.status(403).json({ message: "Not authorized to update this profile" });
+      }
+      
+      const updatedProfile = await storage.updateVolunteerProfile(profileId, req.body);
+      res.json(updatedProfile);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to update volunteer profile" });
+    }
+  });
+  
+  // Get volunteer shifts for an event
+  app.get("/api/events/:eventId/volunteer-shifts", async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const volunteerShifts = await storage.getVolunteerShifts(eventId);
+      res.json(volunteerShifts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch volunteer shifts" });
+    }
+  });
+  
+  // Create volunteer shift (protected, event owner/admin only)
+  app.post("/api/events/:eventId/volunteer-shifts", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Check permissions
+      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to create volunteer shifts for this event" });
+      }
+      
+      const validatedData = insertVolunteerShiftSchema.parse({
+        ...req.body,
+        eventId,
+        availableSpots: req.body.capacity,
+      });
+      
+      const volunteerShift = await storage.createVolunteerShift(validatedData);
+      
+      // Update event to indicate it has volunteer options
+      if (!event.volunteerOptions) {
+        await storage.updateEvent(eventId, { volunteerOptions: true });
+      }
+      
+      res.status(201).json(volunteerShift);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid volunteer shift data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to create volunteer shift" });
+    }
+  });
+  
+  // Get my volunteer assignments (protected)
+  app.get("/api/my-volunteer-assignments", requireAuth, async (req, res) => {
+    try {
+      const volunteerAssignments = await storage.getVolunteerAssignments({
+        userId: req.user.id
+      });
+      res.json(volunteerAssignments);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch volunteer assignments" });
+    }
+  });
+  
+  // Get volunteer assignments for an event (protected, event owner/admin only)
+  app.get("/api/events/:eventId/volunteer-assignments", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Check permissions
+      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to view assignments for this event" });
+      }
+      
+      const volunteerAssignments = await storage.getVolunteerAssignments({
+        eventId
+      });
+      res.json(volunteerAssignments);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch volunteer assignments" });
+    }
+  });
+  
+  // Update volunteer assignment status (protected, event owner/admin only)
+  app.put("/api/volunteer-assignments/:id/status", requireAuth, async (req, res) => {
+    try {
+      const assignmentId = parseInt(req.params.id);
+      const { status } = req.body;
+      
+      if (!["pending", "approved", "rejected", "cancelled", "completed"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      
+      // Get the assignment
+      const assignment = await storage.getVolunteerAssignment(assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      
+      // Check permissions
+      const event = await storage.getEvent(assignment.eventId);
+      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to update this assignment" });
+      }
+      
+      const freesPlace = ["rejected", "cancelled"].includes(status) && !["rejected", "cancelled"].includes(assignment.status);
+      const holdsPlace = !!((assignment.metadata as Record<string, any>) || {}).holdsPlace;
+      
+      // Volunteers who signed up through checkout get their shift refunded when they're rejected
+      // or cancelled, which gives its stock back to the shift's waitlist
+      if (freesPlace && !holdsPlace) {
+        const shiftItem = await storage.getVolunteerAssignmentOrderItem(assignment);
+        const order = shiftItem ? await storage.getOrder(shiftItem.orderId) : undefined;
+        
+        if (shiftItem && order && shiftItem.refundedQuantity < shiftItem.quantity &&
+            ["paid", "partially_refunded"].includes(order.paymentStatus)) {
+          if (order.paymentMethod === "stripe" && !order.stripePaymentId) {
+            return res.status(400).json({ message: "This volunteer's order has no Stripe payment to refund" });
+          }
+          
+          const reason = `Volunteer assignment ${status}`;
+          await storage.refundOrder(
+            order.id,
+            { items: [{ orderItemId: shiftItem.id, quantity: 1 }], reason, createdBy: req.user!.id },
+            issueOrderRefund(order, reason)
+          );
+          offerFreedCapacityForOrder(order.id);
+        }
+      }
+      
+      const updatedAssignment = await storage.updateVolunteerAssignmentStatus(
+        assignmentId, 
+        status,
+        req.user.id
+      );
+      
+      // A shift's own place goes straight back to its waitlist
+      if (freesPlace && holdsPlace) {
+        await offerFreedCapacity({ type: "volunteer_shift", id: assignment.shiftId });
+      }
+      
+      res.json(updatedAssignment);
+    } catch (error: any) {
+      if (error instanceof InvalidRefundError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof RefundInProgressError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message || "Failed to update assignment status" });
+    }
+  });
+
+  // Create volunteer assignment (protected)
+  app.post("/api/volunteer-assignments", requireAuth, async (req, res) => {
+    try {
+      const { shiftId, volunteerShiftId, eventId, notes } = req.body;
+      const actualShiftId = shiftId || volunteerShiftId;
+      
+      if (!actualShiftId || !eventId) {
+        return res.status(400).json({ message: "shiftId and eventId are required" });
+      }
+      
+      // Get user's volunteer profile
+      const volunteerProfile = await storage.getVolunteerProfile(req.user.id);
+      if (!volunteerProfile) {
+        return res.status(400).json({ message: "Volunteer profile not found. Please create a volunteer profile first." });
+      }
+      
+      // Check if assignment already exists
+      const existingAssignments = await storage.getVolunteerAssignments({
+        userId: req.user.id,
+        shiftId: actualShiftId,
+        eventId
+      });
+      
+      if (existingAssignments.length > 0) {
+        return res.status(400).json({ message: "You are already assigned to this shift" });
+      }
+      
+      const volunteerForm = await storage.getApplicationForm(parseInt(eventId), "volunteer");
+      const answersResult = validateApplicationAnswers(
+        (volunteerForm?.fields as schema.ApplicationFormField[]) || [],
+        req.body.formAnswers
+      );
+      if ("error" in answersResult) {
+        return res.status(400).json({ message: answersResult.error });
+      }
+      
+      const assignmentData = {
+        volunteerProfileId: volunteerProfile.id,
+        shiftId: parseInt(actualShiftId),
+        eventId: parseInt(eventId),
+        status: "pending",
+        notes: notes || null,
+        formAnswers: answersResult.answers,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      
+      // Shifts sold as products hold their places through checkout. Shifts the organizer set up
+      // directly hold their own, and are what a volunteer shift waitlist offer is claimed against.
+      const claimEntry = req.body.waitlistClaim ? await storage.getWaitlistEntryByToken(req.body.waitlistClaim) : undefined;
+      const shiftProduct = await storage.getProduct(assignmentData.shiftId);
+      if (claimEntry?.capacityType === "volunteer_shift" ||
+          !shiftProduct || shiftProduct.type !== "volunteer_shift" || shiftProduct.eventId !== assignmentData.eventId) {
+        const shift = await storage.getVolunteerShift(assignmentData.shiftId);
+        if (!shift || shift.eventId !== assignmentData.eventId) {
+          return res.status(404).json({ message: "Volunteer shift not found" });
+        }
+        
+        const capacity: schema.WaitlistCapacity = { type: "volunteer_shift", id: shift.id };
+        const waitlistEntry = req.body.waitlistClaim
+          ? await findWaitlistClaim(req.body.waitlistClaim, req.user!.id, capacity)
+          : undefined;
+        if (req.body.waitlistClaim && !waitlistEntry) {
+          return res.status(400).json({ message: `Your waitlist offer for ${shift.name} has expired or was already used` });
+        }
+        
+        const newAssignment = await storage.createShiftAssignment(assignmentData, req.user!.id, waitlistEntry?.id);
+        return res.status(201).json(newAssignment);
+      }
+      
+      const newAssignment = await storage.createVolunteerAssignment(assignmentData);
+      res.status(201).json(newAssignment);
+    } catch (error: any) {
+      if (error instanceof CapacityFullError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message || "Failed to create volunteer assignment" });
+    }
+  });
+
+  // === CHECKOUT & ORDERS API ===
+
+  // Checkout success page
+  app.get("/checkout/success", async (req, res) => {
+    try {
+      const { order_id, session_id } = req.query;
+      
+      if (!order_id || !session_id) {
+        return res.status(400).send("Missing order_id or session_id");
+      }
+      
+      // Verify the checkout session
+      const session = await paymentProvider.retrieveCheckoutSession(session_id as string);
+      
+      if (!session) {
+        return res.status(404).send("Invalid checkout session");
+      }
+      
+      // Fulfill every order from the checkout if the webhook hasn't done so already
+      if (session.paymentStatus === "paid") {
+        await completeCheckoutSession(session);
+      }
+      
+      // Redirect to the order confirmation page
+      res.redirect(`/orders/${order_id}?success=true`);
+    } catch (error: any) {
+      console.error("Checkout success error:", error);
+      res.status(500).send(`Error processing checkout: ${error.message}`);
+    }
+  });
+  
+  // Checkout cancel page
+  app.get("/checkout/cancel", async (req, res) => {
+    try {
+      const { order_id } = req.query;
+      
+      if (!order_id) {
+        return res.status(400).send("Missing order_id");
+      }
+      
+      // Cancel the unpaid orders from this checkout and give back their held stock and promo code redemption
+      const order = await storage.getOrder(Number(order_id));
+      const orderIds = order?.checkoutGroup
+        ? (await storage.getOrdersByCheckoutGroup(order.checkoutGroup)).map(o => o.id)
+        : [Number(order_id)];
+      
+      for (const id of orderIds) {
+        if (await storage.releaseOrderHold(id, "cancelled")) {
+          offerFreedCapacityForOrder(id);
+        }
+      }
+      
+      // Redirect to the cart page
+      res.redirect(`/cart?cancelled=true`);
+    } catch (error: any) {
+      console.error("Checkout cancel error:", error);
+      res.status(500).send(`Error cancelling checkout: ${error.message}`);
+    }
+  });
+
+  // Checkout endpoint (protected)
+  app.post("/api/checkout", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { items, promoCode } = req.body;
+      
+      if (!items || !items.length) {
+        return res.status(400).json({ message: "No items provided for checkout" });
+      }
+      
+      // Extract product data first to get eventId
+      let totalAmount = 0;
+      let products = [];
+      let eventIds = new Set();
+      const questionsByEvent = new Map<number, schema.AttendeeQuestion[]>();
+      const attendeesByProduct = new Map<number, AttendeeDetails[]>();
+      const waitlistClaims = new Map<number, number>(); // Product id to the waitlist entry claimed for it
+      
+      for (const item of items) {
+        const product = await storage.getProduct(item.productId);
+        if (!product) {
+          return res.status(404).json({ message: `Product ${item.productId} not found` });
+        }
+        
+        const unavailableReason = getTierUnavailableReason(product);
+        if (unavailableReason) {
+          return res.status(400).json({ message: unavailableReason, productId: product.id });
+        }
+        
+        // These spots are applied for without paying; the vendor gets a payment link once approved
+        if (product.type === "vendor_spot" && product.paymentMode === "on_approval") {
+          return res.status(400).json({
+            message: `${product.name} is paid for once your vendor application is approved`,
+            productId: product.id
+          });
+        }
+        
+        // Units held for the buyer by a waitlist offer are handed to the order that claims them
+        if (item.waitlistClaim) {
+          const entry = await storage.getWaitlistEntryByToken(item.waitlistClaim);
+          if (!entry || entry.userId !== req.user.id || entry.capacityType !== "product" || entry.capacityId !== product.id ||
+              entry.status !== "offered" || !entry.offerExpiresAt || entry.offerExpiresAt < new Date()) {
+            return res.status(400).json({
+              message: `Your waitlist offer for ${product.name} has expired or was already used`,
+              productId: product.id
+            });
+          }
+          waitlistClaims.set(product.id, entry.id);
+        }
+        
+        // Tickets need answers to the event's attendee questions, one set per ticket
+        if (product.type === "ticket") {
+          if (!questionsByEvent.has(product.eventId)) {
+            questionsByEvent.set(product.eventId, await storage.getAttendeeQuestionsByEvent(product.eventId));
+          }
+          const questions = getQuestionsForProduct(questionsByEvent.get(product.eventId)!, product.id);
+          if (questions.length > 0) {
+            const result = validateAttendees(questions, item.registrationData?.attendees, item.quantity);
+            if ("error" in result) {
+              return res.status(400).json({ message: result.error, productId: product.id });
+            }
+            attendeesByProduct.set(product.id, result.attendees);
+          }
+        }
+        
+        // Ticket tiers are charged at their current price step
+        const price = getCurrentTierPrice(product);
+        products.push({ ...product, price });
+        eventIds.add(product.eventId);
+        
+        // Add to total
+        totalAmount += price * item.quantity;
+      }
+      
+      if (eventIds.size === 0) {
+        return res.status(400).json({ message: "No valid products found" });
+      }
+      
+      // Apply the promo code, if one was entered, and hold one redemption for this order
+      let promo: Awaited<ReturnType<typeof resolvePromoCode>> | null = null;
+      if (promoCode) {
+        try {
+          promo = await resolvePromoCode(promoCode, req.user.id, items.map((item: any) => ({
+            product: products.find(p => p.id === item.productId)!,
+            quantity: item.quantity
+          })));
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        
+        if (!(await storage.claimPromoCodeUse(promo.promoCode.id))) {
+          return res.status(400).json({ message: `Promo code "${promo.promoCode.code}" has reached its usage limit` });
+        }
+      }
+      
+      const discountAmount = promo?.discountAmount || 0;
+      
+      // Each event gets its own order so every organizer is paid for their own items
+      const itemsByEvent = new Map<number, any[]>();
+      for (const item of items) {
+        const product = products.find(p => p.id === item.productId)!;
+        itemsByEvent.set(product.eventId, [...(itemsByEvent.get(product.eventId) || []), item]);
+      }
+      
+      // Orders from one checkout share a group id, which is also the Stripe transfer group
+      const checkoutGroup = `checkout_${randomBytes(8).toString("hex")}`;
+      
+      // Step 1 & 2: Create the orders and their items, holding the stock until they are paid or expire
+      const expiresAt = getOrderHoldExpiry();
+      let createdOrders;
+      try {
+        createdOrders = await storage.createPendingOrders(
+          await Promise.all(Array.from(itemsByEvent.entries()).map(async ([eventId, eventItems]) => {
+            const event = await storage.getEvent(eventId);
+            if (!event) {
+              throw new Error(`Event not found: ${eventId}`);
+            }
+            
+            const orderItems = eventItems.map((item: any) => {
+              const product = products.find(p => p.id === item.productId)!;
+              const lineDiscount = promo?.lineDiscounts[item.productId] || 0;
+              
+              return {
+                waitlistEntryId: waitlistClaims.get(product.id),
+                itemId: product.id,
+                itemType: product.type,
+                name: product.name,
+                description: product.description,
+                quantity: item.quantity,
+                unitPrice: product.price,
+                discountAmount: lineDiscount,
+                totalPrice: product.price * item.quantity - lineDiscount,
+                // Tickets issued for the item take the tier's ticket type, entry rule and
+                // the attendee details given for each of them
+                metadata: product.type === "ticket"
+                  ? {
+                      ...item.registrationData,
+                      ticketType: product.ticketType,
+                      entryRule: product.entryRule,
+                      attendees: attendeesByProduct.get(product.id),
+                    }
+                  : item.registrationData || null
+              };
+            });
+            const orderSubtotal = Math.round(orderItems.reduce((sum, item) => sum + item.totalPrice, 0) * 100) / 100;
+            const orderDiscount = Math.round(orderItems.reduce((sum, item) => sum + item.discountAmount, 0) * 100) / 100;
+            const fees = calculateOrderFees(event, orderSubtotal);
+            
+            return {
+              order: {
+                userId: req.user!.id,
+                eventId,
+                status: "pending",
+                paymentStatus: "pending",
+                totalAmount: fees.totalAmount,
+                paymentMethod: fees.totalAmount > 0 ? "stripe" : "free",
+                // Only the order for the promo code's own event counts as the redemption
+                promoCodeId: promo && promo.promoCode.eventId === eventId ? promo.promoCode.id : null,
+                discountAmount: orderDiscount,
+                platformFeeAmount: fees.platformFeeAmount,
+                processingFeeAmount: fees.processingFeeAmount,
+                buyerFeeAmount: fees.buyerFeeAmount,
+                checkoutGroup
+              },
+              items: orderItems
+            };
+          })),
+          expiresAt
+        );
+      } catch (error: any) {
+        if (promo) {
+          await storage.releasePromoCodeUse(promo.promoCode.id);
+        }
+        
+        if (error instanceof InsufficientStockError) {
+          return res.status(400).json({
+            message: error.message,
+            productId: error.productId,
+            productName: error.productName,
+            available: error.available
+          });
+        }
+        throw error;
+      }
+      
+      const orders = createdOrders.map(created => created.order);
+      const orderIds = orders.map(order => order.id);
+      const primaryOrder = orders[0];
+      const amountDue = Math.round(orders.reduce((sum, order) => sum + order.totalAmount, 0) * 100) / 100;
+      const buyerFees = Math.round(orders.reduce((sum, order) => sum + order.buyerFeeAmount, 0) * 100) / 100;
+      
+      // Fully discounted checkouts have nothing to pay, so issue everything right away
+      if (amountDue <= 0) {
+        for (const order of orders) {
+          await storage.fulfillOrder(order.id);
+          emailService.sendOrderConfirmationEmail(order.id);
+        }
+        return res.status(200).json({
+          orderId: primaryOrder.id,
+          orderIds,
+          checkoutUrl: `/orders/${primaryOrder.id}?success=true`,
+        });
+      }
+      
+      // Step 3: Create the checkout session. The platform collects the payment and
+      // each organizer's share is transferred to their connected account once it completes.
+      
+      // Get domain from environment or request
+      const domain = process.env.DOMAIN || `${process.env.NODE_ENV === 'production' ? 'https' : req.protocol}://${req.get('host')}`;
+      
+      // Create line items for the hosted checkout
+      const lineItems: CheckoutLineItem[] = products.map(product => {
+        const item = items.find((i: any) => i.productId === product.id);
+        return {
+          name: product.name,
+          description: product.description || undefined,
+          unitAmount: Math.round(product.price * 100), // convert to cents
+          quantity: item.quantity,
+        };
+      });
+      
+      // Processing fees the organizers pass on to the buyer
+      if (buyerFees > 0) {
+        lineItems.push({
+          name: "Processing fee",
+          unitAmount: Math.round(buyerFees * 100), // convert to cents
+          quantity: 1,
+        });
+      }
+      
+      // Create a Checkout Session
+      const session = await paymentProvider.createCheckoutSession({
+        lineItems,
+        discount: promo && discountAmount > 0
+          ? { name: promo.promoCode.code, amount: Math.round(discountAmount * 100) } // convert to cents
+          : undefined,
+        // Stripe requires at least 30 minutes; a later payment is still fulfilled by the webhook
+        expiresAt: new Date(Math.max(expiresAt.getTime(), Date.now() + 31 * 60 * 1000)),
+        successUrl: `${domain}/checkout/success?order_id=${primaryOrder.id}&session_id={CHECKOUT_SESSION_ID}`,
+        cancelUrl: `${domain}/checkout/cancel?order_id=${primaryOrder.id}`,
+        
+        // Payouts to the organizers are made against this group when the session completes
+        transferGroup: checkoutGroup,
+        
+        // Pass metadata to use in the webhook
+        metadata: {
+          orderId: primaryOrder.id.toString(),
+          orderIds: orderIds.join(","),
+          checkoutGroup,
+          userId: req.user.id.toString(),
+          eventId: primaryOrder.eventId.toString(),
+          promoCode: promo?.promoCode.code || "",
+          discountAmount: discountAmount.toString(),
+        },
+      });
+      
+      await storage.setOrdersStripeSession(orderIds, session.id);
+      
+      // Return the checkout session ID and URL to the client
+      res.status(200).json({
+        orderId: primaryOrder.id,
+        orderIds,
+        checkoutUrl: session.url,
+        clientSecret: session.clientSecret,
+      });
+    } catch (error: any) {
+      console.error("Checkout error:", error);
+      res.status(500).json({ message: error.message || "Failed to process checkout" });
+    }
+  });
+  
+  // Get user orders (protected)
+  app.get("/api/my-orders", requireAuth, async (req, res) => {
+    try {
+      const orders = await storage.getOrdersByUser(req.user.id);
+      res.json(orders);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch orders" });
+    }
+  });
+  
+  // Get order details (protected)
+  app.get("/api/orders/:id", requireAuth, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const order = await storage.getOrder(orderId);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      // Check permissions (user's own order or admin)
+      if (req.user.role !== "admin" && order.userId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to view this order" });
+      }
+      
+      // Get order items
+      const orderItems = await storage.getOrderItems(orderId);
+      
+      // Get tickets if any
+      const tickets = await storage.getTicketsByOrder(orderId);
+      
+      // Get refund history
+      const refunds = await storage.getRefundsByOrder(orderId);
+      
+      // Orders placed in the same checkout (one per event), so the buyer sees everything they paid for
+      const groupOrders = order.checkoutGroup
+        ? await storage.getOrdersByCheckoutGroup(order.checkoutGroup)
+        : [order];
+      const checkoutOrders = await Promise.all(groupOrders.map(async (groupOrder) => {
+        const event = await storage.getEvent(groupOrder.eventId);
+        return {
+          order: groupOrder,
+          items: groupOrder.id === orderId ? orderItems : await storage.getOrderItems(groupOrder.id),
+          eventTitle: event?.title || null,
+        };
+      }));
+      
+      res.json({
+        order,
+        items: orderItems,
+        tickets,
+        refunds,
+        checkoutOrders,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch order details" });
+    }
+  });
+  
+  // Update order status (admin only)
+  app.put("/api/orders/:id/status", requireAdmin, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const { status } = req.body;
+      
+      if (!["pending", "completed", "cancelled", "refunded"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      
+      const updatedOrder = await storage.updateOrderStatus(orderId, status);
+      res.json(updatedOrder);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to update order status" });
+    }
+  });
+  
+  // Get refund history for an order (protected, event owner/admin only)
+  app.get("/api/orders/:id/refunds", requireAuth, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const order = await storage.getOrder(orderId);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const event = await storage.getEvent(order.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view refunds for this order" });
+      }
+      
+      const refunds = await storage.getRefundsByOrder(orderId);
+      res.json(refunds);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch refunds" });
+    }
+  });
+  
+  // Moves the money for refunds of the order. The idempotency keys make a retried refund or
+  // reversal return the original instead of paying out twice.
+  const issueOrderRefund = (order: schema.Order, reason?: string): RefundIssuer => ({
+    refund: async (amount, idempotencyKey) => {
+      // Only orders charged through the provider (checkout or card on file) have a payment to refund;
+      // cash is refunded by hand, so only record it
+      if (!order.stripePaymentId || amount <= 0) {
+        return null;
+      }
+      
+      const refund = await paymentProvider.createRefund({
+        paymentIntentId: order.stripePaymentId,
+        amount: Math.round(amount * 100), // convert to cents
+        metadata: {
+          orderId: order.id.toString(),
+          reason: reason || "",
+        },
+        idempotencyKey,
+      });
+      return refund.id;
+    },
+    // Orders from a split checkout were paid out by a separate transfer, so reverse the
+    // organizer's share of the refund; the platform's share of fees comes back out of the platform
+    reverseTransfer: async (amount, refundId, idempotencyKey) => {
+      const organizerShare = order.totalAmount > 0 ? getOrderNetAmount(order) / order.totalAmount : 0;
+      const reversal = await paymentProvider.reverseTransfer(
+        order.stripeTransferId!,
+        Math.round(amount * organizerShare * 100), // convert to cents
+        { orderId: order.id.toString(), refundId: refundId || "" },
+        idempotencyKey
+      );
+      return reversal.id;
+    },
+  });
+  
+  // Refund an order in full, or specific items by quantity (protected, event owner/admin only)
+  // Body: { items?: [{ orderItemId, quantity }], reason?: string }
+  app.post("/api/orders/:id/refunds", requireAuth, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const { items, reason } = req.body;
+      const order = await storage.getOrder(orderId);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const event = await storage.getEvent(order.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to refund this order" });
+      }
+      
+      if (items !== undefined && !Array.isArray(items)) {
+        return res.status(400).json({ message: "items must be an array of { orderItemId, quantity }" });
+      }
+      
+      if (order.paymentMethod === "stripe" && !order.stripePaymentId) {
+        return res.status(400).json({ message: "Order has no Stripe payment to refund" });
+      }
+      
+      const result = await storage.refundOrder(
+        orderId,
+        {
+          items: items?.map((item: any) => ({ orderItemId: Number(item.orderItemId), quantity: Number(item.quantity) })),
+          reason,
+          createdBy: req.user!.id,
+        },
+        issueOrderRefund(order, reason)
+      );
+      
+      // Refunded units are back in stock
+      offerFreedCapacityForOrder(orderId);
+      
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error instanceof InvalidRefundError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof RefundInProgressError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Refund error:", error);
+      res.status(500).json({ message: error.message || "Failed to refund order" });
+    }
+  });
+
+  // === POINT OF SALE API ===
+
+  // Get the signed-in staff member's open cash drawer for an event (event owner/admin only)
+  app.get("/api/events/:eventId/pos/drawer", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to sell for this event" });
+      }
+      
+      const drawer = await storage.getOpenCashDrawer(eventId, req.user!.id);
+      if (!drawer) {
+        return res.json(null);
+      }
+      
+      const totals = await storage.getCashDrawerTotals(drawer.id);
+      res.json({ ...drawer, ...totals });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch cash drawer" });
+    }
+  });
+  
+  // Open a cash drawer with its starting float (event owner/admin only)
+  app.post("/api/events/:eventId/pos/drawer", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to sell for this event" });
+      }
+      
+      if (await storage.getOpenCashDrawer(eventId, req.user!.id)) {
+        return res.status(400).json({ message: "You already have an open cash drawer for this event" });
+      }
+      
+      const drawerData = insertCashDrawerSessionSchema.parse({
+        eventId,
+        openedBy: req.user!.id,
+        openingAmount: Number(req.body.openingAmount),
+        notes: req.body.notes || null,
+      });
+      
+      const drawer = await storage.openCashDrawer(drawerData);
+      res.status(201).json(drawer);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cash drawer data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to open cash drawer" });
+    }
+  });
+  
+  // Close a cash drawer with the counted amount (the staff member who opened it, or event owner/admin)
+  app.post("/api/pos/drawers/:id/close", requireAuth, async (req, res) => {
+    try {
+      const drawerId = parseInt(req.params.id);
+      const drawer = await storage.getCashDrawerSession(drawerId);
+      
+      if (!drawer) {
+        return res.status(404).json({ message: "Cash drawer not found" });
+      }
+      
+      const event = await storage.getEvent(drawer.eventId);
+      if (req.user!.role !== "admin" && drawer.openedBy !== req.user!.id && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to close this cash drawer" });
+      }
+      
+      const closingAmount = Number(req.body.closingAmount);
+      if (!Number.isFinite(closingAmount) || closingAmount < 0) {
+        return res.status(400).json({ message: "closingAmount must be the counted cash in the drawer" });
+      }
+      
+      if (drawer.status !== "open") {
+        return res.status(400).json({ message: "Cash drawer is already closed" });
+      }
+      
+      const closed = await storage.closeCashDrawer(drawerId, req.user!.id, closingAmount, req.body.notes);
+      res.json({
+        ...closed,
+        variance: Math.round((closingAmount - (closed.expectedAmount || 0)) * 100) / 100,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to close cash drawer" });
+    }
+  });
+  
+  // Cash drawer history for reconciliation (event owner/admin only)
+  app.get("/api/events/:eventId/pos/drawers", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view cash drawers for this event" });
+      }
+      
+      const drawers = await storage.getCashDrawerSessionsByEvent(eventId);
+      const drawersWithTotals = await Promise.all(drawers.map(async (drawer) => {
+        const totals = await storage.getCashDrawerTotals(drawer.id);
+        return {
+          ...drawer,
+          ...totals,
+          variance: drawer.closingAmount !== null && drawer.expectedAmount !== null
+            ? Math.round((drawer.closingAmount - drawer.expectedAmount) * 100) / 100
+            : null,
+        };
+      }));
+      
+      res.json(drawersWithTotals);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch cash drawers" });
+    }
+  });
+  
+  const DOOR_PAYMENT_CODE_MINUTES = 10;
+  
+  // A code the signed-in user reads out at the door to let staff charge their card on file (protected)
+  app.post("/api/user/door-payment-code", requireAuth, async (req, res) => {
+    try {
+      if (!req.user!.stripeCustomerId) {
+        return res.status(400).json({ message: "You don't have a card on file" });
+      }
+      
+      const code = randomInt(0, 1000000).toString().padStart(6, "0");
+      const expiresAt = new Date(Date.now() + DOOR_PAYMENT_CODE_MINUTES * 60 * 1000);
+      await storage.createDoorPaymentCode(req.user!.id, code, expiresAt);
+      res.status(201).json({ code, expiresAt });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to create door payment code" });
+    }
+  });
+  
+  // Ring up a door sale (event owner/admin only). The order is paid and its tickets issued
+  // immediately, and can be checked in on the spot.
+  app.post("/api/events/:eventId/pos/sales", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
+      
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to sell for this event" });
+      }
+      
+      const { items, paymentMethod, buyerEmail, doorPaymentCode, amountTendered, checkIn, notes } = req.body;
+      
+      if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ message: "No items provided for sale" });
+      }
+      
+      if (!["cash", "comp", "card_on_file"].includes(paymentMethod)) {
+        return res.status(400).json({ message: "paymentMethod must be cash, comp or card_on_file" });
+      }
+      
+      const drawer = await storage.getOpenCashDrawer(eventId, req.user!.id);
+      if (paymentMethod === "cash" && !drawer) {
+        return res.status(400).json({ message: "Open a cash drawer before taking cash" });
+      }
+      
+      // Buyers with an account get the tickets on it; walk-ups without one are recorded
+      // against the shared walk-up account, keeping the email they gave
+      const buyer = buyerEmail ? await storage.getUserByEmail(buyerEmail) : undefined;
+      if (paymentMethod === "card_on_file") {
+        if (!buyer) {
+          return res.status(400).json({ message: "No account found for this buyer email" });
+        }
+        if (!buyer.stripeCustomerId) {
+          return res.status(400).json({ message: "No card on file for this buyer" });
+        }
+        if (!doorPaymentCode) {
+          return res.status(400).json({ message: "Ask the buyer for the door payment code from their profile" });
+        }
+      }
+      
+      const orderItems = [];
+      for (const item of items) {
+        const product = await storage.getProduct(Number(item.productId));
+        if (!product || product.eventId !== eventId) {
+          return res.status(404).json({ message: `Product ${item.productId} not found for this event` });
+        }
+        
+        const unavailableReason = getTierUnavailableReason(product);
+        if (unavailableReason) {
+          return res.status(400).json({ message: unavailableReason, productId: product.id });
+        }
+        
+        const quantity = Number(item.quantity);
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+          return res.status(400).json({ message: `Invalid quantity for ${product.name}` });
+        }
+        
+        // Comps are recorded at full price with the whole amount discounted
+        const unitPrice = getCurrentTierPrice(product);
+        const lineTotal = unitPrice * quantity;
+        const lineDiscount = paymentMethod === "comp" ? lineTotal : 0;
+        orderItems.push({
+          itemId: product.id,
+          itemType: product.type,
+          name: product.name,
+          description: product.description,
+          quantity,
+          unitPrice,
+          discountAmount: lineDiscount,
+          totalPrice: lineTotal - lineDiscount,
+          metadata: product.type === "ticket"
+            ? { ...item.registrationData, ticketType: product.ticketType, entryRule: product.entryRule }
+            : item.registrationData || null
+        });
       }
       
-      // Check if the event exists
-      const event = await storage.getEvent(eventId);
-      if (!event) {
-        return res.status(404).json({ message: "Event not found" });
+      const subtotal = Math.round(orderItems.reduce((sum, item) => sum + item.totalPrice, 0) * 100) / 100;
+      const discountAmount = Math.round(orderItems.reduce((sum, item) => sum + item.discountAmount, 0) * 100) / 100;
+      
+      // Only card payments go through the processor, so cash and comps carry no fees
+      const fees = paymentMethod === "card_on_file"
+        ? calculateOrderFees(event, subtotal)
+        : { totalAmount: subtotal, platformFeeAmount: 0, processingFeeAmount: 0, buyerFeeAmount: 0 };
+      
+      const tendered = amountTendered !== undefined && amountTendered !== "" ? Number(amountTendered) : fees.totalAmount;
+      if (paymentMethod === "cash" && !(tendered >= fees.totalAmount)) {
+        return res.status(400).json({ message: `Cash tendered is less than the ${fees.totalAmount.toFixed(2)} due` });
       }
       
-      // Create registration
-      const registration = await db.insert(vendorRegistrations).values({
-        vendorProfileId: profileId,
-        vendorSpotId: vendorSpotRegistration?.id,
-        eventId: eventId,
-        status: "success",
-        metadata: {
-          preferredLocation,
-          productsDescription
+      const buyerUserId = buyer?.id ?? (await storage.getWalkUpUser()).id;
+      
+      let order;
+      try {
+        [{ order }] = await storage.createPendingOrders([{
+          order: {
+            userId: buyerUserId,
+            eventId,
+            status: "pending",
+            paymentStatus: "pending",
+            totalAmount: fees.totalAmount,
+            paymentMethod: paymentMethod === "comp" || fees.totalAmount > 0 ? paymentMethod : "free",
+            discountAmount,
+            platformFeeAmount: fees.platformFeeAmount,
+            processingFeeAmount: fees.processingFeeAmount,
+            buyerFeeAmount: fees.buyerFeeAmount,
+            cashDrawerSessionId: drawer?.id ?? null,
+            buyerEmail: buyerEmail || null,
+            // Card payments are collected by the platform and transferred to the organizer
+            checkoutGroup: paymentMethod === "card_on_file" ? `pos_${randomBytes(8).toString("hex")}` : null,
+            notes: notes || null
+          },
+          items: orderItems
+        }], getOrderHoldExpiry());
+      } catch (error: any) {
+        if (error instanceof InsufficientStockError) {
+          return res.status(400).json({
+            message: error.message,
+            productId: error.productId,
+            productName: error.productName,
+            available: error.available
+          });
         }
-      }).returning();
+        throw error;
+      }
       
-      // Return the created registration
-      res.status(201).json(registration[0]);
+      // The buyer approves the charge with a code only they can get, so knowing their email isn't
+      // enough. It's used up once the items are held, so a sold-out item doesn't cost the buyer
+      // their code, and any wrong guess still does.
+      if (paymentMethod === "card_on_file" && !(await storage.consumeDoorPaymentCode(buyer!.id, String(doorPaymentCode)))) {
+        if (await storage.releaseOrderHold(order.id, "cancelled")) {
+          offerFreedCapacityForOrder(order.id);
+        }
+        return res.status(403).json({ message: "That door payment code is wrong or has expired, ask the buyer for a new one" });
+      }
+      
+      let paymentIntentId: string | undefined;
+      if (paymentMethod === "card_on_file" && fees.totalAmount > 0) {
+        try {
+          ({ paymentIntentId } = await paymentProvider.chargeSavedCard({
+            customerId: buyer!.stripeCustomerId!,
+            amount: Math.round(fees.totalAmount * 100), // convert to cents
+            transferGroup: order.checkoutGroup!,
+            metadata: {
+              orderId: order.id.toString(),
+              userId: order.userId.toString(),
+              eventId: eventId.toString(),
+            },
+          }));
+        } catch (error: any) {
+          if (await storage.releaseOrderHold(order.id, "cancelled")) {
+            offerFreedCapacityForOrder(order.id);
+          }
+          return res.status(402).json({ message: error.message || "Card on file payment failed" });
+        }
+      }
+      
+      const fulfilled = await storage.fulfillOrder(order.id, paymentIntentId);
+      let issuedTickets = fulfilled.tickets;
+      
+      // Walk-ups who gave an email get their tickets sent to it
+      if (buyerEmail) {
+        emailService.sendOrderConfirmationEmail(order.id, buyerEmail);
+      }
+      
+      if (paymentIntentId) {
+        await transferOrderFunds(fulfilled.order, paymentIntentId);
+      }
+      
+      // Let the buyer straight in, as a scan at the box office would, so each ticket's entry rule
+      // still applies. Tickets it refuses (say, for a later day) are left to be scanned at the gate.
+      if (checkIn) {
+        const scannedTickets = [];
+        for (const ticket of issuedTickets) {
+          const scan = await storage.scanTicket(ticket.id, {
+            eventId,
+            direction: "in",
+            gate: "Box Office",
+            staffUserId: req.user!.id,
+          });
+          scannedTickets.push(scan.ticket);
+          
+          if (!scan.refusal) {
+            await storage.recordAnalyticEvent({
+              eventId,
+              metric: scan.firstEntry ? "check_ins" : "re_entries",
+              value: 1,
+              dimension: "ticket_type",
+              dimensionValue: ticket.ticketType,
+            });
+          }
+        }
+        issuedTickets = scannedTickets;
+      }
+      
+      res.status(201).json({
+        order: fulfilled.order,
+        items: await storage.getOrderItems(order.id),
+        tickets: issuedTickets,
+        changeDue: paymentMethod === "cash" ? Math.round((tendered - fees.totalAmount) * 100) / 100 : 0,
+      });
     } catch (error: any) {
-      console.error("Error creating vendor registration:", error);
-      res.status(500).json({ message: error.message || "Failed to create vendor registration" });
+      console.error("Point of sale error:", error);
+      res.status(500).json({ message: error.message || "Failed to complete sale" });
     }
   });
-  
-  // Get vendor registrations for an event (protected, event owner/admin only)
-  app.get("/api/events/:eventId/vendor-registrations", requireAuth, async (req, res) => {
+
+  // === TICKETS API ===
+
+  // Get tickets for an event (protected, event owner/admin only)
+  app.get("/api/events/:eventId/tickets", requireAuth, async (req, res) => {
     try {
       const eventId = parseInt(req.params.eventId);
       const event = await storage.getEvent(eventId);
@@ -1088,176 +3927,486 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Check permissions
       if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to view registrations for this event" });
+        return res.status(403).json({ message: "Not authorized to view tickets for this event" });
       }
       
-      const vendorRegistrations = await storage.getVendorRegistrations({
-        eventId
-      });
-      res.json(vendorRegistrations);
+      const tickets = await storage.getTicketsByEvent(eventId);
+      res.json(tickets);
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch vendor registrations" });
+      res.status(500).json({ message: error.message || "Failed to fetch tickets" });
     }
   });
-  
-  // Update vendor registration status (protected, event owner/admin only)
-  app.put("/api/vendor-registrations/:id/status", requireAuth, async (req, res) => {
+
+  // Get user tickets (protected)
+  app.get("/api/my-tickets", requireAuth, async (req, res) => {
     try {
-      const registrationId = parseInt(req.params.id);
+      const ordersWithItems = await storage.getCompletedPaidOrdersWithItems(req.user.id);
+      const transfers = await storage.getTicketTransfersByUser(req.user!.id);
+      const now = new Date();
+      
+      // Each ticket carries the transfer its holder has offered it in, if any
+      const userTickets = (await storage.getTicketsByUser(req.user!.id)).map(ticket => ({
+        ...ticket,
+        pendingTransfer: transfers.find(transfer =>
+          transfer.ticketId === ticket.id && transfer.status === "pending" && transfer.expiresAt > now
+        ) || null,
+      }));
+      
+      // Flatten order items from all orders, attaching the tickets issued for each item
+      const allOrderItems = ordersWithItems.flatMap(order => 
+        order.items.map(item => ({
+          ...item,
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          eventId: order.eventId,
+          eventTitle: order.eventTitle,
+          purchaseDate: order.createdAt,
+          orderStatus: order.status,
+          paymentStatus: order.paymentStatus,
+          tickets: userTickets.filter(ticket => ticket.orderItemId === item.id)
+        }))
+      );
+      
+      // Tickets transferred to the user come from someone else's order
+      const ownItemIds = new Set(allOrderItems.map(item => item.id));
+      const receivedTickets = userTickets.filter(ticket => !ownItemIds.has(ticket.orderItemId!));
+      for (const orderId of Array.from(new Set(receivedTickets.map(ticket => ticket.orderId)))) {
+        const order = await storage.getOrder(orderId);
+        const event = order ? await storage.getEvent(order.eventId) : undefined;
+        for (const item of await storage.getOrderItems(orderId)) {
+          const itemTickets = receivedTickets.filter(ticket => ticket.orderItemId === item.id);
+          if (itemTickets.length === 0) continue;
+          
+          allOrderItems.push({
+            ...item,
+            quantity: itemTickets.length,
+            orderId,
+            orderNumber: order?.orderNumber || "",
+            eventId: order?.eventId || itemTickets[0].eventId,
+            eventTitle: event?.title || null,
+            purchaseDate: transfers.find(transfer => transfer.ticketId === itemTickets[0].id)?.acceptedAt || item.createdAt,
+            orderStatus: order?.status || "completed",
+            paymentStatus: order?.paymentStatus || "paid",
+            tickets: itemTickets,
+            transferred: true,
+          } as typeof allOrderItems[number]);
+        }
+      }
+      
+      res.json(allOrderItems);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch tickets" });
+    }
+  });
+
+  // Update ticket status (protected, admin only)
+  app.put("/api/tickets/:id/status", requireAdmin, async (req, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
       const { status } = req.body;
       
-      if (!["pending", "approved", "rejected", "cancelled"].includes(status)) {
+      if (!["active", "used", "cancelled", "refunded"].includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
       
-      // Get the registration
-      const registration = await storage.getVendorRegistration(registrationId);
-      if (!registration) {
-        return res.status(404).json({ message: "Registration not found" });
+      const updatedTicket = await storage.updateTicketStatus(ticketId, status);
+      res.json(updatedTicket);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to update ticket status" });
+    }
+  });
+  
+  // Check in ticket (protected, event owner/admin only). Scanners pass the scanned code,
+  // which has to belong to this ticket, and the gate they're at. Whether a ticket that has
+  // been in before can enter again depends on its entry rule.
+  app.post("/api/tickets/:id/check-in", requireAuth, async (req, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
+      
+      if (req.body?.code && verifyTicketCode(req.body.code)?.ticketId !== ticketId) {
+        return res.status(400).json({ message: "Ticket code does not match this ticket" });
+      }
+      
+      const ticket = await storage.getTicket(ticketId);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      // Codes issued before a transfer carry the old ticket number
+      if (req.body?.code && verifyTicketCode(req.body.code)!.ticketNumber !== ticket.ticketNumber) {
+        return res.status(400).json({ message: "Ticket code has been replaced" });
       }
       
       // Check permissions
-      const event = await storage.getEvent(registration.eventId);
+      const event = await storage.getEvent(ticket.eventId);
       if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to update this registration" });
+        return res.status(403).json({ message: "Not authorized to check in tickets for this event" });
       }
       
-      const updatedRegistration = await storage.updateVendorRegistrationStatus(
-        registrationId, 
-        status,
-        req.user.id
-      );
+      const scan = await storage.scanTicket(ticketId, {
+        eventId: ticket.eventId,
+        direction: "in",
+        gate: req.body?.gate || null,
+        staffUserId: req.user!.id,
+      });
+      if (scan.refusal) {
+        return res.status(400).json({ message: scan.refusal });
+      }
+      
+      // Record analytics for check-in
+      await storage.recordAnalyticEvent({
+        eventId: ticket.eventId,
+        metric: scan.firstEntry ? "check_ins" : "re_entries",
+        value: 1,
+        dimension: "ticket_type",
+        dimensionValue: ticket.ticketType,
+      });
+      
+      res.json(scan.ticket);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to check in ticket" });
+    }
+  });
+  
+  // Scan a ticket out (protected, event owner/admin only). Only tickets currently inside can
+  // leave; single-entry tickets can be scanned out but not back in.
+  app.post("/api/tickets/:id/check-out", requireAuth, async (req, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
+      
+      if (req.body?.code && verifyTicketCode(req.body.code)?.ticketId !== ticketId) {
+        return res.status(400).json({ message: "Ticket code does not match this ticket" });
+      }
+      
+      const ticket = await storage.getTicket(ticketId);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      if (req.body?.code && verifyTicketCode(req.body.code)!.ticketNumber !== ticket.ticketNumber) {
+        return res.status(400).json({ message: "Ticket code has been replaced" });
+      }
+      
+      const event = await storage.getEvent(ticket.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to check out tickets for this event" });
+      }
+      
+      const scan = await storage.scanTicket(ticketId, {
+        eventId: ticket.eventId,
+        direction: "out",
+        gate: req.body?.gate || null,
+        staffUserId: req.user!.id,
+      });
+      if (scan.refusal) {
+        return res.status(400).json({ message: scan.refusal });
+      }
+      
+      res.json(scan.ticket);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to check out ticket" });
+    }
+  });
+  
+  // Verify ticket by number (protected, event owner/admin only)
+  app.get("/api/tickets/verify/:ticketNumber", requireAuth, async (req, res) => {
+    try {
+      const ticketNumber = req.params.ticketNumber;
+      const ticket = await storage.getTicketByNumber(ticketNumber);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      // Check permissions
+      const event = await storage.getEvent(ticket.eventId);
+      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Not authorized to verify tickets for this event" });
+      }
+      
+      res.json(ticket);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to verify ticket" });
+    }
+  });
+  
+  // Verify a scanned QR code (protected, event owner/admin only). Codes that fail the
+  // signature check are rejected before any lookup.
+  app.post("/api/tickets/verify-code", requireAuth, async (req, res) => {
+    try {
+      const { code, eventId } = req.body;
+      const decoded = typeof code === "string" ? verifyTicketCode(code) : null;
+      
+      if (!decoded) {
+        return res.status(400).json({ valid: false, message: "Invalid or forged ticket code" });
+      }
+      
+      if (eventId && decoded.eventId !== Number(eventId)) {
+        return res.status(400).json({ valid: false, message: "Ticket is for a different event" });
+      }
+      
+      const ticket = await storage.getTicket(decoded.ticketId);
+      if (!ticket || ticket.ticketNumber !== decoded.ticketNumber || ticket.eventId !== decoded.eventId) {
+        return res.status(404).json({ valid: false, message: "Ticket not found" });
+      }
+      
+      const event = await storage.getEvent(ticket.eventId);
+      if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+        return res.status(403).json({ valid: false, message: "Not authorized to verify tickets for this event" });
+      }
+      
+      const holder = await storage.getUser(ticket.userId);
+      const logs = await storage.getCheckInLogsByTicket(ticket.id);
+      const refusal = getEntryRefusal(ticket, logs, event?.timeZone ?? DEFAULT_TIME_ZONE);
+      res.json({
+        valid: !refusal,
+        message: refusal || (ticket.status === "used" ? "Valid ticket, re-entry" : "Valid ticket"),
+        inside: isInside(logs),
+        ticket,
+        holderName: ticket.attendeeName || holder?.name || holder?.username || null,
+        eventTitle: event?.title || null,
+      });
+    } catch (error: any) {
+      res.status(500).json({ valid: false, message: error.message || "Failed to verify ticket code" });
+    }
+  });
+  
+  // QR code image for a ticket (protected, ticket holder or event owner/admin)
+  app.get("/api/tickets/:id/qr", requireAuth, async (req, res) => {
+    try {
+      const ticket = await storage.getTicket(parseInt(req.params.id));
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      if (ticket.userId !== req.user!.id && req.user!.role !== "admin") {
+        const event = await storage.getEvent(ticket.eventId);
+        if (event?.ownerId !== req.user!.id) {
+          return res.status(403).json({ message: "Not authorized to view this ticket" });
+        }
+      }
+      
+      res.set("Cache-Control", "private, max-age=86400");
+      res.type("png").send(await renderTicketQrPng(ticket));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to render ticket QR code" });
+    }
+  });
+  
+  // Printable PDF of a ticket (protected, ticket holder or event owner/admin)
+  app.get("/api/tickets/:id/pdf", requireAuth, async (req, res) => {
+    try {
+      const ticket = await storage.getTicket(parseInt(req.params.id));
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      const event = await storage.getEvent(ticket.eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (ticket.userId !== req.user!.id && req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view this ticket" });
+      }
+      
+      const order = await storage.getOrder(ticket.orderId);
+      res.set("Content-Disposition", `attachment; filename="${ticket.ticketNumber}.pdf"`);
+      res.type("pdf").send(await renderEventTickets(event, [ticket], order));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to render ticket PDF" });
+    }
+  });
+  
+  // All of an order's tickets in one PDF (protected, buyer or event owner/admin). The buyer
+  // only gets the tickets they still hold, not ones since transferred to someone else.
+  app.get("/api/orders/:id/tickets/pdf", requireAuth, async (req, res) => {
+    try {
+      const order = await storage.getOrder(parseInt(req.params.id));
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const event = await storage.getEvent(order.eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const isOrganizer = req.user!.role === "admin" || event.ownerId === req.user!.id;
+      if (!isOrganizer && order.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view this order" });
+      }
+      
+      const tickets = (await storage.getTicketsByOrder(order.id))
+        .filter(ticket => isOrganizer || ticket.userId === req.user!.id);
+      if (tickets.length === 0) {
+        return res.status(404).json({ message: "No tickets found for this order" });
+      }
       
-      res.json(updatedRegistration);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to update registration status" });
-    }
-  });
-
-  // === VOLUNTEER API ===
-  
-  // Get volunteer profile (protected)
-  app.get("/api/volunteer-profile", requireAuth, async (req, res) => {
-    try {
-      const volunteerProfile = await storage.getVolunteerProfile(req.user.id);
-      res.json(volunteerProfile || null);
+      res.set("Content-Disposition", `attachment; filename="tickets-${order.orderNumber}.pdf"`);
+      res.type("pdf").send(await renderEventTickets(event, tickets, order));
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch volunteer profile" });
+      res.status(500).json({ message: error.message || "Failed to render ticket PDF" });
     }
   });
   
-  // Create/update volunteer profile (protected)
-  app.post("/api/volunteer-profile", requireAuth, async (req, res) => {
+  // Receipt for a paid order, or an invoice for an unpaid one (protected, buyer or event owner/admin)
+  app.get("/api/orders/:id/receipt", requireAuth, async (req, res) => {
     try {
-      const existingProfile = await storage.getVolunteerProfile(req.user.id);
+      const order = await storage.getOrder(parseInt(req.params.id));
       
-      if (existingProfile) {
-        // Update existing profile
-        const updatedProfile = await storage.updateVolunteerProfile(existingProfile.id, req.body);
-        return res.json(updatedProfile);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
       
-      // Create new profile
-      const validatedData = insertVolunteerProfileSchema.parse({
-        ...req.body,
-        userId: req.user.id,
-      });
+      if (order.userId !== req.user!.id && req.user!.role !== "admin") {
+        const event = await storage.getEvent(order.eventId);
+        if (event?.ownerId !== req.user!.id) {
+          return res.status(403).json({ message: "Not authorized to view this order" });
+        }
+      }
       
-      const newProfile = await storage.createVolunteerProfile(validatedData);
-      res.status(201).json(newProfile);
+      res.set("Content-Disposition", `attachment; filename="receipt-${order.orderNumber}.pdf"`);
+      res.type("pdf").send(await renderOrderReceipt(order));
     } catch (error: any) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
-      }
-      res.status(500).json({ message: error.message || "Failed to save volunteer profile" });
+      res.status(500).json({ message: error.message || "Failed to render receipt" });
     }
   });
+
+  // === WAITLIST API ===
   
-  // Update volunteer profile by ID (protected)
-  app.put("/api/volunteer-profile/:id", requireAuth, async (req, res) => {
+  // Join the waitlist for something that's run out (protected). Body: { quantity }, always 1 for
+  // vendor spots and volunteer shifts, which hold one place per sign-up.
+  const joinWaitlist = (capacityType: schema.WaitlistCapacityType) => async (req: Request, res: Response) => {
     try {
-      const profileId = parseInt(req.params.id);
+      const capacity: schema.WaitlistCapacity = { type: capacityType, id: parseInt(req.params.id) };
+      const locked = await storage.getWaitlistCapacity(capacity);
       
-      // Get the profile to check ownership
-      const existingProfile = await storage.getVolunteerProfile(req.user.id);
+      if (!locked || !locked.isActive) {
+        return res.status(404).json({ message: "Waitlist not found" });
+      }
       
-      if (!existingProfile) {
-        return res.status(404).json({ message: "Volunteer profile not found" });
+      if (locked.available === null || locked.available > 0) {
+        return res.status(400).json({ message: `${locked.name} is still available` });
       }
       
-      if (existingProfile.id !== profileId) {
-        return res.status(403).json({ message: "Not authorized to update this profile" });
+      if (await storage.getActiveWaitlistEntry(capacity, req.user!.id)) {
+        return res.status(400).json({ message: `You are already on the waitlist for ${locked.name}` });
       }
       
-      const updatedProfile = await storage.updateVolunteerProfile(profileId, req.body);
-      res.json(updatedProfile);
+      const validatedData = schema.insertWaitlistEntrySchema.parse({
+        eventId: locked.eventId,
+        capacityType: capacity.type,
+        capacityId: capacity.id,
+        userId: req.user!.id,
+        quantity: capacityType === "vendor_spot" || capacityType === "volunteer_shift" ? 1 : req.body.quantity ?? 1,
+      });
+      
+      const entry = await storage.createWaitlistEntry(validatedData);
+      res.status(201).json(entry);
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to update volunteer profile" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid waitlist data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to join waitlist" });
     }
-  });
+  };
   
-  // Get volunteer shifts for an event
-  app.get("/api/events/:eventId/volunteer-shifts", async (req, res) => {
+  app.post("/api/products/:id/waitlist", requireAuth, joinWaitlist("product"));
+  app.post("/api/events/:id/tickets/waitlist", requireAuth, joinWaitlist("event"));
+  app.post("/api/vendor-spots/:id/waitlist", requireAuth, joinWaitlist("vendor_spot"));
+  app.post("/api/volunteer-shifts/:id/waitlist", requireAuth, joinWaitlist("volunteer_shift"));
+  
+  // The signed-in user's waitlist entries, with their place in line while waiting (protected)
+  app.get("/api/my-waitlist", requireAuth, async (req, res) => {
     try {
-      const eventId = parseInt(req.params.eventId);
-      const volunteerShifts = await storage.getVolunteerShifts(eventId);
-      res.json(volunteerShifts);
+      res.json(await storage.getWaitlistEntriesByUser(req.user!.id));
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch volunteer shifts" });
+      res.status(500).json({ message: error.message || "Failed to fetch waitlist" });
     }
   });
   
-  // Create volunteer shift (protected, event owner/admin only)
-  app.post("/api/events/:eventId/volunteer-shifts", requireAuth, async (req, res) => {
+  // Leave a waitlist (protected, the entry's user or the event owner/admin). Giving up an
+  // open offer passes its units to the next in line.
+  app.delete("/api/waitlist/:id", requireAuth, async (req, res) => {
     try {
-      const eventId = parseInt(req.params.eventId);
-      const event = await storage.getEvent(eventId);
+      const entry = await storage.getWaitlistEntry(parseInt(req.params.id));
       
-      if (!event) {
-        return res.status(404).json({ message: "Event not found" });
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
       }
       
-      // Check permissions
-      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to create volunteer shifts for this event" });
+      if (entry.userId !== req.user!.id) {
+        const event = await storage.getEvent(entry.eventId);
+        if (req.user!.role !== "admin" && event?.ownerId !== req.user!.id) {
+          return res.status(403).json({ message: "Not authorized to remove this waitlist entry" });
+        }
       }
       
-      const validatedData = insertVolunteerShiftSchema.parse({
-        ...req.body,
-        eventId,
-        availableSpots: req.body.capacity,
-      });
-      
-      const volunteerShift = await storage.createVolunteerShift(validatedData);
+      if (entry.status !== "waiting" && entry.status !== "offered") {
+        return res.status(400).json({ message: `Waitlist entry is already ${entry.status}` });
+      }
       
-      // Update event to indicate it has volunteer options
-      if (!event.volunteerOptions) {
-        await storage.updateEvent(eventId, { volunteerOptions: true });
+      const { released } = await storage.cancelWaitlistEntry(entry.id);
+      if (released) {
+        await offerFreedCapacity({ type: entry.capacityType as schema.WaitlistCapacityType, id: entry.capacityId });
       }
       
-      res.status(201).json(volunteerShift);
+      res.status(204).send();
     } catch (error: any) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid volunteer shift data", errors: error.errors });
-      }
-      res.status(500).json({ message: error.message || "Failed to create volunteer shift" });
+      res.status(500).json({ message: error.message || "Failed to leave waitlist" });
     }
   });
   
-  // Get my volunteer assignments (protected)
-  app.get("/api/my-volunteer-assignments", requireAuth, async (req, res) => {
+  // What a claim link holds, for the claim page (protected, the entry's user only)
+  app.get("/api/waitlist/claim/:token", requireAuth, async (req, res) => {
     try {
-      const volunteerAssignments = await storage.getVolunteerAssignments({
-        userId: req.user.id
+      const entry = await storage.getWaitlistEntryByToken(req.params.token);
+      
+      if (!entry || entry.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Waitlist offer not found" });
+      }
+      
+      const capacity = { type: entry.capacityType as schema.WaitlistCapacityType, id: entry.capacityId };
+      const [locked, event] = await Promise.all([storage.getWaitlistCapacity(capacity), storage.getEvent(entry.eventId)]);
+      if (!locked || !event) {
+        return res.status(404).json({ message: "Waitlist offer not found" });
+      }
+      
+      // Products are claimed through the cart, which needs them shaped like the event's product list
+      let product = null;
+      if (capacity.type === "product") {
+        const found = await storage.getProduct(capacity.id);
+        if (!found) {
+          return res.status(404).json({ message: "Waitlist offer not found" });
+        }
+        const questions = await storage.getAttendeeQuestionsByEvent(event.id);
+        product = {
+          ...withCurrentPrice(found, new Date()),
+          hasAttendeeQuestions: found.type === "ticket" && getQuestionsForProduct(questions, found.id).length > 0,
+        };
+      }
+      
+      res.json({
+        entry,
+        isExpired: entry.status === "offered" && (!entry.offerExpiresAt || entry.offerExpiresAt < new Date()),
+        eventTitle: event.title,
+        itemName: locked.name,
+        capacityType: capacity.type,
+        product,
       });
-      res.json(volunteerAssignments);
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch volunteer assignments" });
+      res.status(500).json({ message: error.message || "Failed to fetch waitlist offer" });
     }
   });
   
-  // Get volunteer assignments for an event (protected, event owner/admin only)
-  app.get("/api/events/:eventId/volunteer-assignments", requireAuth, async (req, res) => {
+  // The event's waitlists in queue order (protected, event owner/admin only)
+  app.get("/api/events/:eventId/waitlist", requireAuth, async (req, res) => {
     try {
       const eventId = parseInt(req.params.eventId);
       const event = await storage.getEvent(eventId);
@@ -1266,387 +4415,372 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" });
       }
       
-      // Check permissions
-      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to view assignments for this event" });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view this event's waitlist" });
       }
       
-      const volunteerAssignments = await storage.getVolunteerAssignments({
-        eventId
-      });
-      res.json(volunteerAssignments);
+      res.json(await storage.getWaitlistByEvent(eventId));
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch volunteer assignments" });
+      res.status(500).json({ message: error.message || "Failed to fetch waitlist" });
     }
   });
   
-  // Update volunteer assignment status (protected, event owner/admin only)
-  app.put("/api/volunteer-assignments/:id/status", requireAuth, async (req, res) => {
+  // Reorder one of the event's queues (protected, event owner/admin only).
+  // Body: { capacityType, capacityId, entryIds } listing every entry in the queue in its new order.
+  app.put("/api/events/:eventId/waitlist/order", requireAuth, async (req, res) => {
     try {
-      const assignmentId = parseInt(req.params.id);
-      const { status } = req.body;
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
       
-      if (!["pending", "approved", "rejected", "cancelled", "completed"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
       
-      // Get the assignment
-      const assignment = await storage.getVolunteerAssignment(assignmentId);
-      if (!assignment) {
-        return res.status(404).json({ message: "Assignment not found" });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to reorder this event's waitlist" });
       }
       
-      // Check permissions
-      const event = await storage.getEvent(assignment.eventId);
-      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to update this assignment" });
+      const { capacityType, capacityId, entryIds } = z.object({
+        capacityType: z.enum(schema.WAITLIST_CAPACITY_TYPES).default("product"),
+        capacityId: z.coerce.number().int(),
+        entryIds: z.array(z.coerce.number().int()),
+      }).parse(req.body);
+      
+      const queue = (await storage.getWaitlistByEvent(eventId))
+        .filter(entry => entry.capacityType === capacityType && entry.capacityId === capacityId);
+      const queueIds = queue.map(entry => entry.id).sort((a, b) => a - b);
+      const givenIds = Array.from(new Set(entryIds)).sort((a, b) => a - b);
+      if (queueIds.length !== givenIds.length || queueIds.some((id, index) => id !== givenIds[index])) {
+        return res.status(400).json({ message: "entryIds must list every entry in the waitlist" });
       }
       
-      const updatedAssignment = await storage.updateVolunteerAssignmentStatus(
-        assignmentId, 
-        status,
-        req.user.id
-      );
-      
-      res.json(updatedAssignment);
+      await storage.reorderWaitlist({ type: capacityType, id: capacityId }, entryIds);
+      res.json(await storage.getWaitlistByEvent(eventId));
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to update assignment status" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid waitlist order", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to reorder waitlist" });
     }
   });
 
-  // Create volunteer assignment (protected)
-  app.post("/api/volunteer-assignments", requireAuth, async (req, res) => {
+  // === TICKET TRANSFER API ===
+  
+  const TICKET_TRANSFER_EXPIRY_DAYS = 7;
+  
+  // Offer a ticket to someone by email (protected, ticket holder only).
+  // Body: { email }. The recipient gets a link to accept it.
+  app.post("/api/tickets/:id/transfer", requireAuth, async (req, res) => {
     try {
-      const { shiftId, volunteerShiftId, eventId, notes } = req.body;
-      const actualShiftId = shiftId || volunteerShiftId;
+      const ticket = await storage.getTicket(parseInt(req.params.id));
       
-      if (!actualShiftId || !eventId) {
-        return res.status(400).json({ message: "shiftId and eventId are required" });
+      if (!ticket || ticket.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Ticket not found" });
       }
       
-      // Get user's volunteer profile
-      const volunteerProfile = await storage.getVolunteerProfile(req.user.id);
-      if (!volunteerProfile) {
-        return res.status(400).json({ message: "Volunteer profile not found. Please create a volunteer profile first." });
+      if (ticket.status !== "active") {
+        return res.status(400).json({ message: `Only active tickets can be transferred, this one is ${ticket.status}` });
       }
       
-      // Check if assignment already exists
-      const existingAssignments = await storage.getVolunteerAssignments({
-        userId: req.user.id,
-        shiftId: actualShiftId,
-        eventId
-      });
+      const email = z.string().email().safeParse(typeof req.body.email === "string" ? req.body.email.trim() : "");
+      if (!email.success) {
+        return res.status(400).json({ message: "A valid email address is required" });
+      }
       
-      if (existingAssignments.length > 0) {
-        return res.status(400).json({ message: "You are already assigned to this shift" });
+      if (email.data.toLowerCase() === req.user!.email.toLowerCase()) {
+        return res.status(400).json({ message: "You already hold this ticket" });
       }
       
-      const assignmentData = {
-        volunteerProfileId: volunteerProfile.id,
-        shiftId: parseInt(actualShiftId),
-        eventId: parseInt(eventId),
-        status: "pending",
-        notes: notes || null,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      if (await storage.getPendingTicketTransfer(ticket.id)) {
+        return res.status(400).json({ message: "This ticket already has a pending transfer. Cancel it first." });
+      }
       
-      const newAssignment = await storage.createVolunteerAssignment(assignmentData);
-      res.status(201).json(newAssignment);
+      const transfer = await storage.createTicketTransfer({
+        ticketId: ticket.id,
+        fromUserId: req.user!.id,
+        toEmail: email.data,
+        token: randomBytes(24).toString("hex"),
+        oldTicketNumber: ticket.ticketNumber,
+        expiresAt: new Date(Date.now() + TICKET_TRANSFER_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+      });
+      
+      const domain = process.env.DOMAIN || `${req.protocol}://${req.get('host')}`;
+      const acceptUrl = `${domain}/transfers/${transfer.token}`;
+      emailService.sendTicketTransferEmail(transfer.id, acceptUrl);
+      
+      res.status(201).json({ transfer, acceptUrl });
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to create volunteer assignment" });
+      res.status(500).json({ message: error.message || "Failed to transfer ticket" });
     }
   });
-
-  // === CHECKOUT & ORDERS API ===
-
-  // Checkout success page
-  app.get("/checkout/success", async (req, res) => {
+  
+  // Cancel a pending transfer (protected, sender only)
+  app.post("/api/ticket-transfers/:id/cancel", requireAuth, async (req, res) => {
     try {
-      const { order_id, session_id } = req.query;
+      const transfer = await storage.getTicketTransfer(parseInt(req.params.id));
       
-      if (!order_id || !session_id) {
-        return res.status(400).send("Missing order_id or session_id");
+      if (!transfer || transfer.fromUserId !== req.user!.id) {
+        return res.status(404).json({ message: "Transfer not found" });
       }
       
-      // Verify the checkout session
-      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-        apiVersion: "2023-10-16" as any,
-      });
-      
-      const session = await stripe.checkout.sessions.retrieve(session_id as string);
-      
-      if (!session) {
-        return res.status(404).send("Invalid checkout session");
+      if (transfer.status !== "pending") {
+        return res.status(400).json({ message: `Transfer has already been ${transfer.status}` });
       }
       
-      // Update order status to paid
-      await storage.updateOrderStatus(Number(order_id), "completed");
-      await storage.updateOrderPaymentStatus(Number(order_id), "paid");
-      
-      // Redirect to the order confirmation page
-      res.redirect(`/orders/${order_id}?success=true`);
+      res.json(await storage.cancelTicketTransfer(transfer.id));
     } catch (error: any) {
-      console.error("Checkout success error:", error);
-      res.status(500).send(`Error processing checkout: ${error.message}`);
+      res.status(500).json({ message: error.message || "Failed to cancel transfer" });
     }
   });
   
-  // Checkout cancel page
-  app.get("/checkout/cancel", async (req, res) => {
+  // What a transfer link offers, for the acceptance page (protected)
+  app.get("/api/ticket-transfers/:token", requireAuth, async (req, res) => {
     try {
-      const { order_id } = req.query;
+      const transfer = await storage.getTicketTransferByToken(req.params.token);
       
-      if (!order_id) {
-        return res.status(400).send("Missing order_id");
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
       }
       
-      // Update order status to cancelled
-      await storage.updateOrderStatus(Number(order_id), "cancelled");
-      await storage.updateOrderPaymentStatus(Number(order_id), "cancelled");
+      const ticket = await storage.getTicket(transfer.ticketId);
+      const event = ticket ? await storage.getEvent(ticket.eventId) : undefined;
+      const sender = await storage.getUser(transfer.fromUserId);
       
-      // Redirect to the cart page
-      res.redirect(`/cart?cancelled=true`);
+      res.json({
+        id: transfer.id,
+        status: transfer.status,
+        toEmail: transfer.toEmail,
+        expiresAt: transfer.expiresAt,
+        isExpired: transfer.status === "pending" && transfer.expiresAt < new Date(),
+        ticketType: ticket?.ticketType || null,
+        eventId: event?.id || null,
+        eventTitle: event?.title || null,
+        eventStartDate: event?.startDate || null,
+        eventLocation: event?.location || null,
+        fromName: sender?.name || sender?.username || null,
+      });
     } catch (error: any) {
-      console.error("Checkout cancel error:", error);
-      res.status(500).send(`Error cancelling checkout: ${error.message}`);
+      res.status(500).json({ message: error.message || "Failed to fetch transfer" });
     }
   });
-
-  // Checkout endpoint (protected)
-  app.post("/api/checkout", requireAuth, async (req, res) => {
+  
+  // Accept a transfer (protected, signed in with the address it was sent to). The ticket
+  // moves to the recipient under a new number, which invalidates the sender's QR code.
+  app.post("/api/ticket-transfers/:token/accept", requireAuth, async (req, res) => {
     try {
-      if (!req.user) {
-        return res.status(401).json({ message: "Authentication required" });
+      const transfer = await storage.getTicketTransferByToken(req.params.token);
+      
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
       }
-
-      const { items } = req.body;
       
-      if (!items || !items.length) {
-        return res.status(400).json({ message: "No items provided for checkout" });
+      if (transfer.status !== "pending") {
+        return res.status(400).json({ message: `This transfer has already been ${transfer.status}` });
       }
       
-      // Extract product data first to get eventId
-      let totalAmount = 0;
-      let products = [];
-      let eventIds = new Set();
+      if (transfer.expiresAt < new Date()) {
+        return res.status(400).json({ message: "This transfer has expired. Ask the sender to send it again." });
+      }
       
-      for (const item of items) {
-        const product = await storage.getProduct(item.productId);
-        if (!product) {
-          return res.status(404).json({ message: `Product ${item.productId} not found` });
-        }
-        
-        products.push(product);
-        eventIds.add(product.eventId);
-        
-        // Add to total
-        totalAmount += product.price * item.quantity;
+      if (req.user!.email.toLowerCase() !== transfer.toEmail) {
+        return res.status(403).json({ message: `This ticket was sent to ${transfer.toEmail}. Sign in with that address to accept it.` });
       }
       
-      if (eventIds.size === 0) {
-        return res.status(400).json({ message: "No valid products found" });
+      const ticket = await storage.getTicket(transfer.ticketId);
+      if (!ticket || ticket.status !== "active" || ticket.userId !== transfer.fromUserId) {
+        return res.status(400).json({ message: "This ticket can no longer be transferred" });
       }
       
-      // Validate slot availability before creating order
-      // this is wrong requestedQuantity is 1 but quantity is 8000 why im getting this error?
+      const accepted = await storage.acceptTicketTransfer(transfer.id, req.user!);
+      log(`Ticket ${transfer.oldTicketNumber} transferred to user ${req.user!.id} as ${accepted.ticket.ticketNumber}`, "tickets");
       
-      // for (const item of items) {
-      //   const product = products.find(p => p.id === item.productId);
-      //   const isAvailable = await storage.checkSlotAvailability(product.type, product.id, item.quantity);
-        
-      //   if (!isAvailable) {
-      //     return res.status(400).json({ 
-      //       message: `Insufficient availability for ${product.name}. Only limited slots remaining.`,
-      //       productId: product.id,
-      //       productName: product.name,
-      //       requestedQuantity: item.quantity
-      //     });
-      //   }
-      // }
-      
-      // Get the primary event for this order
-      const eventId = Array.from(eventIds)[0];
-      
-      // Step 1: Create an order
-      const order = await storage.createOrder({
-        userId: req.user.id,
-        eventId: eventId,
-        status: "pending",
-        paymentStatus: "pending",
-        totalAmount: totalAmount,
-        paymentMethod: "stripe"
-      });
+      res.json(accepted);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to accept transfer" });
+    }
+  });
+
+  // === WALLET PASS API ===
+  
+  // Apple Wallet pass for a ticket (protected, holder or event owner/admin)
+  app.get("/api/tickets/:id/wallet/apple", requireAuth, async (req, res) => {
+    try {
+      const ticket = await storage.getTicket(parseInt(req.params.id));
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
       
-      // Step 2: Create order items
-      for (const item of items) {
-        const product = products.find(p => p.id === item.productId);
-        
-        // Create order item
-        await storage.createOrderItem({
-          orderId: order.id,
-          itemId: product.id,
-          itemType: product.type,
-          name: product.name,
-          description: product.description,
-          quantity: item.quantity,
-          unitPrice: product.price,
-          totalPrice: product.price * item.quantity,
-          metadata: item.registrationData || null
-        });
+      if (ticket.userId !== req.user!.id && req.user!.role !== "admin") {
+        const event = await storage.getEvent(ticket.eventId);
+        if (event?.ownerId !== req.user!.id) {
+          return res.status(403).json({ message: "Not authorized to view this ticket" });
+        }
       }
       
-      // Update order total
-      await storage.updateOrderStatus(order.id, "pending");
-      const updatedOrder = await storage.updateOrderPaymentStatus(order.id, "pending");
+      const pass = await renderApplePass(ticket);
+      if (!pass) {
+        return res.status(503).json({ message: "Apple Wallet passes are not configured" });
+      }
       
-      // Step 3: Get event owner's Stripe account
-      const event = await storage.getEvent(eventId);
+      res.set("Content-Disposition", `attachment; filename="${ticket.ticketNumber}.pkpass"`);
+      res.type("application/vnd.apple.pkpass").send(pass);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to create Apple Wallet pass" });
+    }
+  });
+  
+  // Google Wallet save link and pass object for a ticket (protected, holder or event owner/admin)
+  app.get("/api/tickets/:id/wallet/google", requireAuth, async (req, res) => {
+    try {
+      const ticket = await storage.getTicket(parseInt(req.params.id));
       
-      if (!event) {
-        await storage.updateOrderStatus(order.id, "cancelled");
-        return res.status(404).json({ message: "Event not found" });
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
       }
       
-      const owner = await storage.getUser(event.ownerId);
-      console.log('owner', owner)
-      // if (!owner || !owner.stripeAccountId) {
-      //   await storage.updateOrderStatus(order.id, "cancelled");
-      //   return res.status(400).json({ message: "Event owner has not connected with Stripe" });
-      // }
+      if (ticket.userId !== req.user!.id && req.user!.role !== "admin") {
+        const event = await storage.getEvent(ticket.eventId);
+        if (event?.ownerId !== req.user!.id) {
+          return res.status(403).json({ message: "Not authorized to view this ticket" });
+        }
+      }
       
-      // Step 4: Create Stripe checkout session
-      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-        apiVersion: "2023-10-16",
-      });
+      const pass = await getGoogleWalletPass(ticket);
+      if (!pass) {
+        return res.status(503).json({ message: "Google Wallet passes are not configured" });
+      }
       
-      // Get domain from environment or request
-      const domain = process.env.DOMAIN || `${process.env.NODE_ENV === 'production' ? 'https' : req.protocol}://${req.get('host')}`;
+      res.json(pass);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to create Google Wallet pass" });
+    }
+  });
+  
+  // Apple's PassKit web service. Wallet calls these itself: devices register for updates to a
+  // pass, and fetch a new copy after a push. Requests for a pass are authenticated with the
+  // "ApplePass <token>" header, matched against the token inside the pass.
+  const getWalletPassTicket = async (req: Request, passTypeIdentifier: string, serialNumber: string) => {
+    const config = getApplePassConfig();
+    const ticketId = parsePassSerialNumber(serialNumber);
+    if (!config || config.passTypeIdentifier !== passTypeIdentifier || ticketId === null) {
+      return undefined;
+    }
+    
+    const ticket = await storage.getTicket(ticketId);
+    const authorization = req.get("Authorization") || "";
+    if (!ticket || authorization !== `ApplePass ${getWalletAuthToken(ticket)}`) {
+      return undefined;
+    }
+    return ticket;
+  };
+  
+  app.post("/api/wallet/v1/devices/:deviceId/registrations/:passTypeId/:serialNumber", async (req, res) => {
+    try {
+      const { deviceId, passTypeId, serialNumber } = req.params;
+      const ticket = await getWalletPassTicket(req, passTypeId, serialNumber);
       
-      // Create line items for Stripe Checkout
-      const lineItems = products.map(product => {
-        const item = items.find(i => i.productId === product.id);
-        return {
-          price_data: {
-            currency: "usd",
-            product_data: {
-              name: product.name,
-              description: product.description || undefined,
-            },
-            unit_amount: Math.round(product.price * 100), // convert to cents
-          },
-          quantity: item.quantity,
-        };
-      });
+      if (!ticket) {
+        return res.status(401).send();
+      }
       
-      // Create a Checkout Session
-      const session = await stripe.checkout.sessions.create({
-        payment_method_types: ["card"],
-        line_items: lineItems,
-        mode: "payment",
-        success_url: `${domain}/checkout/success?order_id=${order.id}&session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${domain}/checkout/cancel?order_id=${order.id}`,
-        
-        // Send payment to the connected account
-        payment_intent_data: {
-          transfer_data: {
-            destination: owner.stripeAccountId,
-          },
-        },
-        
-        // Pass metadata to use in the webhook
-        metadata: {
-          orderId: order.id.toString(),
-          userId: req.user.id.toString(),
-          eventId: eventId.toString(),
-          orderItems: JSON.stringify(items.map(item => {
-            const product = products.find(p => p.id === item.productId);
-            return {
-              itemId: product.id,
-              itemType: product.type,
-              name: product.name,
-              quantity: item.quantity,
-              unitPrice: product.price,
-              totalPrice: product.price * item.quantity
-            };
-          })),
-        },
-      });
+      if (typeof req.body?.pushToken !== "string" || !req.body.pushToken) {
+        return res.status(400).json({ message: "pushToken is required" });
+      }
       
-      // Return the checkout session ID and URL to the client
-      res.status(200).json({
-        orderId: order.id,
-        checkoutUrl: session.url,
-        clientSecret: session.client_secret,
+      const { created } = await storage.registerWalletPass({
+        ticketId: ticket.id,
+        deviceLibraryIdentifier: deviceId,
+        pushToken: req.body.pushToken,
+        passTypeIdentifier: passTypeId,
+        serialNumber,
       });
+      res.status(created ? 201 : 200).send();
     } catch (error: any) {
-      console.error("Checkout error:", error);
-      res.status(500).json({ message: error.message || "Failed to process checkout" });
+      res.status(500).json({ message: error.message || "Failed to register pass" });
     }
   });
   
-  // Get user orders (protected)
-  app.get("/api/my-orders", requireAuth, async (req, res) => {
+  app.delete("/api/wallet/v1/devices/:deviceId/registrations/:passTypeId/:serialNumber", async (req, res) => {
     try {
-      const orders = await storage.getOrdersByUser(req.user.id);
-      res.json(orders);
+      const { deviceId, passTypeId, serialNumber } = req.params;
+      const ticket = await getWalletPassTicket(req, passTypeId, serialNumber);
+      
+      if (!ticket) {
+        return res.status(401).send();
+      }
+      
+      await storage.unregisterWalletPass(deviceId, passTypeId, serialNumber);
+      res.status(200).send();
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch orders" });
+      res.status(500).json({ message: error.message || "Failed to unregister pass" });
     }
   });
   
-  // Get order details (protected)
-  app.get("/api/orders/:id", requireAuth, async (req, res) => {
+  // The serial numbers of a device's passes changed since passesUpdatedSince, a tag this
+  // endpoint handed out earlier (milliseconds since the epoch)
+  app.get("/api/wallet/v1/devices/:deviceId/registrations/:passTypeId", async (req, res) => {
     try {
-      const orderId = parseInt(req.params.id);
-      const order = await storage.getOrder(orderId);
+      const passes = await storage.getWalletPassesByDevice(req.params.deviceId, req.params.passTypeId);
+      const since = parseInt(String(req.query.passesUpdatedSince || "0")) || 0;
+      const updated = passes.filter(pass => pass.passUpdatedAt.getTime() > since);
       
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
-      }
-      
-      // Check permissions (user's own order or admin)
-      if (req.user.role !== "admin" && order.userId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to view this order" });
+      if (updated.length === 0) {
+        return res.status(204).send();
       }
       
-      // Get order items
-      const orderItems = await storage.getOrderItems(orderId);
-      
-      // Get tickets if any
-      const tickets = await storage.getTicketsByOrder(orderId);
-      
       res.json({
-        order,
-        items: orderItems,
-        tickets,
+        serialNumbers: updated.map(pass => pass.serialNumber),
+        lastUpdated: String(Math.max(...passes.map(pass => pass.passUpdatedAt.getTime()))),
       });
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch order details" });
+      res.status(500).json({ message: error.message || "Failed to list updated passes" });
     }
   });
   
-  // Update order status (admin only)
-  app.put("/api/orders/:id/status", requireAdmin, async (req, res) => {
+  app.get("/api/wallet/v1/passes/:passTypeId/:serialNumber", async (req, res) => {
     try {
-      const orderId = parseInt(req.params.id);
-      const { status } = req.body;
+      const ticket = await getWalletPassTicket(req, req.params.passTypeId, req.params.serialNumber);
       
-      if (!["pending", "completed", "cancelled", "refunded"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      if (!ticket) {
+        return res.status(401).send();
       }
       
-      const updatedOrder = await storage.updateOrderStatus(orderId, status);
-      res.json(updatedOrder);
+      const event = await storage.getEvent(ticket.eventId);
+      const lastModified = new Date(Math.max(ticket.updatedAt.getTime(), event?.updatedAt.getTime() || 0));
+      lastModified.setMilliseconds(0);
+      
+      const ifModifiedSince = req.get("If-Modified-Since");
+      if (ifModifiedSince && new Date(ifModifiedSince).getTime() >= lastModified.getTime()) {
+        return res.status(304).send();
+      }
+      
+      const pass = await renderApplePass(ticket);
+      if (!pass) {
+        return res.status(401).send();
+      }
+      
+      res.set("Last-Modified", lastModified.toUTCString());
+      res.type("application/vnd.apple.pkpass").send(pass);
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to update order status" });
+      res.status(500).json({ message: error.message || "Failed to fetch pass" });
+    }
+  });
+  
+  // Wallet reports problems with our passes or web service here
+  app.post("/api/wallet/v1/log", (req, res) => {
+    const logs: unknown[] = Array.isArray(req.body?.logs) ? req.body.logs : [];
+    for (const message of logs.slice(0, 20)) {
+      log(`Apple Wallet: ${String(message)}`, "wallet");
     }
+    res.status(200).send();
   });
 
-  // === TICKETS API ===
+  // === OFFLINE CHECK-IN API ===
 
-  // Get tickets for an event (protected, event owner/admin only)
-  app.get("/api/events/:eventId/tickets", requireAuth, async (req, res) => {
+  // Download an event's ticket manifest for offline scanning (event owner/admin only). Each
+  // entry carries its code signature so devices can verify scans without the signing secret.
+  app.get("/api/events/:eventId/check-in/manifest", requireAuth, async (req, res) => {
     try {
       const eventId = parseInt(req.params.eventId);
       const event = await storage.getEvent(eventId);
@@ -1655,127 +4789,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" });
       }
       
-      // Check permissions
-      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to view tickets for this event" });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to check in tickets for this event" });
       }
       
-      const tickets = await storage.getTicketsByEvent(eventId);
-      res.json(tickets);
+      const tickets = await storage.getCheckInManifest(eventId);
+      const logs = await storage.getCheckInLogsByEvent(eventId);
+      res.json({
+        eventId,
+        eventTitle: event.title,
+        timeZone: event.timeZone,
+        generatedAt: new Date().toISOString(),
+        tickets: tickets.map(ticket => {
+          const ticketLogs = logs.filter(entry => entry.ticketId === ticket.id);
+          return {
+            id: ticket.id,
+            ticketNumber: ticket.ticketNumber,
+            ticketType: ticket.ticketType,
+            entryRule: ticket.entryRule,
+            status: ticket.status,
+            checkInTime: ticket.checkInTime,
+            inside: isInside(ticketLogs),
+            lastEntryAt: ticketLogs.find(entry => entry.direction === "in")?.scannedAt || null,
+            holderName: ticket.holderName,
+            signature: getTicketSignature(ticket),
+          };
+        }),
+      });
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch tickets" });
+      res.status(500).json({ message: error.message || "Failed to fetch check-in manifest" });
     }
   });
-
-  // Get user tickets (protected)
-  app.get("/api/my-tickets", requireAuth, async (req, res) => {
+  
+  // The scanner's install manifest. There is one per event so the installed app opens that
+  // event's scanner, inside the check-in worker's scope. Browsers fetch manifests without
+  // cookies, so it's public and holds nothing but the event's title.
+  app.get("/api/events/:eventId/check-in.webmanifest", async (req, res) => {
     try {
-      const ordersWithItems = await storage.getCompletedPaidOrdersWithItems(req.user.id);
+      const event = await storage.getEvent(parseInt(req.params.eventId));
       
-      // Flatten order items from all orders
-      const allOrderItems = ordersWithItems.flatMap(order => 
-        order.items.map(item => ({
-          ...item,
-          orderId: order.id,
-          orderNumber: order.orderNumber,
-          eventId: order.eventId,
-          eventTitle: order.eventTitle,
-          purchaseDate: order.createdAt,
-          orderStatus: order.status,
-          paymentStatus: order.paymentStatus
-        }))
-      );
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
       
-      res.json(allOrderItems);
+      const scannerPath = `/events/${event.id}/scan`;
+      res.type("application/manifest+json").json({
+        name: `${event.title} Check-in`,
+        short_name: "Check-in",
+        start_url: scannerPath,
+        scope: scannerPath,
+        display: "standalone",
+        background_color: "#ffffff",
+        theme_color: "#ffffff",
+      });
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to fetch tickets" });
+      res.status(500).json({ message: error.message || "Failed to fetch check-in app manifest" });
     }
   });
-
-  // Update ticket status (protected, admin only)
-  app.put("/api/tickets/:id/status", requireAdmin, async (req, res) => {
+  
+  // Upload check-ins queued while offline (event owner/admin only).
+  // Body: { deviceId, checkIns: [{ code, scannedAt, gate? }] }
+  // Each check-in comes back as "checked_in", "already_synced" (a retry of one this device
+  // already uploaded), "conflict" (the ticket's entry rule refused it, usually because
+  // someone else checked it in first, which is recorded for the organizer) or "rejected".
+  app.post("/api/events/:eventId/check-in/sync", requireAuth, async (req, res) => {
     try {
-      const ticketId = parseInt(req.params.id);
-      const { status } = req.body;
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
       
-      if (!["active", "used", "cancelled", "refunded"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
       
-      const updatedTicket = await storage.updateTicketStatus(ticketId, status);
-      res.json(updatedTicket);
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to check in tickets for this event" });
+      }
+      
+      const { deviceId, checkIns } = req.body;
+      if (typeof deviceId !== "string" || !deviceId || !Array.isArray(checkIns)) {
+        return res.status(400).json({ message: "deviceId and checkIns are required" });
+      }
+      
+      const results = [];
+      for (const checkIn of checkIns) {
+        const scannedAt = new Date(checkIn.scannedAt);
+        const decoded = typeof checkIn.code === "string" ? verifyTicketCode(checkIn.code) : null;
+        
+        if (!decoded || decoded.eventId !== eventId || isNaN(scannedAt.getTime())) {
+          results.push({ code: checkIn.code, status: "rejected", message: "Invalid ticket code" });
+          continue;
+        }
+        
+        const ticket = await storage.getTicket(decoded.ticketId);
+        if (!ticket || ticket.ticketNumber !== decoded.ticketNumber) {
+          results.push({ code: checkIn.code, status: "rejected", message: "Ticket not found" });
+          continue;
+        }
+        
+        if (ticket.status !== "active" && ticket.status !== "used") {
+          results.push({ code: checkIn.code, ticketId: ticket.id, status: "rejected", message: `Ticket status is ${ticket.status}` });
+          continue;
+        }
+        
+        const logs = await storage.getCheckInLogsByTicket(ticket.id);
+        if (logs.some(entry => entry.deviceId === deviceId && entry.scannedAt.getTime() === scannedAt.getTime())) {
+          results.push({ code: checkIn.code, ticketId: ticket.id, status: "already_synced" });
+          continue;
+        }
+        
+        const scan = await storage.scanTicket(ticket.id, {
+          eventId,
+          direction: "in",
+          gate: checkIn.gate || null,
+          deviceId,
+          staffUserId: req.user!.id,
+          scannedAt,
+        });
+        if (!scan.refusal) {
+          await storage.recordAnalyticEvent({
+            eventId,
+            metric: scan.firstEntry ? "check_ins" : "re_entries",
+            value: 1,
+            dimension: "ticket_type",
+            dimensionValue: ticket.ticketType,
+          });
+          results.push({ code: checkIn.code, ticketId: ticket.id, status: "checked_in" });
+          continue;
+        }
+        
+        const current = (await storage.getTicket(ticket.id))!;
+        const lastEntry = (await storage.getCheckInLogsByTicket(ticket.id)).find(entry => entry.direction === "in");
+        const existingDeviceId = lastEntry ? lastEntry.deviceId : current.checkInDeviceId;
+        const existingCheckInTime = lastEntry ? lastEntry.scannedAt : current.checkInTime;
+        
+        await storage.recordCheckInConflict({
+          eventId,
+          ticketId: ticket.id,
+          deviceId,
+          scannedAt,
+          existingDeviceId,
+          existingCheckInTime,
+        });
+        log(`Conflicting check-in for ticket ${ticket.ticketNumber} from device ${deviceId}`, "tickets");
+        results.push({
+          code: checkIn.code,
+          ticketId: ticket.id,
+          status: "conflict",
+          message: scan.refusal,
+          existingDeviceId,
+          existingCheckInTime,
+        });
+      }
+      
+      res.json({ results });
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to update ticket status" });
+      res.status(500).json({ message: error.message || "Failed to sync check-ins" });
     }
   });
   
-  // Check in ticket (protected, event owner/admin only)
-  app.post("/api/tickets/:id/check-in", requireAuth, async (req, res) => {
+  // Double check-ins reported by offline scanners (event owner/admin only)
+  app.get("/api/events/:eventId/check-in/conflicts", requireAuth, async (req, res) => {
     try {
-      const ticketId = parseInt(req.params.id);
-      const ticket = await storage.getTicket(ticketId);
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
       
-      if (!ticket) {
-        return res.status(404).json({ message: "Ticket not found" });
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
       
-      // Check if ticket is already used
-      if (ticket.status === "used") {
-        return res.status(400).json({ message: "Ticket already used" });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view check-ins for this event" });
       }
       
-      // Check if ticket is valid
-      if (ticket.status !== "active") {
-        return res.status(400).json({ message: `Ticket status is ${ticket.status}` });
-      }
+      const conflicts = await storage.getCheckInConflictsByEvent(eventId);
+      const tickets = await storage.getTicketsByEvent(eventId);
+      res.json(conflicts.map(conflict => ({
+        ...conflict,
+        ticketNumber: tickets.find(ticket => ticket.id === conflict.ticketId)?.ticketNumber || null,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch check-in conflicts" });
+    }
+  });
+  
+  // === CHECK-IN LOG API ===
+  
+  // Live occupancy from the entry/exit log (event owner/admin only)
+  app.get("/api/events/:eventId/occupancy", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
       
-      // Check permissions
-      const event = await storage.getEvent(ticket.eventId);
-      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to check in tickets for this event" });
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
       
-      const updatedTicket = await storage.checkInTicket(ticketId);
-      
-      // Record analytics for check-in
-      await storage.recordAnalyticEvent({
-        eventId: ticket.eventId,
-        metric: "check_ins",
-        value: 1,
-        dimension: "ticket_type",
-        dimensionValue: ticket.ticketType,
-      });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view check-ins for this event" });
+      }
       
-      res.json(updatedTicket);
+      res.json(await storage.getEventOccupancy(eventId));
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to check in ticket" });
+      res.status(500).json({ message: error.message || "Failed to fetch occupancy" });
     }
   });
   
-  // Verify ticket by number (protected, event owner/admin only)
-  app.get("/api/tickets/verify/:ticketNumber", requireAuth, async (req, res) => {
+  // Recent entry and exit scans (event owner/admin only)
+  app.get("/api/events/:eventId/check-in/log", requireAuth, async (req, res) => {
     try {
-      const ticketNumber = req.params.ticketNumber;
-      const ticket = await storage.getTicketByNumber(ticketNumber);
+      const eventId = parseInt(req.params.eventId);
+      const event = await storage.getEvent(eventId);
       
-      if (!ticket) {
-        return res.status(404).json({ message: "Ticket not found" });
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
       
-      // Check permissions
-      const event = await storage.getEvent(ticket.eventId);
-      if (req.user.role !== "admin" && event.ownerId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to verify tickets for this event" });
+      if (req.user!.role !== "admin" && event.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to view check-ins for this event" });
       }
       
-      res.json(ticket);
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      res.json(await storage.getCheckInLogsByEvent(eventId, limit));
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to verify ticket" });
+      res.status(500).json({ message: error.message || "Failed to fetch check-in log" });
     }
   });
 
   // === ADMIN API ===
 
+  // Vendors at upcoming events missing a required document or holding one that expires soon (admin only)
+  // Query: days (how far ahead counts as expiring, default 30)
+  app.get("/api/admin/vendor-compliance", requireAdmin, async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      res.json(await getVendorComplianceReport(days));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to build vendor compliance report" });
+    }
+  });
+
   // Add admin note (admin only)
   app.post("/api/admin/notes", requireAdmin, async (req, res) => {
     try {
@@ -2416,7 +5668,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Vendor registration not found" });
       }
       
-      // Delete the vendor registration from the database
+      // Free up its booth, then delete the vendor registration from the database
+      await storage.releaseVendorBooth(registrationId);
       await db.delete(schema.vendorRegistrations).where(eq(schema.vendorRegistrations.id, registrationId));
       
       // Return success
@@ -2556,6 +5809,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get all tickets purchased by this user
       const tickets = await storage.getTicketsByUser(userId);
       
+      // Tickets the user sent to or received from someone else
+      const ticketTransfers = await storage.getTicketTransfersByUser(userId);
+      
       // Get vendor profile and registrations
       const vendorProfile = await storage.getVendorProfile(userId);
       const vendorRegistrations = vendorProfile 
@@ -2596,6 +5852,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
         orders,
         tickets,
+        ticketTransfers,
         vendorProfile,
         vendorRegistrations,
         volunteerProfile,
@@ -2681,12 +5938,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Enhanced financial report data
       const financialData = results.map(transaction => {
+        // Only orders carry fees; other transaction types pass through at their gross amount
+        const grossAmount = parseFloat(transaction.amount) || 0;
+        const platformFeeAmount = transaction.platform_fee_amount || 0;
+        const processingFeeAmount = transaction.processing_fee_amount || 0;
+        
         // Add financial-specific fields
         return {
           ...transaction,
           revenueType: transaction.type,
+          discountAmount: transaction.discount_amount || 0,
           taxAmount: 0, // If tax data is available, calculate it here
-          netAmount: transaction.amount,
+          grossAmount,
+          platformFeeAmount,
+          processingFeeAmount,
+          netAmount: getOrderNetAmount({ totalAmount: grossAmount, platformFeeAmount, processingFeeAmount }),
           paymentMethod: transaction.stripePaymentId ? 'Stripe' : 'Other',
           reportingCategory: getReportingCategory(transaction.type),
           fiscalQuarter: getFiscalQuarter(new Date(transaction.created_at)),
@@ -2697,17 +5963,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // If summary report is requested, generate summary data
       let exportData = financialData;
       if (reportType === 'summary') {
-        // Group by category and sum amounts
+        // Group by organizer and category and sum gross, fees and net
         const summaryData = [];
-        const categories = {};
+        const categories: Record<string, any> = {};
         
         financialData.forEach(item => {
-          const category = item.reportingCategory;
+          const category = `${item.organizerId}:${item.reportingCategory}`;
           if (!categories[category]) {
             categories[category] = {
-              reportingCategory: category,
+              organizerName: item.organizerName,
+              reportingCategory: item.reportingCategory,
               totalTransactions: 0,
-              totalAmount: 0,
+              grossAmount: 0,
+              platformFeeAmount: 0,
+              processingFeeAmount: 0,
+              netAmount: 0,
               startDate: startDate ? new Date(startDate as string).toLocaleDateString() : 'All time',
               endDate: endDate ? new Date(endDate as string).toLocaleDateString() : 'Present',
               eventTitle: item.eventTitle || 'All events'
@@ -2715,12 +5985,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           
           categories[category].totalTransactions++;
-          categories[category].totalAmount += parseFloat(item.amount);
+          categories[category].grossAmount += item.grossAmount;
+          categories[category].platformFeeAmount += item.platformFeeAmount;
+          categories[category].processingFeeAmount += item.processingFeeAmount;
+          categories[category].netAmount += item.netAmount;
         });
         
         // Convert to array
         for (const category in categories) {
-          categories[category].totalAmount = categories[category].totalAmount.toFixed(2);
+          categories[category].grossAmount = categories[category].grossAmount.toFixed(2);
+          categories[category].platformFeeAmount = categories[category].platformFeeAmount.toFixed(2);
+          categories[category].processingFeeAmount = categories[category].processingFeeAmount.toFixed(2);
+          categories[category].netAmount = categories[category].netAmount.toFixed(2);
           summaryData.push(categories[category]);
         }
         
@@ -1,31 +1,147 @@
 import { 
   users, type User, type InsertUser, 
   events, type Event, type InsertEvent, 
+  venues, type Venue, type InsertVenue,
+  eventSeries, type EventSeries, type InsertEventSeries,
   tickets, type Ticket, type InsertTicket,
   orders, type Order, type InsertOrder,
   orderItems, type OrderItem, type InsertOrderItem,
   products, type Product, type InsertProduct,
+  promoCodes, type PromoCode, type InsertPromoCode,
+  attendeeQuestions, type AttendeeQuestion, type InsertAttendeeQuestion,
+  eventSessions, type EventSession, type InsertEventSession,
+  agendaEntries, type AgendaEntry,
   vendorSpots, type VendorSpot, type InsertVendorSpot,
+  vendorBooths, type VendorBooth, type InsertVendorBooth,
+  vendorDocuments, type VendorDocument, type InsertVendorDocument,
   vendorProfiles, type VendorProfile, type InsertVendorProfile,
   vendorRegistrations, type VendorRegistration, type InsertVendorRegistration,
   volunteerProfiles, type VolunteerProfile, type InsertVolunteerProfile,
   volunteerShifts, type VolunteerShift, type InsertVolunteerShift,
   volunteerAssignments, type VolunteerAssignment, type InsertVolunteerAssignment,
+  applicationForms, type ApplicationForm, type ApplicationFormType, type ApplicationFormField,
   adminNotes, type AdminNote, type InsertAdminNote,
   analytics, type Analytics, type InsertAnalytics,
-  userOnboarding, type UserOnboarding, type InsertUserOnboarding
+  userOnboarding, type UserOnboarding, type InsertUserOnboarding,
+  webhookEvents, type WebhookEvent, type InsertWebhookEvent,
+  refunds, type Refund,
+  cashDrawerSessions, type CashDrawerSession, type InsertCashDrawerSession,
+  doorPaymentCodes, type DoorPaymentCode,
+  checkInConflicts, type CheckInConflict, type InsertCheckInConflict,
+  checkInLogs, type CheckInLog, type InsertCheckInLog,
+  ticketTransfers, type TicketTransfer, type InsertTicketTransfer,
+  waitlistEntries, type WaitlistEntry, type InsertWaitlistEntry, type WaitlistCapacity,
+  walletPassRegistrations, type WalletPassRegistration, type InsertWalletPassRegistration
 } from "@shared/schema";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import createMemoryStore from "memorystore";
 import { log } from "./vite";
 import { db, pool } from "./db";
-import { and, asc, desc, eq, gte, ilike, inArray, not, or, sql } from "drizzle-orm";
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, not, or, sql } from "drizzle-orm";
 import { randomBytes } from "crypto";
+import { getEntryRefusal, getExitRefusal } from "./check-in-rules";
+import { DEFAULT_TIME_ZONE } from "@shared/time-zones";
+import { PaymentDeclinedError } from "./payments";
 
 const PostgresSessionStore = connectPg(session);
 const MemoryStore = createMemoryStore(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Generate a ticket number; the unique constraint on tickets.ticket_number is the final guard
+function generateTicketNumber(): string {
+  return `TIX-${randomBytes(6).toString('hex').toUpperCase()}`;
+}
+
+// Thrown when checkout cannot hold the requested quantity of a product
+export class InsufficientStockError extends Error {
+  constructor(public productId: number, public productName: string, public available: number) {
+    super(`Insufficient availability for ${productName}. Only ${available} remaining.`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+export class SessionFullError extends Error {
+  constructor(public sessionId: number, public sessionTitle: string) {
+    super(`${sessionTitle} is full.`);
+    this.name = "SessionFullError";
+  }
+}
+
+// Thrown when a vendor spot or volunteer shift has no places left to sign up for
+export class CapacityFullError extends Error {
+  constructor(public capacity: WaitlistCapacity, public capacityName: string) {
+    super(`${capacityName} is full.`);
+    this.name = "CapacityFullError";
+  }
+}
+
+// Thrown when a refund asks for something the order can't give: items it doesn't have or has
+// already refunded, or an order with no payment to refund
+export class InvalidRefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRefundError";
+  }
+}
+
+// Thrown when another refund of the order is still waiting on the payment provider
+export class RefundInProgressError extends Error {
+  constructor(public orderNumber: string) {
+    super(`Another refund of order ${orderNumber} is in progress`);
+    this.name = "RefundInProgressError";
+  }
+}
+
+// How long a webhook event may sit in "processing" before a redelivery can take it over
+// (WEBHOOK_PROCESSING_TIMEOUT_MINUTES, default 10)
+const WEBHOOK_PROCESSING_TIMEOUT_MINUTES = Math.max(parseInt(process.env.WEBHOOK_PROCESSING_TIMEOUT_MINUTES || "10") || 10, 1);
+
+// An order line for checkout to hold stock for. Lines bought through a waitlist offer name the
+// entry, whose held units are handed over to the order.
+export type PendingOrderItem = Omit<InsertOrderItem, "orderId"> & { waitlistEntryId?: number };
+
+// Where an order item's stock comes from: tickets bought straight from an event page hold the
+// event's ticketsAvailable, everything else its product's quantity
+export function getItemCapacity(item: Pick<OrderItem, "itemId" | "itemType" | "metadata">): WaitlistCapacity {
+  const itemMetadata = (item.metadata as Record<string, any>) || {};
+  return item.itemType === "ticket" && itemMetadata.source === "event"
+    ? { type: "event", id: item.itemId }
+    : { type: "product", id: item.itemId };
+}
+
+// The entries in one waitlist's queue
+function inWaitlistQueue(capacity: WaitlistCapacity) {
+  return and(eq(waitlistEntries.capacityType, capacity.type), eq(waitlistEntries.capacityId, capacity.id));
+}
+
+// Vendor registration and volunteer assignment statuses that keep their spot or shift place
+const PLACE_HOLDING_STATUSES = ["pending", "approved", "success", "completed"];
+
+// Username of the account door sales to buyers without one are recorded against
+const WALK_UP_USERNAME = "walk-up";
+
+// One order item's share of a refund, as stored in refunds.items
+type RefundLine = { orderItemId: number; quantity: number; amount: number };
+
+// Moves the money for a refund. Each call is keyed, so retrying with the same key never pays out twice.
+export type RefundIssuer = {
+  // Returns the provider's refund id, or null when there was no provider payment to refund
+  refund(amount: number, idempotencyKey: string): Promise<string | null>;
+  // Takes the organizer's share of the refund back from the transfer they were paid
+  reverseTransfer(amount: number, refundId: string | null, idempotencyKey: string): Promise<string>;
+};
+
+// Live door counts for an event, overall and per gate
+export type EventOccupancy = {
+  inside: number;
+  attendees: number; // Distinct tickets that have entered at least once
+  entries: number;
+  exits: number;
+  gates: { gate: string | null; entries: number; exits: number }[];
+};
+
 // Interface for the storage operations
 export interface IStorage {
   // Onboarding operations
@@ -52,13 +168,29 @@ export interface IStorage {
   updateUserLastLogin(userId: number): Promise<User>;
   
   // Event operations
-  getEvents(filters: { type?: string; location?: string; search?: string; sortBy?: string; isUpcoming?: boolean; status?: string }): Promise<Event[]>;
+  getEvents(filters: { type?: string; location?: string; venueId?: number; search?: string; sortBy?: string; isUpcoming?: boolean; status?: string; includeAllStatuses?: boolean }): Promise<Event[]>;
   getEvent(id: number): Promise<Event | undefined>;
   createEvent(event: InsertEvent): Promise<Event>;
   updateEvent(id: number, eventData: Partial<InsertEvent>): Promise<Event>;
   deleteEvent(id: number): Promise<void>;
   getEventsByOwner(ownerId: number): Promise<Event[]>;
   
+  // Venue operations
+  getVenues(search?: string): Promise<Venue[]>;
+  getVenue(id: number): Promise<Venue | undefined>;
+  createVenue(venue: InsertVenue): Promise<Venue>;
+  updateVenue(id: number, venueData: Partial<InsertVenue>): Promise<Venue>;
+  deleteVenue(id: number): Promise<void>;
+  setVenueEventLocations(venueId: number, location: string): Promise<Event[]>;
+  
+  // Event series operations
+  createEventSeries(series: InsertEventSeries): Promise<EventSeries>;
+  getEventSeries(id: number): Promise<EventSeries | undefined>;
+  updateEventSeries(id: number, seriesData: Partial<InsertEventSeries>): Promise<EventSeries>;
+  getSeriesOccurrences(seriesId: number): Promise<Event[]>;
+  createSeriesOccurrence(event: InsertEvent): Promise<Event | undefined>;
+  getOpenEventSeries(today: string): Promise<EventSeries[]>;
+  
   // Product operations
   getProducts(eventId: number, type?: string): Promise<Product[]>;
   getProduct(id: number): Promise<Product | undefined>;
@@ -66,6 +198,35 @@ export interface IStorage {
   updateProduct(id: number, productData: Partial<InsertProduct>): Promise<Product>;
   deleteProduct(id: number): Promise<void>;
   
+  // Promo code operations
+  getPromoCode(id: number): Promise<PromoCode | undefined>;
+  getPromoCodesByEvent(eventId: number): Promise<PromoCode[]>;
+  getPromoCodeByCode(code: string, eventIds: number[]): Promise<PromoCode | undefined>;
+  createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: number, promoCodeData: Partial<InsertPromoCode>): Promise<PromoCode>;
+  deletePromoCode(id: number): Promise<void>;
+  countPromoCodeUsesByUser(promoCodeId: number, userId: number): Promise<number>;
+  claimPromoCodeUse(id: number): Promise<boolean>;
+  releasePromoCodeUse(id: number): Promise<void>;
+  
+  // Attendee question operations
+  getAttendeeQuestion(id: number): Promise<AttendeeQuestion | undefined>;
+  getAttendeeQuestionsByEvent(eventId: number): Promise<AttendeeQuestion[]>;
+  createAttendeeQuestion(question: InsertAttendeeQuestion): Promise<AttendeeQuestion>;
+  updateAttendeeQuestion(id: number, questionData: Partial<InsertAttendeeQuestion>): Promise<AttendeeQuestion>;
+  deleteAttendeeQuestion(id: number): Promise<void>;
+  getAttendeesByEvent(eventId: number): Promise<(Ticket & { buyerName: string | null; buyerEmail: string })[]>;
+  
+  // Session operations
+  getSessionsByEvent(eventId: number): Promise<(EventSession & { agendaCount: number })[]>;
+  getSession(id: number): Promise<EventSession | undefined>;
+  createSession(session: InsertEventSession): Promise<EventSession>;
+  updateSession(id: number, sessionData: Partial<InsertEventSession>): Promise<EventSession>;
+  deleteSession(id: number): Promise<void>;
+  addToAgenda(sessionId: number, userId: number): Promise<AgendaEntry>;
+  removeFromAgenda(sessionId: number, userId: number): Promise<boolean>;
+  getAgendaSessions(userId: number, eventId: number): Promise<EventSession[]>;
+  
   // Vendor operations
   getVendorProfile(userId: number): Promise<VendorProfile | undefined>;
   getVendorProfileById(id: number): Promise<VendorProfile | undefined>;
@@ -78,10 +239,38 @@ export interface IStorage {
   getVendorRegistrations(filters: { eventId?: number; userId?: number; status?: string }): Promise<VendorRegistration[]>;
   getVendorRegistration(id: number): Promise<VendorRegistration | undefined>;
   createVendorRegistration(registration: InsertVendorRegistration): Promise<VendorRegistration>;
+  createSpotRegistration(registration: InsertVendorRegistration, userId: number, waitlistEntryId?: number): Promise<VendorRegistration>;
   updateVendorRegistrationStatus(id: number, status: string, reviewedBy: number): Promise<VendorRegistration>;
+  requestVendorPayment(
+    registrationId: number,
+    order: InsertOrder,
+    item: PendingOrderItem,
+    dueAt: Date
+  ): Promise<{ order: Order; registration: VendorRegistration }>;
+  lapseVendorRegistrationsForOrder(orderId: number): Promise<VendorRegistration[]>;
+  
+  // Vendor booth operations
+  getVendorBooths(eventId: number): Promise<VendorBooth[]>;
+  getVendorBooth(id: number): Promise<VendorBooth | undefined>;
+  getVendorBoothByRegistration(vendorRegistrationId: number): Promise<VendorBooth | undefined>;
+  createVendorBooth(booth: InsertVendorBooth): Promise<VendorBooth>;
+  updateVendorBooth(id: number, boothData: Partial<InsertVendorBooth>): Promise<VendorBooth>;
+  deleteVendorBooth(id: number): Promise<void>;
+  assignVendorBooth(id: number, vendorRegistrationId: number | null): Promise<VendorBooth>;
+  releaseVendorBooth(vendorRegistrationId: number): Promise<void>;
+  
+  // Vendor document operations
+  getVendorDocuments(vendorProfileId: number): Promise<VendorDocument[]>;
+  getVendorDocument(id: number): Promise<VendorDocument | undefined>;
+  createVendorDocument(document: InsertVendorDocument): Promise<VendorDocument>;
+  deleteVendorDocument(id: number): Promise<void>;
+  getVendorDocumentsDueForReminder(expiringBefore: Date): Promise<VendorDocument[]>;
+  markVendorDocumentReminderSent(id: number): Promise<void>;
+  getUpcomingVendorRegistrations(from: Date): Promise<{ registration: VendorRegistration; event: Event }[]>;
   
   // Volunteer operations
   getVolunteerProfile(userId: number): Promise<VolunteerProfile | undefined>;
+  getVolunteerProfileById(id: number): Promise<VolunteerProfile | undefined>;
   createVolunteerProfile(profile: InsertVolunteerProfile): Promise<VolunteerProfile>;
   updateVolunteerProfile(id: number, profileData: Partial<InsertVolunteerProfile>): Promise<VolunteerProfile>;
   getVolunteerShifts(eventId: number): Promise<VolunteerShift[]>;
@@ -91,8 +280,14 @@ export interface IStorage {
   getVolunteerAssignments(filters: { eventId?: number; userId?: number; status?: string }): Promise<VolunteerAssignment[]>;
   getVolunteerAssignment(id: number): Promise<VolunteerAssignment | undefined>;
   createVolunteerAssignment(assignment: InsertVolunteerAssignment): Promise<VolunteerAssignment>;
+  createShiftAssignment(assignment: InsertVolunteerAssignment, userId: number, waitlistEntryId?: number): Promise<VolunteerAssignment>;
+  getVolunteerAssignmentOrderItem(assignment: VolunteerAssignment): Promise<OrderItem | undefined>;
   updateVolunteerAssignmentStatus(id: number, status: string, reviewedBy: number): Promise<VolunteerAssignment>;
   
+  // Application form operations
+  getApplicationForm(eventId: number, formType: ApplicationFormType): Promise<ApplicationForm | undefined>;
+  saveApplicationForm(eventId: number, formType: ApplicationFormType, fields: ApplicationFormField[]): Promise<ApplicationForm>;
+  
   // Order operations
   createOrder(order: InsertOrder): Promise<Order>;
   getOrder(id: number): Promise<Order | undefined>;
@@ -102,6 +297,16 @@ export interface IStorage {
   getOrdersByEvent(eventId: number): Promise<Order[]>;
   updateOrderStatus(id: number, status: string): Promise<Order>;
   updateOrderPaymentStatus(id: number, paymentStatus: string, stripePaymentId?: string): Promise<Order>;
+  createPendingOrders(
+    groups: { order: InsertOrder; items: PendingOrderItem[] }[],
+    expiresAt: Date
+  ): Promise<{ order: Order; items: OrderItem[] }[]>;
+  releaseOrderHold(orderId: number, status: "cancelled" | "expired"): Promise<Order | undefined>;
+  getExpiredPendingOrders(now: Date): Promise<Order[]>;
+  getOrdersByCheckoutGroup(checkoutGroup: string): Promise<Order[]>;
+  setOrdersStripeSession(orderIds: number[], stripeSessionId: string): Promise<void>;
+  setOrderStripeTransfer(id: number, stripeTransferId: string): Promise<Order>;
+  markOrderEmailSent(id: number): Promise<void>;
   
   // Order item operations
   createOrderItem(item: InsertOrderItem): Promise<OrderItem>;
@@ -117,12 +322,85 @@ export interface IStorage {
   updateTicketStatus(id: number, status: string): Promise<Ticket>;
   checkInTicket(id: number): Promise<Ticket>;
   
+  // Waitlist operations
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  getWaitlistEntryByToken(claimToken: string): Promise<WaitlistEntry | undefined>;
+  getActiveWaitlistEntry(capacity: WaitlistCapacity, userId: number): Promise<WaitlistEntry | undefined>;
+  getWaitlistEntriesByUser(userId: number): Promise<(WaitlistEntry & { itemName: string; eventTitle: string; placeInLine: number | null })[]>;
+  getWaitlistByEvent(eventId: number): Promise<(WaitlistEntry & { itemName: string; userName: string | null; userEmail: string })[]>;
+  getWaitlistCapacity(capacity: WaitlistCapacity): Promise<{ eventId: number; name: string; available: number | null; isActive: boolean } | undefined>;
+  reorderWaitlist(capacity: WaitlistCapacity, entryIds: number[]): Promise<void>;
+  cancelWaitlistEntry(id: number): Promise<{ entry: WaitlistEntry; released: boolean }>;
+  offerWaitlistSpots(capacity: WaitlistCapacity, offerExpiresAt: Date): Promise<WaitlistEntry[]>;
+  expireWaitlistOffers(now: Date): Promise<WaitlistCapacity[]>;
+  
+  // Ticket transfer operations
+  createTicketTransfer(transfer: InsertTicketTransfer): Promise<TicketTransfer>;
+  getTicketTransfer(id: number): Promise<TicketTransfer | undefined>;
+  getTicketTransferByToken(token: string): Promise<TicketTransfer | undefined>;
+  getPendingTicketTransfer(ticketId: number): Promise<TicketTransfer | undefined>;
+  getTicketTransfersByUser(userId: number): Promise<(TicketTransfer & { eventTitle: string | null })[]>;
+  cancelTicketTransfer(id: number): Promise<TicketTransfer>;
+  acceptTicketTransfer(id: number, recipient: User): Promise<{ transfer: TicketTransfer; ticket: Ticket }>;
+  
+  // Wallet pass operations
+  registerWalletPass(registration: InsertWalletPassRegistration): Promise<{ registration: WalletPassRegistration; created: boolean }>;
+  unregisterWalletPass(deviceLibraryIdentifier: string, passTypeIdentifier: string, serialNumber: string): Promise<boolean>;
+  getWalletPassesByDevice(deviceLibraryIdentifier: string, passTypeIdentifier: string): Promise<(WalletPassRegistration & { passUpdatedAt: Date })[]>;
+  getWalletPassRegistrationsByEvent(eventId: number): Promise<WalletPassRegistration[]>;
+  
+  // Fulfillment operations
+  fulfillOrder(orderId: number, stripePaymentId?: string): Promise<{ order: Order; tickets: Ticket[]; alreadyFulfilled: boolean; soldOut: boolean }>;
+  refundSoldOutOrder(orderId: number, stripePaymentId: string, stripeRefundId: string | null): Promise<Order>;
+  
+  // Refund operations
+  refundOrder(
+    orderId: number,
+    options: { items?: { orderItemId: number; quantity: number }[]; reason?: string; createdBy?: number },
+    issuer: RefundIssuer
+  ): Promise<{ order: Order; refund: Refund; tickets: Ticket[] }>;
+  getRefundsByOrder(orderId: number): Promise<Refund[]>;
+  
+  // Cash drawer operations
+  openCashDrawer(session: InsertCashDrawerSession): Promise<CashDrawerSession>;
+  getCashDrawerSession(id: number): Promise<CashDrawerSession | undefined>;
+  getOpenCashDrawer(eventId: number, openedBy: number): Promise<CashDrawerSession | undefined>;
+  getCashDrawerSessionsByEvent(eventId: number): Promise<CashDrawerSession[]>;
+  getCashDrawerTotals(id: number): Promise<{ orderCount: number; cashSales: number; cashRefunds: number }>;
+  closeCashDrawer(id: number, closedBy: number, closingAmount: number, notes?: string): Promise<CashDrawerSession>;
+  getWalkUpUser(): Promise<User>;
+  
+  // Door payment code operations
+  createDoorPaymentCode(userId: number, code: string, expiresAt: Date): Promise<DoorPaymentCode>;
+  consumeDoorPaymentCode(userId: number, code: string): Promise<boolean>;
+  
+  // Check-in log operations
+  createCheckInLog(entry: InsertCheckInLog): Promise<CheckInLog>;
+  getCheckInLogsByTicket(ticketId: number): Promise<CheckInLog[]>;
+  scanTicket(ticketId: number, entry: Omit<InsertCheckInLog, "ticketId">): Promise<{ ticket: Ticket; refusal: string | null; firstEntry: boolean }>;
+  getCheckInLogsByEvent(eventId: number, limit?: number): Promise<(CheckInLog & { ticketNumber: string })[]>;
+  getEventOccupancy(eventId: number): Promise<EventOccupancy>;
+  
+  // Offline check-in operations
+  getCheckInManifest(eventId: number): Promise<(Ticket & { holderName: string | null })[]>;
+  recordCheckInConflict(conflict: InsertCheckInConflict): Promise<CheckInConflict>;
+  getCheckInConflictsByEvent(eventId: number): Promise<CheckInConflict[]>;
+  
   // Admin note operations
   createAdminNote(note: InsertAdminNote): Promise<AdminNote>;
   getAdminNotesByTarget(targetType: string, targetId: number): Promise<AdminNote[]>;
   updateAdminNote(id: number, note: string): Promise<AdminNote>;
   deleteAdminNote(id: number): Promise<void>;
   
+  // Webhook journal operations
+  recordWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent>;
+  getWebhookEvent(id: number): Promise<WebhookEvent | undefined>;
+  getWebhookEvents(filters: { status?: string; type?: string }): Promise<WebhookEvent[]>;
+  claimWebhookEvent(id: number, force?: boolean): Promise<WebhookEvent | undefined>;
+  markWebhookEventProcessed(id: number): Promise<WebhookEvent>;
+  markWebhookEventFailed(id: number, error: string): Promise<WebhookEvent>;
+  
   // Analytics operations
   recordAnalyticEvent(data: InsertAnalytics): Promise<Analytics>;
   getAnalyticsByMetric(metric: string, eventId?: number, timeframe?: string): Promise<Analytics[]>;
@@ -355,7 +633,7 @@ export class DatabaseStorage implements IStorage {
 
   // === EVENT OPERATIONS ===
 
-  async getEvents(filters: { type?: string; location?: string; search?: string; sortBy?: string; isUpcoming?: boolean; status?: string; includeAllStatuses?: boolean } = {}): Promise<Event[]> {
+  async getEvents(filters: { type?: string; location?: string; venueId?: number; search?: string; sortBy?: string; isUpcoming?: boolean; status?: string; includeAllStatuses?: boolean } = {}): Promise<Event[]> {
     let queryBuilder = db.select().from(events);
     
     // Apply filters
@@ -366,7 +644,23 @@ export class DatabaseStorage implements IStorage {
     }
     
     if (filters.location) {
-      conditions.push(ilike(events.location, `%${filters.location}%`));
+      // Also match events whose venue is in the place searched for, however their location reads
+      const matchingVenues = db
+        .select({ id: venues.id })
+        .from(venues)
+        .where(or(
+          ilike(venues.name, `%${filters.location}%`),
+          ilike(venues.city, `%${filters.location}%`),
+          ilike(venues.state, `%${filters.location}%`)
+        ));
+      conditions.push(or(
+        ilike(events.location, `%${filters.location}%`),
+        inArray(events.venueId, matchingVenues)
+      ));
+    }
+    
+    if (filters.venueId) {
+      conditions.push(eq(events.venueId, filters.venueId));
     }
     
     if (filters.search) {
@@ -442,6 +736,113 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(events).where(eq(events.ownerId, ownerId));
   }
 
+  // === VENUE OPERATIONS ===
+
+  async getVenues(search?: string): Promise<Venue[]> {
+    const query = db.select().from(venues);
+    if (search) {
+      return await query
+        .where(or(
+          ilike(venues.name, `%${search}%`),
+          ilike(venues.address, `%${search}%`),
+          ilike(venues.city, `%${search}%`)
+        ))
+        .orderBy(asc(venues.name));
+    }
+    return await query.orderBy(asc(venues.name));
+  }
+
+  async getVenue(id: number): Promise<Venue | undefined> {
+    const result = await db.select().from(venues).where(eq(venues.id, id));
+    return result[0];
+  }
+
+  async createVenue(venueData: InsertVenue): Promise<Venue> {
+    const result = await db.insert(venues).values(venueData).returning();
+    return result[0];
+  }
+
+  async updateVenue(id: number, venueData: Partial<InsertVenue>): Promise<Venue> {
+    const result = await db
+      .update(venues)
+      .set({ ...venueData, updatedAt: new Date() })
+      .where(eq(venues.id, id))
+      .returning();
+
+    if (!result[0]) {
+      throw new Error(`Venue not found: ${id}`);
+    }
+
+    return result[0];
+  }
+
+  async deleteVenue(id: number): Promise<void> {
+    await db.delete(venues).where(eq(venues.id, id));
+  }
+
+  // Rewrite the location of every event at the venue, returning the events that changed
+  async setVenueEventLocations(venueId: number, location: string): Promise<Event[]> {
+    return await db
+      .update(events)
+      .set({ location, updatedAt: new Date() })
+      .where(and(eq(events.venueId, venueId), not(eq(events.location, location))))
+      .returning();
+  }
+
+  // === EVENT SERIES OPERATIONS ===
+
+  async createEventSeries(seriesData: InsertEventSeries): Promise<EventSeries> {
+    const result = await db.insert(eventSeries).values(seriesData).returning();
+    return result[0];
+  }
+
+  async getEventSeries(id: number): Promise<EventSeries | undefined> {
+    const result = await db.select().from(eventSeries).where(eq(eventSeries.id, id));
+    return result[0];
+  }
+
+  async updateEventSeries(id: number, seriesData: Partial<InsertEventSeries>): Promise<EventSeries> {
+    const result = await db
+      .update(eventSeries)
+      .set({ ...seriesData, updatedAt: new Date() })
+      .where(eq(eventSeries.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Event series not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  // A series' occurrences in date order
+  async getSeriesOccurrences(seriesId: number): Promise<Event[]> {
+    return await db
+      .select()
+      .from(events)
+      .where(eq(events.seriesId, seriesId))
+      .orderBy(asc(events.startDate));
+  }
+
+  // Returns undefined when the series already has an occurrence on that date, e.g. one a
+  // concurrent sweep just created
+  async createSeriesOccurrence(eventData: InsertEvent): Promise<Event | undefined> {
+    const result = await db
+      .insert(events)
+      .values(eventData)
+      .onConflictDoNothing({ target: [events.seriesId, events.occurrenceDate] })
+      .returning();
+    return result[0];
+  }
+
+  // Series that may still have occurrences to generate: no end date, or one not yet past
+  async getOpenEventSeries(today: string): Promise<EventSeries[]> {
+    return await db
+      .select()
+      .from(eventSeries)
+      .where(or(isNull(eventSeries.until), gte(eventSeries.until, today)));
+  }
+
   // === PRODUCT OPERATIONS ===
 
   async getProducts(eventId: number, type?: string, id?: string): Promise<Product[]> {
@@ -488,6 +889,261 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // === PROMO CODE OPERATIONS ===
+
+  async getPromoCode(id: number): Promise<PromoCode | undefined> {
+    const result = await db.select().from(promoCodes).where(eq(promoCodes.id, id));
+    return result[0];
+  }
+
+  async getPromoCodesByEvent(eventId: number): Promise<PromoCode[]> {
+    return await db
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.eventId, eventId))
+      .orderBy(desc(promoCodes.createdAt));
+  }
+
+  async getPromoCodeByCode(code: string, eventIds: number[]): Promise<PromoCode | undefined> {
+    if (eventIds.length === 0) {
+      return undefined;
+    }
+    
+    const result = await db
+      .select()
+      .from(promoCodes)
+      .where(and(eq(promoCodes.code, code.trim().toUpperCase()), inArray(promoCodes.eventId, eventIds)));
+    return result[0];
+  }
+
+  async createPromoCode(promoCodeData: InsertPromoCode): Promise<PromoCode> {
+    const result = await db
+      .insert(promoCodes)
+      .values({ ...promoCodeData, code: promoCodeData.code.trim().toUpperCase() })
+      .returning();
+    return result[0];
+  }
+
+  async updatePromoCode(id: number, promoCodeData: Partial<InsertPromoCode>): Promise<PromoCode> {
+    const result = await db
+      .update(promoCodes)
+      .set({
+        ...promoCodeData,
+        ...(promoCodeData.code ? { code: promoCodeData.code.trim().toUpperCase() } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(promoCodes.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Promo code not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  async deletePromoCode(id: number): Promise<void> {
+    const result = await db.delete(promoCodes).where(eq(promoCodes.id, id)).returning({ id: promoCodes.id });
+    if (result.length === 0) {
+      throw new Error(`Promo code not found: ${id}`);
+    }
+  }
+
+  // Pending and completed orders both count, so an unpaid checkout still holds the user's redemption
+  async countPromoCodeUsesByUser(promoCodeId: number, userId: number): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(and(
+        eq(orders.promoCodeId, promoCodeId),
+        eq(orders.userId, userId),
+        inArray(orders.status, ["pending", "completed"])
+      ));
+    return result[0]?.count || 0;
+  }
+
+  // Atomically take one redemption; false when the code hit maxUses in the meantime
+  async claimPromoCodeUse(id: number): Promise<boolean> {
+    const result = await db
+      .update(promoCodes)
+      .set({ usesCount: sql`${promoCodes.usesCount} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(promoCodes.id, id),
+        or(sql`${promoCodes.maxUses} is null`, sql`${promoCodes.usesCount} < ${promoCodes.maxUses}`)
+      ))
+      .returning({ id: promoCodes.id });
+    return result.length > 0;
+  }
+
+  async releasePromoCodeUse(id: number): Promise<void> {
+    await db
+      .update(promoCodes)
+      .set({ usesCount: sql`greatest(${promoCodes.usesCount} - 1, 0)`, updatedAt: new Date() })
+      .where(eq(promoCodes.id, id));
+  }
+
+  // === ATTENDEE QUESTION OPERATIONS ===
+
+  async getAttendeeQuestion(id: number): Promise<AttendeeQuestion | undefined> {
+    const result = await db.select().from(attendeeQuestions).where(eq(attendeeQuestions.id, id));
+    return result[0];
+  }
+
+  async getAttendeeQuestionsByEvent(eventId: number): Promise<AttendeeQuestion[]> {
+    return await db
+      .select()
+      .from(attendeeQuestions)
+      .where(eq(attendeeQuestions.eventId, eventId))
+      .orderBy(asc(attendeeQuestions.sortOrder), asc(attendeeQuestions.id));
+  }
+
+  async createAttendeeQuestion(questionData: InsertAttendeeQuestion): Promise<AttendeeQuestion> {
+    const result = await db.insert(attendeeQuestions).values(questionData).returning();
+    return result[0];
+  }
+
+  async updateAttendeeQuestion(id: number, questionData: Partial<InsertAttendeeQuestion>): Promise<AttendeeQuestion> {
+    const result = await db
+      .update(attendeeQuestions)
+      .set({
+        ...questionData,
+        updatedAt: new Date()
+      })
+      .where(eq(attendeeQuestions.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Attendee question not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  async deleteAttendeeQuestion(id: number): Promise<void> {
+    const result = await db.delete(attendeeQuestions).where(eq(attendeeQuestions.id, id)).returning({ id: attendeeQuestions.id });
+    if (result.length === 0) {
+      throw new Error(`Attendee question not found: ${id}`);
+    }
+  }
+
+  // An event's issued tickets with who bought them, for the attendee list
+  async getAttendeesByEvent(eventId: number): Promise<(Ticket & { buyerName: string | null; buyerEmail: string })[]> {
+    const rows = await db
+      .select({ ticket: tickets, buyerName: users.name, buyerEmail: users.email })
+      .from(tickets)
+      .innerJoin(users, eq(tickets.userId, users.id))
+      .where(eq(tickets.eventId, eventId))
+      .orderBy(asc(tickets.createdAt), asc(tickets.id));
+    
+    return rows.map(row => ({ ...row.ticket, buyerName: row.buyerName, buyerEmail: row.buyerEmail }));
+  }
+
+  // === SESSION OPERATIONS ===
+
+  // An event's sessions in schedule order, with how many agendas each is on
+  async getSessionsByEvent(eventId: number): Promise<(EventSession & { agendaCount: number })[]> {
+    const rows = await db
+      .select({ session: eventSessions, agendaCount: sql<number>`count(${agendaEntries.id})::int` })
+      .from(eventSessions)
+      .leftJoin(agendaEntries, eq(agendaEntries.sessionId, eventSessions.id))
+      .where(eq(eventSessions.eventId, eventId))
+      .groupBy(eventSessions.id)
+      .orderBy(asc(eventSessions.startTime), asc(eventSessions.stage));
+    
+    return rows.map(row => ({ ...row.session, agendaCount: row.agendaCount }));
+  }
+
+  async getSession(id: number): Promise<EventSession | undefined> {
+    const result = await db.select().from(eventSessions).where(eq(eventSessions.id, id));
+    return result[0];
+  }
+
+  async createSession(sessionData: InsertEventSession): Promise<EventSession> {
+    const result = await db.insert(eventSessions).values(sessionData).returning();
+    return result[0];
+  }
+
+  async updateSession(id: number, sessionData: Partial<InsertEventSession>): Promise<EventSession> {
+    const result = await db
+      .update(eventSessions)
+      .set({ ...sessionData, updatedAt: new Date() })
+      .where(eq(eventSessions.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  async deleteSession(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(agendaEntries).where(eq(agendaEntries.sessionId, id));
+      const result = await tx.delete(eventSessions).where(eq(eventSessions.id, id)).returning({ id: eventSessions.id });
+      if (result.length === 0) {
+        throw new Error(`Session not found: ${id}`);
+      }
+    });
+  }
+
+  // Add a session to a user's agenda. The session row is locked while its seats are counted, so
+  // two people can't take the last seat. Adding a session twice returns the existing entry.
+  async addToAgenda(sessionId: number, userId: number): Promise<AgendaEntry> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx
+        .select()
+        .from(eventSessions)
+        .where(eq(eventSessions.id, sessionId))
+        .for("update");
+      
+      if (!session) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      
+      const [existing] = await tx
+        .select()
+        .from(agendaEntries)
+        .where(and(eq(agendaEntries.sessionId, sessionId), eq(agendaEntries.userId, userId)));
+      if (existing) {
+        return existing;
+      }
+      
+      if (session.capacity !== null) {
+        const [{ count }] = await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(agendaEntries)
+          .where(eq(agendaEntries.sessionId, sessionId));
+        if (count >= session.capacity) {
+          throw new SessionFullError(session.id, session.title);
+        }
+      }
+      
+      const [entry] = await tx.insert(agendaEntries).values({ sessionId, userId }).returning();
+      return entry;
+    });
+  }
+
+  async removeFromAgenda(sessionId: number, userId: number): Promise<boolean> {
+    const result = await db
+      .delete(agendaEntries)
+      .where(and(eq(agendaEntries.sessionId, sessionId), eq(agendaEntries.userId, userId)))
+      .returning({ id: agendaEntries.id });
+    return result.length > 0;
+  }
+
+  // The sessions of an event a user has on their agenda, in schedule order
+  async getAgendaSessions(userId: number, eventId: number): Promise<EventSession[]> {
+    const rows = await db
+      .select({ session: eventSessions })
+      .from(agendaEntries)
+      .innerJoin(eventSessions, eq(agendaEntries.sessionId, eventSessions.id))
+      .where(and(eq(agendaEntries.userId, userId), eq(eventSessions.eventId, eventId)))
+      .orderBy(asc(eventSessions.startTime));
+    
+    return rows.map(row => row.session);
+  }
+
   // === VENDOR OPERATIONS ===
 
   async getVendorProfile(userId: number): Promise<VendorProfile | undefined> {
@@ -589,38 +1245,249 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async updateVendorRegistrationStatus(id: number, status: string, reviewedBy: number): Promise<VendorRegistration> {
-    const result = await db
-      .update(vendorRegistrations)
-      .set({ 
-        status, 
-        reviewedBy, 
-        reviewDate: new Date(),
-        updatedAt: new Date() 
-      })
-      .where(eq(vendorRegistrations.id, id))
-      .returning();
-    
-    if (!result[0]) {
-      throw new Error(`Vendor registration not found: ${id}`);
-    }
-    
-    return result[0];
+  // Register a vendor for one of an organizer's vendor spots, taking one of its availableSpots.
+  // A waitlist offer for the spot is claimed first, so its held place is the one taken.
+  // Throws CapacityFullError when the spot has no places left.
+  async createSpotRegistration(registrationData: InsertVendorRegistration, userId: number, waitlistEntryId?: number): Promise<VendorRegistration> {
+    return await db.transaction(async (tx) => {
+      const capacity: WaitlistCapacity = { type: "vendor_spot", id: registrationData.vendorSpotId };
+      await this.takeSignUpPlace(tx, capacity, userId, waitlistEntryId);
+      
+      const [registration] = await tx
+        .insert(vendorRegistrations)
+        .values({ ...registrationData, metadata: { ...(registrationData.metadata as Record<string, any> || {}), holdsPlace: true } })
+        .returning();
+      return registration;
+    });
   }
 
-  // === VOLUNTEER OPERATIONS ===
+  // A registration that stops holding its spot's place (rejected or cancelled) gives it back
+  async updateVendorRegistrationStatus(id: number, status: string, reviewedBy: number): Promise<VendorRegistration> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(vendorRegistrations)
+        .where(eq(vendorRegistrations.id, id))
+        .for("update");
+      
+      if (!current) {
+        throw new Error(`Vendor registration not found: ${id}`);
+      }
+      
+      await this.moveSignUpPlace(tx, { type: "vendor_spot", id: current.vendorSpotId }, current.metadata, current.status, status);
+      
+      const [updated] = await tx
+        .update(vendorRegistrations)
+        .set({ 
+          status, 
+          reviewedBy, 
+          reviewDate: new Date(),
+          updatedAt: new Date() 
+        })
+        .where(eq(vendorRegistrations.id, id))
+        .returning();
+      return updated;
+    });
+  }
 
-  async getVolunteerProfile(userId: number): Promise<VolunteerProfile | undefined> {
-    const result = await db.select().from(volunteerProfiles).where(eq(volunteerProfiles.userId, userId));
-    return result[0];
+  // Hold the approved vendor's spot on a pending order that expires at the payment deadline,
+  // and link it to the registration. Throws InsufficientStockError if the spot type sold out.
+  async requestVendorPayment(
+    registrationId: number,
+    orderData: InsertOrder,
+    item: PendingOrderItem,
+    dueAt: Date
+  ): Promise<{ order: Order; registration: VendorRegistration }> {
+    return await db.transaction(async (tx) => {
+      const { order } = await this.createPendingOrderInTransaction(tx, orderData, [item], dueAt);
+      
+      const [registration] = await tx
+        .update(vendorRegistrations)
+        .set({ orderId: order.id, paymentDueAt: dueAt, updatedAt: new Date() })
+        .where(eq(vendorRegistrations.id, registrationId))
+        .returning();
+      
+      if (!registration) {
+        throw new Error(`Vendor registration not found: ${registrationId}`);
+      }
+      
+      return { order, registration };
+    });
   }
 
-  async createVolunteerProfile(profileData: InsertVolunteerProfile): Promise<VolunteerProfile> {
-    const result = await db.insert(volunteerProfiles).values(profileData).returning();
-    return result[0];
+  // An unpaid approval's order has expired: the vendor loses the approval and their booth
+  async lapseVendorRegistrationsForOrder(orderId: number): Promise<VendorRegistration[]> {
+    return await db.transaction(async (tx) => {
+      const lapsed = await tx
+        .update(vendorRegistrations)
+        .set({ status: "lapsed", updatedAt: new Date() })
+        .where(and(
+          eq(vendorRegistrations.orderId, orderId),
+          eq(vendorRegistrations.status, "approved"),
+          isNotNull(vendorRegistrations.paymentDueAt)
+        ))
+        .returning();
+      
+      if (lapsed.length > 0) {
+        await tx
+          .update(vendorBooths)
+          .set({ vendorRegistrationId: null, updatedAt: new Date() })
+          .where(inArray(vendorBooths.vendorRegistrationId, lapsed.map(registration => registration.id)));
+      }
+      
+      return lapsed;
+    });
   }
 
-  async updateVolunteerProfile(id: number, profileData: Partial<InsertVolunteerProfile>): Promise<VolunteerProfile> {
+  // === VENDOR BOOTH OPERATIONS ===
+
+  async getVendorBooths(eventId: number): Promise<VendorBooth[]> {
+    return await db
+      .select()
+      .from(vendorBooths)
+      .where(eq(vendorBooths.eventId, eventId))
+      .orderBy(asc(vendorBooths.boothNumber));
+  }
+
+  async getVendorBooth(id: number): Promise<VendorBooth | undefined> {
+    const result = await db.select().from(vendorBooths).where(eq(vendorBooths.id, id));
+    return result[0];
+  }
+
+  async getVendorBoothByRegistration(vendorRegistrationId: number): Promise<VendorBooth | undefined> {
+    const result = await db.select().from(vendorBooths).where(eq(vendorBooths.vendorRegistrationId, vendorRegistrationId));
+    return result[0];
+  }
+
+  async createVendorBooth(boothData: InsertVendorBooth): Promise<VendorBooth> {
+    const result = await db.insert(vendorBooths).values(boothData).returning();
+    return result[0];
+  }
+
+  async updateVendorBooth(id: number, boothData: Partial<InsertVendorBooth>): Promise<VendorBooth> {
+    const result = await db
+      .update(vendorBooths)
+      .set({ ...boothData, updatedAt: new Date() })
+      .where(eq(vendorBooths.id, id))
+      .returning();
+
+    if (!result[0]) {
+      throw new Error(`Vendor booth not found: ${id}`);
+    }
+
+    return result[0];
+  }
+
+  async deleteVendorBooth(id: number): Promise<void> {
+    await db.delete(vendorBooths).where(eq(vendorBooths.id, id));
+  }
+
+  // Put a vendor in a booth, moving them out of any booth they had. Whoever was in the booth
+  // before is left unassigned. Null empties the booth.
+  async assignVendorBooth(id: number, vendorRegistrationId: number | null): Promise<VendorBooth> {
+    return await db.transaction(async (tx) => {
+      if (vendorRegistrationId !== null) {
+        await tx
+          .update(vendorBooths)
+          .set({ vendorRegistrationId: null, updatedAt: new Date() })
+          .where(and(eq(vendorBooths.vendorRegistrationId, vendorRegistrationId), not(eq(vendorBooths.id, id))));
+      }
+
+      const result = await tx
+        .update(vendorBooths)
+        .set({ vendorRegistrationId, updatedAt: new Date() })
+        .where(eq(vendorBooths.id, id))
+        .returning();
+
+      if (!result[0]) {
+        throw new Error(`Vendor booth not found: ${id}`);
+      }
+
+      return result[0];
+    });
+  }
+
+  async releaseVendorBooth(vendorRegistrationId: number): Promise<void> {
+    await db
+      .update(vendorBooths)
+      .set({ vendorRegistrationId: null, updatedAt: new Date() })
+      .where(eq(vendorBooths.vendorRegistrationId, vendorRegistrationId));
+  }
+
+  // === VENDOR DOCUMENT OPERATIONS ===
+
+  async getVendorDocuments(vendorProfileId: number): Promise<VendorDocument[]> {
+    return await db
+      .select()
+      .from(vendorDocuments)
+      .where(eq(vendorDocuments.vendorProfileId, vendorProfileId))
+      .orderBy(asc(vendorDocuments.documentType), desc(vendorDocuments.createdAt));
+  }
+
+  async getVendorDocument(id: number): Promise<VendorDocument | undefined> {
+    const result = await db.select().from(vendorDocuments).where(eq(vendorDocuments.id, id));
+    return result[0];
+  }
+
+  async createVendorDocument(documentData: InsertVendorDocument): Promise<VendorDocument> {
+    const result = await db.insert(vendorDocuments).values(documentData).returning();
+    return result[0];
+  }
+
+  async deleteVendorDocument(id: number): Promise<void> {
+    await db.delete(vendorDocuments).where(eq(vendorDocuments.id, id));
+  }
+
+  // Documents expiring before the given time whose vendor hasn't been warned yet. Ones that
+  // have already expired are included, so a late upload still gets its warning.
+  async getVendorDocumentsDueForReminder(expiringBefore: Date): Promise<VendorDocument[]> {
+    return await db
+      .select()
+      .from(vendorDocuments)
+      .where(and(
+        isNull(vendorDocuments.reminderSentAt),
+        lt(vendorDocuments.expiresAt, expiringBefore)
+      ));
+  }
+
+  async markVendorDocumentReminderSent(id: number): Promise<void> {
+    await db
+      .update(vendorDocuments)
+      .set({ reminderSentAt: new Date(), updatedAt: new Date() })
+      .where(eq(vendorDocuments.id, id));
+  }
+
+  // Vendors still taking part in events that haven't ended, for the compliance report
+  async getUpcomingVendorRegistrations(from: Date): Promise<{ registration: VendorRegistration; event: Event }[]> {
+    return await db
+      .select({ registration: vendorRegistrations, event: events })
+      .from(vendorRegistrations)
+      .innerJoin(events, eq(vendorRegistrations.eventId, events.id))
+      .where(and(
+        gte(events.endDate, from),
+        not(inArray(vendorRegistrations.status, ["rejected", "cancelled", "lapsed"]))
+      ))
+      .orderBy(asc(events.startDate));
+  }
+
+  // === VOLUNTEER OPERATIONS ===
+
+  async getVolunteerProfile(userId: number): Promise<VolunteerProfile | undefined> {
+    const result = await db.select().from(volunteerProfiles).where(eq(volunteerProfiles.userId, userId));
+    return result[0];
+  }
+
+  async getVolunteerProfileById(id: number): Promise<VolunteerProfile | undefined> {
+    const result = await db.select().from(volunteerProfiles).where(eq(volunteerProfiles.id, id));
+    return result[0];
+  }
+
+  async createVolunteerProfile(profileData: InsertVolunteerProfile): Promise<VolunteerProfile> {
+    const result = await db.insert(volunteerProfiles).values(profileData).returning();
+    return result[0];
+  }
+
+  async updateVolunteerProfile(id: number, profileData: Partial<InsertVolunteerProfile>): Promise<VolunteerProfile> {
     const result = await db
       .update(volunteerProfiles)
       .set({ ...profileData, updatedAt: new Date() })
@@ -704,211 +1571,1807 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Sign a volunteer up for one of an organizer's shifts, taking one of its availableSpots.
+  // A waitlist offer for the shift is claimed first, so its held place is the one taken.
+  // Throws CapacityFullError when the shift has no places left.
+  async createShiftAssignment(assignmentData: InsertVolunteerAssignment, userId: number, waitlistEntryId?: number): Promise<VolunteerAssignment> {
+    return await db.transaction(async (tx) => {
+      const capacity: WaitlistCapacity = { type: "volunteer_shift", id: assignmentData.shiftId };
+      await this.takeSignUpPlace(tx, capacity, userId, waitlistEntryId);
+      
+      const [assignment] = await tx
+        .insert(volunteerAssignments)
+        .values({ ...assignmentData, metadata: { ...(assignmentData.metadata as Record<string, any> || {}), holdsPlace: true } })
+        .returning();
+      return assignment;
+    });
+  }
+
+  // The order item a volunteer shift product was bought with, for assignments made through checkout
+  async getVolunteerAssignmentOrderItem(assignment: VolunteerAssignment): Promise<OrderItem | undefined> {
+    const assignmentMetadata = (assignment.metadata as Record<string, any>) || {};
+    const result = await db
+      .select()
+      .from(orderItems)
+      .where(and(
+        eq(orderItems.itemType, "volunteer_shift"),
+        or(
+          eq(orderItems.id, assignmentMetadata.orderItemId ?? -1),
+          sql`${orderItems.metadata}->>'id' = ${String(assignment.id)}`
+        )
+      ));
+    return result[0];
+  }
+
+  // An assignment that stops holding its shift's place (rejected or cancelled) gives it back
   async updateVolunteerAssignmentStatus(id: number, status: string, reviewedBy: number): Promise<VolunteerAssignment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(volunteerAssignments)
+        .where(eq(volunteerAssignments.id, id))
+        .for("update");
+      
+      if (!current) {
+        throw new Error(`Volunteer assignment not found: ${id}`);
+      }
+      
+      await this.moveSignUpPlace(tx, { type: "volunteer_shift", id: current.shiftId }, current.metadata, current.status, status);
+      
+      const [updated] = await tx
+        .update(volunteerAssignments)
+        .set({ 
+          status, 
+          reviewedBy, 
+          reviewDate: new Date(),
+          updatedAt: new Date() 
+        })
+        .where(eq(volunteerAssignments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Take a place for a sign-up to a vendor spot or volunteer shift, claiming the user's waitlist
+  // offer for it first if they have one
+  private async takeSignUpPlace(tx: Transaction, capacity: WaitlistCapacity, userId: number, waitlistEntryId?: number): Promise<void> {
+    if (waitlistEntryId) {
+      await this.claimWaitlistOffer(tx, waitlistEntryId, capacity, userId, null);
+    }
+    
+    if (!(await this.takeCapacity(tx, capacity, 1))) {
+      const locked = await this.lockCapacity(tx, capacity);
+      throw new CapacityFullError(capacity, locked?.name || "This spot");
+    }
+  }
+
+  // Give a sign-up's place back when its new status no longer holds one, or take it again when it's
+  // reinstated. Only sign-ups made against a spot's or shift's own places (holdsPlace) have one.
+  private async moveSignUpPlace(tx: Transaction, capacity: WaitlistCapacity, metadata: unknown, from: string, to: string): Promise<void> {
+    if (!((metadata as Record<string, any>) || {}).holdsPlace) {
+      return;
+    }
+    
+    const held = PLACE_HOLDING_STATUSES.includes(from);
+    const holds = PLACE_HOLDING_STATUSES.includes(to);
+    if (held && !holds) {
+      await this.adjustCapacity(tx, capacity, 1);
+    } else if (!held && holds && !(await this.takeCapacity(tx, capacity, 1))) {
+      const locked = await this.lockCapacity(tx, capacity);
+      throw new CapacityFullError(capacity, locked?.name || "This spot");
+    }
+  }
+
+  // === APPLICATION FORM OPERATIONS ===
+
+  async getApplicationForm(eventId: number, formType: ApplicationFormType): Promise<ApplicationForm | undefined> {
+    const result = await db
+      .select()
+      .from(applicationForms)
+      .where(and(eq(applicationForms.eventId, eventId), eq(applicationForms.formType, formType)));
+    return result[0];
+  }
+
+  // Replaces the whole form, creating it the first time it's saved
+  async saveApplicationForm(eventId: number, formType: ApplicationFormType, fields: ApplicationFormField[]): Promise<ApplicationForm> {
+    const existing = await this.getApplicationForm(eventId, formType);
+    if (existing) {
+      const result = await db
+        .update(applicationForms)
+        .set({ fields, updatedAt: new Date() })
+        .where(eq(applicationForms.id, existing.id))
+        .returning();
+      return result[0];
+    }
+
+    const result = await db.insert(applicationForms).values({ eventId, formType, fields }).returning();
+    return result[0];
+  }
+
+  // === ORDER OPERATIONS ===
+
+  async createOrder(orderData: InsertOrder): Promise<Order> {
+    // Generate a unique order number
+    const orderNumber = `ORD-${randomBytes(4).toString('hex').toUpperCase()}`;
+    
+    const result = await db.insert(orders).values({
+      ...orderData,
+      orderNumber
+    }).returning();
+    
+    return result[0];
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const result = await db.select().from(orders).where(eq(orders.id, id));
+    return result[0];
+  }
+
+  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
+    const result = await db.select().from(orders).where(eq(orders.orderNumber, orderNumber));
+    return result[0];
+  }
+
+  async getOrdersByUser(userId: number): Promise<Order[]> {
+    return await db.select().from(orders).where(eq(orders.userId, userId));
+  }
+
+  async getCompletedPaidOrdersWithItems(userId: number): Promise<(Order & { items: OrderItem[]; eventTitle: string })[]> {
+    const ordersResult = await db
+      .select({
+        order: orders,
+        eventTitle: events.title
+      })
+      .from(orders)
+      .innerJoin(events, eq(orders.eventId, events.id))
+      .where(
+        and(
+          eq(orders.userId, userId),
+          eq(orders.status, "completed"),
+          eq(orders.paymentStatus, "paid")
+        )
+      );
+
+    const ordersWithItems = await Promise.all(
+      ordersResult.map(async (result) => {
+        const items = await db
+          .select()
+          .from(orderItems)
+          .where(eq(orderItems.orderId, result.order.id));
+        
+        return {
+          ...result.order,
+          eventTitle: result.eventTitle,
+          items
+        };
+      })
+    );
+
+    return ordersWithItems;
+  }
+
+  async getOrdersByEvent(eventId: number): Promise<Order[]> {
+    return await db.select().from(orders).where(eq(orders.eventId, eventId));
+  }
+
+  async updateOrderStatus(id: number, status: string): Promise<Order> {
     const result = await db
-      .update(volunteerAssignments)
+      .update(orders)
       .set({ 
         status, 
-        reviewedBy, 
-        reviewDate: new Date(),
         updatedAt: new Date() 
       })
-      .where(eq(volunteerAssignments.id, id))
+      .where(eq(orders.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Order not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  async updateOrderPaymentStatus(id: number, paymentStatus: string, stripePaymentId?: string): Promise<Order> {
+    const updateData: any = { 
+      paymentStatus, 
+      updatedAt: new Date() 
+    };
+    
+    if (stripePaymentId) {
+      updateData.stripePaymentId = stripePaymentId;
+    }
+    
+    const result = await db
+      .update(orders)
+      .set(updateData)
+      .where(eq(orders.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Order not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  // Create pending orders (one per organizer in a cart) and hold their stock in one transaction,
+  // so two buyers can never both be sold the last unit. Tickets bought from an event page hold
+  // the event's ticketsAvailable rather than a product's quantity.
+  // Throws InsufficientStockError when an item sold out; nothing is created in that case.
+  async createPendingOrders(
+    groups: { order: InsertOrder; items: PendingOrderItem[] }[],
+    expiresAt: Date
+  ): Promise<{ order: Order; items: OrderItem[] }[]> {
+    return await db.transaction(async (tx) => {
+      const created: { order: Order; items: OrderItem[] }[] = [];
+      for (const group of groups) {
+        created.push(await this.createPendingOrderInTransaction(tx, group.order, group.items, expiresAt));
+      }
+      return created;
+    });
+  }
+
+  private async createPendingOrderInTransaction(
+    tx: Transaction,
+    orderData: InsertOrder,
+    items: PendingOrderItem[],
+    expiresAt: Date
+  ): Promise<{ order: Order; items: OrderItem[] }> {
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        ...orderData,
+        orderNumber: `ORD-${randomBytes(4).toString('hex').toUpperCase()}`,
+        stockReservedAt: new Date(),
+        expiresAt
+      })
       .returning();
     
-    if (!result[0]) {
-      throw new Error(`Volunteer assignment not found: ${id}`);
+    const createdItems: OrderItem[] = [];
+    for (const { waitlistEntryId, ...item } of items) {
+      const stockItem = { ...item, quantity: item.quantity ?? 1, metadata: item.metadata ?? null };
+      const capacity = getItemCapacity(stockItem);
+      
+      // A claimed waitlist offer puts its held units back so the hold below can take them
+      if (waitlistEntryId) {
+        await this.claimWaitlistOffer(tx, waitlistEntryId, capacity, order.userId, order.id);
+      }
+      
+      if (!(await this.takeItemStock(tx, stockItem))) {
+        const locked = await this.lockCapacity(tx, capacity);
+        throw new InsufficientStockError(item.itemId, item.name, locked?.available ?? 0);
+      }
+      
+      const [created] = await tx.insert(orderItems).values({ ...item, orderId: order.id }).returning();
+      createdItems.push(created);
+    }
+    
+    return { order, items: createdItems };
+  }
+
+  // Cancel or expire an unpaid order, returning its held stock and promo code redemption.
+  // Returns undefined when the order is no longer pending (paid, or already released).
+  async releaseOrderHold(orderId: number, status: "cancelled" | "expired"): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      
+      if (!order || order.status !== "pending" || order.fulfilledAt) {
+        return undefined;
+      }
+      
+      if (order.stockReservedAt) {
+        const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+        for (const item of items) {
+          await this.adjustItemStock(tx, item, item.quantity);
+        }
+      }
+      
+      if (order.promoCodeId) {
+        await tx
+          .update(promoCodes)
+          .set({ usesCount: sql`greatest(${promoCodes.usesCount} - 1, 0)`, updatedAt: new Date() })
+          .where(eq(promoCodes.id, order.promoCodeId));
+      }
+      
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({
+          status,
+          paymentStatus: status,
+          stockReservedAt: null,
+          updatedAt: new Date()
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+      
+      return updatedOrder;
+    });
+  }
+
+  async getExpiredPendingOrders(now: Date): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.status, "pending"),
+        isNull(orders.fulfilledAt),
+        lt(orders.expiresAt, now)
+      ));
+  }
+
+  async getOrdersByCheckoutGroup(checkoutGroup: string): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(eq(orders.checkoutGroup, checkoutGroup))
+      .orderBy(asc(orders.id));
+  }
+
+  async setOrdersStripeSession(orderIds: number[], stripeSessionId: string): Promise<void> {
+    if (orderIds.length === 0) return;
+    
+    await db
+      .update(orders)
+      .set({ stripeSessionId, updatedAt: new Date() })
+      .where(inArray(orders.id, orderIds));
+  }
+
+  async setOrderStripeTransfer(id: number, stripeTransferId: string): Promise<Order> {
+    const result = await db
+      .update(orders)
+      .set({ stripeTransferId, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Order not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  async markOrderEmailSent(id: number): Promise<void> {
+    await db
+      .update(orders)
+      .set({ emailSent: true, updatedAt: new Date() })
+      .where(eq(orders.id, id));
+  }
+
+  // === ORDER ITEM OPERATIONS ===
+
+  async createOrderItem(itemData: InsertOrderItem): Promise<OrderItem> {
+    const result = await db.insert(orderItems).values(itemData).returning();
+    return result[0];
+  }
+
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  }
+
+  // === TICKET OPERATIONS ===
+
+  async createTicket(ticketData: InsertTicket): Promise<Ticket> {
+    const result = await db.insert(tickets).values({
+      ...ticketData,
+      ticketNumber: generateTicketNumber()
+    }).returning();
+    
+    return result[0];
+  }
+
+  async getTicket(id: number): Promise<Ticket | undefined> {
+    const result = await db.select().from(tickets).where(eq(tickets.id, id));
+    return result[0];
+  }
+
+  async getTicketByNumber(ticketNumber: string): Promise<Ticket | undefined> {
+    const result = await db.select().from(tickets).where(eq(tickets.ticketNumber, ticketNumber));
+    return result[0];
+  }
+
+  async getTicketsByUser(userId: number): Promise<Ticket[]> {
+    return await db.select().from(tickets).where(eq(tickets.userId, userId));
+  }
+
+  async getTicketsByEvent(eventId: number): Promise<Ticket[]> {
+    return await db.select().from(tickets).where(eq(tickets.eventId, eventId));
+  }
+
+  async getTicketsByOrder(orderId: number): Promise<Ticket[]> {
+    return await db.select().from(tickets).where(eq(tickets.orderId, orderId));
+  }
+
+  async updateTicketStatus(id: number, status: string): Promise<Ticket> {
+    const result = await db
+      .update(tickets)
+      .set({ 
+        status, 
+        updatedAt: new Date() 
+      })
+      .where(eq(tickets.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Ticket not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  async checkInTicket(id: number): Promise<Ticket> {
+    const result = await db
+      .update(tickets)
+      .set({ 
+        status: 'used', 
+        checkInTime: new Date(),
+        updatedAt: new Date() 
+      })
+      .where(eq(tickets.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Ticket not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  // === WAITLIST OPERATIONS ===
+
+  // Join the back of the queue
+  async createWaitlistEntry(entryData: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    return await db.transaction(async (tx) => {
+      const [last] = await tx
+        .select({ position: sql<number>`coalesce(max(${waitlistEntries.position}), 0)` })
+        .from(waitlistEntries)
+        .where(inWaitlistQueue({ type: entryData.capacityType, id: entryData.capacityId }));
+      
+      const [entry] = await tx
+        .insert(waitlistEntries)
+        .values({ ...entryData, position: Number(last?.position || 0) + 1 })
+        .returning();
+      return entry;
+    });
+  }
+
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const result = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return result[0];
+  }
+
+  async getWaitlistEntryByToken(claimToken: string): Promise<WaitlistEntry | undefined> {
+    const result = await db.select().from(waitlistEntries).where(eq(waitlistEntries.claimToken, claimToken));
+    return result[0];
+  }
+
+  // The user's place in the queue, if they are waiting or holding an offer
+  async getActiveWaitlistEntry(capacity: WaitlistCapacity, userId: number): Promise<WaitlistEntry | undefined> {
+    const result = await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(
+        inWaitlistQueue(capacity),
+        eq(waitlistEntries.userId, userId),
+        inArray(waitlistEntries.status, ["waiting", "offered"])
+      ));
+    return result[0];
+  }
+
+  async getWaitlistEntriesByUser(userId: number): Promise<(WaitlistEntry & { itemName: string; eventTitle: string; placeInLine: number | null })[]> {
+    const rows = await this.selectNamedWaitlistEntries()
+      .where(eq(waitlistEntries.userId, userId))
+      .orderBy(desc(waitlistEntries.createdAt));
+    
+    const result = [];
+    for (const row of rows) {
+      let placeInLine: number | null = null;
+      if (row.entry.status === "waiting") {
+        const [ahead] = await db
+          .select({ count: sql<number>`count(*)` })
+          .from(waitlistEntries)
+          .where(and(
+            inWaitlistQueue({ type: row.entry.capacityType as WaitlistCapacity["type"], id: row.entry.capacityId }),
+            eq(waitlistEntries.status, "waiting"),
+            lt(waitlistEntries.position, row.entry.position)
+          ));
+        placeInLine = Number(ahead?.count || 0) + 1;
+      }
+      result.push({ ...row.entry, itemName: row.itemName, eventTitle: row.eventTitle, placeInLine });
+    }
+    return result;
+  }
+
+  // Everyone waiting for or holding an offer on anything at the event, one queue after another
+  async getWaitlistByEvent(eventId: number): Promise<(WaitlistEntry & { itemName: string; userName: string | null; userEmail: string })[]> {
+    const rows = await this.selectNamedWaitlistEntries()
+      .where(and(
+        eq(waitlistEntries.eventId, eventId),
+        inArray(waitlistEntries.status, ["waiting", "offered"])
+      ))
+      .orderBy(asc(waitlistEntries.capacityType), asc(waitlistEntries.capacityId), asc(waitlistEntries.position));
+    
+    return rows.map(row => ({ ...row.entry, itemName: row.itemName, userName: row.userName, userEmail: row.userEmail }));
+  }
+
+  // What a waitlist queues for, with how much of it is free (null when unlimited)
+  async getWaitlistCapacity(capacity: WaitlistCapacity): Promise<{ eventId: number; name: string; available: number | null; isActive: boolean } | undefined> {
+    return await db.transaction(async (tx) => await this.lockCapacity(tx, capacity));
+  }
+
+  // Renumber the queue in the given order
+  async reorderWaitlist(capacity: WaitlistCapacity, entryIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < entryIds.length; index++) {
+        await tx
+          .update(waitlistEntries)
+          .set({ position: index + 1, updatedAt: new Date() })
+          .where(and(eq(waitlistEntries.id, entryIds[index]), inWaitlistQueue(capacity)));
+      }
+    });
+  }
+
+  // Leave the queue. An open offer gives its held units back, reported as released.
+  async cancelWaitlistEntry(id: number): Promise<{ entry: WaitlistEntry; released: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(waitlistEntries)
+        .where(eq(waitlistEntries.id, id))
+        .for("update");
+      
+      if (!current || (current.status !== "waiting" && current.status !== "offered")) {
+        throw new Error(`Active waitlist entry not found: ${id}`);
+      }
+      
+      const [entry] = await tx
+        .update(waitlistEntries)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(waitlistEntries.id, id))
+        .returning();
+      
+      const released = current.status === "offered";
+      if (released) {
+        await this.adjustCapacity(tx, { type: current.capacityType as WaitlistCapacity["type"], id: current.capacityId }, current.quantity);
+      }
+      
+      return { entry, released };
+    });
+  }
+
+  // Offer whatever is free to the queue, first come first served. An entry is only offered its
+  // full quantity, so a large request further up can be passed by smaller ones behind it.
+  // Offered units leave the capacity until the offer is claimed or expires.
+  async offerWaitlistSpots(capacity: WaitlistCapacity, offerExpiresAt: Date): Promise<WaitlistEntry[]> {
+    return await db.transaction(async (tx) => {
+      const locked = await this.lockCapacity(tx, capacity);
+      
+      // Unlimited capacity never runs out, so it has nothing to offer
+      if (!locked || locked.available === null || locked.available <= 0) {
+        return [];
+      }
+      
+      const waiting = await tx
+        .select()
+        .from(waitlistEntries)
+        .where(and(inWaitlistQueue(capacity), eq(waitlistEntries.status, "waiting")))
+        .orderBy(asc(waitlistEntries.position));
+      
+      let available = locked.available;
+      const offered: WaitlistEntry[] = [];
+      for (const entry of waiting) {
+        if (entry.quantity > available) continue;
+        
+        const [updated] = await tx
+          .update(waitlistEntries)
+          .set({
+            status: "offered",
+            claimToken: randomBytes(24).toString("hex"),
+            offeredAt: new Date(),
+            offerExpiresAt,
+            updatedAt: new Date()
+          })
+          .where(eq(waitlistEntries.id, entry.id))
+          .returning();
+        
+        offered.push(updated);
+        available -= entry.quantity;
+        if (available === 0) break;
+      }
+      
+      if (offered.length > 0) {
+        await this.adjustCapacity(tx, capacity, available - locked.available);
+      }
+      
+      return offered;
+    });
+  }
+
+  // Expire unclaimed offers and give their held units back. Returns the queues affected.
+  async expireWaitlistOffers(now: Date): Promise<WaitlistCapacity[]> {
+    return await db.transaction(async (tx) => {
+      const expired = await tx
+        .update(waitlistEntries)
+        .set({ status: "expired", updatedAt: now })
+        .where(and(eq(waitlistEntries.status, "offered"), lt(waitlistEntries.offerExpiresAt, now)))
+        .returning();
+      
+      const capacities = new Map<string, WaitlistCapacity>();
+      for (const entry of expired) {
+        const capacity = { type: entry.capacityType as WaitlistCapacity["type"], id: entry.capacityId };
+        await this.adjustCapacity(tx, capacity, entry.quantity);
+        capacities.set(`${capacity.type}:${capacity.id}`, capacity);
+      }
+      
+      return Array.from(capacities.values());
+    });
+  }
+
+  // Waitlist entries joined to their event and user, with the name of what they queue for
+  private selectNamedWaitlistEntries() {
+    return db
+      .select({
+        entry: waitlistEntries,
+        itemName: sql<string>`coalesce(${products.name}, ${vendorSpots.name}, ${volunteerShifts.name}, ${events.title} || ' tickets')`,
+        eventTitle: events.title,
+        userName: users.name,
+        userEmail: users.email,
+      })
+      .from(waitlistEntries)
+      .innerJoin(events, eq(waitlistEntries.eventId, events.id))
+      .innerJoin(users, eq(waitlistEntries.userId, users.id))
+      .leftJoin(products, and(eq(waitlistEntries.capacityType, "product"), eq(products.id, waitlistEntries.capacityId)))
+      .leftJoin(vendorSpots, and(eq(waitlistEntries.capacityType, "vendor_spot"), eq(vendorSpots.id, waitlistEntries.capacityId)))
+      .leftJoin(volunteerShifts, and(eq(waitlistEntries.capacityType, "volunteer_shift"), eq(volunteerShifts.id, waitlistEntries.capacityId)));
+  }
+
+  // Mark the user's open offer claimed and put its held units back, so the caller can take them
+  private async claimWaitlistOffer(
+    tx: Transaction,
+    entryId: number,
+    capacity: WaitlistCapacity,
+    userId: number,
+    orderId: number | null
+  ): Promise<WaitlistEntry | undefined> {
+    const [claimed] = await tx
+      .update(waitlistEntries)
+      .set({ status: "claimed", claimedAt: new Date(), orderId, updatedAt: new Date() })
+      .where(and(
+        eq(waitlistEntries.id, entryId),
+        inWaitlistQueue(capacity),
+        eq(waitlistEntries.userId, userId),
+        eq(waitlistEntries.status, "offered"),
+        gte(waitlistEntries.offerExpiresAt, new Date())
+      ))
+      .returning();
+    
+    if (claimed) {
+      await this.adjustCapacity(tx, capacity, claimed.quantity);
+    }
+    return claimed;
+  }
+
+  // Lock what a waitlist queues for and read how much of it is free (null when unlimited)
+  private async lockCapacity(tx: Transaction, capacity: WaitlistCapacity): Promise<{ eventId: number; name: string; available: number | null; isActive: boolean } | undefined> {
+    switch (capacity.type) {
+      case "product": {
+        const [product] = await tx.select().from(products).where(eq(products.id, capacity.id)).for("update");
+        return product && { eventId: product.eventId, name: product.name, available: product.quantity, isActive: product.isActive };
+      }
+      case "event": {
+        const [event] = await tx.select().from(events).where(eq(events.id, capacity.id)).for("update");
+        return event && { eventId: event.id, name: `${event.title} tickets`, available: event.ticketsAvailable, isActive: true };
+      }
+      case "vendor_spot": {
+        const [spot] = await tx.select().from(vendorSpots).where(eq(vendorSpots.id, capacity.id)).for("update");
+        return spot && { eventId: spot.eventId, name: spot.name, available: spot.availableSpots, isActive: true };
+      }
+      case "volunteer_shift": {
+        const [shift] = await tx.select().from(volunteerShifts).where(eq(volunteerShifts.id, capacity.id)).for("update");
+        return shift && { eventId: shift.eventId, name: shift.name, available: shift.availableSpots, isActive: true };
+      }
+    }
+  }
+
+  // Take places from an event's tickets, a vendor spot or a volunteer shift, only if enough are
+  // left (null means unlimited). Returns false when they're gone. Product stock goes through
+  // takeItemStock, which also counts the sale.
+  private async takeCapacity(tx: Transaction, capacity: WaitlistCapacity, quantity: number): Promise<boolean> {
+    switch (capacity.type) {
+      case "event": {
+        const taken = await tx
+          .update(events)
+          .set({
+            ticketsAvailable: sql`case when ${events.ticketsAvailable} is null then null else ${events.ticketsAvailable} - ${quantity} end`,
+            updatedAt: new Date()
+          })
+          .where(and(
+            eq(events.id, capacity.id),
+            or(isNull(events.ticketsAvailable), gte(events.ticketsAvailable, quantity))
+          ))
+          .returning({ id: events.id });
+        return taken.length > 0;
+      }
+      case "vendor_spot": {
+        const taken = await tx
+          .update(vendorSpots)
+          .set({
+            availableSpots: sql`case when ${vendorSpots.availableSpots} is null then null else ${vendorSpots.availableSpots} - ${quantity} end`,
+            updatedAt: new Date()
+          })
+          .where(and(
+            eq(vendorSpots.id, capacity.id),
+            or(isNull(vendorSpots.availableSpots), gte(vendorSpots.availableSpots, quantity))
+          ))
+          .returning({ id: vendorSpots.id });
+        return taken.length > 0;
+      }
+      case "volunteer_shift": {
+        const taken = await tx
+          .update(volunteerShifts)
+          .set({
+            availableSpots: sql`case when ${volunteerShifts.availableSpots} is null then null else ${volunteerShifts.availableSpots} - ${quantity} end`,
+            updatedAt: new Date()
+          })
+          .where(and(
+            eq(volunteerShifts.id, capacity.id),
+            or(isNull(volunteerShifts.availableSpots), gte(volunteerShifts.availableSpots, quantity))
+          ))
+          .returning({ id: volunteerShifts.id });
+        return taken.length > 0;
+      }
+      case "product":
+        throw new Error(`Product stock is taken with takeItemStock: ${capacity.id}`);
+    }
+  }
+
+  // Move units between capacity and waitlist holds or sign-ups, without touching a product's sold count
+  private async adjustCapacity(tx: Transaction, capacity: WaitlistCapacity, delta: number): Promise<void> {
+    switch (capacity.type) {
+      case "product":
+        await tx
+          .update(products)
+          .set({
+            quantity: sql`case when ${products.quantity} is null then null else greatest(${products.quantity} + ${delta}, 0) end`,
+            updatedAt: new Date()
+          })
+          .where(eq(products.id, capacity.id));
+        break;
+      case "event":
+        await tx
+          .update(events)
+          .set({
+            ticketsAvailable: sql`case when ${events.ticketsAvailable} is null then null else greatest(${events.ticketsAvailable} + ${delta}, 0) end`,
+            updatedAt: new Date()
+          })
+          .where(eq(events.id, capacity.id));
+        break;
+      case "vendor_spot":
+        await tx
+          .update(vendorSpots)
+          .set({
+            availableSpots: sql`case when ${vendorSpots.availableSpots} is null then null else greatest(${vendorSpots.availableSpots} + ${delta}, 0) end`,
+            updatedAt: new Date()
+          })
+          .where(eq(vendorSpots.id, capacity.id));
+        break;
+      case "volunteer_shift":
+        await tx
+          .update(volunteerShifts)
+          .set({
+            availableSpots: sql`case when ${volunteerShifts.availableSpots} is null then null else greatest(${volunteerShifts.availableSpots} + ${delta}, 0) end`,
+            updatedAt: new Date()
+          })
+          .where(eq(volunteerShifts.id, capacity.id));
+        break;
+    }
+  }
+
+  // === TICKET TRANSFER OPERATIONS ===
+
+  async createTicketTransfer(transferData: InsertTicketTransfer): Promise<TicketTransfer> {
+    const result = await db
+      .insert(ticketTransfers)
+      .values({ ...transferData, toEmail: transferData.toEmail.trim().toLowerCase() })
+      .returning();
+    return result[0];
+  }
+
+  async getTicketTransfer(id: number): Promise<TicketTransfer | undefined> {
+    const result = await db.select().from(ticketTransfers).where(eq(ticketTransfers.id, id));
+    return result[0];
+  }
+
+  async getTicketTransferByToken(token: string): Promise<TicketTransfer | undefined> {
+    const result = await db.select().from(ticketTransfers).where(eq(ticketTransfers.token, token));
+    return result[0];
+  }
+
+  // The unexpired pending transfer for a ticket, if its holder has offered it to someone
+  async getPendingTicketTransfer(ticketId: number): Promise<TicketTransfer | undefined> {
+    const result = await db
+      .select()
+      .from(ticketTransfers)
+      .where(and(
+        eq(ticketTransfers.ticketId, ticketId),
+        eq(ticketTransfers.status, "pending"),
+        gte(ticketTransfers.expiresAt, new Date())
+      ));
+    return result[0];
+  }
+
+  // Transfers a user sent or received, newest first
+  async getTicketTransfersByUser(userId: number): Promise<(TicketTransfer & { eventTitle: string | null })[]> {
+    const rows = await db
+      .select({ transfer: ticketTransfers, eventTitle: events.title })
+      .from(ticketTransfers)
+      .innerJoin(tickets, eq(ticketTransfers.ticketId, tickets.id))
+      .leftJoin(events, eq(tickets.eventId, events.id))
+      .where(or(eq(ticketTransfers.fromUserId, userId), eq(ticketTransfers.toUserId, userId)))
+      .orderBy(desc(ticketTransfers.createdAt));
+    
+    return rows.map(row => ({ ...row.transfer, eventTitle: row.eventTitle }));
+  }
+
+  async cancelTicketTransfer(id: number): Promise<TicketTransfer> {
+    const result = await db
+      .update(ticketTransfers)
+      .set({ status: "cancelled" })
+      .where(and(eq(ticketTransfers.id, id), eq(ticketTransfers.status, "pending")))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Pending ticket transfer not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  // Move the ticket to the recipient under a new ticket number. Both updates are conditional,
+  // so a transfer accepted twice, or a ticket used or refunded meanwhile, rolls back.
+  async acceptTicketTransfer(id: number, recipient: User): Promise<{ transfer: TicketTransfer; ticket: Ticket }> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const newTicketNumber = generateTicketNumber();
+      
+      const [transfer] = await tx
+        .update(ticketTransfers)
+        .set({ status: "accepted", toUserId: recipient.id, newTicketNumber, acceptedAt: now })
+        .where(and(
+          eq(ticketTransfers.id, id),
+          eq(ticketTransfers.status, "pending"),
+          gte(ticketTransfers.expiresAt, now)
+        ))
+        .returning();
+      
+      if (!transfer) {
+        throw new Error(`Pending ticket transfer not found: ${id}`);
+      }
+      
+      const [ticket] = await tx
+        .update(tickets)
+        .set({
+          userId: recipient.id,
+          ticketNumber: newTicketNumber,
+          attendeeName: recipient.name || recipient.username,
+          attendeeEmail: recipient.email,
+          updatedAt: now
+        })
+        .where(and(
+          eq(tickets.id, transfer.ticketId),
+          eq(tickets.userId, transfer.fromUserId),
+          eq(tickets.status, "active")
+        ))
+        .returning();
+      
+      if (!ticket) {
+        throw new Error(`Ticket ${transfer.oldTicketNumber} can no longer be transferred`);
+      }
+      
+      return { transfer, ticket };
+    });
+  }
+
+  // === WALLET PASS OPERATIONS ===
+
+  // Register a device for a pass's updates. A device registering the same pass again only
+  // refreshes its push token.
+  async registerWalletPass(registrationData: InsertWalletPassRegistration): Promise<{ registration: WalletPassRegistration; created: boolean }> {
+    const existing = await db
+      .select()
+      .from(walletPassRegistrations)
+      .where(and(
+        eq(walletPassRegistrations.deviceLibraryIdentifier, registrationData.deviceLibraryIdentifier),
+        eq(walletPassRegistrations.passTypeIdentifier, registrationData.passTypeIdentifier),
+        eq(walletPassRegistrations.serialNumber, registrationData.serialNumber)
+      ));
+    
+    if (existing[0]) {
+      const [registration] = await db
+        .update(walletPassRegistrations)
+        .set({ pushToken: registrationData.pushToken, updatedAt: new Date() })
+        .where(eq(walletPassRegistrations.id, existing[0].id))
+        .returning();
+      return { registration, created: false };
+    }
+    
+    const [registration] = await db.insert(walletPassRegistrations).values(registrationData).returning();
+    return { registration, created: true };
+  }
+
+  async unregisterWalletPass(deviceLibraryIdentifier: string, passTypeIdentifier: string, serialNumber: string): Promise<boolean> {
+    const result = await db
+      .delete(walletPassRegistrations)
+      .where(and(
+        eq(walletPassRegistrations.deviceLibraryIdentifier, deviceLibraryIdentifier),
+        eq(walletPassRegistrations.passTypeIdentifier, passTypeIdentifier),
+        eq(walletPassRegistrations.serialNumber, serialNumber)
+      ))
+      .returning({ id: walletPassRegistrations.id });
+    return result.length > 0;
+  }
+
+  // The passes a device holds, each with when its ticket or event last changed
+  async getWalletPassesByDevice(deviceLibraryIdentifier: string, passTypeIdentifier: string): Promise<(WalletPassRegistration & { passUpdatedAt: Date })[]> {
+    const rows = await db
+      .select({ registration: walletPassRegistrations, ticketUpdatedAt: tickets.updatedAt, eventUpdatedAt: events.updatedAt })
+      .from(walletPassRegistrations)
+      .innerJoin(tickets, eq(walletPassRegistrations.ticketId, tickets.id))
+      .innerJoin(events, eq(tickets.eventId, events.id))
+      .where(and(
+        eq(walletPassRegistrations.deviceLibraryIdentifier, deviceLibraryIdentifier),
+        eq(walletPassRegistrations.passTypeIdentifier, passTypeIdentifier)
+      ));
+    
+    return rows.map(row => ({
+      ...row.registration,
+      passUpdatedAt: row.ticketUpdatedAt > row.eventUpdatedAt ? row.ticketUpdatedAt : row.eventUpdatedAt
+    }));
+  }
+
+  async getWalletPassRegistrationsByEvent(eventId: number): Promise<WalletPassRegistration[]> {
+    const rows = await db
+      .select({ registration: walletPassRegistrations })
+      .from(walletPassRegistrations)
+      .innerJoin(tickets, eq(walletPassRegistrations.ticketId, tickets.id))
+      .where(eq(tickets.eventId, eventId));
+    
+    return rows.map(row => row.registration);
+  }
+
+  // === FULFILLMENT OPERATIONS ===
+
+  // Mark an order paid and issue everything it bought: one ticket per purchased ticket unit,
+  // plus the vendor registrations and volunteer assignments for those item types.
+  // Runs in a single transaction with the order row locked, so a replayed webhook is a no-op.
+  // A payment can land after the order's hold was released (expired or cancelled); its stock is
+  // then taken again, and if some of it has sold out since, nothing is issued and soldOut is
+  // returned so the caller can refund the payment.
+  async fulfillOrder(orderId: number, stripePaymentId?: string): Promise<{ order: Order; tickets: Ticket[]; alreadyFulfilled: boolean; soldOut: boolean }> {
+    try {
+      return await this.fulfillOrderInTransaction(orderId, stripePaymentId);
+    } catch (error) {
+      if (!(error instanceof InsufficientStockError)) {
+        throw error;
+      }
+      const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+      return { order, tickets: [], alreadyFulfilled: false, soldOut: true };
+    }
+  }
+
+  private async fulfillOrderInTransaction(orderId: number, stripePaymentId?: string): Promise<{ order: Order; tickets: Ticket[]; alreadyFulfilled: boolean; soldOut: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      
+      if (!order) {
+        throw new Error(`Order not found: ${orderId}`);
+      }
+      
+      if (order.fulfilledAt) {
+        const existingTickets = await tx.select().from(tickets).where(eq(tickets.orderId, orderId));
+        return { order, tickets: existingTickets, alreadyFulfilled: true, soldOut: false };
+      }
+      
+      // Already found sold out and refunded by an earlier delivery of the payment
+      if (order.paymentStatus === "refunded") {
+        return { order, tickets: [], alreadyFulfilled: false, soldOut: true };
+      }
+      
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const issuedTickets: Ticket[] = [];
+      const holdReleased = order.status === "expired" || order.status === "cancelled";
+      
+      if (holdReleased) {
+        for (const item of items) {
+          if (!(await this.takeItemStock(tx, item))) {
+            // Rolls back whatever was taken for the earlier items
+            throw new InsufficientStockError(item.itemId, item.name, 0);
+          }
+        }
+        
+        if (order.promoCodeId) {
+          await tx
+            .update(promoCodes)
+            .set({ usesCount: sql`${promoCodes.usesCount} + 1`, updatedAt: new Date() })
+            .where(eq(promoCodes.id, order.promoCodeId));
+        }
+      }
+      
+      for (const item of items) {
+        // Checkout already took the stock for orders that held it
+        if (!order.stockReservedAt && !holdReleased) {
+          await this.adjustItemStock(tx, item, -item.quantity);
+        }
+        
+        switch (item.itemType) {
+          case "ticket": {
+            const itemMetadata = (item.metadata as Record<string, any>) || {};
+            const attendees: any[] = itemMetadata.attendees || [];
+            const ticketRows = Array.from({ length: item.quantity }, (_, index) => ({
+              userId: order.userId,
+              eventId: order.eventId,
+              orderId: order.id,
+              orderItemId: item.id,
+              ticketType: itemMetadata.ticketType || "standard",
+              entryRule: itemMetadata.entryRule || "single",
+              ticketNumber: generateTicketNumber(),
+              status: "active",
+              price: item.unitPrice,
+              attendeeName: attendees[index]?.name || null,
+              attendeeEmail: attendees[index]?.email || null,
+              attendeeAnswers: attendees[index]?.answers || null,
+            }));
+            
+            if (ticketRows.length > 0) {
+              const created = await tx.insert(tickets).values(ticketRows).returning();
+              issuedTickets.push(...created);
+            }
+            break;
+          }
+          case "vendor_spot":
+            await this.fulfillVendorSpotItem(tx, order, item);
+            break;
+          case "volunteer_shift":
+            await this.fulfillVolunteerShiftItem(tx, order, item);
+            break;
+        }
+      }
+      
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({
+          status: "completed",
+          paymentStatus: "paid",
+          ...(stripePaymentId ? { stripePaymentId } : {}),
+          fulfilledAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+      
+      return { order: updatedOrder, tickets: issuedTickets, alreadyFulfilled: false, soldOut: false };
+    });
+  }
+
+  // Adjust stock for an order item by delta (negative on purchase, positive on refund). Cart items
+  // reference products; tickets bought straight from an event page reference the event and are
+  // flagged with source "event".
+  private async adjustItemStock(tx: Transaction, item: OrderItem, delta: number): Promise<void> {
+    const capacity = getItemCapacity(item);
+    if (capacity.type === "event") {
+      await this.adjustCapacity(tx, capacity, delta);
+      return;
+    }
+    
+    // Unlimited products keep a null quantity but still count what has sold
+    await tx
+      .update(products)
+      .set({
+        quantity: sql`case when ${products.quantity} is null then null else greatest(${products.quantity} + ${delta}, 0) end`,
+        soldCount: sql`greatest(${products.soldCount} - ${delta}, 0)`,
+        updatedAt: new Date()
+      })
+      .where(eq(products.id, item.itemId));
+  }
+
+  // Take stock for an item, at checkout or again after its hold was released, only if enough is
+  // still left (a null quantity means unlimited). Returns false when it has sold out.
+  private async takeItemStock(tx: Transaction, item: Pick<OrderItem, "itemType" | "itemId" | "quantity" | "metadata">): Promise<boolean> {
+    const capacity = getItemCapacity(item);
+    if (capacity.type === "event") {
+      return await this.takeCapacity(tx, capacity, item.quantity);
+    }
+    
+    // Products also count what has sold
+    const taken = await tx
+      .update(products)
+      .set({
+        quantity: sql`${products.quantity} - ${item.quantity}`,
+        soldCount: sql`${products.soldCount} + ${item.quantity}`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(products.id, item.itemId),
+        or(isNull(products.quantity), gte(products.quantity, item.quantity))
+      ))
+      .returning({ id: products.id });
+    return taken.length > 0;
+  }
+
+  // Link the registration made during the cart registration step to the order,
+  // or create one from the buyer's vendor profile if none was recorded.
+  private async fulfillVendorSpotItem(tx: Transaction, order: Order, item: OrderItem): Promise<void> {
+    const registrationData = (item.metadata as Record<string, any>) || {};
+    
+    if (registrationData.id) {
+      // The id comes from the buyer, so only their own registration for this event is linked
+      const linked = await tx
+        .update(vendorRegistrations)
+        .set({ orderId: order.id, updatedAt: new Date() })
+        .where(and(
+          eq(vendorRegistrations.id, registrationData.id),
+          eq(vendorRegistrations.eventId, order.eventId),
+          inArray(
+            vendorRegistrations.vendorProfileId,
+            tx.select({ id: vendorProfiles.id }).from(vendorProfiles).where(eq(vendorProfiles.userId, order.userId))
+          )
+        ))
+        .returning({ id: vendorRegistrations.id });
+      
+      if (linked.length > 0) {
+        return;
+      }
+    }
+    
+    const [profile] = await tx.select().from(vendorProfiles).where(eq(vendorProfiles.userId, order.userId));
+    if (!profile) {
+      log(`No vendor profile for user ${order.userId}, skipping vendor registration for order item ${item.id}`, "storage");
+      return;
+    }
+    
+    await tx.insert(vendorRegistrations).values({
+      vendorProfileId: profile.id,
+      vendorSpotId: item.itemId,
+      eventId: order.eventId,
+      orderId: order.id,
+      status: "pending",
+      productsDescription: registrationData.productsDescription || null,
+      metadata: registrationData,
+    });
+  }
+
+  // Volunteer assignments are created during the cart registration step; only create
+  // one here when the buyer skipped that step.
+  private async fulfillVolunteerShiftItem(tx: Transaction, order: Order, item: OrderItem): Promise<void> {
+    const registrationData = (item.metadata as Record<string, any>) || {};
+    
+    if (registrationData.id) {
+      const [existing] = await tx
+        .select({ id: volunteerAssignments.id })
+        .from(volunteerAssignments)
+        .where(eq(volunteerAssignments.id, registrationData.id));
+      
+      if (existing) {
+        return;
+      }
+    }
+    
+    const [profile] = await tx.select().from(volunteerProfiles).where(eq(volunteerProfiles.userId, order.userId));
+    if (!profile) {
+      log(`No volunteer profile for user ${order.userId}, skipping volunteer assignment for order item ${item.id}`, "storage");
+      return;
+    }
+    
+    await tx.insert(volunteerAssignments).values({
+      volunteerProfileId: profile.id,
+      shiftId: item.itemId,
+      eventId: order.eventId,
+      status: "pending",
+      notes: registrationData.notes || null,
+      metadata: { orderId: order.id, orderItemId: item.id },
+    });
+  }
+
+  // === REFUND OPERATIONS ===
+
+  // Refund an order, either entirely (no items given) or by order item and quantity.
+  // The refund is recorded as pending first, then the issuer moves the money outside any
+  // transaction; only once that succeeds are tickets, stock and the order's totals updated.
+  // The issuer is keyed by the refund's id, so a refund or transfer reversal left pending by a
+  // crash or an uncertain provider error is safely retried by the next refund of the order.
+  async refundOrder(
+    orderId: number,
+    options: { items?: { orderItemId: number; quantity: number }[]; reason?: string; createdBy?: number },
+    issuer: RefundIssuer
+  ): Promise<{ order: Order; refund: Refund; tickets: Ticket[] }> {
+    const stalled = await db
+      .select()
+      .from(refunds)
+      .where(and(
+        eq(refunds.orderId, orderId),
+        or(eq(refunds.status, "pending"), eq(refunds.reversalStatus, "pending"))
+      ));
+    for (const refund of stalled) {
+      if (refund.status === "pending") {
+        await this.completeRefund(refund, issuer);
+      } else {
+        await this.completeReversal(refund, issuer);
+      }
+    }
+    
+    const pending = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      
+      if (!order) {
+        throw new Error(`Order not found: ${orderId}`);
+      }
+      
+      if (!["paid", "partially_refunded"].includes(order.paymentStatus)) {
+        throw new InvalidRefundError(`Order ${order.orderNumber} has no payment to refund`);
+      }
+      
+      const [inProgress] = await tx
+        .select({ id: refunds.id })
+        .from(refunds)
+        .where(and(eq(refunds.orderId, orderId), eq(refunds.status, "pending")));
+      if (inProgress) {
+        throw new RefundInProgressError(order.orderNumber);
+      }
+      
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      
+      // Without explicit items, refund whatever has not been refunded yet
+      const requested = options.items && options.items.length > 0
+        ? options.items
+        : items.map(item => ({ orderItemId: item.id, quantity: item.quantity - item.refundedQuantity }));
+      
+      const lines: RefundLine[] = [];
+      for (const request of requested) {
+        const item = items.find(i => i.id === request.orderItemId);
+        if (!item) {
+          throw new InvalidRefundError(`Order item not found: ${request.orderItemId}`);
+        }
+        
+        const remaining = item.quantity - item.refundedQuantity;
+        if (!Number.isInteger(request.quantity) || request.quantity < 0 || request.quantity > remaining) {
+          throw new InvalidRefundError(`Cannot refund ${request.quantity} of "${item.name}", ${remaining} remaining`);
+        }
+        
+        if (request.quantity > 0) {
+          // Refund what was actually paid per unit, after any promo discount
+          const paidPerUnit = item.totalPrice / item.quantity;
+          lines.push({ orderItemId: item.id, quantity: request.quantity, amount: Math.round(paidPerUnit * request.quantity * 100) / 100 });
+        }
+      }
+      
+      if (lines.length === 0) {
+        throw new InvalidRefundError(`Nothing left to refund on order ${order.orderNumber}`);
+      }
+      
+      // Never refund more than was actually charged. The refund that clears the last items also
+      // returns the processing fee passed on to the buyer, which no item's price includes.
+      const refundable = order.totalAmount - order.refundedAmount;
+      const clearsOrder = items.every(item =>
+        item.refundedQuantity + (lines.find(line => line.orderItemId === item.id)?.quantity ?? 0) === item.quantity
+      );
+      const itemsAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+      const amount = Math.round((clearsOrder ? refundable : Math.min(itemsAmount, refundable)) * 100) / 100;
+      
+      const [refund] = await tx
+        .insert(refunds)
+        .values({
+          orderId: order.id,
+          amount,
+          reason: options.reason || null,
+          status: "pending",
+          items: lines,
+          createdBy: options.createdBy ?? null,
+        })
+        .returning();
+      
+      return refund;
+    });
+    
+    return await this.completeRefund(pending, issuer);
+  }
+
+  // Moves the money for a pending refund, then applies it to the order. A refund the provider
+  // declines is marked failed and changes nothing else; on any other error it may have gone
+  // through, so it stays pending to be retried under the same key.
+  private async completeRefund(
+    refund: Refund,
+    issuer: RefundIssuer
+  ): Promise<{ order: Order; refund: Refund; tickets: Ticket[] }> {
+    let stripeRefundId: string | null;
+    try {
+      stripeRefundId = await issuer.refund(refund.amount, `refund-${refund.id}`);
+    } catch (error) {
+      if (error instanceof PaymentDeclinedError) {
+        await db
+          .update(refunds)
+          .set({ status: "failed" })
+          .where(and(eq(refunds.id, refund.id), eq(refunds.status, "pending")));
+      }
+      throw error;
+    }
+    
+    const result = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, refund.orderId))
+        .for("update");
+      
+      const [current] = await tx
+        .select()
+        .from(refunds)
+        .where(eq(refunds.id, refund.id))
+        .for("update");
+      
+      // Another request already finished this refund
+      if (current.status !== "pending") {
+        return { order, refund: current, tickets: [] };
+      }
+      
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+      
+      const refundedTickets: Ticket[] = [];
+      for (const line of current.items as RefundLine[]) {
+        const item = items.find(i => i.id === line.orderItemId);
+        if (!item) {
+          continue;
+        }
+        
+        await tx
+          .update(orderItems)
+          .set({ refundedQuantity: sql`${orderItems.refundedQuantity} + ${line.quantity}` })
+          .where(eq(orderItems.id, item.id));
+        
+        // Only stock that fulfillment actually took is returned
+        if (order.fulfilledAt) {
+          await this.adjustItemStock(tx, item, line.quantity);
+        }
+        
+        const fullyRefunded = item.refundedQuantity + line.quantity === item.quantity;
+        
+        switch (item.itemType) {
+          case "ticket": {
+            // Refund unused tickets before ones that were already scanned
+            const candidates = await tx
+              .select()
+              .from(tickets)
+              .where(and(eq(tickets.orderItemId, item.id), inArray(tickets.status, ["active", "used"])));
+            candidates.sort((a, b) => (a.status === "active" ? 0 : 1) - (b.status === "active" ? 0 : 1));
+            
+            const ticketIds = candidates.slice(0, line.quantity).map(ticket => ticket.id);
+            if (ticketIds.length > 0) {
+              const updated = await tx
+                .update(tickets)
+                .set({ status: "refunded", updatedAt: new Date() })
+                .where(inArray(tickets.id, ticketIds))
+                .returning();
+              refundedTickets.push(...updated);
+            }
+            break;
+          }
+          case "vendor_spot":
+            if (fullyRefunded) {
+              await tx
+                .update(vendorRegistrations)
+                .set({ status: "cancelled", updatedAt: new Date() })
+                .where(and(eq(vendorRegistrations.orderId, order.id), eq(vendorRegistrations.vendorSpotId, item.itemId)));
+            }
+            break;
+          case "volunteer_shift": {
+            const registrationData = (item.metadata as Record<string, any>) || {};
+            if (fullyRefunded) {
+              await tx
+                .update(volunteerAssignments)
+                .set({ status: "cancelled", updatedAt: new Date() })
+                .where(or(
+                  eq(volunteerAssignments.id, registrationData.id ?? -1),
+                  sql`${volunteerAssignments.metadata}->>'orderItemId' = ${String(item.id)}`
+                ));
+            }
+            break;
+          }
+        }
+      }
+      
+      const [completed] = await tx
+        .update(refunds)
+        .set({
+          status: "succeeded",
+          stripeRefundId,
+          // Only money that went out through the provider was paid on to the organizer
+          reversalStatus: stripeRefundId && order.stripeTransferId ? "pending" : null,
+        })
+        .where(eq(refunds.id, refund.id))
+        .returning();
+      
+      const refundedAmount = Math.round((order.refundedAmount + refund.amount) * 100) / 100;
+      const fullyRefunded = refundedAmount >= order.totalAmount;
+      
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({
+          refundedAmount,
+          paymentStatus: fullyRefunded ? "refunded" : "partially_refunded",
+          ...(fullyRefunded ? { status: "refunded" } : {}),
+          updatedAt: new Date()
+        })
+        .where(eq(orders.id, order.id))
+        .returning();
+      
+      return { order: updatedOrder, refund: completed, tickets: refundedTickets };
+    });
+    
+    if (result.refund.reversalStatus === "pending") {
+      result.refund = await this.completeReversal(result.refund, issuer);
+    }
+    return result;
+  }
+
+  // Takes the organizer's share of a completed refund back. The buyer already has their money, so
+  // a failure is logged and the reversal stays pending for the next refund of the order to retry.
+  private async completeReversal(refund: Refund, issuer: RefundIssuer): Promise<Refund> {
+    let stripeReversalId: string;
+    try {
+      stripeReversalId = await issuer.reverseTransfer(refund.amount, refund.stripeRefundId, `refund-${refund.id}-reversal`);
+    } catch (error: any) {
+      log(`Transfer reversal for refund ${refund.id} of order ${refund.orderId} failed: ${error.message}`, "storage");
+      return refund;
     }
     
-    return result[0];
+    const [updated] = await db
+      .update(refunds)
+      .set({ reversalStatus: "succeeded", stripeReversalId })
+      .where(eq(refunds.id, refund.id))
+      .returning();
+    return updated;
   }
 
-  // === ORDER OPERATIONS ===
+  // Record that the payment for an order which sold out before it was paid has been refunded
+  // in full. The order keeps its expired or cancelled status.
+  async refundSoldOutOrder(orderId: number, stripePaymentId: string, stripeRefundId: string | null): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      
+      if (!order) {
+        throw new Error(`Order not found: ${orderId}`);
+      }
+      
+      if (order.paymentStatus === "refunded") {
+        return order;
+      }
+      
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      await tx.insert(refunds).values({
+        orderId,
+        amount: order.totalAmount,
+        reason: "Sold out before the payment completed",
+        status: "succeeded",
+        stripeRefundId,
+        items: items.map(item => ({ orderItemId: item.id, quantity: item.quantity, amount: item.totalPrice })),
+      });
+      
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({
+          paymentStatus: "refunded",
+          stripePaymentId,
+          refundedAmount: order.totalAmount,
+          updatedAt: new Date()
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+      
+      return updatedOrder;
+    });
+  }
 
-  async createOrder(orderData: InsertOrder): Promise<Order> {
-    // Generate a unique order number
-    const orderNumber = `ORD-${randomBytes(4).toString('hex').toUpperCase()}`;
-    
-    const result = await db.insert(orders).values({
-      ...orderData,
-      orderNumber
-    }).returning();
-    
+  async getRefundsByOrder(orderId: number): Promise<Refund[]> {
+    return await db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  // === CASH DRAWER OPERATIONS ===
+
+  async openCashDrawer(sessionData: InsertCashDrawerSession): Promise<CashDrawerSession> {
+    const result = await db.insert(cashDrawerSessions).values(sessionData).returning();
     return result[0];
   }
 
-  async getOrder(id: number): Promise<Order | undefined> {
-    const result = await db.select().from(orders).where(eq(orders.id, id));
+  async getCashDrawerSession(id: number): Promise<CashDrawerSession | undefined> {
+    const result = await db.select().from(cashDrawerSessions).where(eq(cashDrawerSessions.id, id));
     return result[0];
   }
 
-  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
-    const result = await db.select().from(orders).where(eq(orders.orderNumber, orderNumber));
+  async getOpenCashDrawer(eventId: number, openedBy: number): Promise<CashDrawerSession | undefined> {
+    const result = await db
+      .select()
+      .from(cashDrawerSessions)
+      .where(and(
+        eq(cashDrawerSessions.eventId, eventId),
+        eq(cashDrawerSessions.openedBy, openedBy),
+        eq(cashDrawerSessions.status, "open")
+      ))
+      .orderBy(desc(cashDrawerSessions.openedAt));
     return result[0];
   }
 
-  async getOrdersByUser(userId: number): Promise<Order[]> {
-    return await db.select().from(orders).where(eq(orders.userId, userId));
+  async getCashDrawerSessionsByEvent(eventId: number): Promise<CashDrawerSession[]> {
+    return await db
+      .select()
+      .from(cashDrawerSessions)
+      .where(eq(cashDrawerSessions.eventId, eventId))
+      .orderBy(desc(cashDrawerSessions.openedAt));
   }
 
-  async getCompletedPaidOrdersWithItems(userId: number): Promise<(Order & { items: OrderItem[]; eventTitle: string })[]> {
-    const ordersResult = await db
+  // Cash taken and refunded on completed sales rung up against a drawer
+  async getCashDrawerTotals(id: number): Promise<{ orderCount: number; cashSales: number; cashRefunds: number }> {
+    const [totals] = await db
       .select({
-        order: orders,
-        eventTitle: events.title
+        orderCount: sql<number>`count(*)::int`,
+        cashSales: sql<number>`coalesce(sum(${orders.totalAmount}), 0)::float`,
+        cashRefunds: sql<number>`coalesce(sum(${orders.refundedAmount}), 0)::float`,
       })
       .from(orders)
-      .innerJoin(events, eq(orders.eventId, events.id))
-      .where(
-        and(
-          eq(orders.userId, userId),
-          eq(orders.status, "completed"),
-          eq(orders.paymentStatus, "paid")
-        )
-      );
-
-    const ordersWithItems = await Promise.all(
-      ordersResult.map(async (result) => {
-        const items = await db
-          .select()
-          .from(orderItems)
-          .where(eq(orderItems.orderId, result.order.id));
-        
-        return {
-          ...result.order,
-          eventTitle: result.eventTitle,
-          items
-        };
-      })
-    );
-
-    return ordersWithItems;
-  }
-
-  async getOrdersByEvent(eventId: number): Promise<Order[]> {
-    return await db.select().from(orders).where(eq(orders.eventId, eventId));
+      .where(and(
+        eq(orders.cashDrawerSessionId, id),
+        eq(orders.paymentMethod, "cash"),
+        not(isNull(orders.fulfilledAt))
+      ));
+    
+    return totals;
   }
 
-  async updateOrderStatus(id: number, status: string): Promise<Order> {
+  async closeCashDrawer(id: number, closedBy: number, closingAmount: number, notes?: string): Promise<CashDrawerSession> {
+    const session = await this.getCashDrawerSession(id);
+    if (!session) {
+      throw new Error(`Cash drawer session not found: ${id}`);
+    }
+    
+    const { cashSales, cashRefunds } = await this.getCashDrawerTotals(id);
+    const expectedAmount = Math.round((session.openingAmount + cashSales - cashRefunds) * 100) / 100;
+    
+    // Only an open drawer can be closed, so two closes can't both record totals
     const result = await db
-      .update(orders)
-      .set({ 
-        status, 
-        updatedAt: new Date() 
+      .update(cashDrawerSessions)
+      .set({
+        status: "closed",
+        closedBy,
+        closingAmount,
+        expectedAmount,
+        notes: notes ?? session.notes,
+        closedAt: new Date()
       })
-      .where(eq(orders.id, id))
+      .where(and(eq(cashDrawerSessions.id, id), eq(cashDrawerSessions.status, "open")))
       .returning();
     
     if (!result[0]) {
-      throw new Error(`Order not found: ${id}`);
+      throw new Error(`Cash drawer session is already closed: ${id}`);
     }
     
     return result[0];
   }
 
-  async updateOrderPaymentStatus(id: number, paymentStatus: string, stripePaymentId?: string): Promise<Order> {
-    const updateData: any = { 
-      paymentStatus, 
-      updatedAt: new Date() 
-    };
-    
-    if (stripePaymentId) {
-      updateData.stripePaymentId = stripePaymentId;
-    }
-    
-    const result = await db
-      .update(orders)
-      .set(updateData)
-      .where(eq(orders.id, id))
-      .returning();
+  // The account door sales are recorded against when the buyer has none of their own. Its
+  // password is not a hash, so nobody can sign in as it.
+  async getWalkUpUser(): Promise<User> {
+    await db
+      .insert(users)
+      .values({
+        username: WALK_UP_USERNAME,
+        email: `${WALK_UP_USERNAME}@guests.invalid`,
+        password: "!",
+        name: "Walk-up buyer",
+        role: "guest",
+      })
+      .onConflictDoNothing();
     
-    if (!result[0]) {
-      throw new Error(`Order not found: ${id}`);
+    // Matching the password too keeps a real account that took the username from being used
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.username, WALK_UP_USERNAME), eq(users.password, "!")));
+    if (!user) {
+      throw new Error(`The "${WALK_UP_USERNAME}" username belongs to a real account`);
     }
-    
-    return result[0];
+    return user;
   }
 
-  // === ORDER ITEM OPERATIONS ===
+  // === DOOR PAYMENT CODE OPERATIONS ===
 
-  async createOrderItem(itemData: InsertOrderItem): Promise<OrderItem> {
-    const result = await db.insert(orderItems).values(itemData).returning();
+  // Replaces any code the user already had
+  async createDoorPaymentCode(userId: number, code: string, expiresAt: Date): Promise<DoorPaymentCode> {
+    const result = await db
+      .insert(doorPaymentCodes)
+      .values({ userId, code, expiresAt })
+      .onConflictDoUpdate({
+        target: doorPaymentCodes.userId,
+        set: { code, expiresAt, createdAt: new Date() }
+      })
+      .returning();
     return result[0];
   }
 
-  async getOrderItems(orderId: number): Promise<OrderItem[]> {
-    return await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  // Whether the code is the user's current one and still valid. Either way the code is used up,
+  // so it can't be guessed at.
+  async consumeDoorPaymentCode(userId: number, code: string): Promise<boolean> {
+    const [deleted] = await db
+      .delete(doorPaymentCodes)
+      .where(eq(doorPaymentCodes.userId, userId))
+      .returning();
+    return !!deleted && deleted.code === code && deleted.expiresAt > new Date();
   }
 
-  // === TICKET OPERATIONS ===
+  // === CHECK-IN LOG OPERATIONS ===
 
-  async createTicket(ticketData: InsertTicket): Promise<Ticket> {
-    // Generate a unique ticket number
-    const ticketNumber = `TIX-${randomBytes(4).toString('hex').toUpperCase()}`;
-    
-    const result = await db.insert(tickets).values({
-      ...ticketData,
-      ticketNumber
-    }).returning();
-    
-    return result[0];
+  async createCheckInLog(entryData: InsertCheckInLog): Promise<CheckInLog> {
+    const [entry] = await db.insert(checkInLogs).values(entryData).returning();
+    return entry;
   }
 
-  async getTicket(id: number): Promise<Ticket | undefined> {
-    const result = await db.select().from(tickets).where(eq(tickets.id, id));
-    return result[0];
+  // A ticket's scans, latest first
+  async getCheckInLogsByTicket(ticketId: number): Promise<CheckInLog[]> {
+    return await db
+      .select()
+      .from(checkInLogs)
+      .where(eq(checkInLogs.ticketId, ticketId))
+      .orderBy(desc(checkInLogs.scannedAt), desc(checkInLogs.id));
+  }
+
+  // Record an entry or exit scan if the ticket's entry rule allows it, or return why not. The
+  // ticket stays locked from reading its scans to logging this one, so two gates (or an online
+  // scan and an offline sync) can't both let it in. A first entry marks the ticket used, keeping
+  // the time and device it was scanned at; checkInTime stays the first entry.
+  async scanTicket(
+    ticketId: number,
+    entry: Omit<InsertCheckInLog, "ticketId">
+  ): Promise<{ ticket: Ticket; refusal: string | null; firstEntry: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [ticket] = await tx
+        .select()
+        .from(tickets)
+        .where(eq(tickets.id, ticketId))
+        .for("update");
+      
+      if (!ticket) {
+        throw new Error(`Ticket not found: ${ticketId}`);
+      }
+      
+      const logs = await tx
+        .select()
+        .from(checkInLogs)
+        .where(eq(checkInLogs.ticketId, ticketId))
+        .orderBy(desc(checkInLogs.scannedAt), desc(checkInLogs.id));
+      
+      const [event] = await tx
+        .select({ timeZone: events.timeZone })
+        .from(events)
+        .where(eq(events.id, ticket.eventId));
+      
+      const scannedAt = entry.scannedAt ?? new Date();
+      const refusal = entry.direction === "out"
+        ? getExitRefusal(logs)
+        : getEntryRefusal(ticket, logs, event?.timeZone ?? DEFAULT_TIME_ZONE, scannedAt);
+      if (refusal) {
+        return { ticket, refusal, firstEntry: false };
+      }
+      
+      const firstEntry = entry.direction === "in" && ticket.status === "active";
+      let updatedTicket = ticket;
+      if (firstEntry) {
+        [updatedTicket] = await tx
+          .update(tickets)
+          .set({
+            status: 'used',
+            checkInTime: scannedAt,
+            ...(entry.deviceId ? { checkInDeviceId: entry.deviceId } : {}),
+            updatedAt: new Date()
+          })
+          .where(eq(tickets.id, ticketId))
+          .returning();
+      }
+      
+      await tx.insert(checkInLogs).values({ ...entry, ticketId, scannedAt });
+      return { ticket: updatedTicket, refusal: null, firstEntry };
+    });
   }
 
-  async getTicketByNumber(ticketNumber: string): Promise<Ticket | undefined> {
-    const result = await db.select().from(tickets).where(eq(tickets.ticketNumber, ticketNumber));
-    return result[0];
+  async getCheckInLogsByEvent(eventId: number, limit?: number): Promise<(CheckInLog & { ticketNumber: string })[]> {
+    const query = db
+      .select({ entry: checkInLogs, ticketNumber: tickets.ticketNumber })
+      .from(checkInLogs)
+      .innerJoin(tickets, eq(checkInLogs.ticketId, tickets.id))
+      .where(eq(checkInLogs.eventId, eventId))
+      .orderBy(desc(checkInLogs.scannedAt), desc(checkInLogs.id));
+    
+    const rows = limit ? await query.limit(limit) : await query;
+    return rows.map(row => ({ ...row.entry, ticketNumber: row.ticketNumber }));
   }
 
-  async getTicketsByUser(userId: number): Promise<Ticket[]> {
-    return await db.select().from(tickets).where(eq(tickets.userId, userId));
+  // Live occupancy: a ticket holder is inside when their latest scan was an entry
+  async getEventOccupancy(eventId: number): Promise<EventOccupancy> {
+    const latestScans = db
+      .selectDistinctOn([checkInLogs.ticketId], { ticketId: checkInLogs.ticketId, direction: checkInLogs.direction })
+      .from(checkInLogs)
+      .where(eq(checkInLogs.eventId, eventId))
+      .orderBy(checkInLogs.ticketId, desc(checkInLogs.scannedAt), desc(checkInLogs.id))
+      .as("latest_scans");
+    
+    const [{ inside }] = await db
+      .select({ inside: sql<number>`count(*)::int` })
+      .from(latestScans)
+      .where(eq(latestScans.direction, "in"));
+    
+    const gates = await db
+      .select({
+        gate: checkInLogs.gate,
+        entries: sql<number>`count(*) filter (where ${checkInLogs.direction} = 'in')::int`,
+        exits: sql<number>`count(*) filter (where ${checkInLogs.direction} = 'out')::int`,
+      })
+      .from(checkInLogs)
+      .where(eq(checkInLogs.eventId, eventId))
+      .groupBy(checkInLogs.gate);
+    
+    const [{ attendees }] = await db
+      .select({ attendees: sql<number>`count(distinct ${checkInLogs.ticketId})::int` })
+      .from(checkInLogs)
+      .where(and(eq(checkInLogs.eventId, eventId), eq(checkInLogs.direction, "in")));
+    
+    return {
+      inside,
+      attendees,
+      entries: gates.reduce((sum, gate) => sum + gate.entries, 0),
+      exits: gates.reduce((sum, gate) => sum + gate.exits, 0),
+      gates,
+    };
   }
 
-  async getTicketsByEvent(eventId: number): Promise<Ticket[]> {
-    return await db.select().from(tickets).where(eq(tickets.eventId, eventId));
-  }
+  // === OFFLINE CHECK-IN OPERATIONS ===
 
-  async getTicketsByOrder(orderId: number): Promise<Ticket[]> {
-    return await db.select().from(tickets).where(eq(tickets.orderId, orderId));
+  // Every ticket for an event with its holder's name, for scanners to verify against offline
+  async getCheckInManifest(eventId: number): Promise<(Ticket & { holderName: string | null })[]> {
+    const rows = await db
+      .select({ ticket: tickets, holderName: sql<string | null>`coalesce(${tickets.attendeeName}, ${users.name}, ${users.username})` })
+      .from(tickets)
+      .leftJoin(users, eq(tickets.userId, users.id))
+      .where(eq(tickets.eventId, eventId));
+    
+    return rows.map(row => ({ ...row.ticket, holderName: row.holderName }));
   }
 
-  async updateTicketStatus(id: number, status: string): Promise<Ticket> {
-    const result = await db
-      .update(tickets)
-      .set({ 
-        status, 
-        updatedAt: new Date() 
-      })
-      .where(eq(tickets.id, id))
-      .returning();
-    
-    if (!result[0]) {
-      throw new Error(`Ticket not found: ${id}`);
-    }
-    
-    return result[0];
+  async recordCheckInConflict(conflictData: InsertCheckInConflict): Promise<CheckInConflict> {
+    const [conflict] = await db.insert(checkInConflicts).values(conflictData).returning();
+    return conflict;
   }
 
-  async checkInTicket(id: number): Promise<Ticket> {
-    const result = await db
-      .update(tickets)
-      .set({ 
-        status: 'used', 
-        checkInTime: new Date(),
-        updatedAt: new Date() 
-      })
-      .where(eq(tickets.id, id))
-      .returning();
-    
-    if (!result[0]) {
-      throw new Error(`Ticket not found: ${id}`);
-    }
-    
-    return result[0];
+  async getCheckInConflictsByEvent(eventId: number): Promise<CheckInConflict[]> {
+    return await db
+      .select()
+      .from(checkInConflicts)
+      .where(eq(checkInConflicts.eventId, eventId))
+      .orderBy(desc(checkInConflicts.createdAt));
   }
 
   // === ADMIN NOTE OPERATIONS ===
@@ -958,6 +3421,114 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // === WEBHOOK JOURNAL OPERATIONS ===
+
+  // Store an incoming event; a redelivered event returns the row recorded the first time
+  async recordWebhookEvent(eventData: InsertWebhookEvent): Promise<WebhookEvent> {
+    const inserted = await db
+      .insert(webhookEvents)
+      .values(eventData)
+      .onConflictDoNothing({ target: webhookEvents.stripeEventId })
+      .returning();
+    
+    if (inserted[0]) {
+      return inserted[0];
+    }
+    
+    const existing = await db
+      .select()
+      .from(webhookEvents)
+      .where(eq(webhookEvents.stripeEventId, eventData.stripeEventId));
+    return existing[0];
+  }
+
+  async getWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+    const result = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return result[0];
+  }
+
+  async getWebhookEvents(filters: { status?: string; type?: string } = {}): Promise<WebhookEvent[]> {
+    const conditions = [];
+    
+    if (filters.status) {
+      conditions.push(eq(webhookEvents.status, filters.status));
+    }
+    
+    if (filters.type) {
+      conditions.push(eq(webhookEvents.type, filters.type));
+    }
+    
+    return await db
+      .select()
+      .from(webhookEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookEvents.createdAt));
+  }
+
+  // Atomically move an event to "processing". Returns undefined when the event was already
+  // handled or another delivery is working on it; `force` lets an admin re-run a stuck event.
+  // An event left in "processing" by a delivery that crashed mid-handler can be claimed again
+  // once it has sat there for WEBHOOK_PROCESSING_TIMEOUT_MINUTES.
+  async claimWebhookEvent(id: number, force: boolean = false): Promise<WebhookEvent | undefined> {
+    const claimableStatuses = force ? ["pending", "failed", "processing"] : ["pending", "failed"];
+    const staleBefore = new Date(Date.now() - WEBHOOK_PROCESSING_TIMEOUT_MINUTES * 60 * 1000);
+    
+    const result = await db
+      .update(webhookEvents)
+      .set({
+        status: "processing",
+        attempts: sql`${webhookEvents.attempts} + 1`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(webhookEvents.id, id),
+        or(
+          inArray(webhookEvents.status, claimableStatuses),
+          and(eq(webhookEvents.status, "processing"), lt(webhookEvents.updatedAt, staleBefore))
+        )
+      ))
+      .returning();
+    
+    return result[0];
+  }
+
+  async markWebhookEventProcessed(id: number): Promise<WebhookEvent> {
+    const result = await db
+      .update(webhookEvents)
+      .set({
+        status: "processed",
+        error: null,
+        processedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Webhook event not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
+  async markWebhookEventFailed(id: number, error: string): Promise<WebhookEvent> {
+    const result = await db
+      .update(webhookEvents)
+      .set({
+        status: "failed",
+        error,
+        updatedAt: new Date()
+      })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Webhook event not found: ${id}`);
+    }
+    
+    return result[0];
+  }
+
   // === ANALYTICS OPERATIONS ===
 
   async recordAnalyticEvent(data: InsertAnalytics): Promise<Analytics> {
@@ -1123,6 +3694,9 @@ export class DatabaseStorage implements IStorage {
           event_id: orders.eventId,
           status: orders.status,
           amount: orders.totalAmount,
+          discount_amount: orders.discountAmount,
+          platform_fee_amount: orders.platformFeeAmount,
+          processing_fee_amount: orders.processingFeeAmount,
           created_at: orders.createdAt,
           notes: orders.notes
         })
@@ -1343,11 +3917,16 @@ export class DatabaseStorage implements IStorage {
         // Get event title
         const event = await this.getEvent(item.event_id);
         
+        // Get the organizer who owns the event
+        const organizer = event ? await this.getUser(event.ownerId) : undefined;
+        
         return {
           ...item,
           userName: user ? user.name || user.username : 'Unknown',
           userEmail: user ? user.email : 'Unknown',
           eventTitle: event ? event.title : 'Unknown',
+          organizerId: event ? event.ownerId : null,
+          organizerName: organizer ? organizer.name || organizer.username : 'Unknown',
           formattedDate: new Date(item.created_at).toLocaleDateString(),
           formattedAmount: `$${parseFloat(item.amount).toFixed(2)}`
         };
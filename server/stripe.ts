@@ -1,7 +1,13 @@
 import { Express } from "express";
 import Stripe from "stripe";
-import { storage } from "./storage";
+import { storage, InsufficientStockError } from "./storage";
+import { getOrderHoldExpiry } from "./order-expiry";
 import { log } from "./vite";
+import { calculateOrderFees, getOrderNetAmount } from "./fees";
+import { emailService } from "./email";
+import { findWaitlistClaim, offerFreedCapacityForOrder } from "./waitlist";
+import { getPaymentProvider, toCheckoutSessionStatus, FAKE_SIGNATURE_HEADER, type CheckoutSessionStatus } from "./payments";
+import type { Order, WebhookEvent } from "@shared/schema";
 
 // Helper function to create Stripe instance with proper typing
 function createStripeInstance(key: string) {
@@ -25,9 +31,6 @@ function getStripe() {
   return createStripeInstance(currentKey);
 }
 
-// Create a singleton instance for regular use
-const stripe = getStripe();
-
 export function setupStripeRoutes(app: Express) {
   // Log all stripe routes being registered
   log("Setting up Stripe routes", "stripe");
@@ -707,7 +710,7 @@ export function setupStripeRoutes(app: Express) {
         
         // Validate the account ID with Stripe
         try {
-          await stripe.accounts.retrieve(stripeAccountId);
+          await getPaymentProvider().getAccountStatus(stripeAccountId);
         } catch (error) {
           return res.redirect('/payment-connections?error=true&message=' + encodeURIComponent('Invalid Stripe account ID. Please try again.'));
         }
@@ -856,7 +859,7 @@ export function setupStripeRoutes(app: Express) {
       
       // Validate the account ID with Stripe
       try {
-        await stripe.accounts.retrieve(stripeAccountId);
+        await getPaymentProvider().getAccountStatus(stripeAccountId);
       } catch (error) {
         return res.status(400).json({ message: "Invalid Stripe account ID. Please check and try again." });
       }
@@ -932,21 +935,15 @@ export function setupStripeRoutes(app: Express) {
       
       log(`Checking Stripe account status for user ${req.user.id} with account ID ${req.user.stripeAccountId}`, "stripe");
       
-      // Create a fresh Stripe instance with latest key to ensure we're using valid credentials
-      const freshStripe = createStripeInstance(process.env.STRIPE_SECRET_KEY || stripeSecretKey);
-      
       try {
         // Retrieve the account to get its current status
-        const account = await freshStripe.accounts.retrieve(req.user.stripeAccountId);
+        const account = await getPaymentProvider().getAccountStatus(req.user.stripeAccountId);
         
-        log(`Successfully retrieved Stripe account ${account.id} for user ${req.user.id}`, "stripe");
+        log(`Successfully retrieved Stripe account ${account.accountId} for user ${req.user.id}`, "stripe");
         
         return res.json({
           connected: true,
-          accountId: account.id,
-          detailsSubmitted: account.details_submitted,
-          chargesEnabled: account.charges_enabled,
-          payoutsEnabled: account.payouts_enabled
+          ...account
         });
       } catch (stripeError: any) {
         // Handle case where account may not exist anymore or is invalid
@@ -1018,8 +1015,8 @@ export function setupStripeRoutes(app: Express) {
             
             // Verify the account with Stripe
             try {
-              const account = await stripe.accounts.retrieve(savedAccountId);
-              log(`Successfully verified account with Stripe: ${account.id}`, "stripe");
+              const account = await getPaymentProvider().getAccountStatus(savedAccountId);
+              log(`Successfully verified account with Stripe: ${account.accountId}`, "stripe");
               
               // Update the user's account with this ID
               await storage.updateUserStripeAccount(user.id, savedAccountId);
@@ -1054,7 +1051,7 @@ export function setupStripeRoutes(app: Express) {
         
         try {
           // Verify the account with Stripe
-          const account = await stripe.accounts.retrieve(pendingAccountId);
+          await getPaymentProvider().getAccountStatus(pendingAccountId);
           
           // Save to user record
           await storage.updateUserStripeAccount(user.id, pendingAccountId);
@@ -1077,28 +1074,25 @@ export function setupStripeRoutes(app: Express) {
       // PRIORITY 3: Try to match based on recent accounts
       try {
         // Get the 10 most recently created Stripe accounts
-        const accounts = await stripe.accounts.list({ limit: 10 });
+        const accounts = await getPaymentProvider().listRecentAccounts(10);
         
         // Find the most recently created account (less than 5 minutes old)
         const now = Date.now();
-        for (const account of accounts.data) {
-          if (account.created) {
-            const accountCreated = new Date(account.created * 1000);
-            const ageInMinutes = (now - accountCreated.getTime()) / (1000 * 60);
+        for (const account of accounts) {
+          const ageInMinutes = (now - account.createdAt.getTime()) / (1000 * 60);
+          
+          // If account was created in the last 5 minutes, it's likely the one we want
+          if (ageInMinutes < 5) {
+            log(`Found recent account ${account.accountId} created ${ageInMinutes.toFixed(1)} minutes ago`, "stripe");
             
-            // If account was created in the last 5 minutes, it's likely the one we want
-            if (ageInMinutes < 5) {
-              log(`Found recent account ${account.id} created ${ageInMinutes.toFixed(1)} minutes ago`, "stripe");
-              
-              // Save to user record
-              await storage.updateUserStripeAccount(user.id, account.id);
-              
-              return res.json({
-                recovered: true,
-                message: "Successfully recovered from recently created account",
-                accountId: account.id
-              });
-            }
+            // Save to user record
+            await storage.updateUserStripeAccount(user.id, account.accountId);
+            
+            return res.json({
+              recovered: true,
+              message: "Successfully recovered from recently created account",
+              accountId: account.accountId
+            });
           }
         }
       } catch (listError: any) {
@@ -1142,30 +1136,57 @@ export function setupStripeRoutes(app: Express) {
         return res.status(400).json({ message: "Event owner has not connected with Stripe" });
       }
 
-      // Create order first
-      const orderData = {
-        userId: req.user.id,
-        eventId: eventId,
-        totalAmount: event.price * (quantity || 1),
-        paymentMethod: 'stripe',
-        status: 'pending',
-        paymentStatus: 'pending'
-      };
+      const ticketQuantity = quantity === undefined ? 1 : Number(quantity);
+      if (!Number.isInteger(ticketQuantity) || ticketQuantity < 1) {
+        return res.status(400).json({ message: "Quantity must be a positive whole number" });
+      }
+
+      // Tickets held for the buyer by a waitlist offer are handed to the order that claims them
+      let waitlistEntryId: number | undefined;
+      if (req.body.waitlistClaim) {
+        const entry = await findWaitlistClaim(req.body.waitlistClaim, req.user.id, { type: "event", id: event.id });
+        if (!entry) {
+          return res.status(400).json({ message: `Your waitlist offer for ${event.title} has expired or was already used` });
+        }
+        waitlistEntryId = entry.id;
+      }
+
+      const fees = calculateOrderFees(event, event.price * ticketQuantity);
       
-      const order = await storage.createOrder(orderData);
-      
-      // Create order item for the ticket
-      await storage.createOrderItem({
-        orderId: order.id,
-        itemId: eventId,
-        itemType: "ticket",
-        name: `${event.title} - Ticket`,
-        description: "Event ticket",
-        quantity: quantity || 1,
-        unitPrice: event.price,
-        totalPrice: event.price * (quantity || 1),
-        metadata: null
-      });
+      // Create the order, holding the tickets until it is paid or the hold expires
+      const expiresAt = getOrderHoldExpiry();
+      let order: Order;
+      try {
+        [{ order }] = await storage.createPendingOrders([{
+          order: {
+            userId: req.user.id,
+            eventId: event.id,
+            totalAmount: fees.totalAmount,
+            paymentMethod: 'stripe',
+            status: 'pending',
+            paymentStatus: 'pending',
+            platformFeeAmount: fees.platformFeeAmount,
+            processingFeeAmount: fees.processingFeeAmount,
+            buyerFeeAmount: fees.buyerFeeAmount
+          },
+          items: [{
+            itemId: event.id,
+            itemType: "ticket",
+            name: `${event.title} - Ticket`,
+            description: "Event ticket",
+            quantity: ticketQuantity,
+            unitPrice: event.price,
+            totalPrice: event.price * ticketQuantity,
+            metadata: { source: "event" }, // itemId is the event, not a product
+            waitlistEntryId
+          }]
+        }], expiresAt);
+      } catch (error: any) {
+        if (error instanceof InsufficientStockError) {
+          return res.status(400).json({ message: error.message, available: error.available });
+        }
+        throw error;
+      }
 
       // Use the correct domains as specified by the client
       const domain = "https://events.mosspointmainstreet.org";
@@ -1178,30 +1199,30 @@ export function setupStripeRoutes(app: Express) {
                              (process.env.NODE_ENV === 'production' ? domain : replitAppDomain);
 
       // Create a Checkout Session
-      const session = await stripe.checkout.sessions.create({
-        payment_method_types: ["card"],
-        line_items: [
+      const session = await getPaymentProvider().createCheckoutSession({
+        lineItems: [
           {
-            price_data: {
-              currency: "usd",
-              product_data: {
-                name: event.title,
-                description: event.description,
-              },
-              unit_amount: Math.round(event.price * 100), // convert to cents
-            },
-            quantity: quantity || 1,
+            name: event.title,
+            description: event.description,
+            unitAmount: Math.round(event.price * 100), // convert to cents
+            quantity: ticketQuantity,
           },
+          // Processing fee passed on to the buyer, if the organizer chose to
+          ...(fees.buyerFeeAmount > 0 ? [{
+            name: "Processing fee",
+            unitAmount: Math.round(fees.buyerFeeAmount * 100), // convert to cents
+            quantity: 1,
+          }] : []),
         ],
-        mode: "payment",
-        success_url: `${effectiveDomain}/events/${eventId}?success=true&session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${effectiveDomain}/events/${eventId}?cancelled=true`,
-        // Send payment to the connected account
-        payment_intent_data: {
-          application_fee_amount: 0, // No platform fee as per client directive
-          transfer_data: {
-            destination: owner.stripeAccountId,
-          },
+        // Stripe requires at least 30 minutes; the order expiry sweeper closes it when the hold runs out
+        expiresAt: new Date(Math.max(expiresAt.getTime(), Date.now() + 31 * 60 * 1000)),
+        successUrl: `${effectiveDomain}/events/${eventId}?success=true&session_id={CHECKOUT_SESSION_ID}`,
+        cancelUrl: `${effectiveDomain}/events/${eventId}?cancelled=true`,
+        // Send payment to the connected account. Destination charges pay Stripe's fee from
+        // the platform, so it is collected along with the platform fee
+        destination: {
+          accountId: owner.stripeAccountId,
+          applicationFeeAmount: Math.round((fees.platformFeeAmount + fees.processingFeeAmount) * 100),
         },
         // Pass metadata to use in the webhook
         metadata: {
@@ -1211,6 +1232,8 @@ export function setupStripeRoutes(app: Express) {
         },
       });
 
+      await storage.setOrdersStripeSession([order.id], session.id);
+
       res.json({ id: session.id, url: session.url });
     } catch (error: any) {
       log(`Stripe checkout error: ${error.message}`, "stripe");
@@ -1357,6 +1380,9 @@ export function setupStripeRoutes(app: Express) {
       }
 
       let event;
+      
+      // Signatures are computed over the exact bytes Stripe sent, captured by the JSON parser
+      const rawBody = (req as any).rawBody || req.body;
 
       try {
         // Verify webhook signature with the appropriate secret
@@ -1372,7 +1398,7 @@ export function setupStripeRoutes(app: Express) {
         if (webhookSecret) {
           try {
             // First try with the primary secret (selected based on domain)
-            event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
+            event = getPaymentProvider().constructWebhookEvent(rawBody, sig, webhookSecret);
             log(`Webhook verified with primary secret for domain: ${effectiveHost}`, "stripe");
           } catch (primaryErr: unknown) {
             const primaryErrorMessage = primaryErr instanceof Error ? primaryErr.message : String(primaryErr);
@@ -1383,7 +1409,7 @@ export function setupStripeRoutes(app: Express) {
             
             try {
               log(`Attempting verification with fallback webhook secret...`, "stripe");
-              event = stripe.webhooks.constructEvent(req.body, sig, fallbackSecret);
+              event = getPaymentProvider().constructWebhookEvent(rawBody, sig, fallbackSecret);
               log(`Fallback webhook verification succeeded!`, "stripe");
             } catch (fallbackErr: unknown) {
               const fallbackErrorMessage = fallbackErr instanceof Error ? fallbackErr.message : String(fallbackErr);
@@ -1407,96 +1433,23 @@ export function setupStripeRoutes(app: Express) {
           });
         }
 
-        // Handle specific event types
-        switch (event.type) {
-          case "checkout.session.completed": {
-            const session = event.data.object;
-            await handleCheckoutSessionCompleted(session);
-            break;
-          }
-          case "payment_intent.succeeded": {
-            const paymentIntent = event.data.object;
-            log(`PaymentIntent succeeded: ${paymentIntent.id}`, "stripe");
-            
-            // Store detailed payment information
-            try {
-              // Extract metadata if available
-              const metadata = paymentIntent.metadata || {};
-              const userId = metadata.userId ? parseInt(metadata.userId) : null;
-              const eventId = metadata.eventId ? parseInt(metadata.eventId) : null;
-              
-              if (userId && eventId) {
-                // Record transaction details in analytics
-                await storage.recordAnalyticEvent({
-                  metric: "payment_success",
-                  value: paymentIntent.amount / 100, // Convert from cents
-                  eventId,
-                  dimension: "payment_type",
-                  dimensionValue: metadata.paymentType || "standard",
-                  metadata: {
-                    userId, // Store userId in metadata as it's not in the schema
-                    paymentId: paymentIntent.id,
-                    paymentMethod: paymentIntent.payment_method_types?.[0] || "card",
-                    currency: paymentIntent.currency,
-                    // PaymentIntent type doesn't have amount_refunded, use 0 as default
-                    amountRefunded: 0,
-                    receiptEmail: paymentIntent.receipt_email || null,
-                    description: paymentIntent.description || null,
-                    status: paymentIntent.status,
-                    timestamp: new Date().toISOString()
-                    // Don't store fullData to avoid bloating the database
-                  }
-                });
-                
-                log(`Recorded detailed payment analytics for user ${userId}, event ${eventId}`, "stripe");
-                
-                // Create admin note about payment
-                await storage.createAdminNote({
-                  adminId: 1, // System admin ID
-                  targetType: "event",
-                  targetId: eventId,
-                  note: `Payment of ${(paymentIntent.amount / 100).toFixed(2)} ${paymentIntent.currency.toUpperCase()} received from user #${userId}`
-                });
-              } else {
-                log(`PaymentIntent ${paymentIntent.id} has no user/event metadata, can't associate with records`, "stripe");
-              }
-            } catch (error: unknown) {
-              const errorMessage = error instanceof Error ? error.message : String(error);
-              log(`Error processing payment_intent.succeeded: ${errorMessage}`, "stripe");
-            }
-            break;
-          }
-          
-          // New handlers for Connect account verification
-          case "account.updated": {
-            // A connected account was updated, check verification status
-            const account = event.data.object;
-            log(`Connected Stripe account updated: ${account.id}`, "stripe");
-            await handleAccountUpdated(account);
-            break;
-          }
-          
-          case "account.application.deauthorized": {
-            // A user has deauthorized your application
-            const account = event.data.object;
-            log(`Stripe account deauthorized: ${account.id}`, "stripe");
-            await handleAccountDeauthorized(account);
-            break;
-          }
-          
-          case "account.external_account.created": {
-            // A bank account or card was added to a connected account
-            const externalAccount = event.data.object;
-            log(`External account added: ${externalAccount.id}`, "stripe");
-            break;
-          }
-          
-          case "account.external_account.updated": {
-            // A bank account or card was updated on a connected account
-            const externalAccount = event.data.object;
-            log(`External account updated: ${externalAccount.id}`, "stripe");
-            break;
-          }
+        const processed = await receiveWebhookEvent(event);
+        if (!processed) {
+          return res.json({ received: true, duplicate: true });
+        }
+        
+        if (processed.status === "processing") {
+          // Still being handled by another delivery; a non-2xx response has Stripe try again later
+          return res.status(409).json({ received: false, error: "Event is still being processed" });
+        }
+        
+        if (processed.status === "failed") {
+          // A non-2xx response makes Stripe redeliver the event later
+          return res.status(500).json({
+            received: false,
+            error: `Webhook processing error: ${processed.error}`,
+            domain: effectiveHost
+          });
         }
 
         res.json({ received: true });
@@ -1518,80 +1471,232 @@ export function setupStripeRoutes(app: Express) {
     }
   });
 
-  // Helper function to handle successful checkout
-  async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
+  // List journaled webhook events, e.g. ?status=failed (admin only)
+  app.get("/api/admin/webhook-events", async (req, res) => {
+    if (!req.user || req.user.role !== 'admin') {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    
     try {
-      const metadata = session.metadata as Record<string, string> || {};
-      const orderId = metadata.orderId;
-      const userId = metadata.userId;
-      const eventId = metadata.eventId;
+      const events = await storage.getWebhookEvents({
+        status: req.query.status as string | undefined,
+        type: req.query.type as string | undefined,
+      });
+      res.json(events);
+    } catch (error: any) {
+      log(`Error listing webhook events: ${error.message}`, "stripe");
+      res.status(500).json({ message: error.message || "Failed to fetch webhook events" });
+    }
+  });
+  
+  // Re-run a journaled webhook event (admin only)
+  app.post("/api/admin/webhook-events/:id/replay", async (req, res) => {
+    if (!req.user || req.user.role !== 'admin') {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    
+    try {
+      const eventId = parseInt(req.params.id);
+      const record = await storage.getWebhookEvent(eventId);
       
-      if (!orderId || !userId || !eventId) {
-        log(`Missing required metadata in session: ${JSON.stringify(metadata)}`, "stripe");
-        return;
+      if (!record) {
+        return res.status(404).json({ message: "Webhook event not found" });
       }
       
-      try {
-        // Get the order that was created during checkout
-        const orderIdInt = parseInt(orderId);
-        
-        // Update the order status to completed and add payment details
-        const paymentIntent = session.payment_intent as string;
-        await storage.updateOrderStatus(orderIdInt, "completed");
-        await storage.updateOrderPaymentStatus(orderIdInt, "paid", paymentIntent);
-        
-        log(`Order ${orderIdInt} updated with payment details`, "stripe");
-        
-        // Get all order items to decrease slots
-        const orderItems = await storage.getOrderItems(orderIdInt);
-        
-        // Process each order item and decrease slots
-        for (const item of orderItems) {
-          // Decrease slots for the purchased item
-          await decreaseSlots(item.itemType, item.itemId, item.quantity);
-          
-          log(`Slots decreased for order item: ${item.itemType} ${item.itemId} (qty: ${item.quantity})`, "stripe");
-        }
-        
-        log(`Payment processing completed for order: ${orderIdInt}`, "stripe");
-      } catch (orderError: unknown) {
-        const errorMessage = orderError instanceof Error ? orderError.message : String(orderError);
-        log(`Error processing checkout: ${errorMessage}`, "stripe");
+      if (record.status === "processed") {
+        return res.status(400).json({ message: "Webhook event has already been processed" });
       }
       
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      log(`Error handling checkout completion: ${errorMessage}`, "stripe");
+      const claimed = await storage.claimWebhookEvent(eventId, true);
+      if (!claimed) {
+        return res.status(409).json({ message: "Webhook event could not be claimed for replay" });
+      }
+      
+      log(`Admin ${req.user.id} replaying webhook event ${record.stripeEventId}`, "stripe");
+      const processed = await processWebhookEvent(claimed);
+      res.json(processed);
+    } catch (error: any) {
+      log(`Error replaying webhook event: ${error.message}`, "stripe");
+      res.status(500).json({ message: error.message || "Failed to replay webhook event" });
     }
-  }
+  });
 
-  // Helper function to decrease slots based on item type
-  async function decreaseSlots(itemType: string, itemId: number, quantity: number) {
+  // Webhook deliveries from the offline fake payment provider (PAYMENT_PROVIDER=fake)
+  app.post("/api/payments/fake/webhook", async (req, res) => {
+    const provider = getPaymentProvider();
+    if (provider.name !== "fake") {
+      return res.status(404).json({ message: "Fake payment provider is not enabled" });
+    }
+    
+    let event: Stripe.Event;
+    try {
+      event = provider.constructWebhookEvent((req as any).rawBody || req.body, req.headers[FAKE_SIGNATURE_HEADER] as string);
+    } catch (error: any) {
+      log(`Fake webhook verification failed: ${error.message}`, "payments");
+      return res.status(400).json({ received: false, error: error.message });
+    }
+    
     try {
-      switch (itemType) {
-        case "ticket":
-          await storage.decreaseEventTicketSlots(itemId, quantity);
-          break;
-        case "product":
-        case "merchandise":
-          await storage.decreaseProductQuantity(itemId, quantity);
-          break;
-        case "vendor_spot":
-          await storage.decreaseVendorSpotSlots(itemId, quantity);
-          break;
-        case "volunteer_shift":
-          await storage.decreaseVolunteerShiftSlots(itemId, quantity);
-          break;
-        default:
-          log(`Unknown item type for slot decrease: ${itemType}`, "stripe");
+      const processed = await receiveWebhookEvent(event);
+      if (processed?.status === "failed") {
+        return res.status(500).json({ received: false, error: `Webhook processing error: ${processed.error}` });
       }
+      if (processed?.status === "processing") {
+        return res.status(409).json({ received: false, error: "Event is still being processed" });
+      }
+      
+      res.json({ received: true, duplicate: !processed });
+    } catch (error: any) {
+      log(`Unexpected error during fake webhook processing: ${error.message}`, "payments");
+      res.status(500).json({ received: false, error: `Webhook processing error: ${error.message}` });
+    }
+  });
+
+  // Journal a verified event before handling it so duplicates are skipped and failures can be replayed.
+  // Returns null if the event was already processed, or the unclaimed record while another delivery
+  // is still processing it, so the caller can ask Stripe to redeliver in case that delivery dies.
+  async function receiveWebhookEvent(event: Stripe.Event): Promise<WebhookEvent | null> {
+    const record = await storage.recordWebhookEvent({
+      stripeEventId: event.id,
+      type: event.type,
+      payload: event,
+    });
+    
+    const claimed = await storage.claimWebhookEvent(record.id);
+    if (!claimed) {
+      const current = await storage.getWebhookEvent(record.id);
+      log(`Webhook event ${event.id} already ${current?.status || record.status}, skipping`, "stripe");
+      return current?.status === "processing" ? current : null;
+    }
+    
+    return await processWebhookEvent(claimed);
+  }
+
+  // Run the journaled event and record the outcome
+  async function processWebhookEvent(record: WebhookEvent): Promise<WebhookEvent> {
+    try {
+      await dispatchStripeEvent(record.payload as Stripe.Event);
+      return await storage.markWebhookEventProcessed(record.id);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      log(`Error decreasing slots for ${itemType} ${itemId}: ${errorMessage}`, "stripe");
-      throw error; // Re-throw to handle at higher level
+      log(`Webhook event ${record.stripeEventId} failed (attempt ${record.attempts}): ${errorMessage}`, "stripe");
+      return await storage.markWebhookEventFailed(record.id, errorMessage);
     }
   }
-  
+
+  // Route a Stripe event to its handler
+  async function dispatchStripeEvent(event: Stripe.Event) {
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object;
+        await completeCheckoutSession(toCheckoutSessionStatus(session));
+        break;
+      }
+      case "checkout.session.expired": {
+        // The buyer never paid; give the held stock back for every order in the session
+        const session = event.data.object;
+        for (const orderId of getSessionOrderIds(toCheckoutSessionStatus(session))) {
+          // An approved vendor's payment order is held until its own deadline, which can outlast
+          // the session; they can start another checkout until then
+          const order = await storage.getOrder(orderId);
+          if (order?.expiresAt && order.expiresAt > new Date()) {
+            log(`Checkout session ${session.id} expired, order ${orderId} is held until ${order.expiresAt.toISOString()}`, "stripe");
+            continue;
+          }
+          const released = await storage.releaseOrderHold(orderId, "expired");
+          log(`Checkout session ${session.id} expired, order ${orderId} ${released ? "released" : "was not pending"}`, "stripe");
+          if (released) {
+            await offerFreedCapacityForOrder(orderId);
+          }
+        }
+        break;
+      }
+      case "payment_intent.succeeded": {
+        const paymentIntent = event.data.object;
+        log(`PaymentIntent succeeded: ${paymentIntent.id}`, "stripe");
+        
+        // Store detailed payment information
+        try {
+          // Extract metadata if available
+          const metadata = paymentIntent.metadata || {};
+          const userId = metadata.userId ? parseInt(metadata.userId) : null;
+          const eventId = metadata.eventId ? parseInt(metadata.eventId) : null;
+          
+          if (userId && eventId) {
+            // Record transaction details in analytics
+            await storage.recordAnalyticEvent({
+              metric: "payment_success",
+              value: paymentIntent.amount / 100, // Convert from cents
+              eventId,
+              dimension: "payment_type",
+              dimensionValue: metadata.paymentType || "standard",
+              metadata: {
+                userId, // Store userId in metadata as it's not in the schema
+                paymentId: paymentIntent.id,
+                paymentMethod: paymentIntent.payment_method_types?.[0] || "card",
+                currency: paymentIntent.currency,
+                // PaymentIntent type doesn't have amount_refunded, use 0 as default
+                amountRefunded: 0,
+                receiptEmail: paymentIntent.receipt_email || null,
+                description: paymentIntent.description || null,
+                status: paymentIntent.status,
+                timestamp: new Date().toISOString()
+                // Don't store fullData to avoid bloating the database
+              }
+            });
+            
+            log(`Recorded detailed payment analytics for user ${userId}, event ${eventId}`, "stripe");
+            
+            // Create admin note about payment
+            await storage.createAdminNote({
+              adminId: 1, // System admin ID
+              targetType: "event",
+              targetId: eventId,
+              note: `Payment of ${(paymentIntent.amount / 100).toFixed(2)} ${paymentIntent.currency.toUpperCase()} received from user #${userId}`
+            });
+          } else {
+            log(`PaymentIntent ${paymentIntent.id} has no user/event metadata, can't associate with records`, "stripe");
+          }
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          log(`Error processing payment_intent.succeeded: ${errorMessage}`, "stripe");
+        }
+        break;
+      }
+      
+      // New handlers for Connect account verification
+      case "account.updated": {
+        // A connected account was updated, check verification status
+        const account = event.data.object;
+        log(`Connected Stripe account updated: ${account.id}`, "stripe");
+        await handleAccountUpdated(account);
+        break;
+      }
+      
+      case "account.application.deauthorized": {
+        // A user has deauthorized your application
+        const account = event.data.object;
+        log(`Stripe account deauthorized: ${account.id}`, "stripe");
+        await handleAccountDeauthorized(account);
+        break;
+      }
+      
+      case "account.external_account.created": {
+        // A bank account or card was added to a connected account
+        const externalAccount = event.data.object;
+        log(`External account added: ${externalAccount.id}`, "stripe");
+        break;
+      }
+      
+      case "account.external_account.updated": {
+        // A bank account or card was updated on a connected account
+        const externalAccount = event.data.object;
+        log(`External account updated: ${externalAccount.id}`, "stripe");
+        break;
+      }
+    }
+  }
+
   // Handle account.updated webhook events to track verification status
   async function handleAccountUpdated(account: any) {
     try {
@@ -1933,3 +2038,96 @@ export function setupStripeRoutes(app: Express) {
     }
   }
 }
+
+// Order ids carried by a checkout session. Sessions created before carts were split
+// by event only have a single orderId.
+function getSessionOrderIds(session: CheckoutSessionStatus): number[] {
+  const metadata = session.metadata;
+  const ids = metadata.orderIds ? metadata.orderIds.split(",") : [metadata.orderId];
+  return ids.map(id => parseInt(id)).filter(id => !isNaN(id));
+}
+
+// Fulfill every order paid for by a completed checkout session and pay out each organizer.
+// Fulfillment and transfers are idempotent, so this is safe to call from both the webhook
+// and the success redirect; errors propagate so the provider redelivers the event.
+export async function completeCheckoutSession(session: CheckoutSessionStatus) {
+  const orderIds = getSessionOrderIds(session);
+  if (orderIds.length === 0) {
+    log(`Missing required metadata in session: ${JSON.stringify(session.metadata)}`, "stripe");
+    return;
+  }
+
+  const paymentIntentId = session.paymentIntentId || undefined;
+
+  for (const orderId of orderIds) {
+    const { order, tickets, alreadyFulfilled, soldOut } = await storage.fulfillOrder(orderId, paymentIntentId);
+
+    if (soldOut) {
+      await refundSoldOutOrder(order, paymentIntentId);
+      continue;
+    }
+
+    if (alreadyFulfilled) {
+      log(`Order ${orderId} was already fulfilled, ignoring duplicate completion`, "stripe");
+    } else {
+      log(`Payment processing completed for order: ${orderId} (${tickets.length} tickets issued)`, "stripe");
+      // Sent in the background so a slow mail server doesn't hold up the webhook
+      emailService.sendOrderConfirmationEmail(order.id);
+    }
+
+    if (paymentIntentId) {
+      await transferOrderFunds(order, paymentIntentId);
+    }
+  }
+}
+
+// The hold on an order was released before its payment landed and the stock sold out in the
+// meantime, so give the buyer their money back for that order
+async function refundSoldOutOrder(order: Order, paymentIntentId: string | undefined) {
+  if (order.paymentStatus === "refunded" || !paymentIntentId || order.totalAmount <= 0) {
+    log(`Order ${order.orderNumber} sold out before it was paid, nothing to refund`, "stripe");
+    return;
+  }
+
+  const refund = await getPaymentProvider().createRefund({
+    paymentIntentId,
+    amount: Math.round(order.totalAmount * 100), // convert to cents
+    metadata: { orderId: order.id.toString(), reason: "sold_out" },
+    idempotencyKey: `order-sold-out-${order.id}`,
+  });
+
+  await storage.refundSoldOutOrder(order.id, paymentIntentId, refund.id);
+  log(`Order ${order.orderNumber} sold out after its hold was released, refunded ${order.totalAmount.toFixed(2)}`, "stripe");
+}
+
+// Move an order's share of a multi-event checkout to the event owner's connected account
+export async function transferOrderFunds(order: Order, paymentIntentId: string) {
+  if (order.stripeTransferId || !order.checkoutGroup || order.totalAmount <= 0) {
+    return;
+  }
+
+  const event = await storage.getEvent(order.eventId);
+  const owner = event ? await storage.getUser(event.ownerId) : undefined;
+  if (!owner || !owner.stripeAccountId) {
+    log(`Order ${order.orderNumber} has no connected Stripe account to pay out to, funds kept on the platform`, "stripe");
+    return;
+  }
+
+  // The platform fee stays with the platform, and so does the processing fee since Stripe charged it there
+  const netAmount = getOrderNetAmount(order);
+  if (netAmount <= 0) {
+    return;
+  }
+
+  const transfer = await getPaymentProvider().createTransfer({
+    amount: Math.round(netAmount * 100), // convert to cents
+    destination: owner.stripeAccountId,
+    transferGroup: order.checkoutGroup,
+    paymentIntentId,
+    metadata: { orderId: order.id.toString() },
+    idempotencyKey: `order-transfer-${order.id}`,
+  });
+
+  await storage.setOrderStripeTransfer(order.id, transfer.id);
+  log(`Transferred ${netAmount.toFixed(2)} for order ${order.orderNumber} to ${owner.stripeAccountId}`, "stripe");
+}
@@ -0,0 +1,75 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import type { Ticket } from "@shared/schema";
+import { log } from "./vite";
+
+// Scannable ticket codes: "TKT1.<ticketId>.<eventId>.<ticketNumber>.<signature>", where the
+// signature is an HMAC of everything before it. A forged or altered code fails the HMAC check
+// before anything is looked up.
+const CODE_PREFIX = "TKT1";
+
+export type TicketCode = {
+  ticketId: number;
+  eventId: number;
+  ticketNumber: string;
+};
+
+let signingSecret: string | null = null;
+
+// TICKET_SIGNING_SECRET, falling back to SESSION_SECRET. Without either, codes only stay
+// valid until the server restarts.
+function getSigningSecret(): string {
+  if (!signingSecret) {
+    signingSecret = process.env.TICKET_SIGNING_SECRET || process.env.SESSION_SECRET || null;
+    if (!signingSecret) {
+      log("TICKET_SIGNING_SECRET is not set, ticket QR codes will stop scanning after a restart", "tickets");
+      signingSecret = randomBytes(32).toString("hex");
+    }
+  }
+  return signingSecret;
+}
+
+function sign(body: string): string {
+  return createHmac("sha256", getSigningSecret()).update(body).digest("base64url");
+}
+
+function getCodeBody(ticket: Pick<Ticket, "id" | "eventId" | "ticketNumber">): string {
+  return [CODE_PREFIX, ticket.id, ticket.eventId, ticket.ticketNumber].join(".");
+}
+
+// Just the signature part of a ticket's code. Offline scanners get these in the event's
+// manifest, so they can check a scanned code without holding the signing secret.
+export function getTicketSignature(ticket: Pick<Ticket, "id" | "eventId" | "ticketNumber">): string {
+  return sign(getCodeBody(ticket));
+}
+
+export function createTicketCode(ticket: Pick<Ticket, "id" | "eventId" | "ticketNumber">): string {
+  return `${getCodeBody(ticket)}.${getTicketSignature(ticket)}`;
+}
+
+// Parse a scanned code, or return null if it isn't one of ours or the signature doesn't match
+export function verifyTicketCode(code: string): TicketCode | null {
+  const parts = code.trim().split(".");
+  if (parts.length !== 5 || parts[0] !== CODE_PREFIX) {
+    return null;
+  }
+
+  const [, ticketId, eventId, ticketNumber, signature] = parts;
+  const expected = Buffer.from(sign(parts.slice(0, 4).join(".")));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  return { ticketId: parseInt(ticketId), eventId: parseInt(eventId), ticketNumber };
+}
+
+export async function renderTicketQrPng(ticket: Pick<Ticket, "id" | "eventId" | "ticketNumber">): Promise<Buffer> {
+  return QRCode.toBuffer(createTicketCode(ticket), { type: "png", width: 320, margin: 2, errorCorrectionLevel: "M" });
+}
+
+// The token a wallet app sends back when it asks for a newer copy of the ticket's pass. It is
+// derived from the code, so a transferred ticket's old pass stops updating.
+export function getWalletAuthToken(ticket: Pick<Ticket, "id" | "eventId" | "ticketNumber">): string {
+  return sign(`WALLET.${getCodeBody(ticket)}`);
+}
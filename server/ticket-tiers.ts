@@ -0,0 +1,61 @@
+import type { PriceStep, Product } from "@shared/schema";
+
+export type TierSalesStatus = "scheduled" | "on_sale" | "ended" | "sold_out";
+
+// Where a product is in its sales window. Only ticket tiers have windows, but the checks
+// apply to any product that sets them.
+export function getTierSalesStatus(product: Product, now: Date = new Date()): TierSalesStatus {
+  if (product.salesStartAt && now < new Date(product.salesStartAt)) {
+    return "scheduled";
+  }
+  if (product.salesEndAt && now > new Date(product.salesEndAt)) {
+    return "ended";
+  }
+  if (product.quantity !== null && product.quantity <= 0) {
+    return "sold_out";
+  }
+  return "on_sale";
+}
+
+// The unit price right now: the base price, raised by the last step whose quantity has sold.
+// A whole order is priced at the step it starts in.
+export function getCurrentTierPrice(product: Product): number {
+  const steps = ((product.priceSteps as PriceStep[] | null) || [])
+    .slice()
+    .sort((a, b) => a.afterSold - b.afterSold);
+
+  let price = product.price;
+  for (const step of steps) {
+    if (product.soldCount >= step.afterSold) {
+      price = step.price;
+    }
+  }
+  return price;
+}
+
+// The product as buyers see it, priced at its current step
+export function withCurrentPrice(product: Product, now: Date = new Date()) {
+  return {
+    ...product,
+    price: getCurrentTierPrice(product),
+    basePrice: product.price,
+    salesStatus: getTierSalesStatus(product, now),
+  };
+}
+
+// Why a product can't be bought right now, or null if it can
+export function getTierUnavailableReason(product: Product, now: Date = new Date()): string | null {
+  if (!product.isActive) {
+    return `${product.name} is not available`;
+  }
+
+  switch (getTierSalesStatus(product, now)) {
+    case "scheduled":
+      return `${product.name} is not on sale until ${new Date(product.salesStartAt!).toLocaleString()}`;
+    case "ended":
+      return `Sales for ${product.name} have ended`;
+    default:
+      // Sold out is reported by the stock hold with the quantity left
+      return null;
+  }
+}
@@ -23,6 +23,23 @@ export const upload = multer({
   },
 });
 
+// Application answers and vendor paperwork can also be PDFs
+const documentFileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+    cb(null, true);
+  } else {
+    cb(new Error('Only images and PDF files are allowed'));
+  }
+};
+
+export const documentUpload = multer({
+  storage,
+  fileFilter: documentFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+  },
+});
+
 // Check if Supabase storage is configured and accessible
 export async function setupUploads() {
   try {
@@ -0,0 +1,123 @@
+import { VENDOR_DOCUMENT_TYPE_LABELS, type VendorDocument, type VendorDocumentType } from "@shared/schema";
+import { storage } from "./storage";
+import { emailService } from "./email";
+import { getAppUrl } from "./waitlist";
+import { log } from "./vite";
+
+// How far ahead of expiry vendors are reminded (VENDOR_DOCUMENT_REMINDER_DAYS, default 30)
+export function getVendorDocumentReminderDays(): number {
+  const days = parseInt(process.env.VENDOR_DOCUMENT_REMINDER_DAYS || "30");
+  return Number.isFinite(days) && days > 0 ? days : 30;
+}
+
+// The document types an event requires that the vendor has no copy of, or only copies that
+// expire before the given date (the end of the event)
+export function getMissingVendorDocuments(
+  requiredTypes: unknown,
+  documents: VendorDocument[],
+  neededUntil: Date
+): VendorDocumentType[] {
+  const required = (requiredTypes as VendorDocumentType[] | null) || [];
+  return required.filter(type => !documents.some(document =>
+    document.documentType === type && (!document.expiresAt || document.expiresAt >= neededUntil)
+  ));
+}
+
+export function formatVendorDocumentTypes(types: VendorDocumentType[]): string {
+  return types.map(type => VENDOR_DOCUMENT_TYPE_LABELS[type] || type).join(", ");
+}
+
+export type VendorComplianceRow = {
+  registrationId: number;
+  status: string;
+  eventId: number;
+  eventTitle: string;
+  eventStartDate: Date;
+  vendorProfileId: number;
+  businessName: string;
+  missing: VendorDocumentType[];
+  expiring: { id: number; documentType: string; issuer: string; expiresAt: Date }[];
+};
+
+// Vendors at events that haven't ended yet who are missing a required document, or hold one
+// that expires within the given number of days
+export async function getVendorComplianceReport(days: number): Promise<VendorComplianceRow[]> {
+  const now = new Date();
+  const expiringBefore = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  const registrations = await storage.getUpcomingVendorRegistrations(now);
+  const documentsByProfile = new Map<number, VendorDocument[]>();
+  const rows: VendorComplianceRow[] = [];
+
+  for (const { registration, event } of registrations) {
+    if (!documentsByProfile.has(registration.vendorProfileId)) {
+      documentsByProfile.set(registration.vendorProfileId, await storage.getVendorDocuments(registration.vendorProfileId));
+    }
+    const documents = documentsByProfile.get(registration.vendorProfileId)!;
+
+    const missing = getMissingVendorDocuments(event.requiredVendorDocuments, documents, event.endDate);
+    const expiring = documents
+      .filter(document => document.expiresAt && document.expiresAt >= now && document.expiresAt < expiringBefore)
+      .map(({ id, documentType, issuer, expiresAt }) => ({ id, documentType, issuer, expiresAt: expiresAt! }));
+
+    if (missing.length === 0 && expiring.length === 0) {
+      continue;
+    }
+
+    const profile = await storage.getVendorProfileById(registration.vendorProfileId);
+    rows.push({
+      registrationId: registration.id,
+      status: registration.status,
+      eventId: event.id,
+      eventTitle: event.title,
+      eventStartDate: event.startDate,
+      vendorProfileId: registration.vendorProfileId,
+      businessName: profile?.businessName || "",
+      missing,
+      expiring,
+    });
+  }
+
+  return rows;
+}
+
+// Email each vendor once about every document that's about to expire
+export async function sendVendorDocumentReminders(): Promise<number> {
+  const expiringBefore = new Date(Date.now() + getVendorDocumentReminderDays() * 24 * 60 * 60 * 1000);
+  const documents = await storage.getVendorDocumentsDueForReminder(expiringBefore);
+  let sent = 0;
+
+  for (const document of documents) {
+    // Left unmarked when the email can't go out, so the next sweep tries again
+    if (await emailService.sendVendorDocumentReminderEmail(document.id, `${getAppUrl()}/profile`)) {
+      await storage.markVendorDocumentReminderSent(document.id);
+      sent++;
+    }
+  }
+
+  if (sent > 0) {
+    log(`Sent ${sent} vendor document expiry reminder(s)`, "vendors");
+  }
+  return sent;
+}
+
+// Run the reminder sweep on an interval (VENDOR_DOCUMENT_SWEEP_INTERVAL_HOURS, default 24)
+export function startVendorDocumentReminders(): NodeJS.Timeout {
+  const intervalHours = parseInt(process.env.VENDOR_DOCUMENT_SWEEP_INTERVAL_HOURS || "24");
+  const intervalMs = (Number.isFinite(intervalHours) && intervalHours > 0 ? intervalHours : 24) * 60 * 60 * 1000;
+
+  log(`Vendor document reminders running every ${intervalMs / 3600000}h, ${getVendorDocumentReminderDays()} days before expiry`, "vendors");
+
+  const sweep = () => {
+    sendVendorDocumentReminders().catch((error) => {
+      log(`Vendor document reminder sweep failed: ${error.message}`, "vendors");
+    });
+  };
+
+  // A restart shouldn't push reminders back a whole interval; documents already reminded about are skipped
+  sweep();
+  const timer = setInterval(sweep, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
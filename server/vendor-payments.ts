@@ -0,0 +1,102 @@
+import { randomBytes } from "crypto";
+import type { Event, Product, VendorRegistration } from "@shared/schema";
+import { storage } from "./storage";
+import { emailService } from "./email";
+import { calculateOrderFees } from "./fees";
+import { getAppUrl } from "./waitlist";
+import { log } from "./vite";
+
+// How long an approved vendor has to pay for a pay-on-approval spot (VENDOR_PAYMENT_DAYS, default 7)
+export function getVendorPaymentDays(): number {
+  const days = parseInt(process.env.VENDOR_PAYMENT_DAYS || "7");
+  return Number.isFinite(days) && days > 0 ? days : 7;
+}
+
+// Stripe checkout sessions last at least 30 minutes and one must not outlive the deadline,
+// so a vendor needs this long left to pay at all
+export const MIN_VENDOR_PAYMENT_WINDOW_MS = 31 * 60 * 1000;
+
+// Thrown when an approval would leave the vendor too little time to pay before the deadline
+export class VendorPaymentWindowError extends Error {
+  constructor(public dueAt: Date) {
+    super(`The payment deadline of ${dueAt.toISOString()} is too close to start a payment.`);
+    this.name = "VendorPaymentWindowError";
+  }
+}
+
+// The payment deadline for an approval made now. Vendors pay before the event starts, so a
+// late approval gets less time; once it has started they pay before it ends.
+export function getVendorPaymentDueAt(event: Event, from: Date = new Date()): Date {
+  const dueAt = new Date(from.getTime() + getVendorPaymentDays() * 24 * 60 * 60 * 1000);
+  const cutoff = event.startDate > from ? event.startDate : event.endDate;
+  return cutoff < dueAt ? cutoff : dueAt;
+}
+
+// The vendor spot product a registration was made for, recorded on it at registration
+export async function getRegistrationSpotProduct(registration: VendorRegistration): Promise<Product | undefined> {
+  const metadata = registration.metadata as { productId?: number } | null;
+  return metadata?.productId ? await storage.getProduct(metadata.productId) : undefined;
+}
+
+// Approve-then-pay: hold the vendor's spot on an order that expires at the payment deadline and
+// email them the link to pay. The order expiry sweeper lapses the approval if it goes unpaid.
+// Throws InsufficientStockError if every spot of this type has been taken since they applied, and
+// VendorPaymentWindowError if a paid spot's deadline is too close for them to pay.
+export async function requestVendorPayment(
+  registration: VendorRegistration,
+  event: Event,
+  product: Product
+): Promise<VendorRegistration> {
+  const profile = await storage.getVendorProfileById(registration.vendorProfileId);
+  if (!profile) {
+    throw new Error(`Vendor profile not found: ${registration.vendorProfileId}`);
+  }
+
+  const fees = calculateOrderFees(event, product.price);
+  const dueAt = getVendorPaymentDueAt(event);
+  if (fees.totalAmount > 0 && dueAt.getTime() < Date.now() + MIN_VENDOR_PAYMENT_WINDOW_MS) {
+    throw new VendorPaymentWindowError(dueAt);
+  }
+
+  const { order, registration: updated } = await storage.requestVendorPayment(
+    registration.id,
+    {
+      userId: profile.userId,
+      eventId: event.id,
+      status: "pending",
+      paymentStatus: "pending",
+      totalAmount: fees.totalAmount,
+      paymentMethod: fees.totalAmount > 0 ? "stripe" : "free",
+      discountAmount: 0,
+      platformFeeAmount: fees.platformFeeAmount,
+      processingFeeAmount: fees.processingFeeAmount,
+      buyerFeeAmount: fees.buyerFeeAmount,
+      // Paid out to the organizer through the same transfer as a cart checkout
+      checkoutGroup: `checkout_${randomBytes(8).toString("hex")}`,
+    },
+    {
+      itemId: product.id,
+      itemType: product.type,
+      name: product.name,
+      description: product.description,
+      quantity: 1,
+      unitPrice: product.price,
+      discountAmount: 0,
+      totalPrice: product.price,
+      // Fulfillment links the paid order back to this registration by its id
+      metadata: { ...(registration.metadata as Record<string, any> || {}), id: registration.id },
+    },
+    dueAt
+  );
+
+  // A free spot has nothing to pay, so it's confirmed right away
+  if (order.totalAmount <= 0) {
+    await storage.fulfillOrder(order.id);
+    log(`Vendor registration ${registration.id} approved for a free spot, order ${order.orderNumber} fulfilled`, "vendors");
+    return updated;
+  }
+
+  emailService.sendVendorPaymentRequestEmail(updated.id, `${getAppUrl()}/profile`);
+  log(`Vendor registration ${registration.id} approved, payment due by ${updated.paymentDueAt?.toISOString()}`, "vendors");
+  return updated;
+}
@@ -0,0 +1,24 @@
+import type { Venue } from "@shared/schema";
+import { storage } from "./storage";
+import { updateWalletPassesForEvent } from "./wallet";
+import { log } from "./vite";
+
+// An event at a venue takes its location from the venue, so the same place reads the same way
+// on every event held there
+export function formatVenueLocation(venue: Venue): string {
+  const region = [venue.state, venue.zipCode].filter(Boolean).join(" ");
+  return [venue.name, venue.address, venue.city, region].filter(Boolean).join(", ");
+}
+
+// After a venue is edited, carry its new location over to its events and have their saved
+// wallet passes refresh. Returns how many events changed.
+export async function syncVenueEvents(venue: Venue): Promise<number> {
+  const changedEvents = await storage.setVenueEventLocations(venue.id, formatVenueLocation(venue));
+  for (const event of changedEvents) {
+    updateWalletPassesForEvent(event);
+  }
+  if (changedEvents.length > 0) {
+    log(`Updated the location of ${changedEvents.length} event(s) at venue ${venue.id}`, "venues");
+  }
+  return changedEvents.length;
+}
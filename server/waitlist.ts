@@ -0,0 +1,104 @@
+import { storage, getItemCapacity } from "./storage";
+import type { WaitlistCapacity, WaitlistEntry } from "@shared/schema";
+import { emailService } from "./email";
+import { log } from "./vite";
+
+// How long a waitlist offer holds its units for the person offered them (WAITLIST_CLAIM_HOURS, default 24)
+export function getWaitlistClaimHours(): number {
+  const hours = parseInt(process.env.WAITLIST_CLAIM_HOURS || "24");
+  return Number.isFinite(hours) && hours > 0 ? hours : 24;
+}
+
+// Claim links are emailed from background sweeps too, so they can't rely on a request's host
+export function getAppUrl(): string {
+  if (process.env.DOMAIN) {
+    return process.env.DOMAIN;
+  }
+  if (process.env.REPLIT_DOMAINS) {
+    return `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`;
+  }
+  return `http://localhost:${process.env.PORT || 5000}`;
+}
+
+// Offer whatever a product, an event's tickets, a vendor spot or a volunteer shift has free to the
+// next people in its queue and email them their claim links. Never throws: freeing capacity must
+// not fail because the queue couldn't move.
+//
+// A queue moves when its capacity is given back: an order cancelled, expired or refunded, a
+// vendor registration or volunteer assignment rejected or cancelled, or the organizer raising
+// the product's quantity or the event's tickets.
+export async function offerFreedCapacity(capacity: WaitlistCapacity): Promise<number> {
+  try {
+    const expiresAt = new Date(Date.now() + getWaitlistClaimHours() * 60 * 60 * 1000);
+    const offered = await storage.offerWaitlistSpots(capacity, expiresAt);
+
+    for (const entry of offered) {
+      emailService.sendWaitlistOfferEmail(entry.id, `${getAppUrl()}/waitlist/claim/${entry.claimToken}`);
+    }
+
+    if (offered.length > 0) {
+      log(`Offered ${capacity.type} ${capacity.id} to ${offered.length} waitlisted user(s)`, "waitlist");
+    }
+    return offered.length;
+  } catch (error: any) {
+    log(`Failed to offer ${capacity.type} ${capacity.id} to its waitlist: ${error.message}`, "waitlist");
+    return 0;
+  }
+}
+
+// The user's open offer behind a claim link, if it's still theirs to claim for this capacity
+export async function findWaitlistClaim(claimToken: string, userId: number, capacity: WaitlistCapacity): Promise<WaitlistEntry | undefined> {
+  const entry = await storage.getWaitlistEntryByToken(claimToken);
+  if (!entry || entry.userId !== userId || entry.capacityType !== capacity.type || entry.capacityId !== capacity.id ||
+      entry.status !== "offered" || !entry.offerExpiresAt || entry.offerExpiresAt < new Date()) {
+    return undefined;
+  }
+  return entry;
+}
+
+// After an order gives stock back (cancelled, expired or refunded), move the queues of what it held
+export async function offerFreedCapacityForOrder(orderId: number): Promise<void> {
+  try {
+    const items = await storage.getOrderItems(orderId);
+    const capacities = new Map<string, WaitlistCapacity>();
+    for (const item of items) {
+      const capacity = getItemCapacity(item);
+      capacities.set(`${capacity.type}:${capacity.id}`, capacity);
+    }
+
+    for (const capacity of Array.from(capacities.values())) {
+      await offerFreedCapacity(capacity);
+    }
+  } catch (error: any) {
+    log(`Failed to offer stock from order ${orderId} to waitlists: ${error.message}`, "waitlist");
+  }
+}
+
+// Expire offers nobody claimed in time and pass their units to the next in line
+export async function expireWaitlistOffers(): Promise<number> {
+  const capacities = await storage.expireWaitlistOffers(new Date());
+
+  for (const capacity of capacities) {
+    await offerFreedCapacity(capacity);
+  }
+
+  return capacities.length;
+}
+
+// Run the offer expiry sweep on an interval (WAITLIST_SWEEP_INTERVAL_SECONDS, default 60)
+export function startWaitlistSweeper(): NodeJS.Timeout {
+  const intervalSeconds = parseInt(process.env.WAITLIST_SWEEP_INTERVAL_SECONDS || "60");
+  const intervalMs = (Number.isFinite(intervalSeconds) && intervalSeconds > 0 ? intervalSeconds : 60) * 1000;
+
+  log(`Waitlist sweeper running every ${intervalMs / 1000}s, offers last ${getWaitlistClaimHours()} hours`, "waitlist");
+
+  const timer = setInterval(() => {
+    expireWaitlistOffers().catch((error) => {
+      log(`Waitlist sweep failed: ${error.message}`, "waitlist");
+    });
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,397 @@
+import { createSign } from "crypto";
+import { readFileSync } from "fs";
+import http2 from "http2";
+import { PKPass } from "passkit-generator";
+import type { Event, Order, Ticket, User } from "@shared/schema";
+import { storage } from "./storage";
+import { createTicketCode, getWalletAuthToken } from "./ticket-codes";
+import { getAppUrl } from "./waitlist";
+import { log } from "./vite";
+
+// Apple Wallet (.pkpass) and Google Wallet passes for tickets. Both are optional and configured
+// through the environment; certificates and keys can be given as PEM text or as file paths.
+//
+// Apple: APPLE_PASS_TYPE_ID, APPLE_TEAM_ID, APPLE_WWDR_CERT, APPLE_PASS_CERT, APPLE_PASS_KEY,
+// optionally APPLE_PASS_KEY_PASSPHRASE, APPLE_PASS_ORGANIZATION_NAME and APPLE_PASS_ICON (a PNG path).
+// Google: GOOGLE_WALLET_ISSUER_ID, GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL, GOOGLE_WALLET_PRIVATE_KEY.
+
+const ORGANIZATION_NAME = process.env.APPLE_PASS_ORGANIZATION_NAME || "Event Tickets";
+const GOOGLE_WALLET_API = "https://walletobjects.googleapis.com/walletobjects/v1";
+
+// A plain dark square, used when APPLE_PASS_ICON isn't set (Apple requires an icon in every pass)
+const DEFAULT_ICON = "iVBORw0KGgoAAAANSUhEUgAAAB0AAAAdCAIAAADZ8fBYAAAAJklEQVR42mMQlFCnBWIYNXfU3FFzR80dNXfU3FFzR80dNXdQmQsAAzQG4JxSFhEAAAAASUVORK5CYII=";
+const DEFAULT_ICON_2X = "iVBORw0KGgoAAAANSUhEUgAAADoAAAA6CAIAAABu2d1/AAAARklEQVR42u3OQQkAAAgEsKvgzwb2b2iOg8ECLLNXJLq6urq6urq6urq6urq6urq6urq6urq6urq6urq6urq6urq6urq6PR4Boht9y/sl+wAAAABJRU5ErkJggg==";
+
+type ApplePassConfig = {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  wwdr: string;
+  signerCert: string;
+  signerKey: string;
+  signerKeyPassphrase?: string;
+};
+
+type GoogleWalletConfig = {
+  issuerId: string;
+  serviceAccountEmail: string;
+  privateKey: string;
+};
+
+// PEM text as-is (with escaped newlines restored), anything else is read as a file path
+function readPem(value: string): string {
+  if (value.includes("-----BEGIN")) {
+    return value.replace(/\\n/g, "\n");
+  }
+  return readFileSync(value, "utf8");
+}
+
+export function getApplePassConfig(): ApplePassConfig | null {
+  const { APPLE_PASS_TYPE_ID, APPLE_TEAM_ID, APPLE_WWDR_CERT, APPLE_PASS_CERT, APPLE_PASS_KEY } = process.env;
+  if (!APPLE_PASS_TYPE_ID || !APPLE_TEAM_ID || !APPLE_WWDR_CERT || !APPLE_PASS_CERT || !APPLE_PASS_KEY) {
+    return null;
+  }
+
+  return {
+    passTypeIdentifier: APPLE_PASS_TYPE_ID,
+    teamIdentifier: APPLE_TEAM_ID,
+    wwdr: readPem(APPLE_WWDR_CERT),
+    signerCert: readPem(APPLE_PASS_CERT),
+    signerKey: readPem(APPLE_PASS_KEY),
+    signerKeyPassphrase: process.env.APPLE_PASS_KEY_PASSPHRASE || undefined,
+  };
+}
+
+export function getGoogleWalletConfig(): GoogleWalletConfig | null {
+  const { GOOGLE_WALLET_ISSUER_ID, GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL, GOOGLE_WALLET_PRIVATE_KEY } = process.env;
+  if (!GOOGLE_WALLET_ISSUER_ID || !GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL || !GOOGLE_WALLET_PRIVATE_KEY) {
+    return null;
+  }
+
+  return {
+    issuerId: GOOGLE_WALLET_ISSUER_ID,
+    serviceAccountEmail: GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL,
+    privateKey: readPem(GOOGLE_WALLET_PRIVATE_KEY),
+  };
+}
+
+// Pass serial numbers are "ticket-<id>", so a pass keeps its serial through transfers
+export function getPassSerialNumber(ticket: Pick<Ticket, "id">): string {
+  return `ticket-${ticket.id}`;
+}
+
+export function parsePassSerialNumber(serialNumber: string): number | null {
+  const match = /^ticket-(\d+)$/.exec(serialNumber);
+  return match ? parseInt(match[1]) : null;
+}
+
+function getHolderName(ticket: Ticket, holder?: User): string {
+  return ticket.attendeeName || holder?.name || holder?.username || "";
+}
+
+// === APPLE WALLET ===
+
+// The pass.json of an event ticket pass. Devices that saved it are told to fetch a fresh copy
+// from webServiceURL whenever the ticket or its event changes.
+export function buildApplePassJson(config: ApplePassConfig, event: Event, ticket: Ticket, holder?: User, order?: Order) {
+  const code = createTicketCode(ticket);
+
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: config.passTypeIdentifier,
+    teamIdentifier: config.teamIdentifier,
+    serialNumber: getPassSerialNumber(ticket),
+    authenticationToken: getWalletAuthToken(ticket),
+    webServiceURL: `${getAppUrl()}/api/wallet`,
+    organizationName: ORGANIZATION_NAME,
+    description: `Ticket for ${event.title}`,
+    logoText: ORGANIZATION_NAME,
+    foregroundColor: "rgb(255, 255, 255)",
+    backgroundColor: "rgb(17, 24, 39)",
+    labelColor: "rgb(156, 163, 175)",
+    relevantDate: new Date(event.startDate).toISOString(),
+    expirationDate: new Date(event.endDate).toISOString(),
+    voided: ticket.status === "cancelled" || ticket.status === "refunded",
+    barcodes: [{ format: "PKBarcodeFormatQR", message: code, messageEncoding: "iso-8859-1", altText: ticket.ticketNumber }],
+    eventTicket: {
+      primaryFields: [{ key: "event", label: "EVENT", value: event.title }],
+      secondaryFields: [
+        {
+          key: "date",
+          label: "DATE",
+          value: new Date(event.startDate).toISOString(),
+          dateStyle: "PKDateStyleMedium",
+          timeStyle: "PKDateStyleShort",
+          changeMessage: "The event now starts %@",
+        },
+        { key: "location", label: "LOCATION", value: event.location, changeMessage: "The event has moved to %@" },
+      ],
+      auxiliaryFields: [
+        { key: "type", label: "TICKET", value: ticket.ticketType },
+        { key: "holder", label: "ATTENDEE", value: getHolderName(ticket, holder) },
+      ],
+      backFields: [
+        { key: "ticketNumber", label: "Ticket number", value: ticket.ticketNumber },
+        ...(order ? [{ key: "order", label: "Order", value: order.orderNumber }] : []),
+        {
+          key: "ends",
+          label: "Ends",
+          value: new Date(event.endDate).toISOString(),
+          dateStyle: "PKDateStyleMedium",
+          timeStyle: "PKDateStyleShort",
+        },
+      ],
+    },
+  };
+}
+
+function getIconBuffers(): Record<string, Buffer> {
+  if (process.env.APPLE_PASS_ICON) {
+    const icon = readFileSync(process.env.APPLE_PASS_ICON);
+    return { "icon.png": icon, "icon@2x.png": icon };
+  }
+  return {
+    "icon.png": Buffer.from(DEFAULT_ICON, "base64"),
+    "icon@2x.png": Buffer.from(DEFAULT_ICON_2X, "base64"),
+  };
+}
+
+// A signed .pkpass bundle for the ticket, or null when Apple Wallet isn't configured
+export async function renderApplePass(ticket: Ticket): Promise<Buffer | null> {
+  const config = getApplePassConfig();
+  if (!config) {
+    return null;
+  }
+
+  const event = await storage.getEvent(ticket.eventId);
+  if (!event) {
+    throw new Error(`Event not found: ${ticket.eventId}`);
+  }
+  const [holder, order] = await Promise.all([storage.getUser(ticket.userId), storage.getOrder(ticket.orderId)]);
+
+  const pass = new PKPass(
+    {
+      "pass.json": Buffer.from(JSON.stringify(buildApplePassJson(config, event, ticket, holder, order))),
+      ...getIconBuffers(),
+    },
+    {
+      wwdr: config.wwdr,
+      signerCert: config.signerCert,
+      signerKey: config.signerKey,
+      signerKeyPassphrase: config.signerKeyPassphrase,
+    }
+  );
+
+  return pass.getAsBuffer();
+}
+
+// Tell devices holding these passes to fetch them again. APNs only needs an empty payload;
+// the device then calls the web service for the passes that changed.
+async function pushApplePassUpdates(config: ApplePassConfig, pushTokens: string[]): Promise<number> {
+  if (pushTokens.length === 0) {
+    return 0;
+  }
+
+  const session = http2.connect("https://api.push.apple.com", {
+    cert: config.signerCert,
+    key: config.signerKey,
+    passphrase: config.signerKeyPassphrase,
+  });
+  session.on("error", (error) => log(`APNs connection error: ${error.message}`, "wallet"));
+
+  let delivered = 0;
+  try {
+    for (const pushToken of pushTokens) {
+      const status = await new Promise<number>((resolve) => {
+        const request = session.request({
+          ":method": "POST",
+          ":path": `/3/device/${pushToken}`,
+          "apns-topic": config.passTypeIdentifier,
+          "content-type": "application/json",
+        });
+        request.setTimeout(10000, () => request.close());
+        request.on("response", (headers) => resolve(Number(headers[":status"])));
+        request.on("error", () => resolve(0));
+        request.on("close", () => resolve(0));
+        request.end("{}");
+      });
+
+      if (status === 200) {
+        delivered++;
+      } else {
+        log(`APNs rejected pass update for token ${pushToken.slice(0, 8)}…: ${status || "no response"}`, "wallet");
+      }
+    }
+  } finally {
+    session.close();
+  }
+
+  return delivered;
+}
+
+// === GOOGLE WALLET ===
+
+function getGoogleClassId(config: GoogleWalletConfig, event: Pick<Event, "id">): string {
+  return `${config.issuerId}.event-${event.id}`;
+}
+
+function localized(value: string) {
+  return { defaultValue: { language: "en-US", value } };
+}
+
+// One class per event holds what every ticket shares: title, venue and dates
+export function buildGoogleEventClass(config: GoogleWalletConfig, event: Event) {
+  return {
+    id: getGoogleClassId(config, event),
+    issuerName: ORGANIZATION_NAME,
+    reviewStatus: "UNDER_REVIEW",
+    eventName: localized(event.title),
+    venue: { name: localized(event.location), address: localized(event.location) },
+    dateTime: {
+      start: new Date(event.startDate).toISOString(),
+      end: new Date(event.endDate).toISOString(),
+    },
+  };
+}
+
+export function buildGoogleTicketObject(config: GoogleWalletConfig, event: Event, ticket: Ticket, holder?: User) {
+  return {
+    id: `${config.issuerId}.${getPassSerialNumber(ticket)}`,
+    classId: getGoogleClassId(config, event),
+    state: ticket.status === "cancelled" || ticket.status === "refunded" ? "INACTIVE" : "ACTIVE",
+    ticketHolderName: getHolderName(ticket, holder),
+    ticketNumber: ticket.ticketNumber,
+    ticketType: localized(ticket.ticketType),
+    barcode: { type: "QR_CODE", value: createTicketCode(ticket), alternateText: ticket.ticketNumber },
+  };
+}
+
+// A compact RS256 JWT signed with the service account key
+function signGoogleJwt(config: GoogleWalletConfig, claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const body = `${encode({ alg: "RS256", typ: "JWT" })}.${encode(claims)}`;
+  const signature = createSign("RSA-SHA256").update(body).sign(config.privateKey, "base64url");
+  return `${body}.${signature}`;
+}
+
+// The "Add to Google Wallet" link for a ticket. The JWT carries the class and object, so
+// Google creates them on first save; later changes go through the REST API below.
+export async function getGoogleWalletPass(ticket: Ticket): Promise<{ saveUrl: string; object: ReturnType<typeof buildGoogleTicketObject> } | null> {
+  const config = getGoogleWalletConfig();
+  if (!config) {
+    return null;
+  }
+
+  const event = await storage.getEvent(ticket.eventId);
+  if (!event) {
+    throw new Error(`Event not found: ${ticket.eventId}`);
+  }
+  const holder = await storage.getUser(ticket.userId);
+  const object = buildGoogleTicketObject(config, event, ticket, holder);
+
+  const token = signGoogleJwt(config, {
+    iss: config.serviceAccountEmail,
+    aud: "google",
+    typ: "savetowallet",
+    iat: Math.floor(Date.now() / 1000),
+    origins: [getAppUrl()],
+    payload: {
+      eventTicketClasses: [buildGoogleEventClass(config, event)],
+      eventTicketObjects: [object],
+    },
+  });
+
+  return { saveUrl: `https://pay.google.com/gp/v/save/${token}`, object };
+}
+
+async function getGoogleAccessToken(config: GoogleWalletConfig): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = signGoogleJwt(config, {
+    iss: config.serviceAccountEmail,
+    scope: "https://www.googleapis.com/auth/wallet_object.issuer",
+    aud: "https://oauth2.googleapis.com/token",
+    iat: now,
+    exp: now + 3600,
+  });
+
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer", assertion }),
+  });
+  if (!response.ok) {
+    throw new Error(`Google token request failed: ${response.status}`);
+  }
+
+  const data = await response.json() as { access_token: string };
+  return data.access_token;
+}
+
+// Push the event's new details to its Google Wallet class. A 404 means nobody has saved a
+// ticket for this event yet, which is fine: the next save link carries the new details.
+async function updateGoogleEventClass(config: GoogleWalletConfig, event: Event): Promise<boolean> {
+  const classId = getGoogleClassId(config, event);
+  const accessToken = await getGoogleAccessToken(config);
+  const { id, issuerName, reviewStatus, ...changes } = buildGoogleEventClass(config, event);
+
+  const response = await fetch(`${GOOGLE_WALLET_API}/eventTicketClass/${encodeURIComponent(classId)}`, {
+    method: "PATCH",
+    headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  if (response.status === 404) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Google Wallet class update failed: ${response.status}`);
+  }
+  return true;
+}
+
+// === UPDATES ===
+
+// Whether an event edit changes anything a saved pass shows up front
+export function isEventRescheduled(before: Event, after: Event): boolean {
+  return new Date(before.startDate).getTime() !== new Date(after.startDate).getTime()
+    || new Date(before.endDate).getTime() !== new Date(after.endDate).getTime()
+    || before.location !== after.location
+    || before.title !== after.title;
+}
+
+// Refresh every saved pass for an event after it changes. Never throws: the event update has
+// already been saved, and passes left stale will still pick it up on their next refresh.
+export async function updateWalletPassesForEvent(event: Event): Promise<void> {
+  const appleConfig = (() => {
+    try {
+      return getApplePassConfig();
+    } catch (error: any) {
+      log(`Apple Wallet certificates could not be read: ${error.message}`, "wallet");
+      return null;
+    }
+  })();
+
+  if (appleConfig) {
+    try {
+      const registrations = await storage.getWalletPassRegistrationsByEvent(event.id);
+      const pushTokens = Array.from(new Set(
+        registrations
+          .filter(registration => registration.passTypeIdentifier === appleConfig.passTypeIdentifier)
+          .map(registration => registration.pushToken)
+      ));
+      const delivered = await pushApplePassUpdates(appleConfig, pushTokens);
+      if (pushTokens.length > 0) {
+        log(`Pushed pass updates for event ${event.id} to ${delivered}/${pushTokens.length} device(s)`, "wallet");
+      }
+    } catch (error: any) {
+      log(`Failed to push Apple Wallet updates for event ${event.id}: ${error.message}`, "wallet");
+    }
+  }
+
+  try {
+    const googleConfig = getGoogleWalletConfig();
+    if (googleConfig && await updateGoogleEventClass(googleConfig, event)) {
+      log(`Updated Google Wallet class for event ${event.id}`, "wallet");
+    }
+  } catch (error: any) {
+    log(`Failed to update Google Wallet class for event ${event.id}: ${error.message}`, "wallet");
+  }
+}
@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, json, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, json, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./time-zones";
 
 // User model
 export const users = pgTable("users", {
@@ -75,9 +76,11 @@ export const events = pgTable("events", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  location: text("location").notNull(),
+  location: text("location").notNull(), // Filled in from the venue when one is set
+  venueId: integer("venue_id"),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
+  timeZone: text("time_zone").default(DEFAULT_TIME_ZONE).notNull(), // IANA zone the event's calendar days are counted in
   imageUrl: text("image_url"),
   eventType: text("event_type").notNull(), // concert, festival, conference, etc.
   ownerId: integer("owner_id").notNull(),
@@ -87,25 +90,160 @@ export const events = pgTable("events", {
   capacity: integer("capacity"),
   ticketsAvailable: integer("tickets_available"),
   price: doublePrecision("price").default(0).notNull(),
+  platformFeePercent: doublePrecision("platform_fee_percent"), // Overrides PLATFORM_FEE_PERCENT when set
+  platformFeeFixed: doublePrecision("platform_fee_fixed"), // Per-order amount, overrides PLATFORM_FEE_FIXED when set
+  passProcessingFees: boolean("pass_processing_fees").default(false).notNull(), // Buyers pay card processing fees instead of the organizer
+  boothMapUrl: text("booth_map_url"), // Site plan image the vendor booths are drawn on
+  requiredVendorDocuments: jsonb("required_vendor_documents"), // VendorDocumentType[] a vendor needs on file before approval
+  seriesId: integer("series_id"), // Set when the event is one occurrence of a recurring series
+  occurrenceDate: text("occurrence_date"), // YYYY-MM-DD the series rule generated this occurrence for
   metadata: jsonb("metadata"), // Additional configurable fields
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("events_series_occurrence_unique").on(table.seriesId, table.occurrenceDate),
+]);
 
 export const eventRelations = relations(events, ({ one, many }) => ({
   owner: one(users, {
     fields: [events.ownerId],
     references: [users.id],
   }),
+  venue: one(venues, {
+    fields: [events.venueId],
+    references: [venues.id],
+  }),
+  series: one(eventSeries, {
+    fields: [events.seriesId],
+    references: [eventSeries.id],
+  }),
+  sessions: many(eventSessions),
+  applicationForms: many(applicationForms),
   tickets: many(tickets),
   vendorSpots: many(vendorSpots),
   volunteerShifts: many(volunteerShifts),
   products: many(products),
+  promoCodes: many(promoCodes),
   orders: many(orders),
   adminNotes: many(adminNotes),
 }));
 
-export const insertEventSchema = createInsertSchema(events).omit({
+// Paperwork vendors keep on their profile. Events pick which types a vendor must have.
+export const VENDOR_DOCUMENT_TYPES = ["insurance_certificate", "health_permit", "tax_form", "business_license"] as const;
+
+export const VENDOR_DOCUMENT_TYPE_LABELS: Record<typeof VENDOR_DOCUMENT_TYPES[number], string> = {
+  insurance_certificate: "Insurance certificate",
+  health_permit: "Health permit",
+  tax_form: "Tax form",
+  business_license: "Business license",
+};
+
+export const insertEventSchema = createInsertSchema(events, {
+  requiredVendorDocuments: z.array(z.enum(VENDOR_DOCUMENT_TYPES)).nullable().optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A place events are held, shared by every organizer who holds events there
+export const venues = pgTable("venues", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull(), // Who added the venue; they and admins can edit it
+  name: text("name").notNull(),
+  address: text("address").notNull(),
+  city: text("city"),
+  state: text("state"),
+  zipCode: text("zip_code"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  capacity: integer("capacity"),
+  accessibilityNotes: text("accessibility_notes"),
+  parkingInfo: text("parking_info"),
+  siteMaps: jsonb("site_maps").default([]).notNull(), // { name, url }[] of uploaded map images
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const venueRelations = relations(venues, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [venues.ownerId],
+    references: [users.id],
+  }),
+  events: many(events),
+}));
+
+export const venueSiteMapSchema = z.object({
+  name: z.string().min(1, "Map name is required"),
+  // Uploaded first, so only a path on this site or an http(s) link to object storage, never
+  // e.g. a javascript: URL rendered as a link on the public venue page
+  url: z.string().refine(
+    value => (value.startsWith("/") && !value.startsWith("//")) || /^https?:\/\//i.test(value),
+    "Map must be an uploaded file"
+  ),
+});
+
+export const insertVenueSchema = createInsertSchema(venues, {
+  name: (schema) => schema.min(2, "Name is required"),
+  address: (schema) => schema.min(3, "Address is required"),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  capacity: z.number().int().positive().nullable().optional(),
+  siteMaps: z.array(venueSiteMapSchema).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A recurring event, such as a weekly class or a market on the first Saturday of each month.
+// The rule generates one event per occurrence, each with its own capacity, products and tickets,
+// copied from the template event when the occurrence is created.
+export const eventSeries = pgTable("event_series", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull(),
+  templateEventId: integer("template_event_id").notNull(), // New occurrences copy this event; "all future" edits move it forward
+  frequency: text("frequency").notNull(), // "weekly", "monthly"
+  interval: integer("interval").default(1).notNull(), // Every n weeks or months
+  weekdays: jsonb("weekdays"), // Weekly: days of the week, 0 (Sunday) to 6
+  monthWeek: integer("month_week"), // Monthly: 1 to 4 for the nth weekday of the month, -1 for the last
+  monthWeekday: integer("month_weekday"), // Monthly: day of the week, 0 (Sunday) to 6
+  startsOn: text("starts_on").notNull(), // YYYY-MM-DD of the first occurrence
+  until: text("until"), // YYYY-MM-DD of the last possible occurrence, null for no end date
+  count: integer("count"), // Stop after this many occurrences, null for no limit
+  exceptions: jsonb("exceptions").default([]).notNull(), // YYYY-MM-DD dates the rule skips
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const eventSeriesRelations = relations(eventSeries, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [eventSeries.ownerId],
+    references: [users.id],
+  }),
+  templateEvent: one(events, {
+    fields: [eventSeries.templateEventId],
+    references: [events.id],
+  }),
+  occurrences: many(events),
+}));
+
+export const SERIES_FREQUENCIES = ["weekly", "monthly"] as const;
+
+const seriesDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates");
+
+export const insertEventSeriesSchema = createInsertSchema(eventSeries, {
+  frequency: z.enum(SERIES_FREQUENCIES),
+  interval: z.coerce.number().int().min(1).max(12),
+  weekdays: z.array(z.coerce.number().int().min(0).max(6)).nullable().optional(),
+  monthWeek: z.coerce.number().int().min(-1).max(4).refine(value => value !== 0, "Use 1 to 4, or -1 for the last").nullable().optional(),
+  monthWeekday: z.coerce.number().int().min(0).max(6).nullable().optional(),
+  startsOn: seriesDateSchema,
+  until: seriesDateSchema.nullable().optional(),
+  count: z.coerce.number().int().min(1).max(500).nullable().optional(),
+  exceptions: z.array(seriesDateSchema).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -122,6 +260,16 @@ export const products = pgTable("products", {
   imageUrl: text("image_url"),
   quantity: integer("quantity").default(0), // Available quantity, null for unlimited
   isActive: boolean("is_active").default(true).notNull(),
+  // Ticket tiers: tickets are products of type "ticket", one per tier
+  ticketType: text("ticket_type"), // "early-bird", "general", "vip", "student", etc.; copied onto issued tickets
+  salesStartAt: timestamp("sales_start_at"), // On sale from, null for immediately
+  salesEndAt: timestamp("sales_end_at"), // On sale until, null for no end
+  priceSteps: jsonb("price_steps"), // [{ afterSold, price }]: price rises once afterSold units have sold
+  soldCount: integer("sold_count").default(0).notNull(), // Units held or sold, for price steps
+  entryRule: text("entry_rule").default("single").notNull(), // "single", "reentry", "daily"; copied onto issued tickets
+  // Vendor spots: "upfront" charges at checkout and refunds a rejected vendor, "on_approval"
+  // takes applications for free and sends a payment link once the vendor is approved
+  paymentMode: text("payment_mode").default("upfront").notNull(),
   metadata: jsonb("metadata"), // Additional configurable fields
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -135,12 +283,172 @@ export const productRelations = relations(products, ({ one, many }) => ({
   orderItems: many(orderItems),
 }));
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const priceStepSchema = z.object({
+  afterSold: z.coerce.number().int().positive(),
+  price: z.coerce.number().min(0),
+});
+
+export const VENDOR_PAYMENT_MODES = ["upfront", "on_approval"] as const;
+
+export const insertProductSchema = createInsertSchema(products, {
+  salesStartAt: z.coerce.date().nullable().optional(),
+  salesEndAt: z.coerce.date().nullable().optional(),
+  priceSteps: z.array(priceStepSchema).nullable().optional(),
+  paymentMode: z.enum(VENDOR_PAYMENT_MODES).optional(),
+}).omit({
+  id: true,
+  soldCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Promo codes (discounts applied to an event's products at checkout)
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  code: text("code").notNull(), // Stored upper-case, matched case-insensitively
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // "percentage", "fixed"
+  discountValue: doublePrecision("discount_value").notNull(), // Percent off, or dollars off the order
+  productIds: jsonb("product_ids"), // Restrict to these product ids, null for all products
+  productTypes: jsonb("product_types"), // Restrict to these product types (e.g. ["ticket"]), null for all
+  maxUses: integer("max_uses"), // Total redemptions allowed, null for unlimited
+  usesCount: integer("uses_count").default(0).notNull(),
+  perUserLimit: integer("per_user_limit"), // Redemptions allowed per user, null for unlimited
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("promo_codes_event_code_unique").on(table.eventId, table.code),
+]);
+
+export const promoCodeRelations = relations(promoCodes, ({ one, many }) => ({
+  event: one(events, {
+    fields: [promoCodes.eventId],
+    references: [events.id],
+  }),
+  orders: many(orders),
+}));
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
+  code: (schema) => schema.min(2).max(40).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes or underscores"),
+  discountType: z.enum(["percentage", "fixed"]),
+  discountValue: (schema) => schema.positive(),
+  productIds: z.array(z.number().int()).nullable().optional(),
+  productTypes: z.array(z.string()).nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+}).omit({
   id: true,
+  usesCount: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Questions each ticket holder answers at checkout, for a whole event or one ticket tier
+export const attendeeQuestions = pgTable("attendee_questions", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  productId: integer("product_id"), // Ask only for this ticket tier, null for every ticket
+  label: text("label").notNull(),
+  fieldType: text("field_type").notNull(), // "name", "email", "text", "textarea", "select"
+  options: jsonb("options"), // Choices for "select" questions
+  isRequired: boolean("is_required").default(true).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const attendeeQuestionRelations = relations(attendeeQuestions, ({ one }) => ({
+  event: one(events, {
+    fields: [attendeeQuestions.eventId],
+    references: [events.id],
+  }),
+  product: one(products, {
+    fields: [attendeeQuestions.productId],
+    references: [products.id],
+  }),
+}));
+
+export const ATTENDEE_FIELD_TYPES = ["name", "email", "text", "textarea", "select"] as const;
+
+export const insertAttendeeQuestionSchema = createInsertSchema(attendeeQuestions, {
+  label: (schema) => schema.min(1, "Question is required"),
+  fieldType: z.enum(ATTENDEE_FIELD_TYPES),
+  options: z.array(z.string().min(1)).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// One slot on an event's agenda: a talk, set or workshop on a stage or in a room. Sessions are
+// open to every ticket holder unless they have their own capacity or require a ticket tier.
+export const eventSessions = pgTable("event_sessions", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  stage: text("stage").notNull(), // Stage or room
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  speakers: jsonb("speakers").default([]).notNull(), // Performer and speaker names
+  capacity: integer("capacity"), // Seats, taken by adding the session to an agenda; null for no limit
+  requiredProductId: integer("required_product_id"), // Only holders of this ticket tier can attend, null for any ticket
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const eventSessionRelations = relations(eventSessions, ({ one, many }) => ({
+  event: one(events, {
+    fields: [eventSessions.eventId],
+    references: [events.id],
+  }),
+  requiredProduct: one(products, {
+    fields: [eventSessions.requiredProductId],
+    references: [products.id],
+  }),
+  agendaEntries: many(agendaEntries),
+}));
+
+export const insertEventSessionSchema = createInsertSchema(eventSessions, {
+  title: (schema) => schema.min(1, "Title is required"),
+  stage: (schema) => schema.min(1, "Stage or room is required"),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  speakers: z.array(z.string().min(1)).optional(),
+  capacity: z.coerce.number().int().positive().nullable().optional(),
+  requiredProductId: z.coerce.number().int().positive().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A session an attendee added to their personal agenda. For sessions with a capacity, the
+// entry is their seat.
+export const agendaEntries = pgTable("agenda_entries", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  userId: integer("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("agenda_entries_session_user_unique").on(table.sessionId, table.userId),
+]);
+
+export const agendaEntryRelations = relations(agendaEntries, ({ one }) => ({
+  session: one(eventSessions, {
+    fields: [agendaEntries.sessionId],
+    references: [eventSessions.id],
+  }),
+  user: one(users, {
+    fields: [agendaEntries.userId],
+    references: [users.id],
+  }),
+}));
+
 // Vendor Spots model
 export const vendorSpots = pgTable("vendor_spots", {
   id: serial("id").primaryKey(),
@@ -170,6 +478,47 @@ export const insertVendorSpotSchema = createInsertSchema(vendorSpots).omit({
   updatedAt: true,
 });
 
+// A numbered booth drawn on the event's site plan, for one vendor spot type. Points are
+// [x, y] fractions of the image's width and height, so the outline stays in place at any size.
+export const vendorBooths = pgTable("vendor_booths", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  boothNumber: text("booth_number").notNull(),
+  productId: integer("product_id"), // The vendor_spot product (spot type) the booth is for, null for any
+  points: jsonb("points").notNull(),
+  vendorRegistrationId: integer("vendor_registration_id").unique(), // The approved vendor assigned to the booth
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("vendor_booths_event_number_unique").on(table.eventId, table.boothNumber),
+]);
+
+export const vendorBoothRelations = relations(vendorBooths, ({ one }) => ({
+  event: one(events, {
+    fields: [vendorBooths.eventId],
+    references: [events.id],
+  }),
+  product: one(products, {
+    fields: [vendorBooths.productId],
+    references: [products.id],
+  }),
+  vendorRegistration: one(vendorRegistrations, {
+    fields: [vendorBooths.vendorRegistrationId],
+    references: [vendorRegistrations.id],
+  }),
+}));
+
+export const insertVendorBoothSchema = createInsertSchema(vendorBooths, {
+  boothNumber: (schema) => schema.trim().min(1, "Booth number is required"),
+  productId: z.number().int().positive().nullable().optional(),
+  points: z.array(z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)])).min(3, "A booth needs at least three corners"),
+}).omit({
+  id: true,
+  vendorRegistrationId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Vendor Profiles
 export const vendorProfiles = pgTable("vendor_profiles", {
   id: serial("id").primaryKey(),
@@ -196,6 +545,7 @@ export const vendorProfileRelations = relations(vendorProfiles, ({ one, many })
     references: [users.id],
   }),
   registrations: many(vendorRegistrations),
+  documents: many(vendorDocuments),
 }));
 
 export const insertVendorProfileSchema = createInsertSchema(vendorProfiles).omit({
@@ -204,6 +554,38 @@ export const insertVendorProfileSchema = createInsertSchema(vendorProfiles).omit
   updatedAt: true,
 });
 
+// A compliance document a vendor has uploaded, such as a certificate of insurance
+export const vendorDocuments = pgTable("vendor_documents", {
+  id: serial("id").primaryKey(),
+  vendorProfileId: integer("vendor_profile_id").notNull(),
+  documentType: text("document_type").notNull(), // One of VENDOR_DOCUMENT_TYPES
+  fileUrl: text("file_url").notNull(),
+  fileName: text("file_name").notNull(),
+  issuer: text("issuer").notNull(), // Insurer, health department, etc.
+  expiresAt: timestamp("expires_at"), // Null for documents that don't expire
+  reminderSentAt: timestamp("reminder_sent_at"), // When the vendor was warned it's about to expire
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const vendorDocumentRelations = relations(vendorDocuments, ({ one }) => ({
+  vendorProfile: one(vendorProfiles, {
+    fields: [vendorDocuments.vendorProfileId],
+    references: [vendorProfiles.id],
+  }),
+}));
+
+export const insertVendorDocumentSchema = createInsertSchema(vendorDocuments, {
+  documentType: z.enum(VENDOR_DOCUMENT_TYPES),
+  issuer: (schema) => schema.min(1, "Issuer is required"),
+  expiresAt: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  reminderSentAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Vendor Registrations
 export const vendorRegistrations = pgTable("vendor_registrations", {
   id: serial("id").primaryKey(),
@@ -211,12 +593,14 @@ export const vendorRegistrations = pgTable("vendor_registrations", {
   vendorSpotId: integer("vendor_spot_id").notNull(),
   eventId: integer("event_id").notNull(),
   orderId: integer("order_id"), // Linked to payment
-  status: text("status").default("pending").notNull(), // "pending", "approved", "rejected", "cancelled"
+  status: text("status").default("pending").notNull(), // "pending", "approved", "rejected", "cancelled", "lapsed"
+  paymentDueAt: timestamp("payment_due_at"), // Pay-on-approval spots: approval lapses if unpaid by then
   productsDescription: text("products_description"),
   specialRequests: text("special_requests"),
   notes: text("notes"),
   reviewedBy: integer("reviewed_by"), // Admin user ID
   reviewDate: timestamp("review_date"),
+  formAnswers: jsonb("form_answers"), // Answers to the event's vendor application form, keyed by field id
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -325,6 +709,7 @@ export const volunteerAssignments = pgTable("volunteer_assignments", {
   notes: text("notes"),
   reviewedBy: integer("reviewed_by"), // Admin user ID
   reviewDate: timestamp("review_date"),
+  formAnswers: jsonb("form_answers"), // Answers to the event's volunteer application form, keyed by field id
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -358,19 +743,96 @@ export const insertVolunteerAssignmentSchema = createInsertSchema(volunteerAssig
   updatedAt: true,
 });
 
+// The questions an event asks vendors or volunteers when they apply, on top of their profile.
+// Each event has at most one form of each type.
+export const applicationForms = pgTable("application_forms", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  formType: text("form_type").notNull(), // "vendor" or "volunteer"
+  fields: jsonb("fields").notNull(), // ApplicationFormField[], in the order they're asked
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("application_forms_event_type_unique").on(table.eventId, table.formType),
+]);
+
+export const applicationFormRelations = relations(applicationForms, ({ one }) => ({
+  event: one(events, {
+    fields: [applicationForms.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const APPLICATION_FORM_TYPES = ["vendor", "volunteer"] as const;
+export const APPLICATION_FIELD_TYPES = ["text", "textarea", "choice", "checkbox", "date", "file"] as const;
+
+// A field shown only when an earlier field has a given answer. Checkbox answers compare as
+// "true" or "false".
+export const applicationFieldConditionSchema = z.object({
+  fieldId: z.string().min(1),
+  equals: z.string(),
+});
+
+export const applicationFormFieldSchema = z.object({
+  id: z.string().min(1).max(40).regex(/^[a-z0-9_-]+$/i, "Field ids may only use letters, numbers, - and _"),
+  label: z.string().min(1, "Label is required"),
+  type: z.enum(APPLICATION_FIELD_TYPES),
+  helpText: z.string().nullable().optional(),
+  options: z.array(z.string().min(1)).nullable().optional(), // Choices for "choice" fields
+  required: z.boolean().default(false),
+  showIf: applicationFieldConditionSchema.nullable().optional(),
+});
+
+export const applicationFormFieldsSchema = z.array(applicationFormFieldSchema).superRefine((fields, ctx) => {
+  fields.forEach((field, index) => {
+    if (fields.findIndex(other => other.id === field.id) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Field id "${field.id}" is used twice`, path: [index, "id"] });
+    }
+    if (field.type === "choice" && !field.options?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${field.label}" needs at least one option`, path: [index, "options"] });
+    }
+    // Conditions look back only, so a form can always be filled in from top to bottom
+    if (field.showIf && !fields.slice(0, index).some(other => other.id === field.showIf!.fieldId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${field.label}" depends on a field that doesn't come before it`, path: [index, "showIf"] });
+    }
+  });
+});
+
+export const insertApplicationFormSchema = createInsertSchema(applicationForms, {
+  formType: z.enum(APPLICATION_FORM_TYPES),
+  fields: applicationFormFieldsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Orders (master table for all purchases)
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   eventId: integer("event_id").notNull(),
   orderNumber: text("order_number").notNull().unique(),
-  status: text("status").default("pending").notNull(), // "pending", "completed", "cancelled", "refunded"
+  status: text("status").default("pending").notNull(), // "pending", "completed", "cancelled", "expired", "refunded"
   totalAmount: doublePrecision("total_amount").notNull(),
-  paymentMethod: text("payment_method").notNull(), // "stripe", "cash", "free", etc.
-  paymentStatus: text("payment_status").default("pending").notNull(), // "pending", "paid", "failed", "refunded"
+  paymentMethod: text("payment_method").notNull(), // "stripe", "cash", "comp", "card_on_file", "free", etc.
+  paymentStatus: text("payment_status").default("pending").notNull(), // "pending", "paid", "failed", "cancelled", "expired", "partially_refunded", "refunded"
   stripePaymentId: text("stripe_payment_id"),
   stripeSessionId: text("stripe_session_id"),
+  stripeTransferId: text("stripe_transfer_id"), // Transfer of this order's share to the organizer
+  checkoutGroup: text("checkout_group"), // Shared by all orders created from one cart checkout
   emailSent: boolean("email_sent").default(false),
+  fulfilledAt: timestamp("fulfilled_at"), // Set once tickets/registrations have been issued for the order
+  stockReservedAt: timestamp("stock_reserved_at"), // Set while the order holds product stock taken at checkout
+  expiresAt: timestamp("expires_at"), // Pending orders past this time are expired and their hold released
+  refundedAmount: doublePrecision("refunded_amount").default(0).notNull(), // Running total of refunds issued
+  promoCodeId: integer("promo_code_id"),
+  discountAmount: doublePrecision("discount_amount").default(0).notNull(), // Already taken off totalAmount
+  platformFeeAmount: doublePrecision("platform_fee_amount").default(0).notNull(), // Kept by the platform
+  processingFeeAmount: doublePrecision("processing_fee_amount").default(0).notNull(), // Estimated card processing fee
+  buyerFeeAmount: doublePrecision("buyer_fee_amount").default(0).notNull(), // Fees added to totalAmount for the buyer to pay
+  cashDrawerSessionId: integer("cash_drawer_session_id"), // Set for door sales rung up at the point of sale
+  buyerEmail: text("buyer_email"), // Walk-up buyer's email when they have no account
   notes: text("notes"),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -386,15 +848,28 @@ export const orderRelations = relations(orders, ({ one, many }) => ({
     fields: [orders.eventId],
     references: [events.id],
   }),
+  promoCode: one(promoCodes, {
+    fields: [orders.promoCodeId],
+    references: [promoCodes.id],
+  }),
+  cashDrawerSession: one(cashDrawerSessions, {
+    fields: [orders.cashDrawerSessionId],
+    references: [cashDrawerSessions.id],
+  }),
   items: many(orderItems),
   tickets: many(tickets),
   vendorRegistrations: many(vendorRegistrations),
+  refunds: many(refunds),
   adminNotes: many(adminNotes),
 }));
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   orderNumber: true,
+  fulfilledAt: true,
+  stockReservedAt: true,
+  expiresAt: true,
+  refundedAmount: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -409,7 +884,9 @@ export const orderItems = pgTable("order_items", {
   description: text("description"),
   quantity: integer("quantity").default(1).notNull(),
   unitPrice: doublePrecision("unit_price").notNull(),
-  totalPrice: doublePrecision("total_price").notNull(),
+  totalPrice: doublePrecision("total_price").notNull(), // unitPrice * quantity less discountAmount
+  discountAmount: doublePrecision("discount_amount").default(0).notNull(),
+  refundedQuantity: integer("refunded_quantity").default(0).notNull(),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -428,6 +905,7 @@ export const orderItemRelations = relations(orderItems, ({ one }) => ({
 
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
+  refundedQuantity: true,
   createdAt: true,
 });
 
@@ -437,11 +915,17 @@ export const tickets = pgTable("tickets", {
   userId: integer("user_id").notNull(),
   eventId: integer("event_id").notNull(),
   orderId: integer("order_id").notNull(),
+  orderItemId: integer("order_item_id"), // Order item the ticket was issued for
   ticketType: text("ticket_type").default("standard").notNull(), // "standard", "vip", "early-bird", etc.
   ticketNumber: text("ticket_number").notNull().unique(),
   status: text("status").default("active").notNull(), // "active", "used", "cancelled", "refunded"
   price: doublePrecision("price").notNull(),
   checkInTime: timestamp("check_in_time"),
+  checkInDeviceId: text("check_in_device_id"), // Scanning device for offline check-ins, null when checked in online
+  attendeeName: text("attendee_name"), // From the ticket's "name" question, null if not asked
+  attendeeEmail: text("attendee_email"), // From the ticket's "email" question, null if not asked
+  attendeeAnswers: jsonb("attendee_answers"), // { [questionId]: answer } for this ticket's holder
+  entryRule: text("entry_rule").default("single").notNull(), // "single" (one entry), "reentry" (in/out), "daily" (one entry per day)
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -460,6 +944,12 @@ export const ticketRelations = relations(tickets, ({ one, many }) => ({
     fields: [tickets.orderId],
     references: [orders.id],
   }),
+  orderItem: one(orderItems, {
+    fields: [tickets.orderItemId],
+    references: [orderItems.id],
+  }),
+  checkInLogs: many(checkInLogs),
+  transfers: many(ticketTransfers),
   adminNotes: many(adminNotes),
 }));
 
@@ -467,10 +957,278 @@ export const insertTicketSchema = createInsertSchema(tickets).omit({
   id: true,
   ticketNumber: true,
   checkInTime: true,
+  checkInDeviceId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A ticket offered by its holder to someone else by email. Accepting moves the ticket to the
+// recipient under a new ticket number, so the sender's copy of the QR code stops scanning.
+export const ticketTransfers = pgTable("ticket_transfers", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  fromUserId: integer("from_user_id").notNull(),
+  toEmail: text("to_email").notNull(), // Stored lower-case
+  toUserId: integer("to_user_id"), // Set when accepted
+  token: text("token").notNull().unique(), // Sent in the acceptance link
+  status: text("status").default("pending").notNull(), // "pending", "accepted", "cancelled"
+  oldTicketNumber: text("old_ticket_number").notNull(),
+  newTicketNumber: text("new_ticket_number"), // Issued on acceptance
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const ticketTransferRelations = relations(ticketTransfers, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [ticketTransfers.ticketId],
+    references: [tickets.id],
+  }),
+  fromUser: one(users, {
+    fields: [ticketTransfers.fromUserId],
+    references: [users.id],
+  }),
+  toUser: one(users, {
+    fields: [ticketTransfers.toUserId],
+    references: [users.id],
+  }),
+}));
+
+export const insertTicketTransferSchema = createInsertSchema(ticketTransfers).omit({
+  id: true,
+  toUserId: true,
+  status: true,
+  newTicketNumber: true,
+  acceptedAt: true,
+  createdAt: true,
+});
+
+// A device that saved a ticket's Apple Wallet pass and asked to be pushed updates to it.
+// serialNumber is the pass serial, "ticket-<ticketId>".
+export const walletPassRegistrations = pgTable("wallet_pass_registrations", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  deviceLibraryIdentifier: text("device_library_identifier").notNull(),
+  pushToken: text("push_token").notNull(),
+  passTypeIdentifier: text("pass_type_identifier").notNull(),
+  serialNumber: text("serial_number").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("wallet_pass_registrations_device_pass_unique").on(table.deviceLibraryIdentifier, table.passTypeIdentifier, table.serialNumber),
+]);
+
+export const walletPassRegistrationRelations = relations(walletPassRegistrations, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [walletPassRegistrations.ticketId],
+    references: [tickets.id],
+  }),
+}));
+
+export const insertWalletPassRegistrationSchema = createInsertSchema(walletPassRegistrations).omit({
+  id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// What a waitlist queues for: a product's quantity (ticket tier, vendor spot or volunteer shift
+// product), an event's own ticketsAvailable, or the availableSpots of a vendor spot or volunteer shift
+export const WAITLIST_CAPACITY_TYPES = ["product", "event", "vendor_spot", "volunteer_shift"] as const;
+
+// A place in line for something sold out. When capacity frees up the next entries are offered it:
+// the units are held for them until the offer expires, and checking out (or signing up, for spots
+// and shifts) with the claim token turns the hold into their order, registration or assignment.
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  capacityType: text("capacity_type").default("product").notNull(), // One of WAITLIST_CAPACITY_TYPES
+  capacityId: integer("capacity_id").notNull(), // The product, event, vendor spot or volunteer shift
+  userId: integer("user_id").notNull(),
+  quantity: integer("quantity").default(1).notNull(),
+  position: integer("position").notNull(), // Order in the queue, lowest first; organizers can reorder
+  status: text("status").default("waiting").notNull(), // "waiting", "offered", "claimed", "expired", "cancelled"
+  claimToken: text("claim_token").unique(), // Sent in the claim link once offered
+  offeredAt: timestamp("offered_at"),
+  offerExpiresAt: timestamp("offer_expires_at"),
+  claimedAt: timestamp("claimed_at"),
+  orderId: integer("order_id"), // The order the offer was claimed with
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const waitlistEntryRelations = relations(waitlistEntries, ({ one }) => ({
+  event: one(events, {
+    fields: [waitlistEntries.eventId],
+    references: [events.id],
+  }),
+  user: one(users, {
+    fields: [waitlistEntries.userId],
+    references: [users.id],
+  }),
+  order: one(orders, {
+    fields: [waitlistEntries.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries, {
+  capacityType: z.enum(WAITLIST_CAPACITY_TYPES),
+  quantity: z.coerce.number().int().min(1).max(10),
+}).omit({
+  id: true,
+  position: true,
+  status: true,
+  claimToken: true,
+  offeredAt: true,
+  offerExpiresAt: true,
+  claimedAt: true,
+  orderId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Refunds issued against an order (full or per item)
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  amount: doublePrecision("amount").notNull(),
+  reason: text("reason"),
+  status: text("status").default("succeeded").notNull(), // "pending", "succeeded", "failed"
+  stripeRefundId: text("stripe_refund_id"),
+  // Taking the organizer's share back from a transfer they were already paid: null when there's
+  // none, otherwise "pending" until it succeeds
+  reversalStatus: text("reversal_status"),
+  stripeReversalId: text("stripe_reversal_id"),
+  items: jsonb("items").notNull(), // [{ orderItemId, quantity, amount }]
+  createdBy: integer("created_by"), // User who issued the refund
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const refundRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  createdByUser: one(users, {
+    fields: [refunds.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Cash drawer sessions for door sales, reconciled when the drawer is closed
+export const cashDrawerSessions = pgTable("cash_drawer_sessions", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  openedBy: integer("opened_by").notNull(),
+  closedBy: integer("closed_by"),
+  status: text("status").default("open").notNull(), // "open", "closed"
+  openingAmount: doublePrecision("opening_amount").notNull(), // Float counted into the drawer
+  expectedAmount: doublePrecision("expected_amount"), // Opening float plus net cash sales, set on close
+  closingAmount: doublePrecision("closing_amount"), // Counted out of the drawer on close
+  notes: text("notes"),
+  openedAt: timestamp("opened_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
+export const cashDrawerSessionRelations = relations(cashDrawerSessions, ({ one, many }) => ({
+  event: one(events, {
+    fields: [cashDrawerSessions.eventId],
+    references: [events.id],
+  }),
+  openedByUser: one(users, {
+    fields: [cashDrawerSessions.openedBy],
+    references: [users.id],
+  }),
+  orders: many(orders),
+}));
+
+export const insertCashDrawerSessionSchema = createInsertSchema(cashDrawerSessions).omit({
+  id: true,
+  closedBy: true,
+  status: true,
+  expectedAmount: true,
+  closingAmount: true,
+  openedAt: true,
+  closedAt: true,
+});
+
+// A short-lived code a buyer reads out at the door to approve a charge to their card on file.
+// Checking it, right or wrong, uses it up.
+export const doorPaymentCodes = pgTable("door_payment_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  code: text("code").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Offline check-ins that arrived for a ticket another device (or the online scanner) had already checked in
+export const checkInConflicts = pgTable("check_in_conflicts", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  ticketId: integer("ticket_id").notNull(),
+  deviceId: text("device_id").notNull(), // Device whose check-in was refused
+  scannedAt: timestamp("scanned_at").notNull(), // When that device scanned the ticket
+  existingDeviceId: text("existing_device_id"), // Device that checked the ticket in first, null if online
+  existingCheckInTime: timestamp("existing_check_in_time"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const checkInConflictRelations = relations(checkInConflicts, ({ one }) => ({
+  event: one(events, {
+    fields: [checkInConflicts.eventId],
+    references: [events.id],
+  }),
+  ticket: one(tickets, {
+    fields: [checkInConflicts.ticketId],
+    references: [tickets.id],
+  }),
+}));
+
+export const insertCheckInConflictSchema = createInsertSchema(checkInConflicts).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Every entry and exit scan at the door. checkInTime on the ticket stays the first entry;
+// re-entry rules and live occupancy are worked out from this log.
+export const checkInLogs = pgTable("check_in_logs", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull(),
+  ticketId: integer("ticket_id").notNull(),
+  direction: text("direction").notNull(), // "in", "out"
+  gate: text("gate"), // Entrance the scan happened at, e.g. "Main Gate"
+  deviceId: text("device_id"), // Offline scanning device, null for online scans
+  staffUserId: integer("staff_user_id"), // Who scanned the ticket
+  scannedAt: timestamp("scanned_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const checkInLogRelations = relations(checkInLogs, ({ one }) => ({
+  event: one(events, {
+    fields: [checkInLogs.eventId],
+    references: [events.id],
+  }),
+  ticket: one(tickets, {
+    fields: [checkInLogs.ticketId],
+    references: [tickets.id],
+  }),
+  staffUser: one(users, {
+    fields: [checkInLogs.staffUserId],
+    references: [users.id],
+  }),
+}));
+
+export const insertCheckInLogSchema = createInsertSchema(checkInLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Admin note model
 export const adminNotes = pgTable("admin_notes", {
   id: serial("id").primaryKey(),
@@ -538,6 +1296,30 @@ export const insertAnalyticsSchema = createInsertSchema(analytics).omit({
   dateTime: true,
 });
 
+// Stripe webhook event journal (one row per Stripe event id)
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  stripeEventId: text("stripe_event_id").notNull().unique(),
+  type: text("type").notNull(), // e.g. "checkout.session.completed"
+  payload: jsonb("payload").notNull(), // Full Stripe event object as received
+  status: text("status").default("pending").notNull(), // "pending", "processing", "processed", "failed"
+  attempts: integer("attempts").default(0).notNull(),
+  error: text("error"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  error: true,
+  processedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -548,15 +1330,42 @@ export type InsertUserOnboarding = z.infer<typeof insertUserOnboardingSchema>;
 export type Event = typeof events.$inferSelect;
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 
+export type Venue = typeof venues.$inferSelect;
+export type InsertVenue = z.infer<typeof insertVenueSchema>;
+export type VenueSiteMap = z.infer<typeof venueSiteMapSchema>;
+
+export type EventSeries = typeof eventSeries.$inferSelect;
+export type InsertEventSeries = z.infer<typeof insertEventSeriesSchema>;
+
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type PriceStep = z.infer<typeof priceStepSchema>;
+export type VendorPaymentMode = typeof VENDOR_PAYMENT_MODES[number];
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+
+export type AttendeeQuestion = typeof attendeeQuestions.$inferSelect;
+export type InsertAttendeeQuestion = z.infer<typeof insertAttendeeQuestionSchema>;
+
+export type EventSession = typeof eventSessions.$inferSelect;
+export type InsertEventSession = z.infer<typeof insertEventSessionSchema>;
+
+export type AgendaEntry = typeof agendaEntries.$inferSelect;
 
 export type VendorSpot = typeof vendorSpots.$inferSelect;
 export type InsertVendorSpot = z.infer<typeof insertVendorSpotSchema>;
 
+export type VendorBooth = typeof vendorBooths.$inferSelect;
+export type InsertVendorBooth = z.infer<typeof insertVendorBoothSchema>;
+
 export type VendorProfile = typeof vendorProfiles.$inferSelect;
 export type InsertVendorProfile = z.infer<typeof insertVendorProfileSchema>;
 
+export type VendorDocument = typeof vendorDocuments.$inferSelect;
+export type InsertVendorDocument = z.infer<typeof insertVendorDocumentSchema>;
+export type VendorDocumentType = typeof VENDOR_DOCUMENT_TYPES[number];
+
 export type VendorRegistration = typeof vendorRegistrations.$inferSelect;
 export type InsertVendorRegistration = z.infer<typeof insertVendorRegistrationSchema>;
 
@@ -569,6 +1378,12 @@ export type InsertVolunteerShift = z.infer<typeof insertVolunteerShiftSchema>;
 export type VolunteerAssignment = typeof volunteerAssignments.$inferSelect;
 export type InsertVolunteerAssignment = z.infer<typeof insertVolunteerAssignmentSchema>;
 
+export type ApplicationForm = typeof applicationForms.$inferSelect;
+export type InsertApplicationForm = z.infer<typeof insertApplicationFormSchema>;
+export type ApplicationFormType = typeof APPLICATION_FORM_TYPES[number];
+export type ApplicationFormField = z.infer<typeof applicationFormFieldSchema>;
+export type ApplicationAnswers = Record<string, string | boolean>; // Keyed by field id
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
@@ -578,8 +1393,36 @@ export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 export type Ticket = typeof tickets.$inferSelect;
 export type InsertTicket = z.infer<typeof insertTicketSchema>;
 
+export type TicketTransfer = typeof ticketTransfers.$inferSelect;
+export type InsertTicketTransfer = z.infer<typeof insertTicketTransferSchema>;
+
+export type WalletPassRegistration = typeof walletPassRegistrations.$inferSelect;
+export type InsertWalletPassRegistration = z.infer<typeof insertWalletPassRegistrationSchema>;
+
+export type WaitlistCapacityType = typeof WAITLIST_CAPACITY_TYPES[number];
+export type WaitlistCapacity = { type: WaitlistCapacityType; id: number };
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+
+export type CashDrawerSession = typeof cashDrawerSessions.$inferSelect;
+export type InsertCashDrawerSession = z.infer<typeof insertCashDrawerSessionSchema>;
+
+export type DoorPaymentCode = typeof doorPaymentCodes.$inferSelect;
+
+export type CheckInConflict = typeof checkInConflicts.$inferSelect;
+export type InsertCheckInConflict = z.infer<typeof insertCheckInConflictSchema>;
+
+export type CheckInLog = typeof checkInLogs.$inferSelect;
+export type InsertCheckInLog = z.infer<typeof insertCheckInLogSchema>;
+
 export type AdminNote = typeof adminNotes.$inferSelect;
 export type InsertAdminNote = z.infer<typeof insertAdminNoteSchema>;
 
 export type Analytics = typeof analytics.$inferSelect;
-export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
\ No newline at end of file
+export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
@@ -0,0 +1,39 @@
+// Events without a time zone of their own are held here (Moss Point, MS)
+export const DEFAULT_TIME_ZONE = "America/Chicago";
+
+// Offered on the event form; any IANA zone is accepted by the API
+export const EVENT_TIME_ZONES = [
+  { value: "America/New_York", label: "Eastern" },
+  { value: "America/Chicago", label: "Central" },
+  { value: "America/Denver", label: "Mountain" },
+  { value: "America/Phoenix", label: "Arizona" },
+  { value: "America/Los_Angeles", label: "Pacific" },
+  { value: "America/Anchorage", label: "Alaska" },
+  { value: "Pacific/Honolulu", label: "Hawaii" },
+];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// YYYY-MM-DD of the calendar day the instant falls on in the time zone
+export function toZonedDateKey(date: Date | string, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(date));
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+// Same calendar day at the event, whatever the clock of the server or device comparing them
+export function isSameDayInTimeZone(a: Date | string, b: Date | string, timeZone: string): boolean {
+  return toZonedDateKey(a, timeZone) === toZonedDateKey(b, timeZone);
+}